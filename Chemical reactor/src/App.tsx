@@ -1,209 +1,326 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Activity, Beaker, Settings, TrendingUp, Thermometer, Droplets, BookOpen, Play, Pause, RotateCcw, AlertTriangle, Menu, X } from 'lucide-react';
-import { CSTRSimulator, CSTRState, CSTRParameters } from './utils/cstrModel';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Activity, Beaker, Settings, Droplets, BookOpen, Play, Pause, RotateCcw, AlertTriangle, Menu, X, Download } from 'lucide-react';
+import { CSTRState, CSTRParameterKey, CSTRParameters, FLOW_REGIME_LABELS } from './utils/cstrModel';
+import { IntegratorMethod, INTEGRATOR_LABELS } from './utils/integrators';
 import { AssumptionsModal } from './components/AssumptionsModal';
-
-interface ParameterHistory {
-  volume: number[];
-  concentration: number[];
-  temperature: number[];
-  jacketTemp: number[];
-  time: number[];
-  conversion: number[];
-  reactionRate: number[];
-  outletFlow: number[];
-}
+import { SteadyStatePanel } from './components/SteadyStatePanel';
+import { LinearizationPanel } from './components/LinearizationPanel';
+import { BifurcationPanel } from './components/BifurcationPanel';
+import { HeatBalancePanel } from './components/HeatBalancePanel';
+import { PhasePlanePanel } from './components/PhasePlanePanel';
+import { ControlPanel } from './components/ControlPanel';
+import { ScenarioPanel } from './components/ScenarioPanel';
+import { ControlConfig, DEFAULT_CONTROL_CONFIG } from './utils/controllers';
+import { Scenario } from './utils/scenarios';
+import { downloadFile } from './utils/download';
+import { Preset, presetFromQuery, REFERENCE_INITIAL_STATE, REFERENCE_PARAMETERS } from './utils/presets';
+import { PresetPanel } from './components/PresetPanel';
+import { InitialStatePanel } from './components/InitialStatePanel';
+import { PinnedRun, RunComparisonPanel } from './components/RunComparisonPanel';
+import { ReactionNetworkPanel } from './components/ReactionNetworkPanel';
+import { RateLawPanel } from './components/RateLawPanel';
+import { UnitsPanel } from './components/UnitsPanel';
+import { displayUnit, loadUnitPreferences, saveUnitPreferences, UnitPreferences } from './utils/quantities';
+import { fromSI } from './utils/units';
+import { AlarmConfig, defaultAlarmConfig, validateAlarmConfig } from './utils/alarms';
+import { AlarmPanel } from './components/AlarmPanel';
+import { DEFAULT_INTERLOCK_CONFIG, InterlockConfig, InterlockId } from './utils/interlocks';
+import { RunawayPanel } from './components/RunawayPanel';
+import { SweepPanel } from './components/SweepPanel';
+import { MonteCarloPanel } from './components/MonteCarloPanel';
+import { EstimationPanel } from './components/EstimationPanel';
+import { TrendPanel } from './components/TrendPanel';
+import { TimelinePanel } from './components/TimelinePanel';
+import { AlarmAction, EngineSetup, EngineSnapshot, SimulationEngine, TrendWindow } from './utils/simulationEngine';
+import { SimulationClient, StudyProgressHandler } from './utils/simulationClient';
+import { MonteCarloSetup } from './utils/monteCarlo';
+import { RunSample } from './utils/runRecorder';
+import { niceDomain, niceStep } from './utils/chartScale';
+import { analyzeSteadyStates } from './utils/steadyState';
+
+// Real-time factors offered: simulated seconds per wall-clock second
+const SPEEDS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000];
+const DEFAULT_TREND_WINDOW: TrendWindow = { kind: 'latest', span: 120 };
+// ms the parameters must stay put before the steady-state analyses follow them
+const ANALYSIS_DELAY = 300;
 
 function App() {
   const [showAssumptions, setShowAssumptions] = useState(false);
   const [isRunning, setIsRunning] = useState(false);
   const [simulationSpeed, setSimulationSpeed] = useState(1);
+  const [solverError, setSolverError] = useState<string | null>(null);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   
-  // CSTR Parameters (based on MATLAB reference)
-  const [cstrParams, setCstrParams] = useState<CSTRParameters>({
-    inletFlowRate: 1.0,           // m³/s (F0)
-    feedConcentration: 0.5,       // mol/m³ (CA0)
-    feedTemperature: 350,         // K (T0)
-    jacketInletTemp: 300,         // K (TJ0)
-    valveConstant: 0.1,           // m³/(s·m³) (KV)
-    minimumVolume: 0.1,           // m³ (Vmin)
-    preExponentialFactor: 1,      // 1/s (alpha)
-    activationEnergy: 10000,      // J/mol (E)
-    gasConstant: 8.314,           // J/(mol·K) (R)
-    reactionOrder: 2,             // dimensionless (n)
-    density: 1000,                // kg/m³ (rho)
-    heatCapacity: 4.18,           // J/(kg·K) (Cp)
-    heatOfReaction: 1,            // J/mol (lambda)
-    heatTransferCoeff: 100,       // W/(m²·K) (U)
-    heatTransferArea: 1,          // m² (AH)
-    jacketDensity: 1000,          // kg/m³ (rhoJ)
-    jacketHeatCapacity: 4.18,     // J/(kg·K) (CJ)
-    jacketVolume: 0.1,            // m³ (VJ)
-    jacketFlowRate: 0.1           // m³/s (FJ)
+  // A shared link opens exactly the case it encodes; otherwise start from
+  // the MATLAB reference case
+  const [sharedPreset] = useState(() => {
+    try {
+      return presetFromQuery(window.location.search);
+    } catch {
+      return null;
+    }
+  });
+  const [cstrParams, setCstrParams] = useState<CSTRParameters>(sharedPreset?.parameters ?? REFERENCE_PARAMETERS);
+  const [initialState, setInitialState] = useState<CSTRState>(sharedPreset?.initialState ?? REFERENCE_INITIAL_STATE);
+  const [solverMethod, setSolverMethod] = useState<IntegratorMethod>(sharedPreset?.integrator ?? 'rk4');
+  // Parameters the slider ranges are fitted to: the last preset applied
+  const [sliderBasis, setSliderBasis] = useState<CSTRParameters>(cstrParams);
+
+  const [controlConfig, setControlConfig] = useState<ControlConfig>(DEFAULT_CONTROL_CONFIG);
+  const [activeScenario, setActiveScenario] = useState<Scenario | null>(null);
+  const [pinnedRuns, setPinnedRuns] = useState<PinnedRun[]>([]);
+  const [unitPreferences, setUnitPreferences] = useState<UnitPreferences>(() => loadUnitPreferences());
+  const [alarmConfig, setAlarmConfig] = useState<AlarmConfig>(() => defaultAlarmConfig(cstrParams));
+  const [interlockConfig, setInterlockConfig] = useState<InterlockConfig>(DEFAULT_INTERLOCK_CONFIG);
+  const nextRunIdRef = useRef(1);
+
+  // Everything needed to start a run from the current settings
+  const engineSetup = (overrides: Partial<EngineSetup> = {}): EngineSetup => ({
+    initialState,
+    parameters: cstrParams,
+    integrator: solverMethod,
+    controlConfig,
+    interlockConfig,
+    alarmConfig,
+    scenario: activeScenario,
+    ...overrides
   });
 
-  // Initial state (based on MATLAB reference)
-  const initialState: CSTRState = {
-    volume: 1.0,        // m³ (V0)
-    concentration: 0.5, // mol/m³ (CA0)
-    temperature: 350,   // K (T0)
-    jacketTemp: 300,    // K (TJ0)
-    time: 0             // s
-  };
+  // The run lives in a worker; the UI draws the latest snapshot it posted.
+  // The first one is built here so there is something to draw at once.
+  const [startupSetup] = useState(() => engineSetup());
+  const [snapshot, setSnapshot] = useState<EngineSnapshot>(() => new SimulationEngine(startupSetup).snapshot());
+  const [achievedSpeed, setAchievedSpeed] = useState<number | null>(null);
+  const [trendWindow, setTrendWindow] = useState<TrendWindow>(DEFAULT_TREND_WINDOW);
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+  const clientRef = useRef<SimulationClient | null>(null);
+  const currentState = snapshot.state;
+  // A branched run starts with the samples of the run it came from
+  const runStart = snapshot.currentRun.time[0] ?? initialState.time;
+  const history = snapshot.history;
+
+  // Start the worker with the settings the page opened with; it is replaced
+  // on remount, and later changes reach it as commands
+  useEffect(() => {
+    const client = new SimulationClient({
+      onSnapshot: (message) => {
+        setSnapshot(message.snapshot);
+        setAchievedSpeed(message.achievedFactor);
+      },
+      onSolverError: (message) => {
+        setSolverError(message);
+        setIsRunning(false);
+      }
+    });
+    clientRef.current = client;
+    client.send({ type: 'reset', setup: startupSetup });
+    return () => {
+      client.terminate();
+      clientRef.current = null;
+    };
+  }, [startupSetup]);
 
-  const [currentState, setCurrentState] = useState<CSTRState>(initialState);
-  const [history, setHistory] = useState<ParameterHistory>({
-    volume: [1.0],
-    concentration: [0.5],
-    temperature: [350],
-    jacketTemp: [300],
-    time: [0],
-    conversion: [0],
-    reactionRate: [0],
-    outletFlow: [0]
-  });
+  useEffect(() => {
+    clientRef.current?.send({ type: isRunning ? 'run' : 'pause' });
+  }, [isRunning]);
 
-  const simulatorRef = useRef<CSTRSimulator | null>(null);
+  useEffect(() => {
+    clientRef.current?.send({ type: 'setSpeed', realTimeFactor: simulationSpeed });
+  }, [simulationSpeed]);
 
-  // Initialize simulator
   useEffect(() => {
-    simulatorRef.current = new CSTRSimulator(initialState, cstrParams);
-  }, []);
+    clientRef.current?.send({ type: 'setTrendWindow', window: trendWindow });
+  }, [trendWindow]);
 
-  // Update simulator parameters when controls change
   useEffect(() => {
-    if (simulatorRef.current) {
-      simulatorRef.current.updateParameters(cstrParams);
-    }
+    clientRef.current?.send({ type: 'setScrubTime', time: scrubTime });
+  }, [scrubTime]);
+
+  // Retune or switch control loops without restarting the simulation
+  useEffect(() => {
+    clientRef.current?.send({ type: 'configureControl', config: controlConfig });
+  }, [controlConfig]);
+
+  // Swap the integrator when a different solver is selected
+  useEffect(() => {
+    clientRef.current?.send({ type: 'setIntegrator', method: solverMethod });
+  }, [solverMethod]);
+
+  // Finding and tracing steady states takes tens of milliseconds a time, too
+  // slow for every slider tick, so the analysis panels follow the parameters
+  // once they settle and share one search
+  const [analysisParams, setAnalysisParams] = useState(cstrParams);
+  useEffect(() => {
+    const timer = setTimeout(() => setAnalysisParams(cstrParams), ANALYSIS_DELAY);
+    return () => clearTimeout(timer);
   }, [cstrParams]);
+  const steadyStates = useMemo(() => analyzeSteadyStates(analysisParams), [analysisParams]);
 
-  // Simulation loop
+  // Update simulator parameters when controls change
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (isRunning && simulatorRef.current) {
-      interval = setInterval(() => {
-        // Run multiple steps for faster simulation
-        for (let i = 0; i < simulationSpeed; i++) {
-          const newState = simulatorRef.current!.step();
-          setCurrentState(newState);
-          
-          // Update history (keep last 50 points)
-          setHistory(prev => {
-            const maxPoints = 50;
-            const conversion = simulatorRef.current!.getConversion();
-            const reactionRate = simulatorRef.current!.getReactionRate();
-            const outletFlow = simulatorRef.current!.getOutletFlow();
-            
-            return {
-              volume: [...prev.volume.slice(-maxPoints + 1), newState.volume],
-              concentration: [...prev.concentration.slice(-maxPoints + 1), newState.concentration],
-              temperature: [...prev.temperature.slice(-maxPoints + 1), newState.temperature],
-              jacketTemp: [...prev.jacketTemp.slice(-maxPoints + 1), newState.jacketTemp],
-              time: [...prev.time.slice(-maxPoints + 1), newState.time],
-              conversion: [...prev.conversion.slice(-maxPoints + 1), conversion],
-              reactionRate: [...prev.reactionRate.slice(-maxPoints + 1), reactionRate],
-              outletFlow: [...prev.outletFlow.slice(-maxPoints + 1), outletFlow]
-            };
-          });
-        }
-      }, 100); // Update every 100ms
-    }
-    return () => clearInterval(interval);
-  }, [isRunning, simulationSpeed]);
+    clientRef.current?.send({ type: 'updateParameters', parameters: cstrParams });
+  }, [cstrParams]);
 
-  const resetSimulation = () => {
+  // Restart from the initial state; an active scenario replays from t = 0.
+  // Callers that just changed parameters or initial state pass the new values
+  // since state updates are not visible until the next render.
+  const resetSimulation = ({
+    scenario = activeScenario,
+    parameters = cstrParams,
+    start = initialState,
+    integrator = solverMethod,
+    alarms = alarmConfig
+  }: {
+    scenario?: Scenario | null;
+    parameters?: CSTRParameters;
+    start?: CSTRState;
+    integrator?: IntegratorMethod;
+    alarms?: AlarmConfig;
+  } = {}) => {
     setIsRunning(false);
-    setCurrentState(initialState);
-    setHistory({
-      volume: [1.0],
-      concentration: [0.5],
-      temperature: [350],
-      jacketTemp: [300],
-      time: [0],
-      conversion: [0],
-      reactionRate: [0],
-      outletFlow: [0]
+    clientRef.current?.send({
+      type: 'reset',
+      setup: engineSetup({ scenario, parameters, initialState: start, integrator, alarmConfig: alarms })
     });
-    simulatorRef.current = new CSTRSimulator(initialState, cstrParams);
+    // A range zoomed into the old run means nothing in the new one
+    setTrendWindow(prev => (prev.kind === 'range' ? DEFAULT_TREND_WINDOW : prev));
+    setScrubTime(null);
+    setSolverError(null);
     setIsMobileMenuOpen(false);
   };
 
-  const handleParameterChange = (key: keyof CSTRParameters, value: number) => {
+  const runScenario = (scenario: Scenario) => {
+    setActiveScenario(scenario);
+    resetSimulation({ scenario });
+    // The reset pauses the worker, which may have been running already
+    clientRef.current?.send({ type: 'run' });
+    setIsRunning(true);
+  };
+
+  // Keep the current run going with the sliders back in charge
+  const stopScenario = () => {
+    setActiveScenario(null);
+    clientRef.current?.send({ type: 'stopScenario', parameters: cstrParams });
+  };
+
+  // The concentration and level alarms move to the preset's scale; the
+  // other limits stay as the operator set them
+  const applyPreset = (preset: Preset) => {
+    const integrator = preset.integrator ?? solverMethod;
+    const scaled = defaultAlarmConfig(preset.parameters);
+    const alarms = { ...alarmConfig, concentration: scaled.concentration, volume: scaled.volume };
+    setCstrParams(preset.parameters);
+    setInitialState(preset.initialState);
+    setSolverMethod(integrator);
+    setSliderBasis(preset.parameters);
+    setAlarmConfig(alarms);
+    resetSimulation({ parameters: preset.parameters, start: preset.initialState, integrator, alarms });
+  };
+
+  const applyInitialState = (state: CSTRState) => {
+    setInitialState(state);
+    resetSimulation({ start: state });
+  };
+
+  // Requests are rejected if the worker fails, which onSolverError has
+  // already shown, so there is nothing more to do with the rejection
+  const settled = <T,>(request: Promise<T> | undefined) => request?.catch(() => undefined);
+
+  const pinRun = async () => {
+    const id = nextRunIdRef.current++;
+    const { volume, concentration, temperature, jacketTemp } = initialState;
+    const label = `Run ${id}: V₀=${volume} m³, CA₀=${concentration} mol/m³, T₀=${temperature} K, TJ₀=${jacketTemp} K`;
+    const run = await settled(clientRef.current?.pinRun());
+    if (run) setPinnedRuns(prev => [...prev, { id, label, run }]);
+  };
+
+  // Pin the run as it is, then carry on from the inspected sample with the
+  // operator's settings of that time back on the sliders; the controllers,
+  // interlocks and scenario write over them again as they did then
+  const branchRun = async (sample: RunSample) => {
+    setIsRunning(false);
+    const id = nextRunIdRef.current++;
+    const time = sample.values.time;
+    // The worker pins before it branches, as commands are handled in order
+    const pinned = settled(clientRef.current?.pinRun());
+    const branched = settled(clientRef.current?.branch(time));
+    setScrubTime(null);
+    setSolverError(null);
+    const run = await pinned;
+    if (run) setPinnedRuns(prev => [...prev, { id, label: `Run ${id}: before branching at t = ${time.toFixed(1)} s`, run }]);
+    const parameters = await branched;
+    if (parameters) setCstrParams(parameters);
+  };
+
+  const exportRun = async (format: 'csv' | 'json') => {
+    const text = await settled(clientRef.current?.exportText(format));
+    if (text === undefined) return;
+    if (format === 'csv') {
+      // Byte-order mark so Excel reads the unit symbols as UTF-8
+      downloadFile('\ufeff' + text, 'cstr-run.csv', 'text/csv');
+    } else {
+      downloadFile(text, 'cstr-run.json', 'application/json');
+    }
+  };
+
+  const exportAlarmLog = async () => {
+    const text = await settled(clientRef.current?.exportText('alarmLog'));
+    if (text !== undefined) downloadFile(text + '\n', 'cstr-alarms.csv', 'text/csv');
+  };
+
+  const configureInterlocks = (config: InterlockConfig) => {
+    clientRef.current?.send({ type: 'configureInterlocks', config });
+    setInterlockConfig(config);
+  };
+
+  // Hand the held parameters back to the sliders and any running scenario
+  const resetInterlock = (id: InterlockId) => {
+    clientRef.current?.send({ type: 'resetInterlock', id, parameters: cstrParams });
+  };
+
+  // Validated here first so a bad limit leaves everything as it was
+  const configureAlarms = (config: AlarmConfig) => {
+    validateAlarmConfig(config);
+    clientRef.current?.send({ type: 'configureAlarms', config });
+    setAlarmConfig(config);
+  };
+
+  // Monte Carlo studies run in the worker beside the live run
+  const runStudy = async (setup: MonteCarloSetup, onProgress: StudyProgressHandler) => {
+    if (!clientRef.current) throw new Error('The simulation worker is not running');
+    await clientRef.current.runStudy(setup, onProgress);
+  };
+
+  const alarmAction = (action: AlarmAction) => {
+    clientRef.current?.send({ type: 'alarmAction', action });
+  };
+
+  const handleParameterChange = (key: CSTRParameterKey, value: number) => {
     setCstrParams(prev => ({ ...prev, [key]: value }));
   };
 
-  // Safety checks
-  const getSafetyStatus = () => {
-    const tempHigh = currentState.temperature > 400; // K
-    const tempLow = currentState.temperature < 280; // K
-    const concHigh = currentState.concentration > 2.0; // mol/m³
-    const volumeLow = currentState.volume < 0.2; // m³
-    const conversionLow = simulatorRef.current ? simulatorRef.current.getConversion() < 30 : false;
-
-    return {
-      temperature: tempHigh ? 'danger' : tempLow ? 'warning' : 'normal',
-      concentration: concHigh ? 'warning' : 'normal',
-      volume: volumeLow ? 'warning' : 'normal',
-      conversion: conversionLow ? 'warning' : 'normal'
-    };
+  const handleUnitPreferencesChange = (preferences: UnitPreferences) => {
+    setUnitPreferences(preferences);
+    saveUnitPreferences(preferences);
   };
 
-  const safetyStatus = getSafetyStatus();
+  // Slider readout in the preferred unit; the slider itself moves in SI
+  const sliderUnits = (key: CSTRParameterKey) => {
+    const unit = displayUnit(key, unitPreferences);
+    return { unit, toDisplay: (value: number) => fromSI(value, unit) };
+  };
 
-  const MiniGraph = ({ title, data, color, unit, min, max }: { 
-    title: string; 
-    data: number[]; 
-    color: string; 
-    unit: string;
-    min?: number;
-    max?: number;
-  }) => {
-    const dataMin = min ?? Math.min(...data);
-    const dataMax = max ?? Math.max(...data);
-    const range = dataMax - dataMin || 1;
-
-    return (
-      <div className="bg-white rounded-lg p-3 sm:p-4 shadow-md border border-gray-200">
-        <h3 className="text-xs sm:text-sm font-semibold text-gray-700 mb-2 sm:mb-3">{title}</h3>
-        <div className="h-16 sm:h-20 relative">
-          <svg className="w-full h-full" viewBox="0 0 100 50">
-            <defs>
-              <linearGradient id={`gradient-${color.replace('#', '')}`} x1="0%" y1="0%" x2="0%" y2="100%">
-                <stop offset="0%" stopColor={color} stopOpacity="0.3"/>
-                <stop offset="100%" stopColor={color} stopOpacity="0.1"/>
-              </linearGradient>
-            </defs>
-            {data.length > 1 && (
-              <>
-                <polyline
-                  fill={`url(#gradient-${color.replace('#', '')})`}
-                  stroke={color}
-                  strokeWidth="2"
-                  points={data.map((val, i) => 
-                    `${(i / (data.length - 1)) * 100},${50 - ((val - dataMin) / range) * 30}`
-                  ).join(' ') + ` 100,50 0,50`}
-                />
-                <polyline
-                  fill="none"
-                  stroke={color}
-                  strokeWidth="2"
-                  points={data.map((val, i) => 
-                    `${(i / (data.length - 1)) * 100},${50 - ((val - dataMin) / range) * 30}`
-                  ).join(' ')}
-                />
-              </>
-            )}
-          </svg>
-        </div>
-        <div className="text-xs text-gray-500 mt-1 sm:mt-2">
-          Current: {data[data.length - 1]?.toFixed(3)} {unit}
-        </div>
-      </div>
-    );
+  // A slider's own range, unless the preset's value lies outside it; then
+  // from zero to twice that value, so the preset can be shown and edited
+  const sliderRange = (key: CSTRParameterKey, min: number, max: number, step: number) => {
+    const value = sliderBasis[key];
+    if (value >= min && value <= max) return { min, max, step };
+    if (value < min) return { min: value, max, step };
+    const [, high] = niceDomain([0, 2 * value]);
+    return { min: 0, max: high, step: niceStep([0, high], 100) };
   };
 
-  const ControlSlider = ({ label, value, onChange, min = 0, max = 1, step = 0.1, unit = "" }: {
+  const ControlSlider = ({ label, value, onChange, min = 0, max = 1, step = 0.1, unit = "", toDisplay = (v: number) => v }: {
     label: string;
     value: number;
     onChange: (value: number) => void;
@@ -211,11 +328,12 @@ function App() {
     max?: number;
     step?: number;
     unit?: string;
+    toDisplay?: (value: number) => number;
   }) => (
     <div className="bg-white rounded-lg p-3 sm:p-4 shadow-md border border-gray-200">
       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-2">
         <label className="text-xs sm:text-sm font-medium text-gray-700 mb-1 sm:mb-0">{label}</label>
-        <span className="text-xs sm:text-sm font-semibold text-blue-600">{value.toFixed(3)} {unit}</span>
+        <span className="text-xs sm:text-sm font-semibold text-blue-600">{toDisplay(value).toFixed(3)} {unit}</span>
       </div>
       <input
         type="range"
@@ -227,12 +345,14 @@ function App() {
         className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
       />
       <div className="flex justify-between text-xs text-gray-400 mt-1">
-        <span>{min}</span>
-        <span>{max}</span>
+        <span>{Number(toDisplay(min).toPrecision(4))}</span>
+        <span>{Number(toDisplay(max).toPrecision(4))}</span>
       </div>
     </div>
   );
 
+  const { flowRegime, metrics } = snapshot;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50">
       {/* Header */}
@@ -254,7 +374,7 @@ function App() {
                 <span>Model Info</span>
               </button>
               <button 
-                onClick={resetSimulation}
+                onClick={() => resetSimulation()}
                 className="flex items-center space-x-2 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg font-medium transition-colors"
               >
                 <RotateCcw className="w-4 h-4" />
@@ -296,7 +416,7 @@ function App() {
                 <span>Model Info</span>
               </button>
               <button 
-                onClick={resetSimulation}
+                onClick={() => resetSimulation()}
                 className="flex items-center space-x-2 w-full px-3 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg font-medium transition-colors"
               >
                 <RotateCcw className="w-4 h-4" />
@@ -337,17 +457,55 @@ function App() {
                   onChange={(e) => setSimulationSpeed(Number(e.target.value))}
                   className="px-3 py-1 border border-gray-300 rounded-md text-sm"
                 >
-                  <option value={1}>1x</option>
-                  <option value={2}>2x</option>
-                  <option value={5}>5x</option>
-                  <option value={10}>10x</option>
+                  {SPEEDS.map(speed => <option key={speed} value={speed}>{speed}x</option>)}
+                </select>
+              </div>
+              <div className="flex items-center space-x-2">
+                <label className="text-sm font-medium text-gray-700">Solver:</label>
+                <select 
+                  value={solverMethod} 
+                  onChange={(e) => setSolverMethod(e.target.value as IntegratorMethod)}
+                  className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  {(Object.keys(INTEGRATOR_LABELS) as IntegratorMethod[]).map(method => (
+                    <option key={method} value={method}>{INTEGRATOR_LABELS[method]}</option>
+                  ))}
                 </select>
               </div>
+              <div className="flex items-center space-x-2">
+                <Download className="w-4 h-4 text-gray-600" />
+                <button
+                  onClick={() => exportRun('csv')}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:text-blue-600 transition-colors"
+                  title={`Export all ${snapshot.recordedSamples} samples`}
+                >
+                  CSV
+                </button>
+                <button
+                  onClick={() => exportRun('json')}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:text-blue-600 transition-colors"
+                  title={`Export all ${snapshot.recordedSamples} samples`}
+                >
+                  JSON
+                </button>
+              </div>
               <div className="text-sm text-gray-600">
                 Time: {currentState.time.toFixed(1)} s
+                {/* The worker falls behind when a step costs more than the speed allows */}
+                {isRunning && achievedSpeed !== null && achievedSpeed < 0.9 * simulationSpeed && (
+                  <span className="ml-2 text-amber-600" title="Simulated seconds per wall-clock second actually reached">
+                    (running at {achievedSpeed.toFixed(achievedSpeed < 10 ? 1 : 0)}x)
+                  </span>
+                )}
               </div>
             </div>
           </div>
+          {solverError && (
+            <div className="flex items-center space-x-2 mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span>Solver stopped: {solverError}. Try the stiff solver or reset the simulation.</span>
+            </div>
+          )}
           <p className="text-sm sm:text-base text-gray-600">
             Advanced CSTR simulation with variable volume, nth-order kinetics, and dynamic jacket cooling. 
             Based on rigorous mass and energy balances with Arrhenius temperature dependence.
@@ -405,9 +563,9 @@ function App() {
                       </div>
 
                       {/* Reaction bubbles based on reaction rate */}
-                      {isRunning && simulatorRef.current && (
+                      {isRunning && (
                         <>
-                          {Array.from({ length: Math.min(6, Math.floor(simulatorRef.current.getReactionRate() * 100)) }).map((_, i) => (
+                          {Array.from({ length: Math.min(6, Math.floor(metrics.reactionRate * 100)) }).map((_, i) => (
                             <div 
                               key={i}
                               className="absolute w-1.5 h-1.5 sm:w-2 sm:h-2 bg-white rounded-full opacity-60 animate-bounce"
@@ -431,6 +589,13 @@ function App() {
                         {currentState.volume.toFixed(3)} m³
                       </div>
                       
+                      {/* Overflow / dry outlet warning */}
+                      {flowRegime !== 'normal' && (
+                        <div className={`absolute top-8 sm:top-10 left-1/2 transform -translate-x-1/2 text-white text-xs px-1 sm:px-2 py-0.5 sm:py-1 rounded whitespace-nowrap ${flowRegime === 'overflow' ? 'bg-red-600' : 'bg-amber-600'}`}>
+                          {FLOW_REGIME_LABELS[flowRegime]}
+                        </div>
+                      )}
+
                       {/* Concentration display */}
                       <div className="absolute bottom-1 sm:bottom-2 right-1 sm:right-2 bg-black bg-opacity-50 text-white text-xs px-1 sm:px-2 py-0.5 sm:py-1 rounded">
                         {currentState.concentration.toFixed(3)} mol/m³
@@ -451,12 +616,18 @@ function App() {
                 <div className="absolute bottom-2 sm:bottom-4 right-2 sm:right-8 flex items-center">
                   <div className="w-8 sm:w-16 h-0.5 bg-green-500 mr-1 sm:mr-2"></div>
                   <div className="bg-green-500 text-white px-2 py-1 sm:px-3 sm:py-1 rounded-full text-xs sm:text-sm font-medium">
-                    Product: {(simulatorRef.current?.getConversion() || 0).toFixed(1)}%
+                    Product: {(metrics.conversion || 0).toFixed(1)}%
                   </div>
                 </div>
               </div>
             </div>
 
+            {/* Saved / Shared Cases */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+              <PresetPanel parameters={cstrParams} initialState={initialState} integrator={solverMethod} onApply={applyPreset} />
+              <InitialStatePanel initialState={initialState} currentState={currentState} onApply={applyInitialState} />
+            </div>
+
             {/* Process Control Parameters */}
             <div className="bg-white rounded-xl p-4 sm:p-6 shadow-lg border border-gray-200">
               <div className="flex items-center space-x-2 mb-4 sm:mb-6">
@@ -469,86 +640,61 @@ function App() {
                   label="Inlet Flow Rate (F0)"
                   value={cstrParams.inletFlowRate}
                   onChange={(val) => handleParameterChange('inletFlowRate', val)}
-                  min={0.1}
-                  max={3}
-                  step={0.1}
-                  unit="m³/s"
+                  {...sliderRange('inletFlowRate', 0.1, 3, 0.1)}
+                  {...sliderUnits('inletFlowRate')}
                 />
                 <ControlSlider
                   label="Feed Concentration (CA0)"
                   value={cstrParams.feedConcentration}
                   onChange={(val) => handleParameterChange('feedConcentration', val)}
-                  min={0.1}
-                  max={2}
-                  step={0.1}
-                  unit="mol/m³"
+                  {...sliderRange('feedConcentration', 0.1, 2, 0.1)}
+                  {...sliderUnits('feedConcentration')}
                 />
                 <ControlSlider
                   label="Feed Temperature (T0)"
                   value={cstrParams.feedTemperature}
                   onChange={(val) => handleParameterChange('feedTemperature', val)}
-                  min={300}
-                  max={400}
-                  step={5}
-                  unit="K"
+                  {...sliderRange('feedTemperature', 300, 400, 5)}
+                  {...sliderUnits('feedTemperature')}
                 />
                 <ControlSlider
                   label="Jacket Inlet Temp (TJ0)"
                   value={cstrParams.jacketInletTemp}
                   onChange={(val) => handleParameterChange('jacketInletTemp', val)}
-                  min={280}
-                  max={350}
-                  step={5}
-                  unit="K"
+                  {...sliderRange('jacketInletTemp', 280, 350, 5)}
+                  {...sliderUnits('jacketInletTemp')}
                 />
                 <ControlSlider
                   label="Valve Constant (KV)"
                   value={cstrParams.valveConstant}
                   onChange={(val) => handleParameterChange('valveConstant', val)}
-                  min={0.01}
-                  max={0.5}
-                  step={0.01}
-                  unit="m³/(s·m³)"
-                />
-                <ControlSlider
-                  label="Pre-exponential Factor (α)"
-                  value={cstrParams.preExponentialFactor}
-                  onChange={(val) => handleParameterChange('preExponentialFactor', val)}
-                  min={0.1}
-                  max={10}
-                  step={0.1}
-                  unit="1/s"
-                />
-                <ControlSlider
-                  label="Activation Energy (E)"
-                  value={cstrParams.activationEnergy}
-                  onChange={(val) => handleParameterChange('activationEnergy', val)}
-                  min={5000}
-                  max={20000}
-                  step={1000}
-                  unit="J/mol"
-                />
-                <ControlSlider
-                  label="Reaction Order (n)"
-                  value={cstrParams.reactionOrder}
-                  onChange={(val) => handleParameterChange('reactionOrder', val)}
-                  min={1}
-                  max={3}
-                  step={0.1}
-                  unit=""
+                  {...sliderRange('valveConstant', 0.01, 0.5, 0.01)}
+                  {...sliderUnits('valveConstant')}
                 />
                 <ControlSlider
                   label="Heat Transfer Coeff (U)"
                   value={cstrParams.heatTransferCoeff}
                   onChange={(val) => handleParameterChange('heatTransferCoeff', val)}
-                  min={50}
-                  max={500}
-                  step={10}
-                  unit="W/(m²·K)"
+                  {...sliderRange('heatTransferCoeff', 50, 500, 10)}
+                  {...sliderUnits('heatTransferCoeff')}
                 />
               </div>
             </div>
 
+            {/* Every Parameter with Units and Plausibility Checks */}
+            <UnitsPanel
+              params={cstrParams}
+              preferences={unitPreferences}
+              onParameterChange={handleParameterChange}
+              onPreferencesChange={handleUnitPreferencesChange}
+            />
+
+            {/* Rate Law and Kinetic Parameters */}
+            <RateLawPanel
+              params={cstrParams}
+              onChange={(changes) => setCstrParams(prev => ({ ...prev, ...changes }))}
+            />
+
             {/* Performance and Safety Status - Horizontal Layout */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
               {/* Performance Panel */}
@@ -567,125 +713,172 @@ function App() {
                   <div className="flex justify-between items-center">
                     <span className="text-xs sm:text-sm text-gray-600">Outlet Flow:</span>
                     <span className="text-xs sm:text-sm font-medium text-gray-900">
-                      {simulatorRef.current ? simulatorRef.current.getOutletFlow().toFixed(3) : '0'} m³/s
+                      {metrics.outletFlow.toFixed(3)} m³/s
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-xs sm:text-sm text-gray-600">Level:</span>
+                    <span className={`text-xs sm:text-sm font-medium ${flowRegime === 'normal' ? 'text-gray-900' : flowRegime === 'overflow' ? 'text-red-600' : 'text-amber-600'}`}>
+                      {FLOW_REGIME_LABELS[flowRegime]}
+                      {flowRegime === 'overflow' && ` (${metrics.overflowFlow.toFixed(3)} m³/s over weir)`}
                     </span>
                   </div>
                   <div className="flex justify-between items-center">
                     <span className="text-xs sm:text-sm text-gray-600">Residence Time:</span>
                     <span className="text-xs sm:text-sm font-medium text-gray-900">
-                      {simulatorRef.current ? simulatorRef.current.getResidenceTime().toFixed(1) : '0'} s
+                      {metrics.residenceTime.toFixed(1)} s
                     </span>
                   </div>
                   <div className="flex justify-between items-center">
                     <span className="text-xs sm:text-sm text-gray-600">Conversion:</span>
                     <span className="text-xs sm:text-sm font-medium text-blue-600">
-                      {simulatorRef.current ? simulatorRef.current.getConversion().toFixed(1) : '0'}%
+                      {metrics.conversion.toFixed(1)}%
                     </span>
                   </div>
                   <div className="flex justify-between items-center">
                     <span className="text-xs sm:text-sm text-gray-600">Heat Removal:</span>
                     <span className="text-xs sm:text-sm font-medium text-cyan-600">
-                      {simulatorRef.current ? simulatorRef.current.getHeatRemovalRate().toFixed(2) : '0'} kW
+                      {metrics.heatDuty.toFixed(2)} kW
                     </span>
                   </div>
                   <div className="flex justify-between items-center">
                     <span className="text-xs sm:text-sm text-gray-600">Reaction Rate:</span>
                     <span className="text-xs sm:text-sm font-medium text-purple-600">
-                      {simulatorRef.current ? simulatorRef.current.getReactionRate().toFixed(6) : '0'} mol/(m³·s)
+                      {metrics.reactionRate.toFixed(6)} mol/(m³·s)
                     </span>
                   </div>
+                  {(() => {
+                    const stats = snapshot.integratorStats;
+                    return (
+                      <>
+                        <div className="flex justify-between items-center">
+                          <span className="text-xs sm:text-sm text-gray-600">Solver Steps:</span>
+                          <span className="text-xs sm:text-sm font-medium text-gray-900">
+                            {stats.acceptedSteps} ok / {stats.rejectedSteps} rejected
+                          </span>
+                        </div>
+                        <div className="flex justify-between items-center">
+                          <span className="text-xs sm:text-sm text-gray-600">Step Size (min / last):</span>
+                          <span className={`text-xs sm:text-sm font-medium ${stats.rejectedSteps > stats.acceptedSteps / 2 ? 'text-red-600' : 'text-gray-900'}`}>
+                            {stats.acceptedSteps > 0 
+                              ? `${Number.isFinite(stats.minStepSize) ? stats.minStepSize.toExponential(1) : '—'} / ${stats.lastStepSize.toExponential(1)} s` 
+                              : '—'}
+                          </span>
+                        </div>
+                      </>
+                    );
+                  })()}
                 </div>
               </div>
 
-              {/* Safety Status */}
-              <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
-                <div className="flex items-center space-x-2 mb-4">
-                  <Thermometer className="w-4 h-4 sm:w-5 sm:h-5 text-red-500" />
-                  <h3 className="text-base sm:text-lg font-semibold text-gray-900">Safety Status</h3>
-                </div>
-                <div className="space-y-2 sm:space-y-3">
-                  <div className="flex items-center space-x-2">
-                    <div className={`w-3 h-3 rounded-full ${
-                      safetyStatus.temperature === 'danger' ? 'bg-red-500' :
-                      safetyStatus.temperature === 'warning' ? 'bg-yellow-500' : 'bg-green-500'
-                    }`}></div>
-                    <span className="text-xs sm:text-sm text-gray-600 flex-1">Temperature</span>
-                    {safetyStatus.temperature === 'danger' && <AlertTriangle className="w-3 h-3 sm:w-4 sm:h-4 text-red-500" />}
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <div className={`w-3 h-3 rounded-full ${
-                      safetyStatus.concentration === 'warning' ? 'bg-yellow-500' : 'bg-green-500'
-                    }`}></div>
-                    <span className="text-xs sm:text-sm text-gray-600">Concentration</span>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <div className={`w-3 h-3 rounded-full ${
-                      safetyStatus.volume === 'warning' ? 'bg-yellow-500' : 'bg-green-500'
-                    }`}></div>
-                    <span className="text-xs sm:text-sm text-gray-600">Volume</span>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <div className={`w-3 h-3 rounded-full ${
-                      safetyStatus.conversion === 'warning' ? 'bg-yellow-500' : 'bg-green-500'
-                    }`}></div>
-                    <span className="text-xs sm:text-sm text-gray-600">Conversion</span>
-                  </div>
-                </div>
-              </div>
+              {/* Alarms */}
+              <AlarmPanel
+                alarms={snapshot.alarms}
+                config={alarmConfig}
+                onConfigure={configureAlarms}
+                onAction={alarmAction}
+                onExportLog={exportAlarmLog}
+              />
             </div>
+
+            {/* Runaway Prediction and Safety Interlocks */}
+            <RunawayPanel
+              params={snapshot.parameters}
+              currentState={currentState}
+              trips={snapshot.trips}
+              tripped={snapshot.tripped}
+              config={interlockConfig}
+              onConfigure={configureInterlocks}
+              onReset={resetInterlock}
+            />
+
+            {/* Disturbance / Setpoint Scenarios */}
+            <ScenarioPanel
+              activeScenario={activeScenario}
+              currentTime={currentState.time}
+              onRun={runScenario}
+              onStop={stopScenario}
+            />
+
+            {/* PID / Cascade Control */}
+            <ControlPanel
+              config={controlConfig}
+              onChange={setControlConfig}
+              statuses={snapshot.loopStatuses}
+              trends={snapshot.controlTrends}
+            />
+
+            {/* Rewind and Branch */}
+            <TimelinePanel
+              runStart={runStart}
+              now={currentState.time}
+              scrubTime={scrubTime}
+              scrub={snapshot.scrub}
+              parameters={snapshot.parameters}
+              branchedAt={snapshot.branchedAt}
+              unitPreferences={unitPreferences}
+              onScrub={setScrubTime}
+              onBranch={branchRun}
+            />
+
+            {/* Overlay of Pinned Runs */}
+            <RunComparisonPanel
+              currentRun={snapshot.currentRun}
+              pinnedRuns={pinnedRuns}
+              onPin={pinRun}
+              onRename={(id, label) => setPinnedRuns(prev => prev.map(r => r.id === id ? { ...r, label } : r))}
+              onRemove={(id) => setPinnedRuns(prev => prev.filter(r => r.id !== id))}
+              onClear={() => setPinnedRuns([])}
+            />
+
+            {/* Series and Parallel Reaction Networks */}
+            <ReactionNetworkPanel params={cstrParams} initialState={initialState} />
+
+            {/* Van Heerden Heat Balance */}
+            <HeatBalancePanel params={analysisParams} steadyStates={steadyStates} currentState={currentState} />
+
+            {/* Steady-State Analysis */}
+            <SteadyStatePanel steadyStates={steadyStates} currentState={currentState} />
+
+            {/* Linear Model and Transfer Functions */}
+            <LinearizationPanel params={analysisParams} steadyStates={steadyStates} currentState={currentState} />
+
+            {/* Parameter Continuation */}
+            <BifurcationPanel params={analysisParams} currentState={currentState} />
+
+            {/* Parametric Sweeps and Sensitivities */}
+            <SweepPanel params={cstrParams} initialState={initialState} />
+
+            {/* Uncertainty Propagation */}
+            <MonteCarloPanel
+              params={cstrParams}
+              initialState={initialState}
+              temperatureLimit={alarmConfig.temperature.hihi}
+              onRunStudy={runStudy}
+              onCancelStudy={() => clientRef.current?.cancelStudy()}
+            />
+
+            {/* Parameter Estimation from Measured Data */}
+            <EstimationPanel
+              params={cstrParams}
+              initialState={initialState}
+              onApply={(changes) => setCstrParams(prev => ({ ...prev, ...changes }))}
+            />
+
+            {/* Phase Portrait */}
+            <PhasePlanePanel params={cstrParams} currentState={currentState} history={history} />
           </div>
 
-          {/* Right Sidebar - Live Parameters */}
+          {/* Right Sidebar - Live Trends */}
           <div className="xl:col-span-1">
-            <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
-              <div className="flex items-center space-x-2 mb-4">
-                <TrendingUp className="w-4 h-4 sm:w-5 sm:h-5 text-blue-600" />
-                <h2 className="text-base sm:text-lg font-semibold text-gray-900">Live Parameters</h2>
-              </div>
-              
-              <div className="space-y-3 sm:space-y-4">
-                <MiniGraph 
-                  title="Volume" 
-                  data={history.volume} 
-                  color="#8B5CF6" 
-                  unit="m³"
-                  min={0}
-                  max={2}
-                />
-                <MiniGraph 
-                  title="Concentration" 
-                  data={history.concentration} 
-                  color="#3B82F6" 
-                  unit="mol/m³"
-                  min={0}
-                  max={1}
-                />
-                <MiniGraph 
-                  title="Temperature" 
-                  data={history.temperature} 
-                  color="#EF4444" 
-                  unit="K"
-                  min={300}
-                  max={400}
-                />
-                <MiniGraph 
-                  title="Jacket Temperature" 
-                  data={history.jacketTemp} 
-                  color="#F97316" 
-                  unit="K"
-                  min={290}
-                  max={320}
-                />
-                <MiniGraph 
-                  title="Conversion" 
-                  data={history.conversion} 
-                  color="#10B981" 
-                  unit="%"
-                  min={0}
-                  max={100}
-                />
-              </div>
-            </div>
+            <TrendPanel
+              trend={snapshot.trend}
+              runStart={runStart}
+              now={currentState.time}
+              trendWindow={trendWindow}
+              markerTime={snapshot.scrub?.values.time ?? null}
+              onWindowChange={setTrendWindow}
+            />
           </div>
         </div>
       </div>
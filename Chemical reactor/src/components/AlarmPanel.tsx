@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, BellRing, Download } from 'lucide-react';
+import {
+  ALARM_VARIABLES,
+  AlarmConfig,
+  AlarmLimits,
+  AlarmVariable
+} from '../utils/alarms';
+import { AlarmAction, AlarmView } from '../utils/simulationEngine';
+
+interface AlarmPanelProps {
+  alarms: AlarmView;
+  config: AlarmConfig;
+  onConfigure: (config: AlarmConfig) => void;
+  // Acknowledge and shelve, applied at the run's current time
+  onAction: (action: AlarmAction) => void;
+  onExportLog: () => void;
+}
+
+type LimitField = keyof AlarmLimits;
+
+const LIMIT_FIELDS: { key: LimitField; label: string }[] = [
+  { key: 'lolo', label: 'LOLO' },
+  { key: 'lo', label: 'LO' },
+  { key: 'hi', label: 'HI' },
+  { key: 'hihi', label: 'HIHI' },
+  { key: 'rateOfChange', label: 'ROC /s' },
+  { key: 'deadband', label: 'Deadband' }
+];
+
+const SHELVE_DURATION = 60; // s of simulated time
+const LOG_LINES = 8;
+
+const VARIABLES = Object.keys(ALARM_VARIABLES) as AlarmVariable[];
+
+// Limits are edited as text; blank switches a limit off
+type Draft = Record<AlarmVariable, Record<LimitField, string>>;
+
+const toDraft = (config: AlarmConfig): Draft =>
+  Object.fromEntries(VARIABLES.map(variable => [
+    variable,
+    Object.fromEntries(LIMIT_FIELDS.map(({ key }) => [key, config[variable][key] === undefined ? '' : String(config[variable][key])]))
+  ])) as Draft;
+
+function fromDraft(draft: Draft): AlarmConfig {
+  return Object.fromEntries(VARIABLES.map(variable => {
+    const limits: AlarmLimits = { deadband: Number(draft[variable].deadband || 0) };
+    LIMIT_FIELDS.forEach(({ key }) => {
+      const text = draft[variable][key].trim();
+      if (key !== 'deadband' && text !== '') limits[key] = Number(text);
+    });
+    return [variable, limits];
+  })) as AlarmConfig;
+}
+
+const LAMP_COLORS = { critical: 'bg-red-500', warning: 'bg-yellow-500', normal: 'bg-green-500' };
+
+export const AlarmPanel: React.FC<AlarmPanelProps> = ({ alarms, config, onConfigure, onAction, onExportLog }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(() => toDraft(config));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(toDraft(config));
+  }, [config]);
+
+  const list = alarms.alarms;
+  const log = alarms.recentLog;
+  const unacknowledged = list.filter(alarm => !alarm.acknowledged).length;
+
+  const apply = () => {
+    try {
+      onConfigure(fromDraft(draft));
+      setError(null);
+      setEditing(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <BellRing className="w-4 h-4 sm:w-5 sm:h-5 text-red-500" />
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">Alarms</h3>
+          {unacknowledged > 0 && (
+            <span className="px-1.5 py-0.5 rounded-full bg-red-100 text-red-700 text-xs font-medium">{unacknowledged}</span>
+          )}
+        </div>
+        <div className="flex items-center space-x-2 text-xs sm:text-sm">
+          <button
+            onClick={() => onAction({ kind: 'acknowledgeAll' })}
+            disabled={unacknowledged === 0}
+            className="px-2 py-1 text-gray-700 hover:text-blue-600 font-medium transition-colors disabled:opacity-40"
+          >
+            Ack all
+          </button>
+          <button
+            onClick={() => setEditing(!editing)}
+            className="px-2 py-1 text-gray-700 hover:text-blue-600 font-medium transition-colors"
+          >
+            {editing ? 'Close' : 'Limits'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        {VARIABLES.map(variable => {
+          const status = alarms.statuses[variable];
+          return (
+            <div key={variable} className="flex items-center space-x-2">
+              <div className={`w-3 h-3 rounded-full ${LAMP_COLORS[status]}`}></div>
+              <span className="text-xs sm:text-sm text-gray-600 flex-1">{ALARM_VARIABLES[variable].label}</span>
+              {status === 'critical' && <AlertTriangle className="w-3 h-3 sm:w-4 sm:h-4 text-red-500" />}
+            </div>
+          );
+        })}
+      </div>
+
+      {editing && (
+        <div className="mb-3">
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-gray-700">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-1 pr-2 font-medium">Variable</th>
+                  {LIMIT_FIELDS.map(field => <th key={field.key} className="py-1 pr-2 font-medium">{field.label}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {VARIABLES.map(variable => (
+                  <tr key={variable} className="border-b border-gray-100">
+                    <td className="py-1 pr-2 whitespace-nowrap">
+                      {ALARM_VARIABLES[variable].label} <span className="text-gray-400">({ALARM_VARIABLES[variable].unit})</span>
+                    </td>
+                    {LIMIT_FIELDS.map(({ key }) => (
+                      <td key={key} className="py-1 pr-2">
+                        <input
+                          type="number"
+                          value={draft[variable][key]}
+                          onChange={(e) => setDraft(prev => ({ ...prev, [variable]: { ...prev[variable], [key]: e.target.value } }))}
+                          className="w-16 px-1 py-0.5 border border-gray-300 rounded"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+          <button
+            onClick={apply}
+            className="mt-2 px-3 py-1 bg-blue-600 text-white rounded-md text-xs sm:text-sm font-medium hover:bg-blue-700 transition-colors"
+          >
+            Apply limits
+          </button>
+        </div>
+      )}
+
+      {list.length > 0 ? (
+        <ul className="space-y-1 mb-3">
+          {list.map(alarm => (
+            <li key={alarm.id} className="flex items-center space-x-2 text-xs">
+              <span className={`w-2 h-2 rounded-full ${alarm.active ? LAMP_COLORS[alarm.severity] : 'bg-gray-300'}`}></span>
+              <span className={`flex-1 ${alarm.acknowledged ? 'text-gray-500' : 'font-semibold text-gray-900'} ${alarm.shelvedUntil !== null ? 'line-through' : ''}`}>
+                {ALARM_VARIABLES[alarm.variable].label} {alarm.limit}
+                <span className="font-normal text-gray-500">
+                  {' '}{alarm.active ? `since ${alarm.activatedAt.toFixed(1)} s` : 'cleared'}
+                  {alarm.shelvedUntil !== null && `, shelved to ${alarm.shelvedUntil.toFixed(0)} s`}
+                </span>
+              </span>
+              {!alarm.acknowledged && (
+                <button onClick={() => onAction({ kind: 'acknowledge', id: alarm.id })} className="text-blue-600 hover:underline">Ack</button>
+              )}
+              {alarm.shelvedUntil === null ? (
+                <button onClick={() => onAction({ kind: 'shelve', id: alarm.id, duration: SHELVE_DURATION })} className="text-gray-600 hover:underline">
+                  Shelve
+                </button>
+              ) : (
+                <button onClick={() => onAction({ kind: 'unshelve', id: alarm.id })} className="text-gray-600 hover:underline">
+                  Unshelve
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500 mb-3">No active alarms</p>
+      )}
+
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-xs font-medium text-gray-700">Event log ({alarms.logLength})</span>
+        <button
+          onClick={onExportLog}
+          disabled={alarms.logLength === 0}
+          className="flex items-center text-xs text-gray-700 hover:text-blue-600 transition-colors disabled:opacity-40"
+        >
+          <Download className="w-3 h-3 mr-1" />
+          CSV
+        </button>
+      </div>
+      <ul className="text-xs text-gray-600 font-mono space-y-0.5">
+        {log.slice(-LOG_LINES).reverse().map((event, i) => (
+          <li key={alarms.logLength - i} className="truncate" title={event.timestamp}>
+            {event.time.toFixed(1).padStart(6)} s  {event.message}
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-gray-500 mt-2">
+        Level alarms clear once the value is back inside the limit by the deadband; rate-of-change alarms
+        once the rate drops below 80% of the limit. Shelving hides an alarm from the lamps
+        for {SHELVE_DURATION} s of simulated time; it is still logged. The log is also included in run exports.
+      </p>
+    </div>
+  );
+};
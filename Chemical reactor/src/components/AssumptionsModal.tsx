@@ -53,7 +53,11 @@ export const AssumptionsModal: React.FC<AssumptionsModalProps> = ({ isOpen, onCl
                 </li>
                 <li className="flex items-start space-x-2">
                   <span className="w-2 h-2 bg-blue-500 rounded-full mt-2 flex-shrink-0"></span>
-                  <span><strong>Valve-Controlled Outlet:</strong> Outlet flow = KV × (V - Vmin)</span>
+                  <span><strong>Valve-Controlled Outlet:</strong> Outlet flow = KV × (V - Vmin) while the outlet nozzle at Vmin is covered, zero below it</span>
+                </li>
+                <li className="flex items-start space-x-2">
+                  <span className="w-2 h-2 bg-blue-500 rounded-full mt-2 flex-shrink-0"></span>
+                  <span><strong>Overflow Weir:</strong> Above Vmax liquid also spills over a sharp-crested weir (Francis formula); overflow and running dry are logged as events</span>
                 </li>
                 <li className="flex items-start space-x-2">
                   <span className="w-2 h-2 bg-blue-500 rounded-full mt-2 flex-shrink-0"></span>
@@ -71,7 +75,7 @@ export const AssumptionsModal: React.FC<AssumptionsModalProps> = ({ isOpen, onCl
               <ul className="space-y-2 text-sm text-gray-700">
                 <li className="flex items-start space-x-2">
                   <span className="w-2 h-2 bg-green-500 rounded-full mt-2 flex-shrink-0"></span>
-                  <span><strong>nth-Order Reaction:</strong> A → B with rate = α × exp(-E/RT) × CA^n</span>
+                  <span><strong>nth-Order Reaction:</strong> A → B with rate = α × exp(-E/RT) × CA^n by default; reversible, Langmuir-Hinshelwood, Michaelis-Menten and custom rate laws can be selected under Reaction Kinetics</span>
                 </li>
                 <li className="flex items-start space-x-2">
                   <span className="w-2 h-2 bg-green-500 rounded-full mt-2 flex-shrink-0"></span>
@@ -83,7 +87,7 @@ export const AssumptionsModal: React.FC<AssumptionsModalProps> = ({ isOpen, onCl
                 </li>
                 <li className="flex items-start space-x-2">
                   <span className="w-2 h-2 bg-green-500 rounded-full mt-2 flex-shrink-0"></span>
-                  <span><strong>Single Reaction:</strong> Only one chemical reaction occurs</span>
+                  <span><strong>Single Reaction:</strong> Only one chemical reaction occurs in the main simulation; the Reaction Network panel runs series and parallel networks in a separate multi-species model</span>
                 </li>
                 <li className="flex items-start space-x-2">
                   <span className="w-2 h-2 bg-green-500 rounded-full mt-2 flex-shrink-0"></span>
@@ -99,7 +103,7 @@ export const AssumptionsModal: React.FC<AssumptionsModalProps> = ({ isOpen, onCl
               <div>
                 <h4 className="font-medium text-gray-800 mb-2">Volume Balance:</h4>
                 <code className="text-sm bg-white px-3 py-1 rounded border block">
-                  dV/dt = F₀ - F, where F = KV × (V - Vmin)
+                  dV/dt = F₀ - F, where F = KV × max(0, V - Vmin) + 1.84 × Lw × max(0, (V - Vmax) / Avessel)^1.5
                 </code>
               </div>
               <div>
@@ -140,7 +144,9 @@ export const AssumptionsModal: React.FC<AssumptionsModalProps> = ({ isOpen, onCl
                 <p><strong>F₀:</strong> Inlet flow rate (m³/s)</p>
                 <p><strong>F:</strong> Outlet flow rate (m³/s)</p>
                 <p><strong>KV:</strong> Valve constant (m³/(s·m³))</p>
-                <p><strong>Vmin:</strong> Minimum volume (m³)</p>
+                <p><strong>Vmin:</strong> Minimum volume, level of the outlet nozzle (m³)</p>
+                <p><strong>Vmax:</strong> Vessel volume up to the overflow weir (m³)</p>
+                <p><strong>Avessel, Lw:</strong> Vessel cross-section (m²) and weir length (m)</p>
               </div>
               <div className="space-y-1">
                 <p><strong>α:</strong> Pre-exponential factor (1/s)</p>
@@ -164,8 +170,9 @@ export const AssumptionsModal: React.FC<AssumptionsModalProps> = ({ isOpen, onCl
               <li>• Arrhenius temperature dependence for reaction rate</li>
               <li>• Dynamic jacket cooling with thermal lag</li>
               <li>• Real-time parameter adjustment and visualization</li>
-              <li>• Safety monitoring for temperature, volume, and conversion</li>
-              <li>• 4th-order Runge-Kutta integration for numerical accuracy</li>
+              <li>• Configurable HI/HIHI/LO/LOLO and rate-of-change alarms with an exportable event log</li>
+              <li>• Runaway prediction (adiabatic rise, time to maximum rate, Semenov criterion) with latching safety interlocks</li>
+              <li>• Selectable integrators: fixed-step RK4, adaptive Dormand–Prince RK45, and stiff Rosenbrock 2(3)</li>
             </ul>
           </div>
 
@@ -180,6 +187,7 @@ export const AssumptionsModal: React.FC<AssumptionsModalProps> = ({ isOpen, onCl
                 <p>V₀ = 1.0 m³</p>
                 <p>KV = 0.1 m³/(s·m³)</p>
                 <p>Vmin = 0.1 m³</p>
+                <p>Vmax = 15 m³</p>
               </div>
               <div className="space-y-1">
                 <p>α = 1.0 1/s</p>
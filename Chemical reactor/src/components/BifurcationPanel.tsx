@@ -0,0 +1,206 @@
+import React, { useMemo, useState } from 'react';
+import { GitBranch } from 'lucide-react';
+import { CSTRParameters, CSTRState, sameParameters } from '../utils/cstrModel';
+import { BifurcationDiagram, ContinuationParameter, ContinuationPoint, traceSteadyStates } from '../utils/continuation';
+import { Domain, linearScale, niceDomain } from '../utils/chartScale';
+import { PlotAxes } from './PlotAxes';
+
+interface BifurcationPanelProps {
+  params: CSTRParameters;
+  currentState: CSTRState;
+}
+
+// Temperatures are traced a fixed span either side of the current value,
+// everything else from a fifth to five times it
+const CONTINUATION_OPTIONS: { key: ContinuationParameter; label: string; unit: string; temperature?: boolean }[] = [
+  { key: 'feedTemperature', label: 'Feed Temperature (T0)', unit: 'K', temperature: true },
+  { key: 'jacketInletTemp', label: 'Jacket Inlet Temp (TJ0)', unit: 'K', temperature: true },
+  { key: 'inletFlowRate', label: 'Inlet Flow Rate (F0)', unit: 'm³/s' },
+  { key: 'feedConcentration', label: 'Feed Concentration (CA0)', unit: 'mol/m³' },
+  { key: 'heatTransferCoeff', label: 'Heat Transfer Coeff (U)', unit: 'W/(m²·K)' },
+  { key: 'jacketFlowRate', label: 'Jacket Flow Rate (FJ)', unit: 'm³/s' }
+];
+
+const TEMPERATURE_SPAN = 100; // K
+
+const defaultRange = (key: ContinuationParameter, params: CSTRParameters): Domain => {
+  const value = params[key];
+  const round = (v: number) => Number(v.toPrecision(3));
+  if (CONTINUATION_OPTIONS.find(o => o.key === key)!.temperature) {
+    return [round(Math.max(1, value - TEMPERATURE_SPAN)), round(value + TEMPERATURE_SPAN)];
+  }
+  return value > 0 ? [round(value / 5), round(value * 5)] : [0, 1];
+};
+
+type OutputVariable = 'temperature' | 'concentration' | 'conversion';
+
+const OUTPUT_LABELS: Record<OutputVariable, string> = {
+  temperature: 'Reactor Temperature (K)',
+  concentration: 'Concentration (mol/m³)',
+  conversion: 'Conversion (%)'
+};
+
+const WIDTH = 400;
+const HEIGHT = 260;
+const MARGIN = { top: 10, right: 12, bottom: 34, left: 48 };
+
+export const BifurcationPanel: React.FC<BifurcationPanelProps> = ({ params, currentState }) => {
+  const [parameter, setParameter] = useState<ContinuationParameter>('feedTemperature');
+  const [output, setOutput] = useState<OutputVariable>('temperature');
+  const option = CONTINUATION_OPTIONS.find(o => o.key === parameter)!;
+  const [range, setRange] = useState<Domain>(() => defaultRange(parameter, params));
+
+  // Only re-trace when a parameter other than the continuation parameter
+  // changes; moving its own slider just moves the operating point marker
+  const [base, setBase] = useState(params);
+  if (base !== params && !sameParameters(base, params, parameter)) setBase(params);
+  // When the parameters change, e.g. to another preset, and leave the
+  // continuation parameter outside the range, centre the range on it again
+  const [seen, setSeen] = useState(params);
+  if (seen !== params) {
+    setSeen(params);
+    if (!(params[parameter] >= range[0] && params[parameter] <= range[1])) setRange(defaultRange(parameter, params));
+  }
+  const result = useMemo((): { diagram: BifurcationDiagram | null; error: string | null } => {
+    try {
+      return { diagram: traceSteadyStates(base, parameter, { range }), error: null };
+    } catch (error) {
+      return { diagram: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [base, parameter, range]);
+
+  const selectParameter = (key: ContinuationParameter) => {
+    setParameter(key);
+    setRange(defaultRange(key, params));
+  };
+
+  const diagram = result.diagram;
+  const currentValue = output === 'temperature' ? currentState.temperature :
+    output === 'concentration' ? currentState.concentration :
+    params.feedConcentration === 0 ? 0 : (params.feedConcentration - currentState.concentration) / params.feedConcentration * 100;
+
+  const outputValues = diagram ? diagram.points.map(p => p[output]) : [];
+  const xDomain: Domain = range;
+  const yDomain = niceDomain([Math.min(...outputValues, currentValue), Math.max(...outputValues, currentValue)]);
+  const x = linearScale(xDomain, [MARGIN.left, WIDTH - MARGIN.right]);
+  const y = linearScale(yDomain, [HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+  // Split the branch into runs of equal stability
+  const segments: { stable: boolean; points: ContinuationPoint[] }[] = [];
+  diagram?.points.forEach((point, i, points) => {
+    const last = segments[segments.length - 1];
+    if (last && last.stable === point.stable) {
+      last.points.push(point);
+    } else {
+      segments.push({ stable: point.stable, points: i > 0 ? [points[i - 1], point] : [point] });
+    }
+  });
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4 space-y-2 sm:space-y-0">
+        <div className="flex items-center space-x-2">
+          <GitBranch className="w-4 h-4 sm:w-5 sm:h-5 text-indigo-600" />
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">Bifurcation Diagram</h3>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={parameter}
+            onChange={(e) => selectParameter(e.target.value as ContinuationParameter)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-xs sm:text-sm"
+          >
+            {CONTINUATION_OPTIONS.map(o => <option key={o.key} value={o.key}>{o.label}</option>)}
+          </select>
+          <select
+            value={output}
+            onChange={(e) => setOutput(e.target.value as OutputVariable)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-xs sm:text-sm"
+          >
+            <option value="temperature">T</option>
+            <option value="concentration">CA</option>
+            <option value="conversion">Conversion</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2 mb-2 text-xs text-gray-600">
+        <span>Range:</span>
+        <input
+          type="number"
+          value={range[0]}
+          onChange={(e) => setRange([parseFloat(e.target.value), range[1]])}
+          className="w-20 px-2 py-0.5 border border-gray-300 rounded"
+        />
+        <span>to</span>
+        <input
+          type="number"
+          value={range[1]}
+          onChange={(e) => setRange([range[0], parseFloat(e.target.value)])}
+          className="w-20 px-2 py-0.5 border border-gray-300 rounded"
+        />
+        <span>{option.unit}</span>
+      </div>
+
+      {result.error ? (
+        <p className="text-xs sm:text-sm text-red-600">{result.error}</p>
+      ) : (
+        <svg className="w-full" viewBox={`0 0 ${WIDTH} ${HEIGHT}`}>
+          <PlotAxes
+            width={WIDTH}
+            height={HEIGHT}
+            margin={MARGIN}
+            xDomain={xDomain}
+            yDomain={yDomain}
+            xLabel={`${option.label} (${option.unit})`}
+            yLabel={OUTPUT_LABELS[output]}
+          />
+          {segments.map((segment, i) => (
+            <polyline
+              key={i}
+              fill="none"
+              stroke={segment.stable ? '#4F46E5' : '#9CA3AF'}
+              strokeWidth="2"
+              strokeDasharray={segment.stable ? undefined : '4 3'}
+              points={segment.points.map(p => `${x(p.parameterValue)},${y(p[output])}`).join(' ')}
+            />
+          ))}
+          {diagram?.turningPoints.map((point, i) => (
+            <g key={`turn-${i}`}>
+              <circle cx={x(point.parameterValue)} cy={y(point[output])} r="4" fill="#F59E0B" />
+              <text x={x(point.parameterValue) + 6} y={y(point[output]) - 6} fontSize="9" fill="#B45309">
+                {point.type === 'ignition' ? 'Ignition' : point.type === 'extinction' ? 'Extinction' : 'Fold'}
+              </text>
+            </g>
+          ))}
+          {diagram?.hopfPoints.map((point, i) => (
+            <g key={`hopf-${i}`}>
+              <rect x={x(point.parameterValue) - 4} y={y(point[output]) - 4} width="8" height="8" fill="#10B981" />
+              <text x={x(point.parameterValue) + 6} y={y(point[output]) + 12} fontSize="9" fill="#047857">Hopf</text>
+            </g>
+          ))}
+          <circle
+            cx={x(params[parameter])}
+            cy={y(currentValue)}
+            r="5"
+            fill="#EF4444"
+            stroke="white"
+            strokeWidth="1.5"
+          />
+        </svg>
+      )}
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-gray-500">
+        <span className="flex items-center"><span className="w-4 h-0.5 bg-indigo-600 mr-1"></span>Stable</span>
+        <span className="flex items-center"><span className="w-4 h-0.5 bg-gray-400 mr-1"></span>Unstable</span>
+        <span className="flex items-center"><span className="w-2 h-2 rounded-full bg-amber-500 mr-1"></span>Turning point</span>
+        <span className="flex items-center"><span className="w-2 h-2 bg-emerald-500 mr-1"></span>Hopf point</span>
+        <span className="flex items-center"><span className="w-2 h-2 rounded-full bg-red-500 mr-1"></span>Current state</span>
+      </div>
+      {diagram && diagram.status !== 'completed' && (
+        <p className="text-xs text-amber-600 mt-1">
+          Continuation stopped early ({diagram.status === 'max-points' ? 'point limit reached' : 'step size too small'}).
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import {
+  CASCADE_MASTER_DEFAULTS,
+  ControlConfig,
+  ControlTrends,
+  LoopConfig,
+  LoopId,
+  LoopStatus,
+  LoopTrend,
+  TEMPERATURE_LOOP_DEFAULTS
+} from '../utils/controllers';
+import { linearScale, niceDomain } from '../utils/chartScale';
+
+interface ControlPanelProps {
+  config: ControlConfig;
+  onChange: (config: ControlConfig) => void;
+  statuses: Record<LoopId, LoopStatus>;
+  trends: ControlTrends;
+}
+
+const LOOP_INFO: Record<LoopId, { title: string; pvUnit: string; mvLabel: string; mvUnit: string }> = {
+  temperature: { title: 'Reactor Temperature', pvUnit: 'K', mvLabel: 'Jacket Flow', mvUnit: 'm³/s' },
+  jacket: { title: 'Jacket Temperature (slave)', pvUnit: 'K', mvLabel: 'Jacket Flow', mvUnit: 'm³/s' },
+  level: { title: 'Reactor Level', pvUnit: 'm³', mvLabel: 'Valve Constant', mvUnit: 'm³/(s·m³)' }
+};
+
+const TUNING_FIELDS: { key: 'setpoint' | 'kp' | 'ki' | 'kd' | 'outputMin' | 'outputMax'; label: string }[] = [
+  { key: 'setpoint', label: 'SP' },
+  { key: 'kp', label: 'Kp' },
+  { key: 'ki', label: 'Ki' },
+  { key: 'kd', label: 'Kd' },
+  { key: 'outputMin', label: 'Out min' },
+  { key: 'outputMax', label: 'Out max' }
+];
+
+const TREND_WIDTH = 300;
+const TREND_HEIGHT = 70;
+const TREND_PAD = 4;
+
+// PV and SP share the left scale; MV is drawn on its own scale
+const LoopTrendChart: React.FC<{ trend: LoopTrend }> = ({ trend }) => {
+  if (trend.pv.length < 2) {
+    return <div className="h-16 flex items-center justify-center text-xs text-gray-400">Start the simulation to record trends</div>;
+  }
+  const x = linearScale([0, trend.pv.length - 1], [TREND_PAD, TREND_WIDTH - TREND_PAD]);
+  const pvDomain = niceDomain([Math.min(...trend.pv, ...trend.setpoint), Math.max(...trend.pv, ...trend.setpoint)]);
+  const mvDomain = niceDomain([Math.min(...trend.mv), Math.max(...trend.mv)]);
+  const yPv = linearScale(pvDomain, [TREND_HEIGHT - TREND_PAD, TREND_PAD]);
+  const yMv = linearScale(mvDomain, [TREND_HEIGHT - TREND_PAD, TREND_PAD]);
+  const points = (values: number[], y: (value: number) => number) =>
+    values.map((value, i) => `${x(i)},${y(value)}`).join(' ');
+
+  return (
+    <svg className="w-full h-16" viewBox={`0 0 ${TREND_WIDTH} ${TREND_HEIGHT}`} preserveAspectRatio="none">
+      <polyline fill="none" stroke="#10B981" strokeWidth="1.5" points={points(trend.mv, yMv)} />
+      <polyline fill="none" stroke="#6B7280" strokeWidth="1.5" strokeDasharray="4 3" points={points(trend.setpoint, yPv)} />
+      <polyline fill="none" stroke="#EF4444" strokeWidth="2" points={points(trend.pv, yPv)} />
+    </svg>
+  );
+};
+
+export const ControlPanel: React.FC<ControlPanelProps> = ({ config, onChange, statuses, trends }) => {
+  const updateLoop = (loop: LoopId, changes: Partial<LoopConfig>) => {
+    onChange({ ...config, [loop]: { ...config[loop], ...changes } });
+  };
+
+  // Cascading changes what the temperature loop drives, so swap in tuning
+  // suited to a jacket temperature setpoint (or back to a flow output)
+  const toggleCascade = (cascade: boolean) => {
+    const defaults = cascade ? CASCADE_MASTER_DEFAULTS : TEMPERATURE_LOOP_DEFAULTS;
+    const { enabled, mode, setpoint } = config.temperature;
+    onChange({ ...config, cascade, temperature: { ...defaults, enabled, mode, setpoint } });
+  };
+
+  // Switching to manual holds the present output so the transfer is bumpless
+  const setMode = (loop: LoopId, mode: LoopConfig['mode']) => {
+    updateLoop(loop, mode === 'manual' ? { mode, manualOutput: statuses[loop].mv } : { mode });
+  };
+
+  const loops: LoopId[] = config.cascade ? ['temperature', 'jacket', 'level'] : ['temperature', 'level'];
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4 space-y-2 sm:space-y-0">
+        <div className="flex items-center space-x-2">
+          <Gauge className="w-4 h-4 sm:w-5 sm:h-5 text-emerald-600" />
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">Feedback Control</h3>
+        </div>
+        <label className="flex items-center space-x-1 text-xs sm:text-sm text-gray-600">
+          <input type="checkbox" checked={config.cascade} onChange={(e) => toggleCascade(e.target.checked)} />
+          <span>Cascade T → TJ → jacket flow</span>
+        </label>
+      </div>
+
+      <div className="space-y-4">
+        {loops.map(loop => {
+          const loopConfig = config[loop];
+          const status = statuses[loop];
+          const info = LOOP_INFO[loop];
+          const isSlave = loop === 'jacket';
+          const mvLabel = loop === 'temperature' && config.cascade ? 'TJ Setpoint' : info.mvLabel;
+          const mvUnit = loop === 'temperature' && config.cascade ? 'K' : info.mvUnit;
+
+          return (
+            <div key={loop} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-800">
+                  {!isSlave && (
+                    <input
+                      type="checkbox"
+                      checked={loopConfig.enabled}
+                      onChange={(e) => updateLoop(loop, { enabled: e.target.checked })}
+                    />
+                  )}
+                  <span>{info.title}</span>
+                </label>
+                <div className="flex items-center space-x-2">
+                  {status.saturated && (
+                    <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-amber-100 text-amber-700">Saturated</span>
+                  )}
+                  <div className="flex rounded-md border border-gray-300 overflow-hidden text-xs">
+                    {(['auto', 'manual'] as const).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setMode(loop, mode)}
+                        className={`px-2 py-0.5 transition-colors ${
+                          loopConfig.mode === mode ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'
+                        }`}
+                      >
+                        {mode === 'auto' ? 'Auto' : 'Manual'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 mb-2">
+                {TUNING_FIELDS.map(field => (
+                  <label key={field.key} className="text-xs text-gray-600">
+                    <span className="block mb-0.5">{field.label}</span>
+                    <input
+                      type="number"
+                      value={isSlave && field.key === 'setpoint' ? Number(status.setpoint.toFixed(2)) : loopConfig[field.key]}
+                      disabled={isSlave && field.key === 'setpoint'}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (Number.isFinite(value)) updateLoop(loop, { [field.key]: value });
+                      }}
+                      className="w-full px-2 py-0.5 border border-gray-300 rounded disabled:bg-gray-100"
+                    />
+                  </label>
+                ))}
+              </div>
+
+              {loopConfig.mode === 'manual' && (
+                <label className="flex items-center space-x-2 mb-2 text-xs text-gray-600">
+                  <span>Manual output:</span>
+                  <input
+                    type="number"
+                    value={loopConfig.manualOutput}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (Number.isFinite(value)) updateLoop(loop, { manualOutput: value });
+                    }}
+                    className="w-24 px-2 py-0.5 border border-gray-300 rounded"
+                  />
+                  <span>{mvUnit}</span>
+                </label>
+              )}
+
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600 mb-1">
+                <span>PV: <span className="font-medium text-red-600">{status.pv.toFixed(2)} {info.pvUnit}</span></span>
+                <span>SP: <span className="font-medium text-gray-800">{status.setpoint.toFixed(2)} {info.pvUnit}</span></span>
+                <span>{mvLabel}: <span className="font-medium text-emerald-600">{status.mv.toFixed(3)} {mvUnit}</span></span>
+                {!status.active && <span className="text-gray-400">(loop off)</span>}
+              </div>
+              <LoopTrendChart trend={trends.loops[loop]} />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-gray-500">
+        <span className="flex items-center"><span className="w-4 h-0.5 bg-red-500 mr-1"></span>Process value</span>
+        <span className="flex items-center"><span className="w-4 h-0.5 bg-gray-500 mr-1"></span>Setpoint</span>
+        <span className="flex items-center"><span className="w-4 h-0.5 bg-emerald-500 mr-1"></span>Output (own scale)</span>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Outputs are clamped to their limits and integration stops while saturated. Controllers act on
+        the jacket flow and outlet valve, overriding those settings while enabled.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,336 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TestTube, Upload, X } from 'lucide-react';
+import { CSTR_PARAMETER_KEYS, CSTRParameterKey, CSTRParameters, CSTRState, PARAMETER_UNITS, STATE_UNITS } from '../utils/cstrModel';
+import { PARAMETER_QUANTITIES } from '../utils/quantities';
+import { PARAMETER_SYMBOLS } from '../utils/rateLaws';
+import {
+  applyColumnMapping,
+  ColumnMapping,
+  CSVTable,
+  ExperimentalData,
+  guessColumnMapping,
+  MEASURED_FIELDS,
+  MeasuredField,
+  parseCSV
+} from '../utils/experimentalData';
+import { EstimationResult, fitParameters } from '../utils/estimation';
+import { Domain, linearScale, niceDomain } from '../utils/chartScale';
+import { PlotAxes } from './PlotAxes';
+
+interface EstimationPanelProps {
+  params: CSTRParameters;
+  initialState: CSTRState;
+  onApply: (changes: Partial<CSTRParameters>) => void;
+}
+
+const WIDTH = 400;
+const HEIGHT = 220;
+const RESIDUAL_HEIGHT = 140;
+const MARGIN = { top: 10, right: 12, bottom: 34, left: 48 };
+
+const MAPPED_FIELDS: (keyof CSTRState)[] = ['time', ...MEASURED_FIELDS];
+
+const FIELD_LABELS: Record<keyof CSTRState, string> = {
+  time: 'Time',
+  volume: 'Volume',
+  concentration: 'Concentration',
+  temperature: 'Temperature',
+  jacketTemp: 'Jacket Temp'
+};
+
+// Kinetic and heat transfer parameters offered first, since data from a
+// running reactor usually pins those down better than the design values
+const SUGGESTED: CSTRParameterKey[] = ['preExponentialFactor', 'activationEnergy', 'reactionOrder', 'heatTransferCoeff'];
+
+const shown = (value: number) => Number.isFinite(value) ? String(Number(value.toPrecision(4))) : '—';
+
+export const EstimationPanel: React.FC<EstimationPanelProps> = ({ params, initialState, onApply }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [table, setTable] = useState<CSVTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [selected, setSelected] = useState<CSTRParameterKey[]>(['preExponentialFactor', 'activationEnergy']);
+  const [adding, setAdding] = useState<CSTRParameterKey>('reactionOrder');
+  const [fitted, setFitted] = useState<{ result: EstimationResult; data: ExperimentalData } | null>(null);
+  const [field, setField] = useState<MeasuredField>('temperature');
+  const [fitting, setFitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => () => {
+    if (timerRef.current !== null) clearTimeout(timerRef.current);
+  }, []);
+
+  const load = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const content = await file.text();
+    setFileName(file.name);
+    setFitted(null);
+    try {
+      const parsed = parseCSV(content);
+      setTable(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setError(null);
+    } catch (err) {
+      setTable(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Yield once so the button shows the fit is running before the work starts
+  const fit = () => {
+    if (!table) return;
+    let data: ExperimentalData;
+    try {
+      data = applyColumnMapping(table, mapping);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    setFitting(true);
+    setError(null);
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      try {
+        const result = fitParameters(params, data, initialState, { parameters: selected });
+        setFitted({ result, data });
+        const fields = MEASURED_FIELDS.filter(f => data.series[f] !== undefined);
+        if (!fields.includes(field)) setField(fields[0]);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+      setFitting(false);
+    }, 0);
+  };
+
+  const apply = () => {
+    if (!fitted) return;
+    onApply(Object.fromEntries(fitted.result.parameters.map((key, i) => [key, fitted.result.values[i]])));
+  };
+
+  const available = CSTR_PARAMETER_KEYS.filter(key => !selected.includes(key));
+  const addKey = available.includes(adding) ? adding : available[0];
+
+  const fitChart = (result: EstimationResult, data: ExperimentalData) => {
+    const measured = data.series[field]!;
+    const model = result.curve.series[field]!;
+    const values = [...measured, ...model].filter((v): v is number => v !== null && Number.isFinite(v));
+    const xDomain: Domain = [data.time[0], data.time[data.time.length - 1]];
+    const yDomain = niceDomain([Math.min(...values), Math.max(...values)]);
+    const x = linearScale(xDomain, [MARGIN.left, WIDTH - MARGIN.right]);
+    const y = linearScale(yDomain, [HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+    const residuals = result.residuals[field]!;
+    const residualValues = residuals.filter((v): v is number => v !== null);
+    const largest = Math.max(...residualValues.map(Math.abs), 1e-12);
+    const rDomain = niceDomain([-largest, largest]);
+    const r = linearScale(rDomain, [RESIDUAL_HEIGHT - MARGIN.bottom, MARGIN.top]);
+    const unit = STATE_UNITS[field];
+
+    return (
+      <div>
+        <svg className="w-full" viewBox={`0 0 ${WIDTH} ${HEIGHT}`}>
+          <PlotAxes width={WIDTH} height={HEIGHT} margin={MARGIN} xDomain={xDomain} yDomain={yDomain} xLabel="Time (s)" yLabel={`${FIELD_LABELS[field]} (${unit})`} />
+          <polyline fill="none" stroke="#D97706" strokeWidth="2" points={result.curve.time.map((t, i) => `${x(t)},${y(model[i])}`).join(' ')} />
+          {measured.map((value, i) => value !== null && (
+            <circle key={i} cx={x(data.time[i])} cy={y(value)} r="2.5" fill="none" stroke="#1F2937" />
+          ))}
+        </svg>
+        <svg className="w-full" viewBox={`0 0 ${WIDTH} ${RESIDUAL_HEIGHT}`}>
+          <PlotAxes width={WIDTH} height={RESIDUAL_HEIGHT} margin={MARGIN} xDomain={xDomain} yDomain={rDomain} xLabel="Time (s)" yLabel={`Residual (${unit})`} />
+          <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={r(0)} y2={r(0)} stroke="#9CA3AF" />
+          {residuals.map((value, i) => value !== null && (
+            <line key={i} x1={x(data.time[i])} x2={x(data.time[i])} y1={r(0)} y2={r(value)} stroke="#D97706" />
+          ))}
+          {residuals.map((value, i) => value !== null && (
+            <circle key={`p-${i}`} cx={x(data.time[i])} cy={r(value)} r="2" fill="#D97706" />
+          ))}
+        </svg>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex items-center space-x-2 mb-4">
+        <TestTube className="w-4 h-4 sm:w-5 sm:h-5 text-amber-600" />
+        <h3 className="text-base sm:text-lg font-semibold text-gray-900">Parameter Estimation</h3>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 mb-3">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center space-x-1 px-3 py-1.5 text-gray-700 hover:text-blue-600 text-xs sm:text-sm font-medium transition-colors"
+        >
+          <Upload className="w-4 h-4" />
+          <span>Load CSV</span>
+        </button>
+        {fileName && table && <span>{fileName}: {table.rows.length} rows</span>}
+        <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,text/csv" className="hidden" onChange={load} />
+      </div>
+
+      {table && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-xs text-gray-600 mb-3">
+          {MAPPED_FIELDS.map(key => (
+            <label key={key} className="flex flex-col">
+              <span className="mb-0.5">{FIELD_LABELS[key]} ({STATE_UNITS[key]})</span>
+              <select
+                value={mapping[key] ?? ''}
+                onChange={(e) => {
+                  const column = e.target.value === '' ? undefined : Number(e.target.value);
+                  setMapping(prev => ({ ...prev, [key]: column }));
+                }}
+                className="px-1 py-0.5 border border-gray-300 rounded"
+              >
+                <option value="">—</option>
+                {table.headers.map((header, column) => <option key={column} value={column}>{header}</option>)}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-1 text-xs text-gray-700 mb-2">
+        <span className="text-gray-600 mr-1">Fit</span>
+        {selected.map(key => (
+          <span key={key} className="inline-flex items-center px-2 py-0.5 bg-amber-50 border border-amber-200 rounded">
+            {PARAMETER_QUANTITIES[key].label}
+            <button
+              onClick={() => setSelected(prev => prev.filter(k => k !== key))}
+              className="ml-1 text-gray-400 hover:text-red-600"
+              title="Remove"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 mb-3">
+        <select
+          value={addKey}
+          onChange={(e) => setAdding(e.target.value as CSTRParameterKey)}
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+        >
+          {[...SUGGESTED.filter(key => available.includes(key)), ...available.filter(key => !SUGGESTED.includes(key))].map(key => (
+            <option key={key} value={key}>{PARAMETER_QUANTITIES[key].label}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => { if (addKey) setSelected(prev => [...prev, addKey]); }}
+          disabled={available.length === 0}
+          className="px-2 py-1 text-gray-700 hover:text-blue-600 font-medium transition-colors disabled:opacity-40"
+        >
+          Add
+        </button>
+        <button
+          onClick={fit}
+          disabled={!table || selected.length === 0 || fitting}
+          className="px-3 py-1 bg-amber-600 text-white rounded-md text-xs sm:text-sm font-medium hover:bg-amber-700 transition-colors disabled:opacity-40"
+        >
+          {fitting ? 'Fitting…' : 'Fit'}
+        </button>
+      </div>
+
+      {error && <p className="text-xs sm:text-sm text-red-600 mb-2">{error}</p>}
+
+      {fitted && (
+        <div>
+          <div className="overflow-x-auto mb-2">
+            <table className="w-full text-xs text-gray-700">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-1 pr-2 font-medium">Parameter</th>
+                  <th className="py-1 pr-2 font-medium">Start</th>
+                  <th className="py-1 pr-2 font-medium">Estimate</th>
+                  <th className="py-1 pr-2 font-medium">95% interval</th>
+                  <th className="py-1 font-medium">Unit</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fitted.result.parameters.map((key, i) => (
+                  <tr key={key} className="border-b border-gray-100">
+                    <td className="py-1 pr-2 whitespace-nowrap">{PARAMETER_QUANTITIES[key].label}</td>
+                    <td className="py-1 pr-2">{shown(fitted.result.initial[i])}</td>
+                    <td className="py-1 pr-2 font-semibold">{shown(fitted.result.values[i])}</td>
+                    <td className="py-1 pr-2 whitespace-nowrap">
+                      {shown(fitted.result.intervals[i][0])} – {shown(fitted.result.intervals[i][1])}
+                    </td>
+                    <td className="py-1 text-gray-500">{PARAMETER_UNITS[key]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-gray-500 mb-2">
+            {fitted.result.converged ? 'Converged' : 'Stopped before converging'} after {fitted.result.iterations} iterations;
+            {' '}weighted sum of squares {shown(fitted.result.initialCost)} → {shown(fitted.result.cost)},
+            {' '}{fitted.result.degreesOfFreedom} degrees of freedom
+          </p>
+
+          {fitted.result.parameters.length > 1 && (
+            <div className="overflow-x-auto mb-3">
+              <table className="text-xs text-gray-700">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="py-1 pr-2 font-medium text-left">Correlation</th>
+                    {fitted.result.parameters.map(key => <th key={key} className="py-1 px-2 font-medium">{PARAMETER_SYMBOLS[key]}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {fitted.result.correlation.map((row, a) => (
+                    <tr key={a}>
+                      <td className="py-1 pr-2 text-gray-500">{PARAMETER_SYMBOLS[fitted.result.parameters[a]]}</td>
+                      {row.map((value, b) => (
+                        <td
+                          key={b}
+                          className={`py-1 px-2 text-right ${a !== b && Math.abs(value) > 0.95 ? 'text-red-600 font-semibold' : ''}`}
+                        >
+                          {Number.isFinite(value) ? value.toFixed(3) : '—'}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 mb-1">
+            <span>Show</span>
+            <select
+              value={field}
+              onChange={(e) => setField(e.target.value as MeasuredField)}
+              className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+            >
+              {MEASURED_FIELDS.filter(f => fitted.data.series[f] !== undefined).map(f => (
+                <option key={f} value={f}>{FIELD_LABELS[f]}</option>
+              ))}
+            </select>
+            <button
+              onClick={apply}
+              className="ml-auto px-3 py-1 bg-amber-600 text-white rounded-md text-xs sm:text-sm font-medium hover:bg-amber-700 transition-colors"
+            >
+              Apply to model
+            </button>
+          </div>
+          {fitted.data.series[field] && fitChart(fitted.result, fitted.data)}
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-xs text-gray-500">
+            <span className="flex items-center"><span className="w-2 h-2 rounded-full border border-gray-800 mr-1"></span>Data</span>
+            <span className="flex items-center"><span className="w-4 h-0.5 bg-amber-600 mr-1"></span>Fitted model</span>
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 mt-2">
+        Columns are matched to the state by their headers; a unit in brackets, e.g. "T [°C]", is converted.
+        The first row sets the initial state and the rest are fitted, each variable weighted by its spread.
+        Intervals and correlations come from the model linearized at the estimate; correlations near ±1
+        mean the data cannot tell those parameters apart.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useMemo } from 'react';
+import { Flame } from 'lucide-react';
+import { CSTRParameters, CSTRState } from '../utils/cstrModel';
+import { heatBalanceAt, heatBalanceCurve } from '../utils/heatBalance';
+import { SteadyStateAnalysis, steadyStateTemperatureBounds } from '../utils/steadyState';
+import { Domain, linearScale, niceDomain } from '../utils/chartScale';
+import { PlotAxes } from './PlotAxes';
+
+interface HeatBalancePanelProps {
+  params: CSTRParameters;
+  steadyStates: SteadyStateAnalysis;   // for params
+  currentState: CSTRState;
+}
+
+const WIDTH = 400;
+const HEIGHT = 240;
+const MARGIN = { top: 10, right: 12, bottom: 34, left: 52 };
+// Temperature range is widened in these steps so the curves are not
+// recomputed on every tick while the cursor moves
+const RANGE_STEP = 25;
+
+export const HeatBalancePanel: React.FC<HeatBalancePanelProps> = ({ params, steadyStates, currentState }) => {
+  const [boundLow, boundHigh] = steadyStateTemperatureBounds(params);
+  const tMin = Math.floor(Math.min(boundLow, currentState.temperature) / RANGE_STEP) * RANGE_STEP;
+  const tMax = Math.ceil(Math.max(boundHigh, currentState.temperature) / RANGE_STEP) * RANGE_STEP;
+
+  const curve = useMemo(() => {
+    try {
+      return heatBalanceCurve(params, [tMin, tMax]);
+    } catch {
+      return [];
+    }
+  }, [params, tMin, tMax]);
+  const intersections = steadyStates.states;
+
+  const cursor = heatBalanceAt(params, currentState.temperature);
+  const values = curve.flatMap(p => [p.generation, p.removal]);
+  const xDomain: Domain = [tMin, tMax];
+  const yDomain = niceDomain([Math.min(0, ...values), Math.max(0, ...values)]);
+  const x = linearScale(xDomain, [MARGIN.left, WIDTH - MARGIN.right]);
+  const y = linearScale(yDomain, [HEIGHT - MARGIN.bottom, MARGIN.top]);
+  const net = cursor.generation - cursor.removal;
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Flame className="w-4 h-4 sm:w-5 sm:h-5 text-orange-500" />
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">Heat Generation vs. Removal</h3>
+        </div>
+        <span className={`text-xs font-medium px-2 py-1 rounded-full ${
+          net > 0 ? 'bg-red-100 text-red-700' : 'bg-cyan-100 text-cyan-700'
+        }`}>
+          {net > 0 ? 'Heating' : 'Cooling'}: {net.toFixed(2)} kW
+        </span>
+      </div>
+
+      <svg className="w-full" viewBox={`0 0 ${WIDTH} ${HEIGHT}`}>
+        <PlotAxes
+          width={WIDTH}
+          height={HEIGHT}
+          margin={MARGIN}
+          xDomain={xDomain}
+          yDomain={yDomain}
+          xLabel="Reactor Temperature (K)"
+          yLabel="Heat Rate (kW)"
+        />
+        <polyline
+          fill="none"
+          stroke="#F97316"
+          strokeWidth="2"
+          points={curve.map(p => `${x(p.temperature)},${y(p.generation)}`).join(' ')}
+        />
+        <polyline
+          fill="none"
+          stroke="#0891B2"
+          strokeWidth="2"
+          points={curve.map(p => `${x(p.temperature)},${y(p.removal)}`).join(' ')}
+        />
+        {intersections.map((state, i) => (
+          <circle
+            key={i}
+            cx={x(state.temperature)}
+            cy={y(heatBalanceAt(params, state.temperature).removal)}
+            r="4"
+            fill={state.stable ? '#10B981' : 'white'}
+            stroke={state.stable ? '#047857' : '#6B7280'}
+            strokeWidth="1.5"
+          >
+            <title>{`${state.temperature.toFixed(1)} K (${state.type})`}</title>
+          </circle>
+        ))}
+        <line
+          x1={x(currentState.temperature)}
+          x2={x(currentState.temperature)}
+          y1={MARGIN.top}
+          y2={HEIGHT - MARGIN.bottom}
+          stroke="#EF4444"
+          strokeDasharray="3 2"
+        />
+        <circle cx={x(currentState.temperature)} cy={y(cursor.generation)} r="3" fill="#F97316" />
+        <circle cx={x(currentState.temperature)} cy={y(cursor.removal)} r="3" fill="#0891B2" />
+      </svg>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-gray-500">
+        <span className="flex items-center"><span className="w-4 h-0.5 bg-orange-500 mr-1"></span>Generation −λ·V·r(T)</span>
+        <span className="flex items-center"><span className="w-4 h-0.5 bg-cyan-600 mr-1"></span>Removal ρCpF₀(T−T₀) + UA(T−TJ)</span>
+        <span className="flex items-center"><span className="w-2 h-2 rounded-full bg-emerald-500 mr-1"></span>Stable / ○ unstable steady state</span>
+        <span className="flex items-center"><span className="w-4 h-0.5 bg-red-500 mr-1"></span>Current T</span>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Curves use the steady-state concentration and jacket temperature at each T. Where generation
+        rises faster than removal, a small temperature rise feeds on itself and the reactor runs away.
+      </p>
+    </div>
+  );
+};
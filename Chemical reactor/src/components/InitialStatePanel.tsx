@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { Crosshair } from 'lucide-react';
+import { CSTRState } from '../utils/cstrModel';
+
+interface InitialStatePanelProps {
+  initialState: CSTRState;
+  currentState: CSTRState;
+  onApply: (state: CSTRState) => void;
+}
+
+type StateField = 'volume' | 'concentration' | 'temperature' | 'jacketTemp';
+
+// Concentration may start at zero; the others must be strictly positive
+const FIELDS: { key: StateField; label: string; unit: string; allowZero: boolean }[] = [
+  { key: 'volume', label: 'Volume V', unit: 'm³', allowZero: false },
+  { key: 'concentration', label: 'Concentration CA', unit: 'mol/m³', allowZero: true },
+  { key: 'temperature', label: 'Temperature T', unit: 'K', allowZero: false },
+  { key: 'jacketTemp', label: 'Jacket Temp TJ', unit: 'K', allowZero: false }
+];
+
+// Fields are edited as text so a half-typed number is not reformatted underfoot
+const toDraft = (state: CSTRState) =>
+  Object.fromEntries(FIELDS.map(f => [f.key, String(state[f.key])])) as Record<StateField, string>;
+
+export const InitialStatePanel: React.FC<InitialStatePanelProps> = ({ initialState, currentState, onApply }) => {
+  const [draft, setDraft] = useState(() => toDraft(initialState));
+
+  // Follow external changes such as loading a preset
+  useEffect(() => {
+    setDraft(toDraft(initialState));
+  }, [initialState]);
+
+  const invalid = FIELDS.filter(f => {
+    const value = Number(draft[f.key]);
+    return draft[f.key].trim() === '' || !Number.isFinite(value) || value < 0 || (value === 0 && !f.allowZero);
+  });
+
+  const apply = () => {
+    if (invalid.length > 0) return;
+    onApply({
+      volume: Number(draft.volume),
+      concentration: Number(draft.concentration),
+      temperature: Number(draft.temperature),
+      jacketTemp: Number(draft.jacketTemp),
+      time: 0
+    });
+  };
+
+  // Round so the fields stay readable
+  const useCurrent = () => setDraft(Object.fromEntries(
+    FIELDS.map(f => [f.key, String(Number(currentState[f.key].toPrecision(6)))])
+  ) as Record<StateField, string>);
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex items-center space-x-2 mb-4">
+        <Crosshair className="w-4 h-4 sm:w-5 sm:h-5 text-blue-600" />
+        <h3 className="text-base sm:text-lg font-semibold text-gray-900">Initial Conditions</h3>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {FIELDS.map(field => (
+          <label key={field.key} className="text-xs text-gray-600">
+            <span className="block mb-0.5">{field.label} ({field.unit})</span>
+            <input
+              type="number"
+              value={draft[field.key]}
+              onChange={(e) => setDraft(prev => ({ ...prev, [field.key]: e.target.value }))}
+              className={`w-full px-2 py-1 border rounded-md text-xs sm:text-sm ${
+                invalid.includes(field) ? 'border-red-400' : 'border-gray-300'
+              }`}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        <button
+          onClick={apply}
+          disabled={invalid.length > 0}
+          className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white rounded-md text-xs sm:text-sm font-medium transition-colors"
+        >
+          Apply and reset
+        </button>
+        <button
+          onClick={useCurrent}
+          className="px-3 py-1 text-gray-700 hover:text-blue-600 text-xs sm:text-sm font-medium transition-colors"
+        >
+          Use current state
+        </button>
+      </div>
+      {invalid.length > 0 && (
+        <p className="text-xs text-red-600 mt-2">
+          Volume and temperatures must be positive; concentration must not be negative.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,352 @@
+import React, { useMemo, useState } from 'react';
+import { Download, FunctionSquare } from 'lucide-react';
+import { CSTR_PARAMETER_KEYS, CSTRParameters, CSTRState, PARAMETER_UNITS } from '../utils/cstrModel';
+import { SteadyStateAnalysis } from '../utils/steadyState';
+import {
+  bodeFrequencies,
+  formatPolynomial,
+  frequencyResponse,
+  LINEAR_INPUTS,
+  LINEAR_OUTPUTS,
+  LINEAR_STATES,
+  LinearInput,
+  linearize,
+  LinearModel,
+  linearModelToMatlab,
+  LinearOutput,
+  STATE_SYMBOLS,
+  stepResponse
+} from '../utils/linearization';
+import { Complex, Matrix } from '../utils/linearAlgebra';
+import { Domain, linearScale, niceDomain } from '../utils/chartScale';
+import { downloadFile } from '../utils/download';
+import { PlotAxes } from './PlotAxes';
+
+interface LinearizationPanelProps {
+  params: CSTRParameters;
+  steadyStates: SteadyStateAnalysis;   // for params
+  currentState: CSTRState;
+}
+
+const WIDTH = 400;
+const HEIGHT = 180;
+const MARGIN = { top: 10, right: 12, bottom: 34, left: 48 };
+
+const DEFAULT_INPUTS: LinearInput[] = ['jacketFlowRate', 'inletFlowRate', 'feedTemperature'];
+const DEFAULT_OUTPUTS: LinearOutput[] = ['temperature', 'concentration'];
+
+const formatEigenvalue = (l: Complex) =>
+  l.im === 0 ? l.re.toExponential(3) : `${l.re.toExponential(3)} ± ${Math.abs(l.im).toExponential(3)}i`;
+
+// Keep a choice in the order of the full list, so matrix rows and columns do
+// not depend on the order of clicks
+const toggle = <T extends string>(all: T[], chosen: T[], item: T): T[] =>
+  all.filter(key => (key === item ? !chosen.includes(key) : chosen.includes(key)));
+
+const sameList = <T,>(a: T[], b: T[]) => a.length === b.length && a.every((item, i) => b[i] === item);
+
+const MatrixTable: React.FC<{ name: string; matrix: Matrix; rows: string[]; columns: string[] }> = ({
+  name,
+  matrix,
+  rows,
+  columns
+}) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-xs text-gray-700">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="py-1 pr-2 font-medium">{name}</th>
+          {columns.map(column => <th key={column} className="py-1 pr-2 font-medium text-right">{column}</th>)}
+        </tr>
+      </thead>
+      <tbody>
+        {matrix.map((row, i) => (
+          <tr key={rows[i]} className="border-t border-gray-100">
+            <td className="py-1 pr-2 text-gray-500">{rows[i]}</td>
+            {row.map((value, j) => (
+              <td key={j} className="py-1 pr-2 text-right font-mono">{value === 0 ? '0' : value.toPrecision(4)}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const LinearizationPanel: React.FC<LinearizationPanelProps> = ({ params, steadyStates: analysis, currentState }) => {
+  const [pointIndex, setPointIndex] = useState(-1);   // -1 for the current state, else a steady state
+  const [inputs, setInputs] = useState<LinearInput[]>(DEFAULT_INPUTS);
+  const [outputs, setOutputs] = useState<LinearOutput[]>(DEFAULT_OUTPUTS);
+  const [model, setModel] = useState<LinearModel | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pair, setPair] = useState({ output: 0, input: 0 });
+  const [stepSize, setStepSize] = useState<number | null>(null);   // null for 10 % of the input's value
+
+  const steadyStates = analysis.states;
+
+  const handleLinearize = () => {
+    const steady = steadyStates[pointIndex];
+    const state: CSTRState = steady
+      ? { volume: steady.volume, concentration: steady.concentration, temperature: steady.temperature, jacketTemp: steady.jacketTemp, time: currentState.time }
+      : { ...currentState };
+    try {
+      setModel(linearize(params, state, inputs, outputs));
+      setPair({ output: 0, input: 0 });
+      setStepSize(null);
+      setError(null);
+    } catch (e) {
+      setModel(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const outputIndex = model ? Math.min(pair.output, model.outputs.length - 1) : 0;
+  const inputIndex = model ? Math.min(pair.input, model.inputs.length - 1) : 0;
+  const inputValue = model ? model.inputValues[inputIndex] : 0;
+  const size = stepSize ?? (inputValue !== 0 ? Number((inputValue * 0.1).toPrecision(3)) : 1);
+
+  const bode = useMemo(
+    () => (model ? frequencyResponse(model, outputIndex, inputIndex, bodeFrequencies(model)) : []),
+    [model, outputIndex, inputIndex]
+  );
+  const step = useMemo(
+    () => (model ? stepResponse(model, inputIndex, size) : null),
+    [model, inputIndex, size]
+  );
+
+  const frequencyDomain: Domain = bode.length > 0
+    ? [Math.log10(bode[0].frequency), Math.log10(bode[bode.length - 1].frequency)]
+    : [0, 1];
+  const magnitudes = bode.map(point => point.magnitude).filter(Number.isFinite);
+  const phases = bode.map(point => point.phase);
+  const magnitudeDomain = niceDomain([Math.min(...magnitudes), Math.max(...magnitudes)]);
+  const phaseDomain = niceDomain([Math.min(...phases), Math.max(...phases)]);
+  const stepValues = step ? step.outputs[outputIndex] : [];
+  const timeDomain: Domain = step ? [0, step.time[step.time.length - 1]] : [0, 1];
+  const responseDomain = niceDomain([Math.min(0, ...stepValues), Math.max(0, ...stepValues)]);
+
+  const x = linearScale(frequencyDomain, [MARGIN.left, WIDTH - MARGIN.right]);
+  const plotY = (domain: Domain) => linearScale(domain, [HEIGHT - MARGIN.bottom, MARGIN.top]);
+  const magnitudeY = plotY(magnitudeDomain);
+  const phaseY = plotY(phaseDomain);
+  const timeX = linearScale(timeDomain, [MARGIN.left, WIDTH - MARGIN.right]);
+  const responseY = plotY(responseDomain);
+
+  const output = model ? LINEAR_OUTPUTS[model.outputs[outputIndex]] : null;
+  const input = model ? LINEAR_INPUTS[model.inputs[inputIndex]] : null;
+  const stale = model !== null && (
+    CSTR_PARAMETER_KEYS.some(key => model.parameters[key] !== params[key]) ||
+    !sameList(model.inputs, inputs) ||
+    !sameList(model.outputs, outputs)
+  );
+
+  const plot = (content: React.ReactNode, props: { yDomain: Domain; yLabel: string; xDomain?: Domain; xLabel?: string; logarithmic?: boolean }) => (
+    <svg className="w-full" viewBox={`0 0 ${WIDTH} ${HEIGHT}`}>
+      <PlotAxes
+        width={WIDTH}
+        height={HEIGHT}
+        margin={MARGIN}
+        xDomain={props.xDomain ?? frequencyDomain}
+        yDomain={props.yDomain}
+        xLabel={props.xLabel ?? 'ω (rad/s)'}
+        yLabel={props.yLabel}
+        xLogarithmic={props.logarithmic ?? true}
+      />
+      {content}
+    </svg>
+  );
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <FunctionSquare className="w-4 h-4 sm:w-5 sm:h-5 text-indigo-600" />
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">Linearization</h3>
+        </div>
+        {model && (
+          <button
+            onClick={() => downloadFile(linearModelToMatlab(model), 'cstr_linear_model.m', 'text/plain')}
+            className="flex items-center space-x-1 px-2 py-1 text-gray-700 hover:text-blue-600 text-xs sm:text-sm font-medium transition-colors"
+            title="MATLAB/Octave script with the operating point, A, B, C, D and transfer functions"
+          >
+            <Download className="w-4 h-4" />
+            <span>Export .m</span>
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2 text-xs sm:text-sm text-gray-700">
+        <label className="flex items-center space-x-2">
+          <span className="text-gray-500">Operating point</span>
+          <select
+            value={pointIndex < steadyStates.length ? pointIndex : -1}
+            onChange={(e) => setPointIndex(Number(e.target.value))}
+            className="px-2 py-1 border border-gray-300 rounded-md text-xs sm:text-sm"
+          >
+            <option value={-1}>Current state (t = {currentState.time.toFixed(1)} s)</option>
+            {steadyStates.map((state, i) => (
+              <option key={i} value={i}>Steady state T = {state.temperature.toFixed(2)} K ({state.type})</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+          <span className="text-gray-500">Inputs u</span>
+          {(Object.keys(LINEAR_INPUTS) as LinearInput[]).map(key => (
+            <label key={key} className="flex items-center space-x-1" title={LINEAR_INPUTS[key].label}>
+              <input
+                type="checkbox"
+                checked={inputs.includes(key)}
+                onChange={() => setInputs(toggle(Object.keys(LINEAR_INPUTS) as LinearInput[], inputs, key))}
+              />
+              <span>{LINEAR_INPUTS[key].symbol}</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+          <span className="text-gray-500">Outputs y</span>
+          {(Object.keys(LINEAR_OUTPUTS) as LinearOutput[]).map(key => (
+            <label key={key} className="flex items-center space-x-1" title={LINEAR_OUTPUTS[key].label}>
+              <input
+                type="checkbox"
+                checked={outputs.includes(key)}
+                onChange={() => setOutputs(toggle(Object.keys(LINEAR_OUTPUTS) as LinearOutput[], outputs, key))}
+              />
+              <span>{LINEAR_OUTPUTS[key].symbol}</span>
+            </label>
+          ))}
+        </div>
+        <button
+          onClick={handleLinearize}
+          className="px-3 py-1 bg-indigo-600 text-white rounded-md text-xs sm:text-sm font-medium hover:bg-indigo-700 transition-colors"
+        >
+          Linearize
+        </button>
+        {error && <p className="text-red-600">{error}</p>}
+        {stale && <p className="text-amber-700">The parameters or the choice of inputs and outputs have changed; linearize again to update.</p>}
+      </div>
+
+      {model && output && input && (
+        <div className="mt-4 space-y-4">
+          <p className="text-xs sm:text-sm text-gray-700">
+            Operating point at t = {model.state.time.toFixed(1)} s,{' '}
+            {model.steady ? 'a steady state' : 'not a steady state: the linear model leaves out the drift f0'}.
+            Eigenvalues of A:{' '}
+            <span className="font-mono">{model.eigenvalues.map(formatEigenvalue).join(', ')}</span>{' '}
+            <span className={`font-medium ${model.stable ? 'text-green-600' : 'text-red-600'}`}>({model.type})</span>
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <MatrixTable
+              name="A"
+              matrix={model.a}
+              rows={LINEAR_STATES.map(key => STATE_SYMBOLS[key])}
+              columns={LINEAR_STATES.map(key => STATE_SYMBOLS[key])}
+            />
+            <MatrixTable
+              name="B"
+              matrix={model.b}
+              rows={LINEAR_STATES.map(key => STATE_SYMBOLS[key])}
+              columns={model.inputs.map(key => LINEAR_INPUTS[key].symbol)}
+            />
+            <MatrixTable
+              name="C"
+              matrix={model.c}
+              rows={model.outputs.map(key => LINEAR_OUTPUTS[key].symbol)}
+              columns={LINEAR_STATES.map(key => STATE_SYMBOLS[key])}
+            />
+            <MatrixTable
+              name="D"
+              matrix={model.d}
+              rows={model.outputs.map(key => LINEAR_OUTPUTS[key].symbol)}
+              columns={model.inputs.map(key => LINEAR_INPUTS[key].symbol)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-xs sm:text-sm text-gray-700">
+              <span className="text-gray-500">Transfer function</span>
+              <select
+                value={outputIndex}
+                onChange={(e) => setPair({ ...pair, output: Number(e.target.value) })}
+                className="px-2 py-1 border border-gray-300 rounded-md text-xs sm:text-sm"
+              >
+                {model.outputs.map((key, i) => <option key={key} value={i}>{LINEAR_OUTPUTS[key].label}</option>)}
+              </select>
+              <span>/</span>
+              <select
+                value={inputIndex}
+                onChange={(e) => {
+                  setPair({ ...pair, input: Number(e.target.value) });
+                  setStepSize(null);
+                }}
+                className="px-2 py-1 border border-gray-300 rounded-md text-xs sm:text-sm"
+              >
+                {model.inputs.map((key, i) => <option key={key} value={i}>{LINEAR_INPUTS[key].label}</option>)}
+              </select>
+            </div>
+            <p className="text-xs font-mono text-gray-900 break-all">
+              G(s) = ({formatPolynomial(model.numerators[outputIndex][inputIndex])}) / ({formatPolynomial(model.denominator)})
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {plot(
+              <polyline
+                points={bode.filter(point => Number.isFinite(point.magnitude))
+                  .map(point => `${x(Math.log10(point.frequency))},${magnitudeY(point.magnitude)}`).join(' ')}
+                fill="none"
+                stroke="#4F46E5"
+                strokeWidth="1.5"
+              />,
+              { yDomain: magnitudeDomain, yLabel: '|G| (dB)' }
+            )}
+            {plot(
+              <polyline
+                points={bode.map(point => `${x(Math.log10(point.frequency))},${phaseY(point.phase)}`).join(' ')}
+                fill="none"
+                stroke="#10B981"
+                strokeWidth="1.5"
+              />,
+              { yDomain: phaseDomain, yLabel: 'Phase (°)' }
+            )}
+          </div>
+
+          <div>
+            <label className="flex items-center space-x-2 text-xs sm:text-sm text-gray-700">
+              <span className="text-gray-500">Step in {input.symbol}</span>
+              <input
+                type="number"
+                value={size}
+                onChange={(e) => setStepSize(Number(e.target.value))}
+                className="w-24 px-1 py-0.5 border border-gray-300 rounded"
+              />
+              <span>{PARAMETER_UNITS[model.inputs[inputIndex]]} from {inputValue.toPrecision(4)}</span>
+            </label>
+            {step && plot(
+              <polyline
+                points={step.time.map((t, k) => `${timeX(t)},${responseY(stepValues[k])}`).join(' ')}
+                fill="none"
+                stroke="#F59E0B"
+                strokeWidth="1.5"
+              />,
+              {
+                xDomain: timeDomain,
+                xLabel: 'Time after step (s)',
+                yDomain: responseDomain,
+                yLabel: `Δ${output.symbol} (${output.unit})`,
+                logarithmic: false
+              }
+            )}
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 mt-2">
+        A comes from the model's analytic Jacobian, B, C and D from central differences, all in deviation
+        variables about the operating point. Transfer functions share the denominator det(sI − A), so cancelling
+        poles and zeros are not removed. The step response is that of the linear model; compare it with the
+        simulation for steps small enough to stay near the operating point.
+      </p>
+    </div>
+  );
+};
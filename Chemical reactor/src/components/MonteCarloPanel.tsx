@@ -0,0 +1,309 @@
+import React, { useState } from 'react';
+import { Dices, X } from 'lucide-react';
+import { CSTR_PARAMETER_KEYS, CSTRParameterKey, CSTRParameters, CSTRState, PARAMETER_UNITS } from '../utils/cstrModel';
+import { PARAMETER_QUANTITIES } from '../utils/quantities';
+import {
+  DISTRIBUTION_LABELS,
+  DistributionType,
+  MAX_SAMPLES,
+  MonteCarloProgress,
+  MonteCarloResult,
+  MonteCarloSetup,
+  ParameterDistribution
+} from '../utils/monteCarlo';
+import { StudyProgressHandler } from '../utils/simulationClient';
+import { Domain, linearScale, niceDomain } from '../utils/chartScale';
+import { PlotAxes } from './PlotAxes';
+
+interface MonteCarloPanelProps {
+  params: CSTRParameters;
+  initialState: CSTRState;
+  // The safety limit exceedance is judged against, e.g. the HIHI temperature
+  // alarm; undefined when there is none
+  temperatureLimit: number | undefined;
+  // Run the study in the simulation worker; resolves when it finishes or is cancelled
+  onRunStudy: (setup: MonteCarloSetup, onProgress: StudyProgressHandler) => Promise<void>;
+  onCancelStudy: () => void;
+}
+
+const WIDTH = 400;
+const HEIGHT = 220;
+const MARGIN = { top: 10, right: 12, bottom: 34, left: 48 };
+
+const DISTRIBUTION_TYPES = Object.keys(DISTRIBUTION_LABELS) as DistributionType[];
+
+// Fields of each distribution as [key, label] pairs, in the order they are edited
+const DISTRIBUTION_FIELDS: Record<DistributionType, [string, string][]> = {
+  normal: [['mean', 'Mean'], ['stdDev', 'σ']],
+  lognormal: [['median', 'Median'], ['logStdDev', 'σ(ln)']],
+  uniform: [['min', 'Min'], ['max', 'Max']]
+};
+
+// Starting spread around the nominal value when a distribution is added or changes type
+function defaultDistribution(parameter: CSTRParameterKey, type: DistributionType, value: number): ParameterDistribution {
+  switch (type) {
+    case 'normal':
+      return { parameter, type, mean: value, stdDev: Math.abs(value) * 0.05 };
+    case 'lognormal':
+      return { parameter, type, median: value > 0 ? value : 1, logStdDev: 0.2 };
+    case 'uniform':
+      return { parameter, type, min: value - Math.abs(value) * 0.1, max: value + Math.abs(value) * 0.1 };
+  }
+}
+
+export const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({
+  params,
+  initialState,
+  temperatureLimit,
+  onRunStudy,
+  onCancelStudy
+}) => {
+  const [distributions, setDistributions] = useState<ParameterDistribution[]>(() => [
+    defaultDistribution('preExponentialFactor', 'lognormal', params.preExponentialFactor),
+    defaultDistribution('activationEnergy', 'normal', params.activationEnergy)
+  ]);
+  const [adding, setAdding] = useState<CSTRParameterKey>('heatOfReaction');
+  const [samples, setSamples] = useState(200);
+  const [horizon, setHorizon] = useState(300);
+  const [seed, setSeed] = useState(1);
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [progress, setProgress] = useState<MonteCarloProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // Centre the distributions on new nominal values, e.g. after another preset
+  // is applied; those whose parameter did not change keep their settings
+  const [nominal, setNominal] = useState(params);
+  if (nominal !== params) {
+    setNominal(params);
+    setDistributions(prev => prev.map(d =>
+      params[d.parameter] === nominal[d.parameter] ? d : defaultDistribution(d.parameter, d.type, params[d.parameter])));
+  }
+
+  // The worker runs the samples beside the live run and reports as it goes
+  const start = async () => {
+    setError(null);
+    setResult(null);
+    setProgress(null);
+    setRunning(true);
+    try {
+      await onRunStudy(
+        { parameters: params, initialState, distributions, options: { samples, horizon, temperatureLimit, seed } },
+        (latest, latestProgress) => {
+          setResult(latest);
+          setProgress(latestProgress);
+        }
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const update = (index: number, distribution: ParameterDistribution) =>
+    setDistributions(prev => prev.map((d, i) => i === index ? distribution : d));
+
+  const available = CSTR_PARAMETER_KEYS.filter(key => !distributions.some(d => d.parameter === key));
+
+  const bandChart = (series: number[][], label: string, limit?: number) => {
+    const time = result!.time;
+    const values = series.flat().filter(Number.isFinite);
+    const yDomain = niceDomain([Math.min(...values, limit ?? Infinity), Math.max(...values, limit ?? -Infinity)]);
+    const xDomain: Domain = [time[0], time[time.length - 1]];
+    const x = linearScale(xDomain, [MARGIN.left, WIDTH - MARGIN.right]);
+    const y = linearScale(yDomain, [HEIGHT - MARGIN.bottom, MARGIN.top]);
+    // Percentile series are 5, 25, 50, 75, 95
+    const band = (lower: number[], upper: number[]) =>
+      [...time.map((t, i) => `${x(t)},${y(upper[i])}`), ...time.map((t, i) => `${x(t)},${y(lower[i])}`).reverse()].join(' ');
+    return (
+      <svg className="w-full" viewBox={`0 0 ${WIDTH} ${HEIGHT}`}>
+        <PlotAxes width={WIDTH} height={HEIGHT} margin={MARGIN} xDomain={xDomain} yDomain={yDomain} xLabel="Time (s)" yLabel={label} />
+        <polygon points={band(series[0], series[4])} fill="#C4B5FD" opacity="0.5" />
+        <polygon points={band(series[1], series[3])} fill="#8B5CF6" opacity="0.5" />
+        <polyline fill="none" stroke="#5B21B6" strokeWidth="2" points={time.map((t, i) => `${x(t)},${y(series[2][i])}`).join(' ')} />
+        {limit !== undefined && (
+          <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(limit)} y2={y(limit)} stroke="#EF4444" strokeDasharray="4 3" />
+        )}
+      </svg>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex items-center space-x-2 mb-4">
+        <Dices className="w-4 h-4 sm:w-5 sm:h-5 text-violet-600" />
+        <h3 className="text-base sm:text-lg font-semibold text-gray-900">Monte Carlo Uncertainty</h3>
+      </div>
+
+      <div className="overflow-x-auto mb-2">
+        <table className="w-full text-xs text-gray-700">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-1 pr-2 font-medium">Parameter</th>
+              <th className="py-1 pr-2 font-medium">Distribution</th>
+              <th className="py-1 pr-2 font-medium">Settings</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {distributions.map((distribution, index) => {
+              const fields = distribution as unknown as Record<string, number>;
+              return (
+                <tr key={distribution.parameter} className="border-b border-gray-100">
+                  <td className="py-1 pr-2 whitespace-nowrap">
+                    {PARAMETER_QUANTITIES[distribution.parameter].label} <span className="text-gray-400">({PARAMETER_UNITS[distribution.parameter]})</span>
+                  </td>
+                  <td className="py-1 pr-2">
+                    <select
+                      value={distribution.type}
+                      onChange={(e) => update(index, defaultDistribution(distribution.parameter, e.target.value as DistributionType, params[distribution.parameter]))}
+                      className="px-1 py-0.5 border border-gray-300 rounded"
+                    >
+                      {DISTRIBUTION_TYPES.map(type => <option key={type} value={type}>{DISTRIBUTION_LABELS[type]}</option>)}
+                    </select>
+                  </td>
+                  <td className="py-1 pr-2 whitespace-nowrap">
+                    {DISTRIBUTION_FIELDS[distribution.type].map(([key, label]) => (
+                      <label key={key} className="inline-flex items-center mr-2">
+                        <span className="mr-1 text-gray-500">{label}</span>
+                        <input
+                          type="number"
+                          value={fields[key]}
+                          onChange={(e) => update(index, { ...distribution, [key]: Number(e.target.value) })}
+                          className="w-20 px-1 py-0.5 border border-gray-300 rounded"
+                        />
+                      </label>
+                    ))}
+                  </td>
+                  <td className="py-1">
+                    <button
+                      onClick={() => setDistributions(prev => prev.filter((_, i) => i !== index))}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Remove"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 mb-3">
+        <select
+          value={available.includes(adding) ? adding : available[0]}
+          onChange={(e) => setAdding(e.target.value as CSTRParameterKey)}
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+        >
+          {available.map(key => <option key={key} value={key}>{PARAMETER_QUANTITIES[key].label}</option>)}
+        </select>
+        <button
+          onClick={() => {
+            const key = available.includes(adding) ? adding : available[0];
+            if (key) setDistributions(prev => [...prev, defaultDistribution(key, 'normal', params[key])]);
+          }}
+          disabled={available.length === 0}
+          className="px-2 py-1 text-gray-700 hover:text-blue-600 font-medium transition-colors disabled:opacity-40"
+        >
+          Add
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 mb-3">
+        <span>Samples</span>
+        <input
+          type="number"
+          min={1}
+          max={MAX_SAMPLES}
+          value={samples}
+          onChange={(e) => setSamples(parseInt(e.target.value, 10))}
+          className="w-16 px-1 py-0.5 border border-gray-300 rounded"
+        />
+        <span>Horizon (s)</span>
+        <input
+          type="number"
+          value={horizon}
+          onChange={(e) => setHorizon(parseFloat(e.target.value))}
+          className="w-16 px-1 py-0.5 border border-gray-300 rounded"
+        />
+        <span>Seed</span>
+        <input
+          type="number"
+          value={seed}
+          onChange={(e) => setSeed(parseInt(e.target.value, 10))}
+          className="w-14 px-1 py-0.5 border border-gray-300 rounded"
+        />
+        {running ? (
+          <button
+            onClick={onCancelStudy}
+            className="px-3 py-1 bg-gray-100 text-gray-700 rounded-md text-xs sm:text-sm font-medium hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={start}
+            className="px-3 py-1 bg-violet-600 text-white rounded-md text-xs sm:text-sm font-medium hover:bg-violet-700 transition-colors"
+          >
+            Run
+          </button>
+        )}
+      </div>
+
+      {progress && (
+        <div className="mb-3">
+          <div className="w-full h-1.5 bg-gray-200 rounded">
+            <div className="h-1.5 bg-violet-500 rounded" style={{ width: `${(progress.drawn / progress.total) * 100}%` }}></div>
+          </div>
+          <span className="text-xs text-gray-500">
+            {progress.drawn} of {progress.total} samples{running ? '' : progress.drawn < progress.total ? ' (stopped)' : ''}
+          </span>
+        </div>
+      )}
+
+      {error && <p className="text-xs sm:text-sm text-red-600 mb-2">{error}</p>}
+
+      {result && result.completed > 0 && (
+        <div>
+          {result.exceedanceProbability !== null && result.exceedanceInterval !== null ? (
+            <p className="text-xs sm:text-sm text-gray-700 mb-2">
+              P(T &gt; {result.temperatureLimit} K) ={' '}
+              <span className={`font-semibold ${result.exceedanceProbability > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {(result.exceedanceProbability * 100).toFixed(1)}%
+              </span>
+              <span className="text-gray-500">
+                {' '}(95% interval {(result.exceedanceInterval[0] * 100).toFixed(1)}–{(result.exceedanceInterval[1] * 100).toFixed(1)}%,
+                {' '}{result.completed} runs{result.failed > 0 ? `, ${result.failed} failed` : ''})
+              </span>
+            </p>
+          ) : (
+            <p className="text-xs sm:text-sm text-gray-500 mb-2">
+              No HIHI temperature limit is set, so there is no exceedance probability; {result.completed} runs
+              {result.failed > 0 ? `, ${result.failed} failed` : ''}.
+            </p>
+          )}
+          {bandChart(result.temperature, 'Temperature (K)', result.temperatureLimit ?? undefined)}
+          {bandChart(result.conversion, 'Conversion (%)')}
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-xs text-gray-500">
+            <span className="flex items-center"><span className="w-4 h-0.5 bg-violet-800 mr-1"></span>Median</span>
+            <span className="flex items-center"><span className="w-3 h-3 bg-violet-500 opacity-50 mr-1"></span>25–75%</span>
+            <span className="flex items-center"><span className="w-3 h-3 bg-violet-300 opacity-50 mr-1"></span>5–95%</span>
+            {result.exceedanceProbability !== null && (
+              <span className="flex items-center"><span className="w-4 h-0.5 bg-red-500 mr-1"></span>Safety limit</span>
+            )}
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 mt-2">
+        Every sample starts from the initial state with the current parameters and the uncertain ones drawn
+        from their distributions. Normal draws of parameters that must be positive are redrawn until they
+        are. The samples run in the background beside the live simulation. The safety limit is the HIHI
+        temperature alarm; with HIHI cleared there is none. Same seed, same samples.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Compass, Trash2 } from 'lucide-react';
+import { CSTRParameters, CSTRState } from '../utils/cstrModel';
+import { directionField, PhaseTrajectory, phaseTrajectory } from '../utils/phasePlane';
+import { steadyStateTemperatureBounds } from '../utils/steadyState';
+import { linearScale, niceDomain } from '../utils/chartScale';
+import { PlotAxes } from './PlotAxes';
+
+interface PhasePlanePanelProps {
+  params: CSTRParameters;
+  currentState: CSTRState;
+  history: {
+    concentration: number[];
+    temperature: number[];
+  };
+}
+
+const WIDTH = 400;
+const HEIGHT = 280;
+const MARGIN = { top: 10, right: 12, bottom: 34, left: 48 };
+const ARROW_LENGTH = 10;
+const TRAJECTORY_COLORS = ['#8B5CF6', '#10B981', '#F59E0B', '#EC4899', '#06B6D4'];
+
+export const PhasePlanePanel: React.FC<PhasePlanePanelProps> = ({ params, currentState, history }) => {
+  const [freezeVolume, setFreezeVolume] = useState(true);
+  const [freezeJacket, setFreezeJacket] = useState(false);
+  const [trajectories, setTrajectories] = useState<PhaseTrajectory[]>([]);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const [boundLow, boundHigh] = steadyStateTemperatureBounds(params);
+  const caDomain = niceDomain([0, Math.max(params.feedConcentration, ...history.concentration) * 1.1]);
+  const tDomain = niceDomain([
+    Math.min(boundLow, ...history.temperature) - 10,
+    Math.max(boundHigh, ...history.temperature) + 10
+  ]);
+  const x = linearScale(caDomain, [MARGIN.left, WIDTH - MARGIN.right]);
+  const y = linearScale(tDomain, [HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+  const { volume, jacketTemp } = currentState;
+  const [caMin, caMax] = caDomain;
+  const [tMin, tMax] = tDomain;
+  const arrows = useMemo(
+    () => directionField(params, { volume, jacketTemp }, [caMin, caMax], [tMin, tMax]),
+    [params, volume, jacketTemp, caMin, caMax, tMin, tMax]
+  );
+
+  // Start a new trajectory from the clicked point, holding the unplotted
+  // states at their current values as the starting condition
+  const handleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const px = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const py = ((event.clientY - rect.top) / rect.height) * HEIGHT;
+    if (px < MARGIN.left || px > WIDTH - MARGIN.right || py < MARGIN.top || py > HEIGHT - MARGIN.bottom) return;
+
+    const concentration = linearScale([MARGIN.left, WIDTH - MARGIN.right], caDomain)(px);
+    const temperature = linearScale([HEIGHT - MARGIN.bottom, MARGIN.top], tDomain)(py);
+    const start: CSTRState = { ...currentState, concentration, temperature, time: 0 };
+    setTrajectories(prev => [...prev, phaseTrajectory(params, start, { freezeVolume, freezeJacket })]);
+  };
+
+  const toPoints = (concentration: number[], temperature: number[]) =>
+    concentration.map((ca, i) => `${x(ca)},${y(temperature[i])}`).join(' ');
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4 space-y-2 sm:space-y-0">
+        <div className="flex items-center space-x-2">
+          <Compass className="w-4 h-4 sm:w-5 sm:h-5 text-purple-600" />
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">Phase Plane (CA vs. T)</h3>
+        </div>
+        <div className="flex items-center space-x-3 text-xs sm:text-sm text-gray-600">
+          <label className="flex items-center space-x-1">
+            <input type="checkbox" checked={freezeVolume} onChange={(e) => setFreezeVolume(e.target.checked)} />
+            <span>Hold V</span>
+          </label>
+          <label className="flex items-center space-x-1">
+            <input type="checkbox" checked={freezeJacket} onChange={(e) => setFreezeJacket(e.target.checked)} />
+            <span>Hold TJ</span>
+          </label>
+          <button
+            onClick={() => setTrajectories([])}
+            className="flex items-center space-x-1 px-2 py-1 text-gray-600 hover:text-red-600 transition-colors"
+            title="Clear trajectories"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <svg
+        ref={svgRef}
+        className="w-full cursor-crosshair"
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        onClick={handleClick}
+      >
+        <defs>
+          <marker id="phase-arrow" viewBox="0 0 6 6" refX="5" refY="3" markerWidth="4" markerHeight="4" orient="auto">
+            <path d="M0,0 L6,3 L0,6 z" fill="#9CA3AF" />
+          </marker>
+        </defs>
+        <PlotAxes
+          width={WIDTH}
+          height={HEIGHT}
+          margin={MARGIN}
+          xDomain={caDomain}
+          yDomain={tDomain}
+          xLabel="Concentration CA (mol/m³)"
+          yLabel="Temperature T (K)"
+        />
+        {arrows.map((arrow, i) => {
+          // Direction in screen space, drawn with a fixed length
+          const dx = x(arrow.concentration + arrow.dConcentration) - x(arrow.concentration);
+          const dy = y(arrow.temperature + arrow.dTemperature) - y(arrow.temperature);
+          const length = Math.hypot(dx, dy);
+          if (!(length > 0)) return null;
+          const ux = (dx / length) * ARROW_LENGTH / 2;
+          const uy = (dy / length) * ARROW_LENGTH / 2;
+          const cx = x(arrow.concentration);
+          const cy = y(arrow.temperature);
+          return (
+            <line
+              key={i}
+              x1={cx - ux}
+              y1={cy - uy}
+              x2={cx + ux}
+              y2={cy + uy}
+              stroke="#9CA3AF"
+              strokeWidth="1"
+              markerEnd="url(#phase-arrow)"
+            />
+          );
+        })}
+        {trajectories.map((trajectory, i) => (
+          <g key={i}>
+            <polyline
+              fill="none"
+              stroke={TRAJECTORY_COLORS[i % TRAJECTORY_COLORS.length]}
+              strokeWidth="1.5"
+              points={toPoints(trajectory.concentration, trajectory.temperature)}
+            />
+            <circle
+              cx={x(trajectory.concentration[0])}
+              cy={y(trajectory.temperature[0])}
+              r="3"
+              fill={TRAJECTORY_COLORS[i % TRAJECTORY_COLORS.length]}
+            />
+          </g>
+        ))}
+        {history.concentration.length > 1 && (
+          <polyline
+            fill="none"
+            stroke="#3B82F6"
+            strokeWidth="2"
+            points={toPoints(history.concentration, history.temperature)}
+          />
+        )}
+        <circle
+          cx={x(currentState.concentration)}
+          cy={y(currentState.temperature)}
+          r="4"
+          fill="#EF4444"
+          stroke="white"
+          strokeWidth="1.5"
+        />
+      </svg>
+
+      <p className="text-xs text-gray-500 mt-2">
+        Arrows show the direction of dCA/dt and dT/dt at the current V = {volume.toFixed(3)} m³ and
+        TJ = {jacketTemp.toFixed(1)} K. Click anywhere in the plot to start a new trajectory from that point.
+      </p>
+    </div>
+  );
+};
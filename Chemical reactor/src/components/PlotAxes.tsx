@@ -0,0 +1,99 @@
+import React from 'react';
+import { Domain, formatTick, linearScale, niceStep, niceTicks, PlotMargin } from '../utils/chartScale';
+
+interface PlotAxesProps {
+  width: number;
+  height: number;
+  margin: PlotMargin;
+  xDomain: Domain;
+  yDomain: Domain;
+  xLabel: string;
+  yLabel: string;
+  // Optional second y-axis on the right, without gridlines of its own
+  rightDomain?: Domain;
+  rightLabel?: string;
+  // x values are log10 of the quantity, e.g. Bode plots; ticks at whole decades
+  xLogarithmic?: boolean;
+}
+
+// Axis lines, gridlines and tick labels for the SVG analysis plots
+export const PlotAxes: React.FC<PlotAxesProps> = ({
+  width,
+  height,
+  margin,
+  xDomain,
+  yDomain,
+  xLabel,
+  yLabel,
+  rightDomain,
+  rightLabel,
+  xLogarithmic = false
+}) => {
+  const x = linearScale(xDomain, [margin.left, width - margin.right]);
+  const y = linearScale(yDomain, [height - margin.bottom, margin.top]);
+  const xStep = niceStep(xDomain);
+  const xTicks = xLogarithmic
+    ? Array.from(
+      { length: Math.max(0, Math.floor(xDomain[1]) - Math.ceil(xDomain[0]) + 1) },
+      (_, i) => Math.ceil(xDomain[0]) + i
+    )
+    : niceTicks(xDomain);
+  const xTickLabel = (tick: number) =>
+    xLogarithmic ? formatTick(Math.pow(10, tick), Math.pow(10, tick)) : formatTick(tick, xStep);
+  const yStep = niceStep(yDomain);
+  const right = width - margin.right;
+  const middle = (margin.top + height - margin.bottom) / 2;
+
+  return (
+    <g className="text-gray-500" fontSize="9" fill="currentColor">
+      {xTicks.map(tick => (
+        <g key={`x-${tick}`}>
+          <line x1={x(tick)} x2={x(tick)} y1={margin.top} y2={height - margin.bottom} stroke="#f3f4f6" />
+          <text x={x(tick)} y={height - margin.bottom + 12} textAnchor="middle">{xTickLabel(tick)}</text>
+        </g>
+      ))}
+      {niceTicks(yDomain).map(tick => (
+        <g key={`y-${tick}`}>
+          <line x1={margin.left} x2={width - margin.right} y1={y(tick)} y2={y(tick)} stroke="#f3f4f6" />
+          <text x={margin.left - 4} y={y(tick) + 3} textAnchor="end">{formatTick(tick, yStep)}</text>
+        </g>
+      ))}
+      <line x1={margin.left} x2={width - margin.right} y1={height - margin.bottom} y2={height - margin.bottom} stroke="#9ca3af" />
+      <line x1={margin.left} x2={margin.left} y1={margin.top} y2={height - margin.bottom} stroke="#9ca3af" />
+      <text x={(margin.left + width - margin.right) / 2} y={height - 4} textAnchor="middle" fontSize="10">{xLabel}</text>
+      <text
+        x={12}
+        y={(margin.top + height - margin.bottom) / 2}
+        textAnchor="middle"
+        fontSize="10"
+        transform={`rotate(-90 12 ${(margin.top + height - margin.bottom) / 2})`}
+      >
+        {yLabel}
+      </text>
+      {rightDomain && (
+        <>
+          {niceTicks(rightDomain).map(tick => (
+            <text
+              key={`r-${tick}`}
+              x={right + 4}
+              y={linearScale(rightDomain, [height - margin.bottom, margin.top])(tick) + 3}
+              textAnchor="start"
+            >
+              {formatTick(tick, niceStep(rightDomain))}
+            </text>
+          ))}
+          <line x1={right} x2={right} y1={margin.top} y2={height - margin.bottom} stroke="#9ca3af" />
+          <text
+            x={width - 6}
+            y={middle}
+            textAnchor="middle"
+            fontSize="10"
+            transform={`rotate(90 ${width - 6} ${middle})`}
+          >
+            {rightLabel}
+          </text>
+        </>
+      )}
+    </g>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Bookmark, Check, Link, Save, Trash2 } from 'lucide-react';
+import { CSTRParameters, CSTRState } from '../utils/cstrModel';
+import { IntegratorMethod } from '../utils/integrators';
+import {
+  BUILT_IN_PRESETS,
+  deleteUserPreset,
+  loadUserPresets,
+  Preset,
+  presetToURL,
+  saveUserPreset
+} from '../utils/presets';
+
+interface PresetPanelProps {
+  parameters: CSTRParameters;
+  initialState: CSTRState;
+  integrator: IntegratorMethod;   // saved and shared with the case
+  onApply: (preset: Preset) => void;
+}
+
+export const PresetPanel: React.FC<PresetPanelProps> = ({ parameters, initialState, integrator, onApply }) => {
+  const [userPresets, setUserPresets] = useState<Preset[]>(() => loadUserPresets());
+  const [selected, setSelected] = useState(BUILT_IN_PRESETS[0].name);
+  const [saveName, setSaveName] = useState('');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const selectedPreset = [...BUILT_IN_PRESETS, ...userPresets].find(p => p.name === selected);
+  const isUserPreset = userPresets.some(p => p.name === selected);
+
+  const save = () => {
+    const name = saveName.trim();
+    if (!name) return;
+    try {
+      setUserPresets(saveUserPreset({ name, parameters, initialState, integrator }));
+      setSelected(name);
+      setSaveName('');
+      setMessage({ text: `Saved "${name}"`, error: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), error: true });
+    }
+  };
+
+  const remove = () => {
+    setUserPresets(deleteUserPreset(selected));
+    setSelected(BUILT_IN_PRESETS[0].name);
+  };
+
+  // Put the link in the address bar too, so a reload keeps the same case
+  const share = async () => {
+    const url = presetToURL({ name: selectedPreset?.name ?? 'Shared link', parameters, initialState, integrator });
+    window.history.replaceState(null, '', url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage({ text: 'Link copied to clipboard', error: false });
+    } catch {
+      setMessage({ text: 'Link is in the address bar (clipboard unavailable)', error: false });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex items-center space-x-2 mb-4">
+        <Bookmark className="w-4 h-4 sm:w-5 sm:h-5 text-blue-600" />
+        <h3 className="text-base sm:text-lg font-semibold text-gray-900">Presets</h3>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selected}
+          onChange={(e) => setSelected(e.target.value)}
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs sm:text-sm"
+        >
+          <optgroup label="Built-in">
+            {BUILT_IN_PRESETS.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+          </optgroup>
+          {userPresets.length > 0 && (
+            <optgroup label="Saved">
+              {userPresets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <button
+          onClick={() => selectedPreset && onApply(selectedPreset)}
+          className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-xs sm:text-sm font-medium transition-colors"
+        >
+          Load
+        </button>
+        {isUserPreset && (
+          <button
+            onClick={remove}
+            className="flex items-center px-2 py-1 text-gray-600 hover:text-red-600 transition-colors"
+            title="Delete saved preset"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={share}
+          className="flex items-center space-x-1 px-2 py-1 text-gray-700 hover:text-blue-600 text-xs sm:text-sm font-medium transition-colors"
+          title="Copy a link that opens the current parameters and initial state"
+        >
+          <Link className="w-4 h-4" />
+          <span>Share link</span>
+        </button>
+      </div>
+      {selectedPreset?.description && (
+        <p className="text-xs text-gray-500 mt-2">{selectedPreset.description}</p>
+      )}
+
+      <div className="flex items-center gap-2 mt-3">
+        <input
+          type="text"
+          value={saveName}
+          onChange={(e) => setSaveName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+          placeholder="Save current settings as…"
+          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-xs sm:text-sm"
+        />
+        <button
+          onClick={save}
+          disabled={!saveName.trim()}
+          className="flex items-center space-x-1 px-3 py-1 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-300 text-white rounded-md text-xs sm:text-sm font-medium transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          <span>Save</span>
+        </button>
+      </div>
+      {message && (
+        <p className={`flex items-center space-x-1 text-xs mt-2 ${message.error ? 'text-red-600' : 'text-green-600'}`}>
+          {!message.error && <Check className="w-3 h-3" />}
+          <span>{message.text}</span>
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,207 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FlaskConical } from 'lucide-react';
+import { CSTRParameterKey, CSTRParameters } from '../utils/cstrModel';
+import { parseUnit } from '../utils/units';
+import {
+  checkRateLawUnits,
+  compileRateExpression,
+  createRateLaw,
+  DEFAULT_RATE_LAW,
+  PARAMETER_SYMBOLS,
+  RATE_LAWS,
+  RateLaw,
+  rateLawParameterKeys,
+  RateLawType,
+  STATE_SYMBOLS
+} from '../utils/rateLaws';
+
+interface RateLawPanelProps {
+  params: CSTRParameters;
+  onChange: (changes: Partial<CSTRParameters>) => void;
+}
+
+// Slider ranges for the kinetic parameters a law can read
+const KINETIC_SLIDERS: Partial<Record<CSTRParameterKey, { label: string; unit: string; min: number; max: number; step: number }>> = {
+  preExponentialFactor: { label: 'Pre-exponential Factor (α)', unit: '1/s', min: 0.1, max: 10, step: 0.1 },
+  activationEnergy: { label: 'Activation Energy (E)', unit: 'J/mol', min: 5000, max: 20000, step: 1000 },
+  reactionOrder: { label: 'Reaction Order (n)', unit: '', min: 1, max: 3, step: 0.1 }
+};
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// "K = 2 [m³/mol], Kb = 0.5" into constants and the units given in brackets
+function parseConstants(text: string): { constants: Record<string, number>; units: Record<string, string> } {
+  const constants: Record<string, number> = {};
+  const units: Record<string, string> = {};
+  text.split(/[,;\n]/).map(part => part.trim()).filter(Boolean).forEach(part => {
+    const [name, rawValue, ...rest] = part.split('=').map(s => s.trim());
+    const unitMatch = /^(.*?)\s*\[([^\]]*)\]$/.exec(rawValue ?? '');
+    const value = unitMatch ? unitMatch[1] : rawValue;
+    const number = Number(value);
+    if (rest.length > 0 || !IDENTIFIER.test(name) || value === undefined || value === '' || !Number.isFinite(number)) {
+      throw new Error(`Write constants as name = number [unit], e.g. K = 2 [m³/mol] (got "${part}")`);
+    }
+    constants[name] = number;
+    if (unitMatch) {
+      parseUnit(unitMatch[2]);
+      units[name] = unitMatch[2].trim();
+    }
+  });
+  return { constants, units };
+}
+
+const formatConstants = (law: RateLaw) =>
+  Object.entries(law.constants)
+    .map(([name, value]) => law.units?.[name] !== undefined ? `${name} = ${value} [${law.units[name]}]` : `${name} = ${value}`)
+    .join(', ');
+
+// Expression and constants as typed, or an error if they do not form a valid law
+function draftToLaw(expression: string, constantsText: string): { law: RateLaw | null; error: string | null } {
+  try {
+    const { constants, units } = parseConstants(constantsText);
+    compileRateExpression(expression, constants);
+    const law: RateLaw = Object.keys(units).length > 0
+      ? { type: 'expression', expression, constants, units }
+      : { type: 'expression', expression, constants };
+    return { law, error: null };
+  } catch (error) {
+    return { law: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export const RateLawPanel: React.FC<RateLawPanelProps> = ({ params, onChange }) => {
+  const law = params.rateLaw ?? DEFAULT_RATE_LAW;
+  const definition = RATE_LAWS[law.type];
+  const [expressionDraft, setExpressionDraft] = useState(law.expression ?? '');
+  const [constantsDraft, setConstantsDraft] = useState(formatConstants(law));
+  // Law last produced by typing here, so the text is not reformatted under the cursor
+  const typedLawRef = useRef<RateLaw | null>(null);
+
+  // Follow a law set from elsewhere, e.g. a preset or the type selector
+  useEffect(() => {
+    if (law === typedLawRef.current) return;
+    setExpressionDraft(law.expression ?? '');
+    setConstantsDraft(formatConstants(law));
+  }, [law]);
+
+  const draft = law.type === 'expression' ? draftToLaw(expressionDraft, constantsDraft) : { law: null, error: null };
+
+  // Units of the law in use, rechecked as n changes the units of α
+  let unitCheck: { message: string; error: boolean } | null = null;
+  try {
+    const warning = checkRateLawUnits(law, params);
+    unitCheck = warning ? { message: warning, error: false } : null;
+  } catch (error) {
+    unitCheck = { message: error instanceof Error ? error.message : String(error), error: true };
+  }
+
+  const selectType = (type: RateLawType) => {
+    onChange({ rateLaw: type === 'power-law' ? undefined : createRateLaw(type) });
+  };
+
+  const editDraft = (expression: string, constantsText: string) => {
+    setExpressionDraft(expression);
+    setConstantsDraft(constantsText);
+    const { law: drafted } = draftToLaw(expression, constantsText);
+    if (drafted) {
+      typedLawRef.current = drafted;
+      onChange({ rateLaw: drafted });
+    }
+  };
+
+  const sliders = [
+    ...rateLawParameterKeys(law).map(key => ({
+      ...KINETIC_SLIDERS[key]!,
+      key,
+      value: params[key],
+      set: (value: number) => onChange({ [key]: value })
+    })),
+    ...definition.constants.map(constant => ({
+      ...constant,
+      value: law.constants[constant.key],
+      set: (value: number) => onChange({ rateLaw: { ...law, constants: { ...law.constants, [constant.key]: value } } })
+    }))
+  ];
+
+  return (
+    <div className="bg-white rounded-xl p-4 sm:p-6 shadow-lg border border-gray-200">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4 space-y-2 sm:space-y-0">
+        <div className="flex items-center space-x-2">
+          <FlaskConical className="w-5 h-5 sm:w-6 sm:h-6 text-blue-600" />
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-900">Reaction Kinetics</h2>
+        </div>
+        <select
+          value={law.type}
+          onChange={(e) => selectType(e.target.value as RateLawType)}
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs sm:text-sm"
+        >
+          {(Object.keys(RATE_LAWS) as RateLawType[]).map(type => (
+            <option key={type} value={type}>{RATE_LAWS[type].label}</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-xs sm:text-sm font-mono text-gray-700 mb-4">{definition.formula}</p>
+
+      {law.type === 'expression' && (
+        <div className="space-y-2 mb-4">
+          <label className="block text-xs text-gray-600">
+            <span className="block mb-0.5">Rate expression r (mol/(m³·s))</span>
+            <input
+              type="text"
+              value={expressionDraft}
+              onChange={(e) => editDraft(e.target.value, constantsDraft)}
+              spellCheck={false}
+              className={`w-full px-2 py-1 border rounded-md font-mono text-xs sm:text-sm ${draft.error ? 'border-red-400' : 'border-gray-300'}`}
+            />
+          </label>
+          <label className="block text-xs text-gray-600">
+            <span className="block mb-0.5">Constants</span>
+            <input
+              type="text"
+              value={constantsDraft}
+              onChange={(e) => editDraft(expressionDraft, e.target.value)}
+              placeholder="K = 2 [m³/mol], Kb = 0.5"
+              spellCheck={false}
+              className="w-full px-2 py-1 border border-gray-300 rounded-md font-mono text-xs sm:text-sm"
+            />
+          </label>
+          {draft.error && <p className="text-xs text-red-600">{draft.error}; the simulation keeps the last valid expression.</p>}
+          {!draft.error && unitCheck && (
+            <p className={`text-xs ${unitCheck.error ? 'text-red-600' : 'text-amber-600'}`}>{unitCheck.message}</p>
+          )}
+          <p className="text-xs text-gray-500">
+            Symbols: {Object.values(STATE_SYMBOLS).join(', ')}, {Object.values(PARAMETER_SYMBOLS).join(', ')},
+            k = α·exp(−E/RT), k0 = α, or the full field names such as concentration or activationEnergy.
+            Functions: exp, ln, log10, sqrt, abs, sign, min, max. Give constants a unit in brackets to
+            have the rate checked against mol/(m³·s), with α in 1/s·(mol/m³)^(1−n).
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
+        {sliders.map(slider => (
+          <div key={slider.key} className="bg-white rounded-lg p-3 sm:p-4 shadow-md border border-gray-200">
+            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-2">
+              <label className="text-xs sm:text-sm font-medium text-gray-700 mb-1 sm:mb-0">{slider.label}</label>
+              <span className="text-xs sm:text-sm font-semibold text-blue-600">{slider.value.toFixed(3)} {slider.unit}</span>
+            </div>
+            <input
+              type="range"
+              min={slider.min}
+              max={slider.max}
+              step={slider.step}
+              value={slider.value}
+              onChange={(e) => slider.set(parseFloat(e.target.value))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+            />
+            <div className="flex justify-between text-xs text-gray-400 mt-1">
+              <span>{slider.min}</span>
+              <span>{slider.max}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
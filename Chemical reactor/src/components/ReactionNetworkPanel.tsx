@@ -0,0 +1,245 @@
+import React, { useMemo, useState } from 'react';
+import { Network } from 'lucide-react';
+import { CSTRParameters, CSTRState } from '../utils/cstrModel';
+import { NETWORK_PRESETS, networkFromParameters, ReactionNetwork } from '../utils/multiComponentModel';
+import { NetworkTrajectory, simulateNetworkBatch } from '../utils/batchSimulation';
+import { linearScale, niceDomain } from '../utils/chartScale';
+import { PlotAxes } from './PlotAxes';
+
+interface ReactionNetworkPanelProps {
+  params: CSTRParameters;
+  initialState: CSTRState;
+}
+
+// Follows the live kinetics sliders; the other entries are NETWORK_PRESETS by name
+const SINGLE_REACTION = 'single';
+
+const WIDTH = 400;
+const HEIGHT = 240;
+const MARGIN = { top: 10, right: 12, bottom: 34, left: 52 };
+const SPECIES_COLORS = ['#2563EB', '#10B981', '#F59E0B', '#8B5CF6', '#EF4444', '#06B6D4'];
+
+const speciesColor = (index: number) => SPECIES_COLORS[index % SPECIES_COLORS.length];
+
+export const ReactionNetworkPanel: React.FC<ReactionNetworkPanelProps> = ({ params, initialState }) => {
+  const [choice, setChoice] = useState(SINGLE_REACTION);
+  // Hand edits on top of the selected network, dropped when another is selected
+  const [edited, setEdited] = useState<ReactionNetwork | null>(null);
+  const [horizon, setHorizon] = useState(100);
+
+  // Memoized so the batch run below only repeats when something changes
+  const selectedNetwork = useMemo(
+    () => choice === SINGLE_REACTION ? networkFromParameters(params) : NETWORK_PRESETS.find(n => n.name === choice)!,
+    [choice, params]
+  );
+  const network = edited ?? selectedNetwork;
+
+  const select = (value: string) => {
+    setChoice(value);
+    setEdited(null);
+  };
+
+  const editReaction = (j: number, key: 'preExponentialFactor' | 'activationEnergy' | 'heatOfReaction', value: number) =>
+    setEdited({ ...network, reactions: network.reactions.map((r, k) => k === j ? { ...r, [key]: value } : r) });
+
+  const editOrder = (j: number, i: number, value: number) =>
+    setEdited({
+      ...network,
+      reactions: network.reactions.map((r, k) => k === j ? { ...r, orders: r.orders.map((o, m) => m === i ? value : o) } : r)
+    });
+
+  const editStoichiometry = (j: number, i: number, value: number) =>
+    setEdited({
+      ...network,
+      stoichiometry: network.stoichiometry.map((row, k) => k === j ? row.map((v, m) => m === i ? value : v) : row)
+    });
+
+  const editFeed = (i: number, value: number) =>
+    setEdited({ ...network, species: network.species.map((s, m) => m === i ? { ...s, feedConcentration: value } : s) });
+
+  // Start from the reactor's initial conditions with only A present
+  const result = useMemo((): { trajectory: NetworkTrajectory | null; error: string | null } => {
+    try {
+      const trajectory = simulateNetworkBatch(
+        {
+          volume: initialState.volume,
+          concentrations: network.species.map((_, i) => i === 0 ? initialState.concentration : 0),
+          temperature: initialState.temperature,
+          jacketTemp: initialState.jacketTemp,
+          time: 0
+        },
+        params,
+        network,
+        { tf: horizon, outputInterval: horizon / 200 }
+      );
+      return { trajectory, error: null };
+    } catch (error) {
+      return { trajectory: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [network, params, initialState, horizon]);
+
+  const trajectory = result.trajectory;
+  let yMax = 0;
+  trajectory?.concentrations.forEach(values => values.forEach(c => { if (c > yMax) yMax = c; }));
+  const xDomain = niceDomain([0, horizon]);
+  const yDomain = niceDomain([0, yMax || 1]);
+  const x = linearScale(xDomain, [MARGIN.left, WIDTH - MARGIN.right]);
+  const y = linearScale(yDomain, [HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+  // Outlet yield of B per mole of A fed, and selectivity of B over the other products
+  const final = trajectory?.finalState;
+  const feedA = network.species[0].feedConcentration;
+  const conversion = final && feedA !== 0 ? (feedA - final.concentrations[0]) / feedA * 100 : 0;
+  const products = final ? final.concentrations.slice(1) : [];
+  const productTotal = products.reduce((sum, c) => sum + c, 0);
+  const yieldB = final && feedA !== 0 && products.length > 0 ? products[0] / feedA * 100 : 0;
+  const selectivityB = productTotal > 0 ? products[0] / productTotal * 100 : 0;
+
+  const numberInput = (value: number, onChange: (value: number) => void, width = 'w-20') => (
+    <input
+      type="number"
+      value={Number.isFinite(value) ? value : ''}
+      onChange={(e) => onChange(e.target.value.trim() === '' ? NaN : Number(e.target.value))}
+      className={`${width} px-1 py-0.5 border border-gray-300 rounded`}
+    />
+  );
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4 space-y-2 sm:space-y-0">
+        <div className="flex items-center space-x-2">
+          <Network className="w-4 h-4 sm:w-5 sm:h-5 text-indigo-600" />
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">Reaction Network</h3>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={choice}
+            onChange={(e) => select(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-xs sm:text-sm"
+          >
+            <option value={SINGLE_REACTION}>Single reaction (current model)</option>
+            {NETWORK_PRESETS.map(n => <option key={n.name} value={n.name}>{n.name}</option>)}
+          </select>
+          {edited && (
+            <button
+              onClick={() => setEdited(null)}
+              className="px-2 py-1 text-gray-700 hover:text-blue-600 text-xs sm:text-sm font-medium transition-colors"
+            >
+              Revert
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-gray-700">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-1 pr-2 font-medium">Reaction</th>
+              <th className="py-1 pr-2 font-medium">α</th>
+              <th className="py-1 pr-2 font-medium">E (J/mol)</th>
+              <th className="py-1 pr-2 font-medium">ΔH (J/mol)</th>
+              {network.species.map(s => (
+                <th key={s.name} className="py-1 pr-2 font-medium" title="Stoichiometric coefficient / rate order">
+                  {s.name} ν / n
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {network.reactions.map((reaction, j) => (
+              <tr key={j} className="border-b border-gray-100">
+                <td className="py-1 pr-2 whitespace-nowrap">{reaction.name}</td>
+                <td className="py-1 pr-2">{numberInput(reaction.preExponentialFactor, v => editReaction(j, 'preExponentialFactor', v))}</td>
+                <td className="py-1 pr-2">{numberInput(reaction.activationEnergy, v => editReaction(j, 'activationEnergy', v))}</td>
+                <td className="py-1 pr-2">{numberInput(reaction.heatOfReaction, v => editReaction(j, 'heatOfReaction', v))}</td>
+                {network.species.map((_, i) => (
+                  <td key={i} className="py-1 pr-2 whitespace-nowrap">
+                    {numberInput(network.stoichiometry[j][i], v => editStoichiometry(j, i, v), 'w-12')}
+                    <span className="mx-0.5 text-gray-400">/</span>
+                    {numberInput(reaction.orders[i], v => editOrder(j, i, v), 'w-12')}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr>
+              <td className="py-1 pr-2 text-gray-500" colSpan={4}>Feed concentration (mol/m³)</td>
+              {network.species.map((s, i) => (
+                <td key={i} className="py-1 pr-2">{numberInput(s.feedConcentration, v => editFeed(i, v))}</td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center space-x-2 mt-3 mb-2 text-xs text-gray-600">
+        <span>Horizon:</span>
+        {numberInput(horizon, v => v > 0 && setHorizon(v))}
+        <span>s</span>
+      </div>
+
+      {result.error ? (
+        <p className="text-xs sm:text-sm text-red-600">{result.error}</p>
+      ) : trajectory && (
+        <>
+          <svg className="w-full" viewBox={`0 0 ${WIDTH} ${HEIGHT}`}>
+            <PlotAxes
+              width={WIDTH}
+              height={HEIGHT}
+              margin={MARGIN}
+              xDomain={xDomain}
+              yDomain={yDomain}
+              xLabel="Time (s)"
+              yLabel="Concentration (mol/m³)"
+            />
+            {trajectory.concentrations.map((values, i) => (
+              <polyline
+                key={i}
+                fill="none"
+                stroke={speciesColor(i)}
+                strokeWidth="2"
+                points={Array.from(values, (c, k) => `${x(trajectory.time[k])},${y(c)}`).join(' ')}
+              />
+            ))}
+          </svg>
+
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-gray-500">
+            {network.species.map((s, i) => (
+              <span key={i} className="flex items-center">
+                <span className="w-4 h-0.5 mr-1" style={{ backgroundColor: speciesColor(i) }}></span>{s.name}
+              </span>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-3 text-xs sm:text-sm">
+            <div>
+              <span className="block text-gray-500">Final T</span>
+              <span className="font-medium text-gray-900">{final!.temperature.toFixed(2)} K</span>
+            </div>
+            <div>
+              <span className="block text-gray-500">Conversion of {network.species[0].name}</span>
+              <span className="font-medium text-gray-900">{conversion.toFixed(1)}%</span>
+            </div>
+            {products.length > 0 && (
+              <>
+                <div>
+                  <span className="block text-gray-500">Yield of {network.species[1].name}</span>
+                  <span className="font-medium text-gray-900">{yieldB.toFixed(1)}%</span>
+                </div>
+                <div>
+                  <span className="block text-gray-500">Selectivity to {network.species[1].name}</span>
+                  <span className="font-medium text-gray-900">{selectivityB.toFixed(1)}%</span>
+                </div>
+              </>
+            )}
+          </div>
+        </>
+      )}
+      <p className="text-xs text-gray-500 mt-2">
+        Batch run of the multi-species model from the initial conditions, with the flow, feed temperature
+        and jacket settings of the current parameters. Column pairs are the stoichiometric coefficient ν
+        (negative for reactants) and the rate order n of each species.
+      </p>
+    </div>
+  );
+};
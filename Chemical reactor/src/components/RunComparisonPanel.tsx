@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Layers, Pin, Trash2, X } from 'lucide-react';
+import { RUN_COLUMN_UNITS, RunColumn, RunSnapshot } from '../utils/runRecorder';
+import { linearScale, niceDomain } from '../utils/chartScale';
+import { PlotAxes } from './PlotAxes';
+
+export interface PinnedRun {
+  id: number;
+  label: string;
+  run: RunSnapshot;
+}
+
+interface RunComparisonPanelProps {
+  // The run in progress, thinned for plotting
+  currentRun: Record<RunColumn, readonly number[]>;
+  pinnedRuns: PinnedRun[];
+  onPin: () => void;
+  onRename: (id: number, label: string) => void;
+  onRemove: (id: number) => void;
+  onClear: () => void;
+}
+
+type ComparedVariable = Extract<RunColumn, 'temperature' | 'concentration' | 'volume' | 'jacketTemp' | 'conversion'>;
+
+const VARIABLE_LABELS: Record<ComparedVariable, string> = {
+  temperature: 'Temperature',
+  concentration: 'Concentration',
+  volume: 'Volume',
+  jacketTemp: 'Jacket Temperature',
+  conversion: 'Conversion'
+};
+
+const WIDTH = 400;
+const HEIGHT = 240;
+const MARGIN = { top: 10, right: 12, bottom: 34, left: 52 };
+const CURRENT_COLOR = '#2563EB';
+const PINNED_COLORS = ['#EF4444', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899', '#06B6D4', '#84CC16'];
+// Long runs are thinned to about this many points per line
+const MAX_PLOT_POINTS = 400;
+
+const pinnedRunColor = (index: number) => PINNED_COLORS[index % PINNED_COLORS.length];
+
+export const RunComparisonPanel: React.FC<RunComparisonPanelProps> = ({
+  currentRun,
+  pinnedRuns,
+  onPin,
+  onRename,
+  onRemove,
+  onClear
+}) => {
+  const [variable, setVariable] = useState<ComparedVariable>('temperature');
+
+  const series = [
+    ...pinnedRuns.map((pinned, i) => ({
+      key: `pinned-${pinned.id}`,
+      color: pinnedRunColor(i),
+      width: 1.5,
+      time: pinned.run.columns.time as readonly number[],
+      values: pinned.run.columns[variable] as readonly number[]
+    })),
+    {
+      key: 'current',
+      color: CURRENT_COLOR,
+      width: 2,
+      time: currentRun.time,
+      values: currentRun[variable]
+    }
+  ];
+
+  // Runs can be long, so find the ranges with a loop rather than spreading
+  let yMin = Infinity;
+  let yMax = -Infinity;
+  series.forEach(s => s.values.forEach(value => {
+    if (value < yMin) yMin = value;
+    if (value > yMax) yMax = value;
+  }));
+  const times = series.flatMap(s => [s.time[0], s.time[s.time.length - 1]]);
+  const xDomain = niceDomain([Math.min(...times), Math.max(...times, 1)]);
+  const yDomain = niceDomain([yMin, yMax]);
+  const x = linearScale(xDomain, [MARGIN.left, WIDTH - MARGIN.right]);
+  const y = linearScale(yDomain, [HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+  const toPoints = (time: readonly number[], data: readonly number[]) => {
+    const stride = Math.max(1, Math.ceil(time.length / MAX_PLOT_POINTS));
+    const points: string[] = [];
+    for (let i = 0; i < time.length; i += stride) points.push(`${x(time[i])},${y(data[i])}`);
+    const last = time.length - 1;
+    if (last % stride !== 0) points.push(`${x(time[last])},${y(data[last])}`);
+    return points.join(' ');
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4 space-y-2 sm:space-y-0">
+        <div className="flex items-center space-x-2">
+          <Layers className="w-4 h-4 sm:w-5 sm:h-5 text-blue-600" />
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">Run Comparison</h3>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={variable}
+            onChange={(e) => setVariable(e.target.value as ComparedVariable)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-xs sm:text-sm"
+          >
+            {(Object.keys(VARIABLE_LABELS) as ComparedVariable[]).map(key => (
+              <option key={key} value={key}>{VARIABLE_LABELS[key]}</option>
+            ))}
+          </select>
+          <button
+            onClick={onPin}
+            className="flex items-center space-x-1 px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-xs sm:text-sm font-medium transition-colors"
+            title="Keep the current run on the chart"
+          >
+            <Pin className="w-4 h-4" />
+            <span>Pin run</span>
+          </button>
+          {pinnedRuns.length > 0 && (
+            <button
+              onClick={onClear}
+              className="flex items-center px-2 py-1 text-gray-600 hover:text-red-600 transition-colors"
+              title="Remove all pinned runs"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <svg className="w-full" viewBox={`0 0 ${WIDTH} ${HEIGHT}`}>
+        <PlotAxes
+          width={WIDTH}
+          height={HEIGHT}
+          margin={MARGIN}
+          xDomain={xDomain}
+          yDomain={yDomain}
+          xLabel="Time (s)"
+          yLabel={`${VARIABLE_LABELS[variable]} (${RUN_COLUMN_UNITS[variable]})`}
+        />
+        {series.map(s => s.time.length > 1 && (
+          <polyline
+            key={s.key}
+            fill="none"
+            stroke={s.color}
+            strokeWidth={s.width}
+            points={toPoints(s.time, s.values)}
+          />
+        ))}
+      </svg>
+
+      <div className="space-y-1 mt-2 text-xs text-gray-600">
+        <div className="flex items-center">
+          <span className="w-4 h-0.5 mr-2" style={{ backgroundColor: CURRENT_COLOR }}></span>
+          <span>Current run</span>
+        </div>
+        {pinnedRuns.map((pinned, i) => (
+          <div key={pinned.id} className="flex items-center">
+            <span className="w-4 h-0.5 mr-2 flex-shrink-0" style={{ backgroundColor: pinnedRunColor(i) }}></span>
+            <input
+              type="text"
+              value={pinned.label}
+              onChange={(e) => onRename(pinned.id, e.target.value)}
+              className="flex-1 min-w-0 px-1 border border-transparent hover:border-gray-300 focus:border-gray-300 rounded"
+            />
+            <button
+              onClick={() => onRemove(pinned.id)}
+              className="ml-1 text-gray-400 hover:text-red-600 transition-colors"
+              title="Remove this run"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Pin a run, change the initial conditions or parameters, reset and run again to overlay the
+        trajectories. Near multiple steady states, small changes in the start can lead to different outcomes.
+      </p>
+    </div>
+  );
+};
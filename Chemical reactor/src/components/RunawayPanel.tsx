@@ -0,0 +1,175 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { CSTRParameters, CSTRState } from '../utils/cstrModel';
+import { assessRunaway, RunawayRisk, SEMENOV_CRITICAL } from '../utils/runaway';
+import {
+  INTERLOCK_IDS,
+  INTERLOCK_LABELS,
+  InterlockConfig,
+  InterlockId,
+  InterlockTrip
+} from '../utils/interlocks';
+
+interface RunawayPanelProps {
+  // Parameters as the simulator holds them, i.e. with controller and interlock outputs
+  params: CSTRParameters;
+  currentState: CSTRState;
+  trips: readonly InterlockTrip[];                        // every trip this run, including ones since reset
+  tripped: Partial<Record<InterlockId, InterlockTrip>>;   // interlocks holding their override now
+  config: InterlockConfig;
+  onConfigure: (config: InterlockConfig) => void;
+  onReset: (id: InterlockId) => void;
+}
+
+const RISK_STYLES: Record<RunawayRisk, { label: string; className: string }> = {
+  low: { label: 'Low', className: 'bg-green-100 text-green-800' },
+  elevated: { label: 'Elevated', className: 'bg-yellow-100 text-yellow-800' },
+  runaway: { label: 'Runaway', className: 'bg-red-100 text-red-800' }
+};
+
+// Action settings shown next to each interlock's trip limits
+const ACTION_FIELDS: Record<InterlockId, { key: string; label: string }[]> = {
+  emergencyCooling: [
+    { key: 'jacketFlowRate', label: 'FJ (m³/s)' },
+    { key: 'jacketInletTemp', label: 'TJ0 (K)' }
+  ],
+  feedCutoff: [],
+  quench: [
+    { key: 'quenchVolume', label: 'Volume (m³)' },
+    { key: 'quenchTemperature', label: 'T (K)' }
+  ]
+};
+
+const formatTime = (seconds: number) => Number.isFinite(seconds) ? `${seconds.toPrecision(3)} s` : '∞';
+
+export const RunawayPanel: React.FC<RunawayPanelProps> = ({ params, currentState, trips, tripped, config, onConfigure, onReset }) => {
+  const assessment = assessRunaway(params, currentState);
+  const risk = RISK_STYLES[assessment.risk];
+
+  const update = (id: InterlockId, changes: Record<string, number | boolean | undefined>) =>
+    onConfigure({ ...config, [id]: { ...config[id], ...changes } });
+
+  // Blank switches an optional limit off
+  const limitInput = (id: InterlockId, key: 'temperature' | 'timeToMaxRate') => (
+    <input
+      type="number"
+      value={config[id][key] ?? ''}
+      onChange={(e) => update(id, { [key]: e.target.value.trim() === '' ? undefined : Number(e.target.value) })}
+      className="w-16 px-1 py-0.5 border border-gray-300 rounded"
+    />
+  );
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <ShieldAlert className="w-4 h-4 sm:w-5 sm:h-5 text-red-500" />
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">Runaway Prediction &amp; Interlocks</h3>
+        </div>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${risk.className}`}>{risk.label}</span>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-xs sm:text-sm mb-4">
+        <div>
+          <span className="block text-gray-500">Adiabatic rise (feed)</span>
+          <span className="font-medium text-gray-900">{assessment.adiabaticRise.toFixed(1)} K</span>
+        </div>
+        <div>
+          <span className="block text-gray-500">Max. attainable T</span>
+          <span className="font-medium text-gray-900">{assessment.maxAttainableTemperature.toFixed(1)} K</span>
+        </div>
+        <div>
+          <span className="block text-gray-500">Time to max. rate</span>
+          <span className="font-medium text-gray-900">{formatTime(assessment.timeToMaxRate)}</span>
+        </div>
+        <div>
+          <span className="block text-gray-500">Heat generation</span>
+          <span className="font-medium text-gray-900">{(assessment.heatGeneration / 1000).toFixed(2)} kW</span>
+        </div>
+        <div>
+          <span className="block text-gray-500">dQgen/dT : dQrem/dT</span>
+          <span className="font-medium text-gray-900">
+            {(assessment.heatGenerationSlope / 1000).toFixed(2)} : {(assessment.heatRemovalSlope / 1000).toFixed(2)} kW/K
+          </span>
+        </div>
+        <div>
+          <span className="block text-gray-500">Semenov number ψ</span>
+          <span className="font-medium text-gray-900">{assessment.semenovNumber.toFixed(3)}</span>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-gray-700">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-1 pr-2 font-medium">Interlock</th>
+              <th className="py-1 pr-2 font-medium">T &gt; (K)</th>
+              <th className="py-1 pr-2 font-medium">TMR &lt; (s)</th>
+              <th className="py-1 pr-2 font-medium">Action</th>
+              <th className="py-1 pr-2 font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {INTERLOCK_IDS.map(id => {
+              const trip = tripped[id];
+              const settings = config[id] as unknown as Record<string, number>;
+              return (
+                <tr key={id} className="border-b border-gray-100">
+                  <td className="py-1 pr-2 whitespace-nowrap">
+                    <label className="flex items-center space-x-1">
+                      <input type="checkbox" checked={config[id].enabled} onChange={(e) => update(id, { enabled: e.target.checked })} />
+                      <span>{INTERLOCK_LABELS[id]}</span>
+                    </label>
+                  </td>
+                  <td className="py-1 pr-2">{limitInput(id, 'temperature')}</td>
+                  <td className="py-1 pr-2">{limitInput(id, 'timeToMaxRate')}</td>
+                  <td className="py-1 pr-2 whitespace-nowrap">
+                    {ACTION_FIELDS[id].length === 0 ? 'F0 → 0' : ACTION_FIELDS[id].map(field => (
+                      <label key={field.key} className="inline-flex items-center mr-2">
+                        <span className="mr-1 text-gray-500">{field.label}</span>
+                        <input
+                          type="number"
+                          value={settings[field.key]}
+                          onChange={(e) => update(id, { [field.key]: Number(e.target.value) })}
+                          className="w-14 px-1 py-0.5 border border-gray-300 rounded"
+                        />
+                      </label>
+                    ))}
+                  </td>
+                  <td className="py-1 pr-2 whitespace-nowrap">
+                    {trip ? (
+                      <span className="text-red-600 font-medium">
+                        Tripped at {trip.time.toFixed(1)} s
+                        <button onClick={() => onReset(id)} className="ml-2 text-blue-600 hover:underline font-normal">Reset</button>
+                      </span>
+                    ) : (
+                      <span className={config[id].enabled ? 'text-green-600' : 'text-gray-400'}>{config[id].enabled ? 'Armed' : 'Off'}</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {trips.length > 0 && (
+        <ul className="mt-3 text-xs text-gray-600 space-y-0.5">
+          {trips.map((trip, i) => (
+            <li key={i}>
+              t = {trip.time.toFixed(1)} s: {INTERLOCK_LABELS[trip.id]} tripped ({trip.cause}); {trip.action}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="text-xs text-gray-500 mt-2">
+        Max. attainable T adds the adiabatic rise of the unreacted contents to the current temperature. The
+        time to maximum rate is the zero-order adiabatic estimate. ψ compares how fast heat generation and
+        removal grow with temperature, allowing for reactant washout; above {SEMENOV_CRITICAL.toFixed(2)} the
+        margin is small and above 1 the reactor is heading for runaway. Tripped interlocks hold their action
+        until reset and are written to the alarm log.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useRef, useState } from 'react';
+import { CalendarClock, Download, Play, Square, Upload } from 'lucide-react';
+import {
+  describeScenarioEvent,
+  EXAMPLE_SCENARIOS,
+  parseScenario,
+  Scenario,
+  scenarioEventStatus,
+  serializeScenario
+} from '../utils/scenarios';
+import { downloadFile, safeFileName } from '../utils/download';
+
+interface ScenarioPanelProps {
+  activeScenario: Scenario | null;
+  currentTime: number;
+  onRun: (scenario: Scenario) => void;
+  onStop: () => void;
+}
+
+const STATUS_STYLES = {
+  pending: 'text-gray-500',
+  active: 'text-blue-600 font-medium',
+  done: 'text-gray-400 line-through'
+};
+
+export const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ activeScenario, currentTime, onRun, onStop }) => {
+  const [text, setText] = useState(() => serializeScenario(EXAMPLE_SCENARIOS[0]));
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const run = () => {
+    try {
+      const scenario = parseScenario(text);
+      setError(null);
+      onRun(scenario);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const save = () => {
+    let name = 'scenario';
+    try {
+      name = parseScenario(text).name;
+    } catch {
+      // Save the text as typed so work in progress is not lost
+    }
+    downloadFile(text, `${safeFileName(name)}.json`, 'application/json');
+  };
+
+  const load = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    try {
+      parseScenario(content);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4 space-y-2 sm:space-y-0">
+        <div className="flex items-center space-x-2">
+          <CalendarClock className="w-4 h-4 sm:w-5 sm:h-5 text-blue-600" />
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">Scenarios</h3>
+        </div>
+        <select
+          value=""
+          onChange={(e) => {
+            const example = EXAMPLE_SCENARIOS[Number(e.target.value)];
+            if (example) {
+              setText(serializeScenario(example));
+              setError(null);
+            }
+          }}
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs sm:text-sm"
+        >
+          <option value="">Load example…</option>
+          {EXAMPLE_SCENARIOS.map((example, i) => <option key={i} value={i}>{example.name}</option>)}
+        </select>
+      </div>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        spellCheck={false}
+        rows={10}
+        className="w-full px-2 py-1 border border-gray-300 rounded-md font-mono text-xs"
+      />
+      {error && <p className="text-xs sm:text-sm text-red-600 mt-1">{error}</p>}
+
+      <div className="flex flex-wrap gap-2 mt-2">
+        <button
+          onClick={run}
+          className="flex items-center space-x-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-xs sm:text-sm font-medium transition-colors"
+        >
+          <Play className="w-4 h-4" />
+          <span>Run from t = 0</span>
+        </button>
+        {activeScenario && (
+          <button
+            onClick={onStop}
+            className="flex items-center space-x-1 px-3 py-1.5 bg-gray-600 hover:bg-gray-700 text-white rounded-md text-xs sm:text-sm font-medium transition-colors"
+          >
+            <Square className="w-4 h-4" />
+            <span>Stop scenario</span>
+          </button>
+        )}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center space-x-1 px-3 py-1.5 text-gray-700 hover:text-blue-600 text-xs sm:text-sm font-medium transition-colors"
+        >
+          <Upload className="w-4 h-4" />
+          <span>Load</span>
+        </button>
+        <button
+          onClick={save}
+          className="flex items-center space-x-1 px-3 py-1.5 text-gray-700 hover:text-blue-600 text-xs sm:text-sm font-medium transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          <span>Save</span>
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={load} />
+      </div>
+
+      {activeScenario && (
+        <div className="mt-4">
+          <div className="text-xs sm:text-sm font-medium text-gray-800 mb-1">
+            Running: {activeScenario.name}
+          </div>
+          {activeScenario.description && (
+            <p className="text-xs text-gray-500 mb-1">{activeScenario.description}</p>
+          )}
+          <ul className="space-y-0.5 text-xs">
+            {activeScenario.events.map((event, i) => (
+              <li key={i} className={STATUS_STYLES[scenarioEventStatus(event, currentTime)]}>
+                {describeScenarioEvent(event)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 mt-2">
+        Events are steps, ramps, pulses, sinusoids or seeded random noise on any model parameter, applied
+        at exact simulated times. The same scenario and seed always replay the same run; Reset replays it.
+      </p>
+    </div>
+  );
+};
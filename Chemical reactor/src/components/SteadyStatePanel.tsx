@@ -0,0 +1,77 @@
+import React from 'react';
+import { Target } from 'lucide-react';
+import { CSTRState } from '../utils/cstrModel';
+import { SteadyStateAnalysis } from '../utils/steadyState';
+
+interface SteadyStatePanelProps {
+  steadyStates: SteadyStateAnalysis;
+  currentState: CSTRState;
+}
+
+export const SteadyStatePanel: React.FC<SteadyStatePanelProps> = ({ steadyStates: result, currentState }) => {
+
+  // Steady state the current trajectory is closest to, by temperature
+  const nearestIndex = result.states.reduce((best, state, i, states) =>
+    Math.abs(state.temperature - currentState.temperature) <
+    Math.abs(states[best].temperature - currentState.temperature) ? i : best, 0);
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Target className="w-4 h-4 sm:w-5 sm:h-5 text-indigo-600" />
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">Steady States</h3>
+        </div>
+        {!result.error && (
+          <span className={`text-xs font-medium px-2 py-1 rounded-full ${
+            result.states.length > 1 ? 'bg-amber-100 text-amber-800' : 'bg-gray-100 text-gray-700'
+          }`}>
+            {result.states.length === 1 ? 'Unique' : `${result.states.length} found`}
+          </span>
+        )}
+      </div>
+
+      {result.error ? (
+        <p className="text-xs sm:text-sm text-red-600">{result.error}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs sm:text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-1 pr-2 font-medium">T (K)</th>
+                <th className="py-1 pr-2 font-medium">CA (mol/m³)</th>
+                <th className="py-1 pr-2 font-medium">V (m³)</th>
+                <th className="py-1 pr-2 font-medium">TJ (K)</th>
+                <th className="py-1 pr-2 font-medium">Conv. (%)</th>
+                <th className="py-1 font-medium">Stability</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.states.map((state, i) => (
+                <tr
+                  key={i}
+                  className={`border-b border-gray-100 ${i === nearestIndex ? 'bg-blue-50' : ''}`}
+                  title={`Eigenvalues: ${state.eigenvalues
+                    .map(l => l.im === 0 ? l.re.toExponential(2) : `${l.re.toExponential(2)} ± ${Math.abs(l.im).toExponential(2)}i`)
+                    .join(', ')}`}
+                >
+                  <td className="py-1 pr-2 text-gray-900">{state.temperature.toFixed(2)}</td>
+                  <td className="py-1 pr-2 text-gray-900">{state.concentration.toFixed(4)}</td>
+                  <td className="py-1 pr-2 text-gray-900">{state.volume.toFixed(3)}</td>
+                  <td className="py-1 pr-2 text-gray-900">{state.jacketTemp.toFixed(2)}</td>
+                  <td className="py-1 pr-2 text-gray-900">{state.conversion.toFixed(1)}</td>
+                  <td className={`py-1 font-medium ${state.stable ? 'text-green-600' : 'text-red-600'}`}>
+                    {state.type}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-2">
+            Highlighted row is nearest the current reactor temperature. Hover a row for Jacobian eigenvalues.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
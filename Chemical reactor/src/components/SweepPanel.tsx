@@ -0,0 +1,362 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { CSTR_PARAMETER_KEYS, CSTRParameterKey, CSTRParameters, CSTRState, PARAMETER_UNITS } from '../utils/cstrModel';
+import { PARAMETER_QUANTITIES } from '../utils/quantities';
+import { PARAMETER_SYMBOLS } from '../utils/rateLaws';
+import {
+  MAX_SWEEP_POINTS,
+  runSweep,
+  sensitivities,
+  SensitivityResult,
+  SWEEP_OUTPUTS,
+  SweepAxis,
+  SweepMode,
+  SweepOutput,
+  SweepResult
+} from '../utils/sweep';
+import { Domain, formatTick, linearScale, niceDomain, niceStep, niceTicks } from '../utils/chartScale';
+import { PlotAxes } from './PlotAxes';
+
+interface SweepPanelProps {
+  params: CSTRParameters;
+  initialState: CSTRState;
+}
+
+const WIDTH = 400;
+const HEIGHT = 260;
+const MARGIN = { top: 10, right: 12, bottom: 34, left: 48 };
+const TORNADO_BARS = 10;
+const TORNADO_ROW = 18;
+const TORNADO_MARGIN = { top: 10, right: 48, bottom: 34, left: 56 };
+const RELATIVE_STEPS = [0.01, 0.05, 0.1];
+
+const OUTPUT_KEYS = Object.keys(SWEEP_OUTPUTS) as SweepOutput[];
+
+const outputLabel = (output: SweepOutput) => `${SWEEP_OUTPUTS[output].label} (${SWEEP_OUTPUTS[output].unit})`;
+const parameterLabel = (key: CSTRParameterKey) => `${PARAMETER_QUANTITIES[key].label} (${PARAMETER_UNITS[key]})`;
+
+// Half to one and a half times the current value, or 0 to 1 for a zero
+const defaultAxis = (params: CSTRParameters, parameter: CSTRParameterKey, points: number): SweepAxis => {
+  const value = params[parameter];
+  return { parameter, range: value === 0 ? [0, 1] : [value * 0.5, value * 1.5], points };
+};
+
+// Blue for low through red for high
+const heatColor = (fraction: number) => `hsl(${240 - 240 * Math.min(1, Math.max(0, fraction))}, 70%, 55%)`;
+
+export const SweepPanel: React.FC<SweepPanelProps> = ({ params, initialState }) => {
+  const [mode, setMode] = useState<SweepMode>('steadyState');
+  const [horizon, setHorizon] = useState(2000);
+  const [output, setOutput] = useState<SweepOutput>('conversion');
+  const [axes, setAxes] = useState<SweepAxis[]>(() => [
+    defaultAxis(params, 'activationEnergy', 21),
+    defaultAxis(params, 'feedTemperature', 15)
+  ]);
+  const [twoParameters, setTwoParameters] = useState(false);
+  const [relativeStep, setRelativeStep] = useState(RELATIVE_STEPS[0]);
+  const [sweep, setSweep] = useState<SweepResult | null>(null);
+  const [sensitivity, setSensitivity] = useState<SensitivityResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const options = { mode, horizon };
+
+  const updateAxis = (index: number, changes: Partial<SweepAxis>) =>
+    setAxes(prev => prev.map((axis, i) => i === index ? { ...axis, ...changes } : axis));
+
+  const run = (action: () => void) => {
+    try {
+      action();
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const runGrid = () => run(() => setSweep(runSweep(params, initialState, twoParameters ? axes : [axes[0]], options)));
+
+  const runSensitivities = () => run(() =>
+    setSensitivity(sensitivities(params, initialState, CSTR_PARAMETER_KEYS, { ...options, relativeStep })));
+
+  const axisRow = (index: number) => {
+    const axis = axes[index];
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+        <select
+          value={axis.parameter}
+          onChange={(e) => updateAxis(index, defaultAxis(params, e.target.value as CSTRParameterKey, axis.points))}
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+        >
+          {CSTR_PARAMETER_KEYS.map(key => <option key={key} value={key}>{PARAMETER_QUANTITIES[key].label}</option>)}
+        </select>
+        <input
+          type="number"
+          value={axis.range[0]}
+          onChange={(e) => updateAxis(index, { range: [parseFloat(e.target.value), axis.range[1]] })}
+          className="w-20 px-1 py-0.5 border border-gray-300 rounded"
+        />
+        <span>to</span>
+        <input
+          type="number"
+          value={axis.range[1]}
+          onChange={(e) => updateAxis(index, { range: [axis.range[0], parseFloat(e.target.value)] })}
+          className="w-20 px-1 py-0.5 border border-gray-300 rounded"
+        />
+        <span>{PARAMETER_UNITS[axis.parameter]}</span>
+        <input
+          type="number"
+          min={1}
+          value={axis.points}
+          onChange={(e) => updateAxis(index, { points: parseInt(e.target.value, 10) })}
+          className="w-12 px-1 py-0.5 border border-gray-300 rounded"
+        />
+        <span>points</span>
+        <label className="flex items-center space-x-1">
+          <input type="checkbox" checked={axis.logarithmic ?? false} onChange={(e) => updateAxis(index, { logarithmic: e.target.checked })} />
+          <span>log</span>
+        </label>
+      </div>
+    );
+  };
+
+  const lineChart = (result: SweepResult) => {
+    const axis = result.axes[0];
+    const evaluated = result.points.filter(point => point.evaluation);
+    const values = evaluated.map(point => point.evaluation!.outputs[output]);
+    const xDomain: Domain = [Math.min(...result.values[0]), Math.max(...result.values[0])];
+    const yDomain = niceDomain([Math.min(...values), Math.max(...values)]);
+    const x = linearScale(xDomain, [MARGIN.left, WIDTH - MARGIN.right]);
+    const y = linearScale(yDomain, [HEIGHT - MARGIN.bottom, MARGIN.top]);
+    return (
+      <svg className="w-full" viewBox={`0 0 ${WIDTH} ${HEIGHT}`}>
+        <PlotAxes
+          width={WIDTH}
+          height={HEIGHT}
+          margin={MARGIN}
+          xDomain={xDomain}
+          yDomain={yDomain}
+          xLabel={parameterLabel(axis.parameter)}
+          yLabel={outputLabel(output)}
+        />
+        <polyline
+          fill="none"
+          stroke="#0D9488"
+          strokeWidth="2"
+          points={evaluated.map(point => `${x(point.values[0])},${y(point.evaluation!.outputs[output])}`).join(' ')}
+        />
+        {evaluated.map((point, i) => (
+          <circle
+            key={i}
+            cx={x(point.values[0])}
+            cy={y(point.evaluation!.outputs[output])}
+            r="3"
+            fill={point.evaluation!.settled ? '#0D9488' : 'white'}
+            stroke="#0D9488"
+          />
+        ))}
+      </svg>
+    );
+  };
+
+  const heatmap = (result: SweepResult) => {
+    const [rows, columns] = result.values;
+    const values = result.points.filter(point => point.evaluation).map(point => point.evaluation!.outputs[output]);
+    const [low, high] = [Math.min(...values), Math.max(...values)];
+    const cellWidth = (WIDTH - MARGIN.left - MARGIN.right) / rows.length;
+    const cellHeight = (HEIGHT - MARGIN.top - MARGIN.bottom) / columns.length;
+    const label = (value: number) => Number(value.toPrecision(3));
+    return (
+      <>
+        <svg className="w-full" viewBox={`0 0 ${WIDTH} ${HEIGHT}`}>
+          {result.points.map((point, k) => {
+            const i = Math.floor(k / columns.length);
+            const j = k % columns.length;
+            const value = point.evaluation?.outputs[output];
+            return (
+              <rect
+                key={k}
+                x={MARGIN.left + i * cellWidth}
+                y={HEIGHT - MARGIN.bottom - (j + 1) * cellHeight}
+                width={cellWidth}
+                height={cellHeight}
+                fill={value === undefined ? '#E5E7EB' : heatColor(high > low ? (value - low) / (high - low) : 0.5)}
+                opacity={point.evaluation?.settled === false ? 0.5 : 1}
+              >
+                <title>
+                  {`${PARAMETER_SYMBOLS[result.axes[0].parameter]} = ${label(point.values[0])}, ${PARAMETER_SYMBOLS[result.axes[1].parameter]} = ${label(point.values[1])}: ` +
+                    (value === undefined ? point.error : `${label(value)} ${SWEEP_OUTPUTS[output].unit}`)}
+                </title>
+              </rect>
+            );
+          })}
+          <g className="text-gray-500" fontSize="9" fill="currentColor">
+            <text x={MARGIN.left} y={HEIGHT - MARGIN.bottom + 12} textAnchor="start">{label(rows[0])}</text>
+            <text x={WIDTH - MARGIN.right} y={HEIGHT - MARGIN.bottom + 12} textAnchor="end">{label(rows[rows.length - 1])}</text>
+            <text x={MARGIN.left - 4} y={HEIGHT - MARGIN.bottom} textAnchor="end">{label(columns[0])}</text>
+            <text x={MARGIN.left - 4} y={MARGIN.top + 8} textAnchor="end">{label(columns[columns.length - 1])}</text>
+            <text x={(MARGIN.left + WIDTH - MARGIN.right) / 2} y={HEIGHT - 4} textAnchor="middle" fontSize="10">
+              {parameterLabel(result.axes[0].parameter)}
+            </text>
+            <text
+              x={12}
+              y={(MARGIN.top + HEIGHT - MARGIN.bottom) / 2}
+              textAnchor="middle"
+              fontSize="10"
+              transform={`rotate(-90 12 ${(MARGIN.top + HEIGHT - MARGIN.bottom) / 2})`}
+            >
+              {parameterLabel(result.axes[1].parameter)}
+            </text>
+          </g>
+        </svg>
+        <div className="flex items-center space-x-2 text-xs text-gray-500 mt-1">
+          <span>{label(low)}</span>
+          <div className="flex-1 h-2 rounded" style={{ background: `linear-gradient(to right, ${heatColor(0)}, ${heatColor(0.5)}, ${heatColor(1)})` }}></div>
+          <span>{label(high)} {SWEEP_OUTPUTS[output].unit}</span>
+        </div>
+      </>
+    );
+  };
+
+  const tornado = (result: SensitivityResult) => {
+    const base = result.base.outputs[output];
+    const bars = [...result.coefficients]
+      .sort((a, b) => Math.abs(b.high[output] - b.low[output]) - Math.abs(a.high[output] - a.low[output]))
+      .slice(0, TORNADO_BARS);
+    const extremes = bars.flatMap(bar => [bar.low[output], bar.high[output]]);
+    const xDomain = niceDomain([Math.min(base, ...extremes), Math.max(base, ...extremes)]);
+    const height = TORNADO_MARGIN.top + TORNADO_MARGIN.bottom + bars.length * TORNADO_ROW;
+    const x = linearScale(xDomain, [TORNADO_MARGIN.left, WIDTH - TORNADO_MARGIN.right]);
+    const bar = (from: number, to: number) => ({ x: Math.min(x(from), x(to)), width: Math.abs(x(to) - x(from)) });
+    return (
+      <svg className="w-full" viewBox={`0 0 ${WIDTH} ${height}`}>
+        <g className="text-gray-500" fontSize="9" fill="currentColor">
+          {niceTicks(xDomain).map(tick => (
+            <g key={tick}>
+              <line x1={x(tick)} x2={x(tick)} y1={TORNADO_MARGIN.top} y2={height - TORNADO_MARGIN.bottom} stroke="#f3f4f6" />
+              <text x={x(tick)} y={height - TORNADO_MARGIN.bottom + 12} textAnchor="middle">{formatTick(tick, niceStep(xDomain))}</text>
+            </g>
+          ))}
+          <text x={(TORNADO_MARGIN.left + WIDTH - TORNADO_MARGIN.right) / 2} y={height - 4} textAnchor="middle" fontSize="10">
+            {outputLabel(output)}
+          </text>
+        </g>
+        {bars.map((entry, i) => {
+          const top = TORNADO_MARGIN.top + i * TORNADO_ROW + 3;
+          const normalized = entry.normalized[output];
+          return (
+            <g key={entry.parameter} fontSize="9">
+              <rect {...bar(base, entry.low[output])} y={top} height={TORNADO_ROW - 6} fill="#60A5FA" />
+              <rect {...bar(base, entry.high[output])} y={top} height={TORNADO_ROW - 6} fill="#F87171" />
+              <text x={TORNADO_MARGIN.left - 4} y={top + 9} textAnchor="end" fill="#374151">
+                {PARAMETER_SYMBOLS[entry.parameter]}
+              </text>
+              <text x={WIDTH - TORNADO_MARGIN.right + 4} y={top + 9} fill={entry.settled ? '#374151' : '#D97706'}>
+                {Number.isFinite(normalized) ? normalized.toFixed(3) : '–'}
+              </text>
+            </g>
+          );
+        })}
+        <line x1={x(base)} x2={x(base)} y1={TORNADO_MARGIN.top} y2={height - TORNADO_MARGIN.bottom} stroke="#111827" />
+      </svg>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4 space-y-2 sm:space-y-0">
+        <div className="flex items-center space-x-2">
+          <SlidersHorizontal className="w-4 h-4 sm:w-5 sm:h-5 text-teal-600" />
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">Parameter Sweep &amp; Sensitivity</h3>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as SweepMode)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-xs sm:text-sm"
+          >
+            <option value="steadyState">To steady state</option>
+            <option value="horizon">Fixed horizon</option>
+          </select>
+          <select
+            value={output}
+            onChange={(e) => setOutput(e.target.value as SweepOutput)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-xs sm:text-sm"
+          >
+            {OUTPUT_KEYS.map(key => <option key={key} value={key}>{SWEEP_OUTPUTS[key].label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-2 mb-3">
+        <div className="flex items-center space-x-2 text-xs text-gray-600">
+          <span>{mode === 'horizon' ? 'Horizon' : 'Time limit'}:</span>
+          <input
+            type="number"
+            value={horizon}
+            onChange={(e) => setHorizon(parseFloat(e.target.value))}
+            className="w-20 px-1 py-0.5 border border-gray-300 rounded"
+          />
+          <span>s</span>
+        </div>
+        {axisRow(0)}
+        <label className="flex items-center space-x-1 text-xs text-gray-600">
+          <input type="checkbox" checked={twoParameters} onChange={(e) => setTwoParameters(e.target.checked)} />
+          <span>Second parameter (heatmap)</span>
+        </label>
+        {twoParameters && axisRow(1)}
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={runGrid}
+            className="px-3 py-1 bg-teal-600 text-white rounded-md text-xs sm:text-sm font-medium hover:bg-teal-700 transition-colors"
+          >
+            Run sweep
+          </button>
+          <button
+            onClick={runSensitivities}
+            className="px-3 py-1 bg-gray-100 text-gray-700 rounded-md text-xs sm:text-sm font-medium hover:bg-gray-200 transition-colors"
+          >
+            Sensitivities
+          </button>
+          <select
+            value={relativeStep}
+            onChange={(e) => setRelativeStep(Number(e.target.value))}
+            className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+          >
+            {RELATIVE_STEPS.map(step => <option key={step} value={step}>±{step * 100}%</option>)}
+          </select>
+        </div>
+      </div>
+
+      {error && <p className="text-xs sm:text-sm text-red-600 mb-2">{error}</p>}
+
+      {sweep && (
+        <div className="mb-3">
+          {sweep.axes.length === 1 ? lineChart(sweep) : heatmap(sweep)}
+          {sweep.points.some(point => point.error) && (
+            <p className="text-xs text-red-600">{sweep.points.filter(point => point.error).length} points failed to simulate</p>
+          )}
+        </div>
+      )}
+
+      {sensitivity && (
+        <div>
+          <p className="text-xs text-gray-600 mb-1">
+            Base {SWEEP_OUTPUTS[output].label.toLowerCase()}: {Number(sensitivity.base.outputs[output].toPrecision(4))} {SWEEP_OUTPUTS[output].unit};
+            bars show each parameter lowered (blue) and raised (red) by {sensitivity.relativeStep * 100}%, with the
+            normalized coefficient on the right
+          </p>
+          {tornado(sensitivity)}
+          {sensitivity.skipped.length > 0 && (
+            <p className="text-xs text-gray-500">Skipped (zero): {sensitivity.skipped.map(key => PARAMETER_SYMBOLS[key]).join(', ')}</p>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 mt-2">
+        Each point is simulated from the initial state, so the sweep follows the operating point the reactor
+        actually reaches. Hollow or faded points had not settled by the time limit. Sensitivity coefficients
+        are (p/y)·∂y/∂p from central differences; amber values had unsettled runs. At most {MAX_SWEEP_POINTS} grid
+        points; a sweep runs in the foreground and may take a few seconds.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import React from 'react';
+import { GitBranch, History } from 'lucide-react';
+import { CSTR_PARAMETER_KEYS, CSTRParameters } from '../utils/cstrModel';
+import { RUN_COLUMN_UNITS, RunColumn, RunSample } from '../utils/runRecorder';
+import { displayUnit, formatQuantity, PARAMETER_QUANTITIES, parameterQuantity, UnitPreferences } from '../utils/quantities';
+
+interface TimelinePanelProps {
+  runStart: number;             // s
+  now: number;                  // s
+  scrubTime: number | null;     // s, null while following the run
+  scrub: RunSample | null;      // the recorded sample nearest scrubTime
+  parameters: CSTRParameters;   // in effect now, to point out what differed
+  branchedAt: number | null;
+  unitPreferences: UnitPreferences;
+  onScrub: (time: number | null) => void;
+  onBranch: (sample: RunSample) => void;
+}
+
+const SAMPLE_VALUES: { column: RunColumn; label: string }[] = [
+  { column: 'volume', label: 'Volume V' },
+  { column: 'concentration', label: 'Concentration CA' },
+  { column: 'temperature', label: 'Temperature T' },
+  { column: 'jacketTemp', label: 'Jacket temperature TJ' },
+  { column: 'conversion', label: 'Conversion' },
+  { column: 'reactionRate', label: 'Reaction rate' },
+  { column: 'outletFlow', label: 'Outlet flow' },
+  { column: 'heatDuty', label: 'Heat duty' }
+];
+
+export const TimelinePanel: React.FC<TimelinePanelProps> = ({
+  runStart,
+  now,
+  scrubTime,
+  scrub,
+  parameters,
+  branchedAt,
+  unitPreferences,
+  onScrub,
+  onBranch
+}) => {
+  const changed = scrub
+    ? CSTR_PARAMETER_KEYS.filter(key => scrub.parameters[key] !== parameters[key])
+    : [];
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex items-center space-x-2 mb-4">
+        <History className="w-4 h-4 sm:w-5 sm:h-5 text-indigo-600" />
+        <h3 className="text-base sm:text-lg font-semibold text-gray-900">Run Timeline</h3>
+      </div>
+
+      <div className="flex items-center space-x-3 text-xs sm:text-sm text-gray-700">
+        <span className="w-16 text-right">{runStart.toFixed(1)} s</span>
+        <input
+          type="range"
+          min={runStart}
+          max={Math.max(now, runStart)}
+          step="any"
+          value={scrubTime ?? now}
+          onChange={(e) => onScrub(parseFloat(e.target.value))}
+          className="flex-1"
+        />
+        <span className="w-16">{now.toFixed(1)} s</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-3">
+        <span className="text-xs sm:text-sm font-medium text-gray-900">
+          {scrub ? `t = ${scrub.values.time.toFixed(1)} s (sample ${scrub.index})` : 'Following the run'}
+        </span>
+        {scrub && (
+          <>
+            <button
+              onClick={() => onBranch(scrub)}
+              className="flex items-center space-x-1 px-3 py-1 bg-indigo-600 text-white rounded-md text-xs sm:text-sm font-medium hover:bg-indigo-700 transition-colors"
+              title="Keep this run for comparison and carry on from here"
+            >
+              <GitBranch className="w-4 h-4" />
+              <span>Branch from here</span>
+            </button>
+            <button
+              onClick={() => onScrub(null)}
+              className="px-2 py-1 text-gray-700 hover:text-blue-600 text-xs sm:text-sm font-medium transition-colors"
+            >
+              Back to now
+            </button>
+          </>
+        )}
+      </div>
+
+      {scrub && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
+          <table className="w-full text-xs text-gray-700">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1 pr-2 font-medium">State</th>
+                <th className="py-1 pr-2 font-medium text-right">Value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {SAMPLE_VALUES.map(({ column, label }) => (
+                <tr key={column} className="border-t border-gray-100">
+                  <td className="py-1 pr-2">{label}</td>
+                  <td className="py-1 pr-2 text-right font-mono">
+                    {scrub.values[column].toPrecision(5)} {RUN_COLUMN_UNITS[column]}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="max-h-64 overflow-y-auto">
+            <table className="w-full text-xs text-gray-700">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1 pr-2 font-medium">Parameter in effect</th>
+                  <th className="py-1 pr-2 font-medium text-right">Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {CSTR_PARAMETER_KEYS.map(key => (
+                  <tr
+                    key={key}
+                    className={`border-t border-gray-100 ${changed.includes(key) ? 'text-amber-700 font-medium' : ''}`}
+                  >
+                    <td className="py-1 pr-2">{PARAMETER_QUANTITIES[key].label}</td>
+                    <td className="py-1 pr-2 text-right font-mono">
+                      {formatQuantity(parameterQuantity(scrub.parameters, key, displayUnit(key, unitPreferences)))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 mt-2">
+        Drag back along the run to see the state and parameters at any recorded step; values that differ from
+        now are highlighted. Branching pins this run for comparison, then restores the nearest checkpoint and
+        replays to the chosen step, so controllers, interlocks and scenarios carry on from there. Change the
+        parameters and press Run to try a different decision.
+        {branchedAt !== null && ` This run was branched at t = ${branchedAt.toFixed(1)} s.`}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,574 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LineChart, Plus, Radio, Settings, X, ZoomIn, ZoomOut } from 'lucide-react';
+import { RUN_COLUMN_UNITS, RunColumn } from '../utils/runRecorder';
+import { Domain, linearScale, niceDomain } from '../utils/chartScale';
+import { TrendWindow } from '../utils/simulationEngine';
+import { PlotAxes } from './PlotAxes';
+
+interface TrendPanelProps {
+  // Samples in the trend window, plus one either side
+  trend: Record<RunColumn, readonly number[]>;
+  runStart: number;   // s
+  now: number;        // s, the newest sample
+  trendWindow: TrendWindow;
+  markerTime: number | null;  // s, e.g. the timeline position being inspected
+  onWindowChange: (window: TrendWindow) => void;
+}
+
+type TrendVariable = Exclude<RunColumn, 'time'>;
+type AxisSide = 'left' | 'right';
+
+const VARIABLES: Record<TrendVariable, { label: string; symbol: string; color: string }> = {
+  temperature: { label: 'Temperature', symbol: 'T', color: '#EF4444' },
+  jacketTemp: { label: 'Jacket temperature', symbol: 'TJ', color: '#F97316' },
+  concentration: { label: 'Concentration', symbol: 'CA', color: '#3B82F6' },
+  conversion: { label: 'Conversion', symbol: 'X', color: '#10B981' },
+  volume: { label: 'Volume', symbol: 'V', color: '#8B5CF6' },
+  outletFlow: { label: 'Outlet flow', symbol: 'F', color: '#06B6D4' },
+  overflowFlow: { label: 'Overflow', symbol: 'Fw', color: '#84CC16' },
+  reactionRate: { label: 'Reaction rate', symbol: 'r', color: '#EC4899' },
+  residenceTime: { label: 'Residence time', symbol: 'τ', color: '#64748B' },
+  heatDuty: { label: 'Heat duty', symbol: 'Q', color: '#F59E0B' }
+};
+const TREND_VARIABLES = Object.keys(VARIABLES) as TrendVariable[];
+
+interface TrendAxis {
+  variables: TrendVariable[];
+  range: Domain | null;   // fixed range, or null to fit the data in view
+}
+
+interface TrendChartConfig {
+  id: number;
+  left: TrendAxis;
+  right: TrendAxis;
+}
+
+const DEFAULT_CHARTS: TrendChartConfig[] = [
+  { id: 1, left: { variables: ['temperature', 'jacketTemp'], range: null }, right: { variables: [], range: null } },
+  { id: 2, left: { variables: ['concentration'], range: null }, right: { variables: ['conversion'], range: [0, 100] } },
+  { id: 3, left: { variables: ['volume'], range: null }, right: { variables: ['outletFlow'], range: null } }
+];
+
+const WINDOW_SPANS: { label: string; span: number | null }[] = [
+  { label: '30 s', span: 30 },
+  { label: '2 min', span: 120 },
+  { label: '10 min', span: 600 },
+  { label: '1 h', span: 3600 },
+  { label: 'All', span: null }
+];
+
+const WIDTH = 400;
+const HEIGHT = 180;
+const MARGIN = { top: 10, right: 48, bottom: 30, left: 48 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const MIN_SPAN = 2;           // s, narrowest zoom
+const ZOOM_STEP = 0.8;        // window scale per wheel notch or button press
+// Auto-ranged axes span at least this fraction of the values shown, so
+// noise on a steady value is not stretched over the whole chart
+const MIN_RELATIVE_SPAN = 0.01;
+
+const axisUnits = (variables: TrendVariable[]) =>
+  [...new Set(variables.map(variable => RUN_COLUMN_UNITS[variable]))].join(', ');
+
+const axisLabel = (variables: TrendVariable[]) =>
+  `${variables.map(variable => VARIABLES[variable].symbol).join(', ')} (${axisUnits(variables)})`;
+
+// Time span on the x-axis for the window, before any data arrives for it
+function windowDomain(trendWindow: TrendWindow, runStart: number, now: number): Domain {
+  if (trendWindow.kind === 'range') return [trendWindow.start, trendWindow.end];
+  if (trendWindow.span === null) return [runStart, Math.max(now, runStart + MIN_SPAN)];
+  const end = Math.max(now, runStart + trendWindow.span);
+  return [end - trendWindow.span, end];
+}
+
+// Keep a zoomed or panned window inside the run. Reaching the newest end
+// follows the run again; taking in all of it shows the whole run.
+function clampWindow([start, end]: Domain, runStart: number, now: number): TrendWindow {
+  const span = Math.max(end - start, MIN_SPAN);
+  const runEnd = Math.max(now, runStart + MIN_SPAN);
+  if (span >= runEnd - runStart) return { kind: 'latest', span: null };
+  if (start + span >= runEnd) return { kind: 'latest', span };
+  const from = Math.max(start, runStart);
+  return { kind: 'range', start: from, end: from + span };
+}
+
+function autoDomain(time: readonly number[], columns: (readonly number[])[], [start, end]: Domain): Domain {
+  let min = Infinity;
+  let max = -Infinity;
+  columns.forEach(values => values.forEach((value, i) => {
+    if (time[i] < start || time[i] > end) return;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }));
+  if (!Number.isFinite(min)) return [0, 1];
+  const minSpan = Math.max(Math.abs(min), Math.abs(max)) * MIN_RELATIVE_SPAN;
+  if (max - min < minSpan) {
+    const middle = (min + max) / 2;
+    min = middle - minSpan / 2;
+    max = middle + minSpan / 2;
+  }
+  return niceDomain([min, max]);
+}
+
+// Pointer position as a fraction of the plot width from its left edge
+const plotFraction = (svg: SVGSVGElement, clientX: number) => {
+  const rect = svg.getBoundingClientRect();
+  return (((clientX - rect.left) / rect.width) * WIDTH - MARGIN.left) / PLOT_WIDTH;
+};
+
+// Index of the sample nearest t in an increasing time column
+function nearestIndex(time: readonly number[], t: number): number {
+  let low = 0;
+  let high = time.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (time[mid] < t) low = mid;
+    else high = mid;
+  }
+  return Math.abs(time[high] - t) < Math.abs(time[low] - t) ? high : low;
+}
+
+interface TrendChartProps {
+  config: TrendChartConfig;
+  trend: Record<RunColumn, readonly number[]>;
+  xDomain: Domain;
+  hoverTime: number | null;
+  markerTime: number | null;
+  onHover: (time: number | null) => void;
+  // Positions are fractions of the plot width from its left edge
+  onZoom: (at: number, factor: number) => void;
+  onPanStart: () => void;
+  onPan: (offset: number) => void;
+  onFollow: () => void;
+  onChange: (config: TrendChartConfig) => void;
+  onRemove: (() => void) | null;
+}
+
+const TrendChart: React.FC<TrendChartProps> = ({
+  config,
+  trend,
+  xDomain,
+  hoverTime,
+  markerTime,
+  onHover,
+  onZoom,
+  onPanStart,
+  onPan,
+  onFollow,
+  onChange,
+  onRemove
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragFrom = useRef<number | null>(null);
+  const zoomRef = useRef(onZoom);
+  const [dragging, setDragging] = useState(false);
+  const [editing, setEditing] = useState(false);
+
+  useEffect(() => { zoomRef.current = onZoom; });
+
+  // React registers wheel listeners as passive, so the page would scroll as well
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (event: WheelEvent) => {
+      const at = plotFraction(svg, event.clientX);
+      if (at < 0 || at > 1) return;
+      event.preventDefault();
+      zoomRef.current(at, event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP);
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const time = trend.time;
+  const x = linearScale(xDomain, [MARGIN.left, WIDTH - MARGIN.right]);
+  const toTime = linearScale([0, 1], xDomain);
+
+  const axisDomain = (axis: TrendAxis): Domain => {
+    if (axis.range && axis.range[0] < axis.range[1]) return axis.range;
+    return autoDomain(time, axis.variables.map(variable => trend[variable]), xDomain);
+  };
+  const leftAxis = config.left.variables.length > 0 ? config.left : config.right;
+  const rightAxis = config.left.variables.length > 0 && config.right.variables.length > 0 ? config.right : null;
+  const leftDomain = axisDomain(leftAxis);
+  const rightDomain = rightAxis ? axisDomain(rightAxis) : undefined;
+  const yLeft = linearScale(leftDomain, [HEIGHT - MARGIN.bottom, MARGIN.top]);
+  const yRight = rightDomain ? linearScale(rightDomain, [HEIGHT - MARGIN.bottom, MARGIN.top]) : yLeft;
+
+  const series = [
+    ...leftAxis.variables.map(variable => ({ variable, side: 'left' as AxisSide, y: yLeft })),
+    ...(rightAxis?.variables ?? []).map(variable => ({ variable, side: 'right' as AxisSide, y: yRight }))
+  ];
+  const clipId = `trend-clip-${config.id}`;
+
+  const hoverIndex = hoverTime !== null && time.length > 0 && hoverTime >= xDomain[0] && hoverTime <= xDomain[1]
+    ? nearestIndex(time, hoverTime)
+    : null;
+  const hoverX = hoverIndex !== null ? x(time[hoverIndex]) : null;
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    const at = plotFraction(event.currentTarget, event.clientX);
+    if (at < 0 || at > 1) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragFrom.current = at;
+    setDragging(true);
+    onPanStart();
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const at = plotFraction(event.currentTarget, event.clientX);
+    if (dragFrom.current !== null) {
+      onPan(dragFrom.current - at);
+      return;
+    }
+    onHover(at >= 0 && at <= 1 ? toTime(at) : null);
+  };
+
+  const handlePointerUp = () => {
+    dragFrom.current = null;
+    setDragging(false);
+  };
+
+  const axisFor = (variable: TrendVariable): AxisSide | 'off' =>
+    config.left.variables.includes(variable) ? 'left' : config.right.variables.includes(variable) ? 'right' : 'off';
+
+  const assign = (variable: TrendVariable, side: AxisSide | 'off') => {
+    const without = (axis: TrendAxis) => ({ ...axis, variables: axis.variables.filter(v => v !== variable) });
+    const left = without(config.left);
+    const right = without(config.right);
+    if (side === 'left') left.variables.push(variable);
+    if (side === 'right') right.variables.push(variable);
+    onChange({ ...config, left, right });
+  };
+
+  // Fixing a range starts from what auto-range shows now
+  const setRange = (side: AxisSide, range: Domain | null) =>
+    onChange({ ...config, [side]: { ...config[side], range } });
+
+  const rangeEditor = (side: AxisSide) => {
+    const axis = config[side];
+    if (axis.variables.length === 0) return null;
+    const shown = axis === leftAxis ? leftDomain : rightDomain ?? leftDomain;
+    return (
+      <div className="flex items-center space-x-2">
+        <span className="w-10 font-medium">{side === 'left' ? 'Left' : 'Right'}</span>
+        <label className="flex items-center space-x-1">
+          <input
+            type="checkbox"
+            checked={axis.range === null}
+            onChange={(e) => setRange(side, e.target.checked ? null : shown)}
+          />
+          <span>Auto</span>
+        </label>
+        {axis.range && (
+          <>
+            <input
+              type="number"
+              step="any"
+              value={axis.range[0]}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (Number.isFinite(value)) setRange(side, [value, axis.range![1]]);
+              }}
+              className="w-20 px-1 py-0.5 border border-gray-300 rounded"
+            />
+            <span>to</span>
+            <input
+              type="number"
+              step="any"
+              value={axis.range[1]}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (Number.isFinite(value)) setRange(side, [axis.range![0], value]);
+              }}
+              className="w-20 px-1 py-0.5 border border-gray-300 rounded"
+            />
+            <span>{axisUnits(axis.variables)}</span>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  // Tooltip flips to the left of the cursor in the right half of the plot
+  const tooltipLeft = hoverX !== null && hoverX > (MARGIN.left + WIDTH - MARGIN.right) / 2;
+
+  return (
+    <div className="border border-gray-200 rounded-md p-2">
+      <div className="flex items-center justify-between">
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-600">
+          {series.map(s => (
+            <span key={s.variable} className="flex items-center">
+              <span className="w-4 h-0.5 mr-1" style={{ backgroundColor: VARIABLES[s.variable].color }}></span>
+              {VARIABLES[s.variable].label}
+              {rightAxis && <span className="ml-1 text-gray-400">({s.side === 'left' ? 'L' : 'R'})</span>}
+            </span>
+          ))}
+          {series.length === 0 && <span className="text-gray-400">No variables selected</span>}
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => setEditing(!editing)}
+            className={`p-1 transition-colors ${editing ? 'text-blue-600' : 'text-gray-500 hover:text-blue-600'}`}
+            title="Choose variables and axis ranges"
+          >
+            <Settings className="w-4 h-4" />
+          </button>
+          {onRemove && (
+            <button onClick={onRemove} className="p-1 text-gray-400 hover:text-red-600 transition-colors" title="Remove this chart">
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {editing && (
+        <div className="mt-2 space-y-2 text-xs text-gray-700">
+          <table className="w-full">
+            <tbody>
+              {TREND_VARIABLES.map(variable => (
+                <tr key={variable}>
+                  <td className="py-0.5 pr-2">{VARIABLES[variable].label} ({RUN_COLUMN_UNITS[variable]})</td>
+                  <td className="py-0.5 text-right">
+                    <select
+                      value={axisFor(variable)}
+                      onChange={(e) => assign(variable, e.target.value as AxisSide | 'off')}
+                      className="px-1 py-0.5 border border-gray-300 rounded"
+                    >
+                      <option value="off">Off</option>
+                      <option value="left">Left axis</option>
+                      <option value="right">Right axis</option>
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rangeEditor('left')}
+          {rangeEditor('right')}
+        </div>
+      )}
+
+      <div className="relative">
+        <svg
+          ref={svgRef}
+          className={`w-full select-none touch-none ${dragging ? 'cursor-grabbing' : 'cursor-crosshair'}`}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onPointerLeave={() => onHover(null)}
+          onDoubleClick={onFollow}
+        >
+          <defs>
+            <clipPath id={clipId}>
+              <rect
+                x={MARGIN.left}
+                y={MARGIN.top}
+                width={PLOT_WIDTH}
+                height={HEIGHT - MARGIN.top - MARGIN.bottom}
+              />
+            </clipPath>
+          </defs>
+          <PlotAxes
+            width={WIDTH}
+            height={HEIGHT}
+            margin={MARGIN}
+            xDomain={xDomain}
+            yDomain={leftDomain}
+            xLabel="Time (s)"
+            yLabel={leftAxis.variables.length > 0 ? axisLabel(leftAxis.variables) : ''}
+            rightDomain={rightDomain}
+            rightLabel={rightAxis ? axisLabel(rightAxis.variables) : undefined}
+          />
+          <g clipPath={`url(#${clipId})`}>
+            {time.length > 1 && series.map(s => (
+              <polyline
+                key={s.variable}
+                fill="none"
+                stroke={VARIABLES[s.variable].color}
+                strokeWidth="1.5"
+                points={trend[s.variable].map((value, i) => `${x(time[i])},${s.y(value)}`).join(' ')}
+              />
+            ))}
+          </g>
+          {markerTime !== null && markerTime >= xDomain[0] && markerTime <= xDomain[1] && (
+            <line
+              x1={x(markerTime)}
+              x2={x(markerTime)}
+              y1={MARGIN.top}
+              y2={HEIGHT - MARGIN.bottom}
+              stroke="#4F46E5"
+              strokeWidth="1.5"
+            />
+          )}
+          {hoverIndex !== null && hoverX !== null && (
+            <g>
+              <line x1={hoverX} x2={hoverX} y1={MARGIN.top} y2={HEIGHT - MARGIN.bottom} stroke="#9CA3AF" strokeDasharray="3 2" />
+              {series.map(s => (
+                <circle
+                  key={s.variable}
+                  cx={hoverX}
+                  cy={s.y(trend[s.variable][hoverIndex])}
+                  r="2.5"
+                  fill={VARIABLES[s.variable].color}
+                />
+              ))}
+            </g>
+          )}
+        </svg>
+
+        {hoverIndex !== null && hoverX !== null && series.length > 0 && (
+          <div
+            className="absolute top-0 pointer-events-none bg-white/95 border border-gray-200 rounded shadow-sm px-2 py-1 text-xs text-gray-700 whitespace-nowrap"
+            style={tooltipLeft
+              ? { right: `${(1 - hoverX / WIDTH) * 100 + 1}%` }
+              : { left: `${(hoverX / WIDTH) * 100 + 1}%` }}
+          >
+            <div className="font-medium">t = {time[hoverIndex].toFixed(1)} s</div>
+            {series.map(s => (
+              <div key={s.variable} className="flex items-center">
+                <span className="w-2 h-2 rounded-full mr-1" style={{ backgroundColor: VARIABLES[s.variable].color }}></span>
+                {VARIABLES[s.variable].symbol} = {trend[s.variable][hoverIndex].toPrecision(4)} {RUN_COLUMN_UNITS[s.variable]}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const TrendPanel: React.FC<TrendPanelProps> = ({
+  trend,
+  runStart,
+  now,
+  trendWindow,
+  markerTime,
+  onWindowChange
+}) => {
+  const [charts, setCharts] = useState<TrendChartConfig[]>(DEFAULT_CHARTS);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  // Span the window goes back to when following the run again
+  const [liveSpan, setLiveSpan] = useState(trendWindow.kind === 'latest' ? trendWindow.span : null);
+  const panOrigin = useRef<Domain | null>(null);
+
+  const xDomain = windowDomain(trendWindow, runStart, now);
+  const toTime = linearScale([0, 1], xDomain);
+
+  const zoom = (at: number, factor: number) => {
+    const center = toTime(at);
+    onWindowChange(clampWindow(
+      [center - (center - xDomain[0]) * factor, center + (xDomain[1] - center) * factor],
+      runStart,
+      now
+    ));
+  };
+
+  const pan = (offset: number) => {
+    const origin = panOrigin.current;
+    if (!origin) return;
+    const shift = offset * (origin[1] - origin[0]);
+    onWindowChange(clampWindow([origin[0] + shift, origin[1] + shift], runStart, now));
+  };
+
+  const follow = (span: number | null) => {
+    setLiveSpan(span);
+    onWindowChange({ kind: 'latest', span });
+  };
+
+  const addChart = () => setCharts(prev => [
+    ...prev,
+    {
+      id: Math.max(0, ...prev.map(chart => chart.id)) + 1,
+      left: { variables: ['reactionRate'], range: null },
+      right: { variables: [], range: null }
+    }
+  ]);
+
+  const following = trendWindow.kind === 'latest';
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <LineChart className="w-4 h-4 sm:w-5 sm:h-5 text-blue-600" />
+          <h2 className="text-base sm:text-lg font-semibold text-gray-900">Live Trends</h2>
+        </div>
+        <button
+          onClick={addChart}
+          className="flex items-center space-x-1 px-2 py-1 text-gray-700 hover:text-blue-600 text-xs sm:text-sm font-medium transition-colors"
+          title="Add a chart"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Chart</span>
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1 mb-3 text-xs">
+        {WINDOW_SPANS.map(option => (
+          <button
+            key={option.label}
+            onClick={() => follow(option.span)}
+            className={`px-2 py-1 rounded-md font-medium transition-colors ${
+              following && trendWindow.span === option.span
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+        <button
+          onClick={() => zoom(0.5, ZOOM_STEP)}
+          className="p-1 text-gray-600 hover:text-blue-600 transition-colors"
+          title="Zoom in"
+        >
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => zoom(0.5, 1 / ZOOM_STEP)}
+          className="p-1 text-gray-600 hover:text-blue-600 transition-colors"
+          title="Zoom out"
+        >
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        {!following && (
+          <button
+            onClick={() => follow(liveSpan)}
+            className="flex items-center space-x-1 px-2 py-1 text-amber-700 hover:text-blue-600 font-medium transition-colors"
+            title="Follow the run again"
+          >
+            <Radio className="w-4 h-4" />
+            <span>Live</span>
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {charts.map(chart => (
+          <TrendChart
+            key={chart.id}
+            config={chart}
+            trend={trend}
+            xDomain={xDomain}
+            hoverTime={hoverTime}
+            markerTime={markerTime}
+            onHover={setHoverTime}
+            onZoom={zoom}
+            onPanStart={() => { panOrigin.current = xDomain; }}
+            onPan={pan}
+            onFollow={() => follow(liveSpan)}
+            onChange={(config) => setCharts(prev => prev.map(c => (c.id === config.id ? config : c)))}
+            onRemove={charts.length > 1 ? () => setCharts(prev => prev.filter(c => c.id !== chart.id)) : null}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Scroll over a chart to zoom and drag to pan through the whole run; panning back to the newest
+        point or double-clicking follows the run again. Long windows are thinned to about 600 points.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Ruler } from 'lucide-react';
+import { CSTR_PARAMETER_KEYS, CSTRParameterKey, CSTRParameters } from '../utils/cstrModel';
+import {
+  checkParameters,
+  displayUnit,
+  formatQuantity,
+  PARAMETER_QUANTITIES,
+  parameterQuantity,
+  parameterValue,
+  UnitPreferences
+} from '../utils/quantities';
+
+interface UnitsPanelProps {
+  params: CSTRParameters;
+  preferences: UnitPreferences;
+  onParameterChange: (key: CSTRParameterKey, value: number) => void;
+  onPreferencesChange: (preferences: UnitPreferences) => void;
+}
+
+// Keeps six significant figures so the fields stay readable
+const shown = (value: number) => String(Number(value.toPrecision(6)));
+
+export const UnitsPanel: React.FC<UnitsPanelProps> = ({ params, preferences, onParameterChange, onPreferencesChange }) => {
+  // Field being typed in, kept as text so it is not reformatted underfoot
+  const [editing, setEditing] = useState<{ key: CSTRParameterKey; text: string } | null>(null);
+  const issues = useMemo(() => checkParameters(params), [params]);
+
+  const edit = (key: CSTRParameterKey, text: string) => {
+    setEditing({ key, text });
+    const value = Number(text);
+    if (text.trim() !== '' && Number.isFinite(value)) {
+      onParameterChange(key, parameterValue(key, { value, unit: displayUnit(key, preferences) }));
+    }
+  };
+
+  const selectUnit = (key: CSTRParameterKey, unit: string) => {
+    setEditing(null);
+    const next = { ...preferences };
+    if (unit === PARAMETER_QUANTITIES[key].units[0]) delete next[key];
+    else next[key] = unit;
+    onPreferencesChange(next);
+  };
+
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+
+  return (
+    <div className="bg-white rounded-lg p-4 sm:p-6 shadow-md border border-gray-200">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4 space-y-2 sm:space-y-0">
+        <div className="flex items-center space-x-2">
+          <Ruler className="w-4 h-4 sm:w-5 sm:h-5 text-blue-600" />
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">Parameters &amp; Units</h3>
+        </div>
+        <span className={`text-xs sm:text-sm font-medium ${errors > 0 ? 'text-red-600' : issues.length > 0 ? 'text-amber-600' : 'text-green-600'}`}>
+          {issues.length === 0 ? 'All values plausible' : `${errors} error${errors === 1 ? '' : 's'}, ${issues.length - errors} warning${issues.length - errors === 1 ? '' : 's'}`}
+        </span>
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="space-y-1 mb-4">
+          {issues.map((issue, i) => (
+            <li key={i} className={`flex items-start text-xs ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}>
+              <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-gray-700">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-1 pr-2 font-medium">Parameter</th>
+              <th className="py-1 pr-2 font-medium">Value</th>
+              <th className="py-1 pr-2 font-medium">Unit</th>
+              <th className="py-1 pr-2 font-medium">Stored as</th>
+            </tr>
+          </thead>
+          <tbody>
+            {CSTR_PARAMETER_KEYS.map(key => {
+              const { label, units } = PARAMETER_QUANTITIES[key];
+              const unit = displayUnit(key, preferences);
+              const flagged = issues.some(issue => issue.key === key);
+              return (
+                <tr key={key} className="border-b border-gray-100">
+                  <td className="py-1 pr-2 whitespace-nowrap">{label}</td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      value={editing?.key === key ? editing.text : shown(parameterQuantity(params, key, unit).value)}
+                      onChange={(e) => edit(key, e.target.value)}
+                      onBlur={() => setEditing(null)}
+                      className={`w-28 px-1 py-0.5 border rounded ${flagged ? 'border-amber-400' : 'border-gray-300'}`}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    {units.length > 1 ? (
+                      <select
+                        value={unit}
+                        onChange={(e) => selectUnit(key, e.target.value)}
+                        className="px-1 py-0.5 border border-gray-300 rounded"
+                      >
+                        {units.map(u => <option key={u} value={u}>{u}</option>)}
+                      </select>
+                    ) : unit}
+                  </td>
+                  <td className="py-1 pr-2 text-gray-500 whitespace-nowrap">
+                    {formatQuantity(parameterQuantity(params, key))}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Values can be entered in any of the listed units; the choice is remembered and also used by the
+        sliders. The model always works in SI units. Warnings flag values outside the usual physical range,
+        such as a heat capacity given in kJ where J is expected.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { AlarmSystem, AlarmVariable, DEFAULT_ALARM_CONFIG, defaultAlarmConfig, MAX_LOG_LENGTH } from './alarms';
+import { REFERENCE_PARAMETERS } from './presets';
+
+const p = REFERENCE_PARAMETERS;
+const normal: Record<AlarmVariable, number> = {
+  temperature: 350,
+  jacketTemp: 300,
+  concentration: p.feedConcentration / 2,
+  volume: 10 * p.minimumVolume,
+  conversion: 50
+};
+const at = (temperature: number) => ({ ...normal, temperature });
+
+describe('AlarmSystem', () => {
+  it('holds a HI alarm in until the value is back inside by the deadband', () => {
+    const alarms = new AlarmSystem();
+    const { hi, deadband } = DEFAULT_ALARM_CONFIG.temperature;
+    expect(alarms.evaluate(0, at(hi! + 1)).map(event => event.type)).toEqual(['activated']);
+    expect(alarms.evaluate(10, at(hi! - deadband / 2))).toEqual([]);
+    expect(alarms.evaluate(20, at(hi! - 2 * deadband)).map(event => event.alarmId)).toEqual(['temperature.HI']);
+  });
+
+  it('logs one activation for a value chattering around the limit', () => {
+    const alarms = new AlarmSystem();
+    for (let i = 0; i < 20; i++) alarms.evaluate(i * 10, at(i % 2 ? 395 : 389));
+    expect(alarms.getEventCount()).toBe(1);
+  });
+
+  it('drops the oldest events past the log limit and says so', () => {
+    const alarms = new AlarmSystem();
+    const extra = 10;
+    // Each sample either raises or clears the HI alarm
+    for (let i = 0; i < MAX_LOG_LENGTH + extra; i++) {
+      alarms.evaluate(i * 10, at(i % 2 ? 350 : 395));
+    }
+    expect(alarms.getLog()).toHaveLength(MAX_LOG_LENGTH);
+    expect(alarms.getDroppedCount()).toBe(extra);
+    expect(alarms.getEventCount()).toBe(MAX_LOG_LENGTH + extra);
+    expect(alarms.logNotes()[0]).toContain(`the oldest ${extra} dropped`);
+    expect(alarms.logToCSV().split('\n')[0]).toBe(`# oldest ${extra} events dropped`);
+    // Events from the latest sample are still reported after a drop
+    expect(alarms.evaluate(1e5, at(395)).map(event => event.type)).toEqual(['activated']);
+  });
+
+  it('keeps an acknowledged alarm until it clears, and a cleared one until acknowledged', () => {
+    const alarms = new AlarmSystem();
+    alarms.evaluate(0, at(395));
+    alarms.acknowledge('temperature.HI', 1);
+    expect(alarms.getAlarms()).toHaveLength(1);
+    alarms.evaluate(10, at(350));
+    expect(alarms.getAlarms()).toHaveLength(0);
+
+    alarms.evaluate(20, at(395));
+    alarms.evaluate(30, at(350));
+    expect(alarms.getAlarms().map(alarm => alarm.active)).toEqual([false]);
+  });
+
+  it('leaves a shelved alarm off the status lamps until the shelving expires', () => {
+    const alarms = new AlarmSystem();
+    alarms.shelve('temperature.HI', 0, 60);
+    alarms.evaluate(10, at(395));
+    expect(alarms.getStatus('temperature')).toBe('normal');
+    alarms.evaluate(60, at(395));
+    expect(alarms.getStatus('temperature')).toBe('warning');
+  });
+});
+
+describe('defaultAlarmConfig', () => {
+  it('scales the concentration and level limits with the case', () => {
+    const config = defaultAlarmConfig({ feedConcentration: 20, minimumVolume: 0.5 });
+    expect(config.concentration).toEqual({ hi: 80, deadband: 2 });
+    expect(config.volume).toEqual({ lo: 1, deadband: 0.1 });
+    expect(config.temperature).toEqual(DEFAULT_ALARM_CONFIG.temperature);
+    expect(defaultAlarmConfig({ feedConcentration: 0, minimumVolume: 0 }).concentration).toEqual({ deadband: 0 });
+  });
+});
@@ -0,0 +1,335 @@
+// Process alarms: HIHI/HI/LO/LOLO and rate-of-change limits per variable,
+// with deadband, acknowledge and shelve actions and a timestamped event log
+import { CSTRParameters, CSTRSimulator } from './cstrModel';
+import { REFERENCE_PARAMETERS } from './presets';
+
+export type AlarmVariable = 'temperature' | 'jacketTemp' | 'concentration' | 'volume' | 'conversion';
+export type AlarmLimit = 'HIHI' | 'HI' | 'LO' | 'LOLO' | 'ROC';
+export type AlarmSeverity = 'critical' | 'warning';
+
+// Any limit left undefined is off
+export interface AlarmLimits {
+  hihi?: number;
+  hi?: number;
+  lo?: number;
+  lolo?: number;
+  rateOfChange?: number;    // variable units per s, either direction
+  deadband: number;         // variable units; a level alarm clears this far back inside its limit
+}
+
+export type AlarmConfig = Record<AlarmVariable, AlarmLimits>;
+
+export interface Alarm {
+  id: string;               // e.g. 'temperature.HIHI'
+  variable: AlarmVariable;
+  limit: AlarmLimit;
+  severity: AlarmSeverity;
+  active: boolean;
+  acknowledged: boolean;
+  shelvedUntil: number | null;   // simulation time, s
+  activatedAt: number;           // simulation time, s
+  value: number;                 // value that last changed the alarm's state
+}
+
+export type AlarmEventType = 'activated' | 'cleared' | 'acknowledged' | 'shelved' | 'unshelved' | 'configured' | 'interlock' | 'vessel';
+
+export interface AlarmEvent {
+  time: number;             // simulation time, s
+  timestamp: string;        // wall clock, ISO 8601
+  type: AlarmEventType;
+  alarmId: string | null;   // null for events that concern the whole system
+  message: string;
+}
+
+export const ALARM_VARIABLES: Record<AlarmVariable, { label: string; unit: string }> = {
+  temperature: { label: 'Temperature', unit: 'K' },
+  jacketTemp: { label: 'Jacket Temp', unit: 'K' },
+  concentration: { label: 'Concentration', unit: 'mol/m³' },
+  volume: { label: 'Volume', unit: 'm³' },
+  conversion: { label: 'Conversion', unit: '%' }
+};
+
+export const ALARM_LIMITS: AlarmLimit[] = ['HIHI', 'HI', 'LO', 'LOLO', 'ROC'];
+
+const LIMIT_KEYS: Record<AlarmLimit, keyof Omit<AlarmLimits, 'deadband'>> = {
+  HIHI: 'hihi',
+  HI: 'hi',
+  LO: 'lo',
+  LOLO: 'lolo',
+  ROC: 'rateOfChange'
+};
+
+export const ALARM_SEVERITY: Record<AlarmLimit, AlarmSeverity> = {
+  HIHI: 'critical',
+  HI: 'warning',
+  LO: 'warning',
+  LOLO: 'critical',
+  ROC: 'warning'
+};
+
+// The thresholds the old fixed safety lamps used, plus a pre-alarm and a
+// rate-of-change alarm on the reactor temperature. The concentration and
+// level limits scale with the case, at four times the feed concentration and
+// twice the outlet nozzle level, which is where the lamps had them for the
+// reference case.
+export function defaultAlarmConfig(params: Pick<CSTRParameters, 'feedConcentration' | 'minimumVolume'>): AlarmConfig {
+  const { feedConcentration, minimumVolume } = params;
+  return {
+    temperature: { hihi: 400, hi: 390, lo: 280, rateOfChange: 5, deadband: 2 },
+    jacketTemp: { deadband: 2 },
+    concentration: feedConcentration > 0
+      ? { hi: 4 * feedConcentration, deadband: feedConcentration / 10 }
+      : { deadband: 0 },
+    volume: minimumVolume > 0 ? { lo: 2 * minimumVolume, deadband: minimumVolume / 5 } : { deadband: 0 },
+    conversion: { lo: 30, deadband: 2 }
+  };
+}
+
+export const DEFAULT_ALARM_CONFIG: AlarmConfig = defaultAlarmConfig(REFERENCE_PARAMETERS);
+
+// A rate-of-change alarm clears once the rate falls below this share of its limit
+const ROC_RESET_FRACTION = 0.8;
+
+// The log keeps this many of the newest events, so a chattering alarm cannot
+// grow it, and every export that carries it, without bound
+export const MAX_LOG_LENGTH = 2000;
+
+export class AlarmConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlarmConfigError';
+  }
+}
+
+export function validateAlarmConfig(config: AlarmConfig): void {
+  (Object.keys(ALARM_VARIABLES) as AlarmVariable[]).forEach(variable => {
+    const { hihi, hi, lo, lolo, rateOfChange, deadband } = config[variable];
+    const label = ALARM_VARIABLES[variable].label;
+    const ordered = [lolo, lo, hi, hihi].filter((v): v is number => v !== undefined);
+    if (ordered.some(v => !Number.isFinite(v))) throw new AlarmConfigError(`${label}: limits must be numbers`);
+    if (ordered.some((v, i) => i > 0 && v <= ordered[i - 1])) {
+      throw new AlarmConfigError(`${label}: limits must increase from LOLO through LO and HI to HIHI`);
+    }
+    if (rateOfChange !== undefined && !(rateOfChange > 0)) {
+      throw new AlarmConfigError(`${label}: rate-of-change limit must be positive`);
+    }
+    if (!(deadband >= 0)) throw new AlarmConfigError(`${label}: deadband must be zero or positive`);
+  });
+}
+
+// Values the alarms watch, read from the simulator after a step
+export function alarmSample(simulator: CSTRSimulator): Record<AlarmVariable, number> {
+  const state = simulator.getState();
+  return {
+    temperature: state.temperature,
+    jacketTemp: state.jacketTemp,
+    concentration: state.concentration,
+    volume: state.volume,
+    conversion: simulator.getConversion()
+  };
+}
+
+const alarmId = (variable: AlarmVariable, limit: AlarmLimit) => `${variable}.${limit}`;
+
+export class AlarmSystem {
+  private config: AlarmConfig;
+  // Alarms that are active or still waiting for acknowledgement, by id
+  private alarms = new Map<string, Alarm>();
+  // Shelving outlives the alarm it was applied to, so it is kept separately
+  private shelved = new Map<string, number>();
+  private log: AlarmEvent[] = [];
+  private dropped = 0;      // oldest events removed from the log
+  private last: { time: number; sample: Record<AlarmVariable, number> } | null = null;
+
+  constructor(config: AlarmConfig = DEFAULT_ALARM_CONFIG) {
+    validateAlarmConfig(config);
+    this.config = config;
+  }
+
+  private record(time: number, type: AlarmEventType, alarmId: string | null, message: string): void {
+    this.log.push({ time, timestamp: new Date().toISOString(), type, alarmId, message });
+    if (this.log.length > MAX_LOG_LENGTH) {
+      this.log.shift();
+      this.dropped++;
+    }
+  }
+
+  private describe(variable: AlarmVariable, limit: AlarmLimit): string {
+    return `${ALARM_VARIABLES[variable].label} ${limit}`;
+  }
+
+  private describeId(id: string): string {
+    const [variable, limit] = id.split('.') as [AlarmVariable, AlarmLimit];
+    return this.describe(variable, limit);
+  }
+
+  public getConfig(): AlarmConfig {
+    return this.config;
+  }
+
+  // Events from outside the alarm system that belong in the same log, e.g. interlock trips
+  public logEvent(time: number, type: AlarmEventType, message: string): void {
+    this.record(time, type, null, message);
+  }
+
+  // New limits apply from the next sample; alarms whose limit was removed clear then
+  public configure(config: AlarmConfig, time: number): void {
+    validateAlarmConfig(config);
+    this.config = config;
+    this.record(time, 'configured', null, 'Alarm limits changed');
+  }
+
+  // Whether each limit is exceeded, with the deadband holding an active
+  // alarm in until the value is back inside by that margin
+  private exceeded(variable: AlarmVariable, limit: AlarmLimit, value: number, rate: number | null): boolean | null {
+    const limits = this.config[variable];
+    const threshold = limits[LIMIT_KEYS[limit]];
+    if (threshold === undefined) return null;
+    const active = this.alarms.get(alarmId(variable, limit))?.active ?? false;
+    const band = active ? limits.deadband : 0;
+    switch (limit) {
+      case 'HIHI':
+      case 'HI':
+        return value > threshold - band;
+      case 'LO':
+      case 'LOLO':
+        return value < threshold + band;
+      case 'ROC':
+        if (rate === null) return active;
+        return Math.abs(rate) > (active ? threshold * ROC_RESET_FRACTION : threshold);
+    }
+  }
+
+  // Check a new sample against every limit; returns the events it caused
+  public evaluate(time: number, sample: Record<AlarmVariable, number>): AlarmEvent[] {
+    const start = this.getEventCount();
+    const dt = this.last ? time - this.last.time : 0;
+
+    this.shelved.forEach((until, id) => {
+      if (time >= until) {
+        this.shelved.delete(id);
+        const alarm = this.alarms.get(id);
+        if (alarm) alarm.shelvedUntil = null;
+        this.record(time, 'unshelved', id, `${this.describeId(id)} shelving expired`);
+      }
+    });
+
+    (Object.keys(ALARM_VARIABLES) as AlarmVariable[]).forEach(variable => {
+      const value = sample[variable];
+      const rate = this.last && dt > 0 ? (value - this.last.sample[variable]) / dt : null;
+      const unit = ALARM_VARIABLES[variable].unit;
+
+      ALARM_LIMITS.forEach(limit => {
+        const id = alarmId(variable, limit);
+        const exceeded = this.exceeded(variable, limit, value, rate) ?? false;
+        const alarm = this.alarms.get(id);
+        const shown = limit === 'ROC' ? `${(rate ?? 0).toFixed(3)} ${unit}/s` : `${value.toFixed(3)} ${unit}`;
+        const suffix = this.shelved.has(id) ? ' (shelved)' : '';
+
+        if (exceeded && !alarm?.active) {
+          this.alarms.set(id, {
+            id,
+            variable,
+            limit,
+            severity: ALARM_SEVERITY[limit],
+            active: true,
+            acknowledged: false,
+            shelvedUntil: this.shelved.get(id) ?? null,
+            activatedAt: time,
+            value: limit === 'ROC' ? rate ?? 0 : value
+          });
+          this.record(time, 'activated', id, `${this.describe(variable, limit)} at ${shown}${suffix}`);
+        } else if (!exceeded && alarm?.active) {
+          alarm.active = false;
+          alarm.value = limit === 'ROC' ? rate ?? 0 : value;
+          // Acknowledged alarms are done once they clear; others wait for the operator
+          if (alarm.acknowledged) this.alarms.delete(id);
+          this.record(time, 'cleared', id, `${this.describe(variable, limit)} returned to normal at ${shown}${suffix}`);
+        }
+      });
+    });
+
+    this.last = { time, sample: { ...sample } };
+    return this.log.slice(Math.max(0, start - this.dropped));
+  }
+
+  public acknowledge(id: string, time: number): void {
+    const alarm = this.alarms.get(id);
+    if (!alarm || alarm.acknowledged) return;
+    if (alarm.active) alarm.acknowledged = true;
+    else this.alarms.delete(id);
+    this.record(time, 'acknowledged', id, `${this.describe(alarm.variable, alarm.limit)} acknowledged`);
+  }
+
+  public acknowledgeAll(time: number): void {
+    [...this.alarms.keys()].forEach(id => this.acknowledge(id, time));
+  }
+
+  // Suppress an alarm from the annunciator for a while; it is still
+  // evaluated and logged, and comes back by itself when the time is up
+  public shelve(id: string, time: number, duration: number): void {
+    const until = time + duration;
+    this.shelved.set(id, until);
+    const alarm = this.alarms.get(id);
+    if (alarm) alarm.shelvedUntil = until;
+    this.record(time, 'shelved', id, `${this.describeId(id)} shelved for ${duration} s`);
+  }
+
+  public unshelve(id: string, time: number): void {
+    if (!this.shelved.delete(id)) return;
+    const alarm = this.alarms.get(id);
+    if (alarm) alarm.shelvedUntil = null;
+    this.record(time, 'unshelved', id, `${this.describeId(id)} unshelved`);
+  }
+
+  // Active and unacknowledged alarms, most severe and most recent first
+  public getAlarms(): Alarm[] {
+    return [...this.alarms.values()]
+      .map(alarm => ({ ...alarm }))
+      .sort((a, b) =>
+        (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1) || b.activatedAt - a.activatedAt);
+  }
+
+  // Worst unshelved active alarm on a variable, for status lamps
+  public getStatus(variable: AlarmVariable): AlarmSeverity | 'normal' {
+    let status: AlarmSeverity | 'normal' = 'normal';
+    this.alarms.forEach(alarm => {
+      if (alarm.variable !== variable || !alarm.active || alarm.shelvedUntil !== null) return;
+      if (alarm.severity === 'critical' || status === 'normal') status = alarm.severity;
+    });
+    return status;
+  }
+
+  public getLog(): readonly AlarmEvent[] {
+    return this.log;
+  }
+
+  // Events logged since the start, including those dropped from the log
+  public getEventCount(): number {
+    return this.dropped + this.log.length;
+  }
+
+  public getDroppedCount(): number {
+    return this.dropped;
+  }
+
+  // The log as comment lines for the run export
+  public logNotes(): string[] {
+    const dropped = this.dropped > 0 ? `, the oldest ${this.dropped} dropped` : '';
+    return [
+      `alarm log (${this.getEventCount()} events${dropped}):`,
+      ...this.log.map(event => `  t = ${event.time.toFixed(1)} s  ${event.timestamp}  ${event.type}  ${event.message}`)
+    ];
+  }
+
+  // The log as CSV lines without a trailing newline
+  public logToCSV(): string {
+    const quote = (text: string) => `"${text.replace(/"/g, '""')}"`;
+    return [
+      ...(this.dropped > 0 ? [`# oldest ${this.dropped} events dropped`] : []),
+      'time [s],timestamp,event,alarm,message',
+      ...this.log.map(event =>
+        [event.time, event.timestamp, event.type, event.alarmId ?? '', quote(event.message)].join(','))
+    ].join('\n');
+  }
+}
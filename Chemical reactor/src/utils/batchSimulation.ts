@@ -0,0 +1,163 @@
+// Headless batch simulation: integrate the CSTR model over a time span and
+// collect the full trajectory, independent of the React simulation loop.
+import { CSTRParameters, CSTRSimulator, CSTRState } from './cstrModel';
+import { createIntegrator, Integrator, IntegratorMethod, IntegratorStats, IntegratorTolerances } from './integrators';
+import { Scenario, ScenarioRunner } from './scenarios';
+import { MultiComponentSimulator, MultiComponentState, ReactionNetwork, ReactorParameters } from './multiComponentModel';
+
+export interface BatchSimulationOptions {
+  t0?: number;                  // s, defaults to initialState.time
+  tf: number;                   // s
+  outputInterval?: number;      // s, uniform output grid spacing (default 0.1)
+  outputTimes?: number[];       // s, explicit output grid; overrides outputInterval
+  integrator?: IntegratorMethod | Integrator;
+  tolerances?: Partial<IntegratorTolerances>;
+  scenario?: Scenario;          // scheduled parameter changes, relative to `parameters`
+}
+
+export interface SimulationTrajectory {
+  time: Float64Array;           // s
+  volume: Float64Array;         // m³
+  concentration: Float64Array;  // mol/m³
+  temperature: Float64Array;    // K
+  jacketTemp: Float64Array;     // K
+  conversion: Float64Array;     // %
+  reactionRate: Float64Array;   // mol/(m³·s)
+  outletFlow: Float64Array;     // m³/s
+  overflowFlow: Float64Array;   // m³/s, the part of the outlet flow going over the weir
+  heatDuty: Float64Array;       // kW, heat removed through the jacket
+  finalState: CSTRState;
+  integratorStats: IntegratorStats;
+}
+
+export interface NetworkTrajectory {
+  time: Float64Array;           // s
+  volume: Float64Array;         // m³
+  concentrations: Float64Array[]; // mol/m³, one array per species
+  reactionRates: Float64Array[];  // mol/(m³·s), one array per reaction
+  temperature: Float64Array;    // K
+  jacketTemp: Float64Array;     // K
+  finalState: MultiComponentState;
+  integratorStats: IntegratorStats;
+}
+
+// Build the output grid from t0 to tf, always including both end points
+export function buildOutputGrid(t0: number, tf: number, interval: number): number[] {
+  if (!(interval > 0)) {
+    throw new Error(`Output interval must be positive, got ${interval}`);
+  }
+  const count = Math.floor((tf - t0) / interval + 1e-9);
+  const grid = Array.from({ length: count + 1 }, (_, i) => t0 + i * interval);
+  if (tf - grid[grid.length - 1] > 1e-9 * Math.max(Math.abs(tf), 1)) {
+    grid.push(tf);
+  }
+  return grid;
+}
+
+// Resolve the output grid and integrator shared by both batch functions
+function prepareBatch(t0: number, options: BatchSimulationOptions): { outputTimes: number[]; integrator: Integrator } {
+  const { tf } = options;
+  if (!(tf > t0)) {
+    throw new Error(`Final time ${tf} must be greater than start time ${t0}`);
+  }
+
+  const outputTimes = options.outputTimes ?? buildOutputGrid(t0, tf, options.outputInterval ?? 0.1);
+  outputTimes.forEach((t, i) => {
+    if (t < t0 || t > tf || (i > 0 && t <= outputTimes[i - 1])) {
+      throw new Error(`Output times must be strictly increasing within [${t0}, ${tf}]`);
+    }
+  });
+
+  const integrator = typeof options.integrator === 'object'
+    ? options.integrator
+    : createIntegrator(options.integrator ?? 'rk45', options.tolerances);
+  return { outputTimes, integrator };
+}
+
+export function simulateBatch(
+  initialState: CSTRState,
+  parameters: CSTRParameters,
+  options: BatchSimulationOptions
+): SimulationTrajectory {
+  const t0 = options.t0 ?? initialState.time;
+  const { tf } = options;
+  const { outputTimes, integrator } = prepareBatch(t0, options);
+  const simulator = new CSTRSimulator({ ...initialState, time: t0 }, parameters, { integrator });
+  const runner = options.scenario ? new ScenarioRunner(simulator, options.scenario) : null;
+  const advanceTo = (t: number) => runner ? runner.advanceTo(t) : simulator.advanceTo(t);
+
+  const n = outputTimes.length;
+  const trajectory: SimulationTrajectory = {
+    time: new Float64Array(n),
+    volume: new Float64Array(n),
+    concentration: new Float64Array(n),
+    temperature: new Float64Array(n),
+    jacketTemp: new Float64Array(n),
+    conversion: new Float64Array(n),
+    reactionRate: new Float64Array(n),
+    outletFlow: new Float64Array(n),
+    overflowFlow: new Float64Array(n),
+    heatDuty: new Float64Array(n),
+    finalState: simulator.getState(),
+    integratorStats: simulator.getIntegratorStats()
+  };
+
+  outputTimes.forEach((t, i) => {
+    const state = advanceTo(t);
+    trajectory.time[i] = state.time;
+    trajectory.volume[i] = state.volume;
+    trajectory.concentration[i] = state.concentration;
+    trajectory.temperature[i] = state.temperature;
+    trajectory.jacketTemp[i] = state.jacketTemp;
+    trajectory.conversion[i] = simulator.getConversion();
+    trajectory.reactionRate[i] = simulator.getReactionRate();
+    trajectory.outletFlow[i] = simulator.getOutletFlow();
+    trajectory.overflowFlow[i] = simulator.getOverflowRate();
+    trajectory.heatDuty[i] = simulator.getHeatRemovalRate();
+  });
+
+  // Finish the span even when the last output time is before tf
+  trajectory.finalState = advanceTo(tf);
+  trajectory.integratorStats = simulator.getIntegratorStats();
+  return trajectory;
+}
+
+// Batch run of the multi-component model. Scenarios are not supported here
+// since they schedule changes to single-reaction parameters.
+export function simulateNetworkBatch(
+  initialState: MultiComponentState,
+  parameters: ReactorParameters,
+  network: ReactionNetwork,
+  options: Omit<BatchSimulationOptions, 'scenario'>
+): NetworkTrajectory {
+  const t0 = options.t0 ?? initialState.time;
+  const { tf } = options;
+  const { outputTimes, integrator } = prepareBatch(t0, options);
+  const simulator = new MultiComponentSimulator({ ...initialState, time: t0 }, parameters, network, { integrator });
+
+  const n = outputTimes.length;
+  const trajectory: NetworkTrajectory = {
+    time: new Float64Array(n),
+    volume: new Float64Array(n),
+    concentrations: network.species.map(() => new Float64Array(n)),
+    reactionRates: network.reactions.map(() => new Float64Array(n)),
+    temperature: new Float64Array(n),
+    jacketTemp: new Float64Array(n),
+    finalState: simulator.getState(),
+    integratorStats: integrator.getStats()
+  };
+
+  outputTimes.forEach((t, i) => {
+    const state = simulator.advanceTo(t);
+    trajectory.time[i] = state.time;
+    trajectory.volume[i] = state.volume;
+    state.concentrations.forEach((c, k) => { trajectory.concentrations[k][i] = c; });
+    simulator.getReactionRates().forEach((r, j) => { trajectory.reactionRates[j][i] = r; });
+    trajectory.temperature[i] = state.temperature;
+    trajectory.jacketTemp[i] = state.jacketTemp;
+  });
+
+  trajectory.finalState = simulator.advanceTo(tf);
+  trajectory.integratorStats = integrator.getStats();
+  return trajectory;
+}
@@ -0,0 +1,57 @@
+// Helpers for mapping data onto SVG chart coordinates
+
+export type Domain = [number, number];
+
+export interface PlotMargin {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// Map values from a data domain linearly onto a pixel range
+export function linearScale(domain: Domain, range: Domain): (value: number) => number {
+  const [d0, d1] = domain;
+  const [r0, r1] = range;
+  const span = d1 - d0 || 1;
+  return value => r0 + ((value - d0) / span) * (r1 - r0);
+}
+
+// Round tick step (1, 2 or 5 × 10^k) giving roughly `count` ticks over the domain
+export function niceStep([min, max]: Domain, count: number = 5): number {
+  const rough = Math.abs(max - min) / Math.max(1, count) || 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const normalized = rough / magnitude;
+  const nice = normalized < 1.5 ? 1 : normalized < 3.5 ? 2 : normalized < 7.5 ? 5 : 10;
+  return nice * magnitude;
+}
+
+export function niceTicks(domain: Domain, count: number = 5): number[] {
+  const step = niceStep(domain, count);
+  const [min, max] = domain;
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(min / step) * step; tick <= max + step * 1e-9; tick += step) {
+    // Snap to the step grid to avoid 0.30000000000000004-style labels
+    ticks.push(Math.round(tick / step) * step);
+  }
+  return ticks;
+}
+
+// Expand a domain outward to whole tick steps, with a fallback for flat data
+export function niceDomain([min, max]: Domain, count: number = 5): Domain {
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return [0, 1];
+  if (min === max) {
+    const pad = Math.abs(min) * 0.05 || 1;
+    return [min - pad, max + pad];
+  }
+  const step = niceStep([min, max], count);
+  return [Math.floor(min / step) * step, Math.ceil(max / step) * step];
+}
+
+export function formatTick(value: number, step: number): string {
+  if (value !== 0 && (Math.abs(value) >= 1e5 || Math.abs(value) < 1e-3)) {
+    return value.toExponential(1);
+  }
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  return value.toFixed(decimals);
+}
@@ -0,0 +1,205 @@
+// Pseudo-arclength continuation of CSTR steady states in one parameter
+import { CSTRParameterKey, CSTRParameters } from './cstrModel';
+import { Complex, numericalJacobian, solveLinearSystem } from './linearAlgebra';
+import { describeSteadyState, findSteadyStates, steadyStateResidual } from './steadyState';
+
+export type ContinuationParameter = CSTRParameterKey;
+
+export interface ContinuationPoint {
+  parameterValue: number;
+  volume: number;           // m³
+  concentration: number;    // mol/m³
+  temperature: number;      // K
+  jacketTemp: number;       // K
+  conversion: number;       // %
+  stable: boolean;
+  eigenvalues: Complex[];
+}
+
+export type TurningPointType = 'ignition' | 'extinction' | 'fold';
+
+export interface BifurcationPoint {
+  parameterValue: number;
+  temperature: number;      // K
+  concentration: number;    // mol/m³
+  conversion: number;       // %
+  type: TurningPointType | 'hopf';
+}
+
+export interface BifurcationDiagram {
+  parameter: ContinuationParameter;
+  points: ContinuationPoint[];
+  turningPoints: BifurcationPoint[];
+  hopfPoints: BifurcationPoint[];
+  status: 'completed' | 'max-points' | 'step-size-underflow';
+}
+
+export interface ContinuationOptions {
+  range: [number, number];
+  initialStep?: number;     // arclength step in scaled variables
+  maxStep?: number;
+  minStep?: number;
+  maxPoints?: number;
+}
+
+// Largest real part among complex-conjugate eigenvalue pairs, or null if none
+function maxOscillatoryRealPart(lambdas: Complex[]): number | null {
+  const scale = Math.max(1e-12, ...lambdas.map(l => Math.hypot(l.re, l.im)));
+  const complex = lambdas.filter(l => Math.abs(l.im) > 1e-6 * scale);
+  return complex.length ? Math.max(...complex.map(l => l.re)) : null;
+}
+
+function interpolate(a: ContinuationPoint, b: ContinuationPoint, fraction: number): Omit<BifurcationPoint, 'type'> {
+  const lerp = (x: number, y: number) => x + (y - x) * fraction;
+  return {
+    parameterValue: lerp(a.parameterValue, b.parameterValue),
+    temperature: lerp(a.temperature, b.temperature),
+    concentration: lerp(a.concentration, b.concentration),
+    conversion: lerp(a.conversion, b.conversion)
+  };
+}
+
+// Trace the steady-state curve from the low end of the parameter range. Starting
+// on the lowest-temperature steady state there, the arclength parametrization
+// follows the curve around turning points, so a full S-shaped curve is traced
+// whenever both ends of the range have a single steady state.
+export function traceSteadyStates(
+  params: CSTRParameters,
+  parameter: ContinuationParameter,
+  options: ContinuationOptions
+): BifurcationDiagram {
+  const [pMin, pMax] = options.range;
+  if (!(pMax > pMin)) {
+    throw new Error(`Continuation range must be increasing, got [${pMin}, ${pMax}]`);
+  }
+  const maxStep = options.maxStep ?? 0.05;
+  const minStep = options.minStep ?? 1e-6;
+  const maxPoints = options.maxPoints ?? 400;
+  let ds = options.initialStep ?? 0.01;
+
+  const start = findSteadyStates({ ...params, [parameter]: pMin })[0];
+  if (!start) {
+    throw new Error(`No steady state found at ${parameter} = ${pMin}`);
+  }
+
+  // Work in scaled variables z = x / w so the arclength weighs all unknowns
+  // alike; the scales cover the magnitudes at both ends of the range
+  const end = findSteadyStates({ ...params, [parameter]: pMax })[0] ?? start;
+  const x0 = [start.volume, start.concentration, start.temperature, start.jacketTemp, pMin];
+  const x1 = [end.volume, end.concentration, end.temperature, end.jacketTemp, pMax];
+  const w = x0.map((value, i) => i === 4 ? pMax - pMin : Math.max(Math.abs(value), Math.abs(x1[i]), 1e-6));
+  const unscale = (z: number[]) => z.map((value, i) => value * w[i]);
+  const residual = (z: number[]) => {
+    const x = unscale(z);
+    return steadyStateResidual({ ...params, [parameter]: x[4] }, x.slice(0, 4));
+  };
+  const toPoint = (z: number[]): ContinuationPoint => {
+    const x = unscale(z);
+    const steady = describeSteadyState({ ...params, [parameter]: x[4] }, x.slice(0, 4));
+    return {
+      parameterValue: x[4],
+      volume: steady.volume,
+      concentration: steady.concentration,
+      temperature: steady.temperature,
+      jacketTemp: steady.jacketTemp,
+      conversion: steady.conversion,
+      stable: steady.stable,
+      eigenvalues: steady.eigenvalues
+    };
+  };
+
+  // Unit tangent of the curve, oriented to agree with the previous tangent
+  const tangent = (z: number[], previous: number[]) => {
+    const jacobian = numericalJacobian(residual, z);
+    const t = solveLinearSystem([...jacobian, previous], [0, 0, 0, 0, 1]);
+    const length = Math.hypot(...t);
+    return t.map(value => value / length);
+  };
+
+  let z = x0.map((value, i) => value / w[i]);
+  let t = tangent(z, [0, 0, 0, 0, 1]);
+  const points: ContinuationPoint[] = [toPoint(z)];
+  const tangents: number[] = [t[4]];
+  let status: BifurcationDiagram['status'] = 'completed';
+
+  while (true) {
+    if (points.length >= maxPoints) {
+      status = 'max-points';
+      break;
+    }
+
+    // Predictor along the tangent, then Newton corrector on the curve and the
+    // hyperplane orthogonal to the tangent through the predicted point
+    const predicted = z.map((value, i) => value + ds * t[i]);
+    let corrected: number[] | null = [...predicted];
+    let iterations = 0;
+    try {
+      for (; iterations < 10; iterations++) {
+        const f = residual(corrected);
+        const arclength = t.reduce((sum, ti, i) => sum + ti * (corrected![i] - predicted[i]), 0);
+        const jacobian = numericalJacobian(residual, corrected, f);
+        const delta = solveLinearSystem([...jacobian, t], [...f, arclength].map(value => -value));
+        corrected = corrected.map((value, i) => value + delta[i]);
+        if (Math.max(...delta.map(Math.abs)) < 1e-10) break;
+      }
+      if (iterations === 10 || !corrected.every(Number.isFinite) || unscale(corrected)[2] <= 0) {
+        corrected = null;
+      }
+    } catch {
+      corrected = null;
+    }
+
+    if (!corrected) {
+      ds /= 2;
+      if (ds < minStep) {
+        status = 'step-size-underflow';
+        break;
+      }
+      continue;
+    }
+
+    try {
+      t = tangent(corrected, t);
+    } catch {
+      status = 'step-size-underflow';
+      break;
+    }
+    z = corrected;
+    points.push(toPoint(z));
+    tangents.push(t[4]);
+    if (iterations <= 3) ds = Math.min(maxStep, ds * 1.5);
+
+    const p = unscale(z)[4];
+    if (p < pMin || p > pMax) break;
+  }
+
+  // Turning points: the parameter direction of the tangent changes sign
+  const turningPoints: BifurcationPoint[] = [];
+  for (let i = 1; i < points.length; i++) {
+    if (tangents[i - 1] * tangents[i] < 0) {
+      const fraction = tangents[i - 1] / (tangents[i - 1] - tangents[i]);
+      const before = points[i - 1];
+      const after = points[i];
+      // The stable branch meeting an ignition point is the colder one
+      let type: TurningPointType = 'fold';
+      if (before.stable !== after.stable) {
+        const stableSide = before.stable ? before : after;
+        const unstableSide = before.stable ? after : before;
+        type = stableSide.temperature < unstableSide.temperature ? 'ignition' : 'extinction';
+      }
+      turningPoints.push({ ...interpolate(before, after, fraction), type });
+    }
+  }
+
+  // Hopf points: a complex-conjugate pair crosses the imaginary axis
+  const hopfPoints: BifurcationPoint[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const a = maxOscillatoryRealPart(points[i - 1].eigenvalues);
+    const b = maxOscillatoryRealPart(points[i].eigenvalues);
+    if (a !== null && b !== null && a * b < 0) {
+      hopfPoints.push({ ...interpolate(points[i - 1], points[i], a / (a - b)), type: 'hopf' });
+    }
+  }
+
+  return { parameter, points, turningPoints, hopfPoints, status };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { CSTRSimulator } from './cstrModel';
+import { DEFAULT_CONTROL_CONFIG, PIDController, PIDSettings, ReactorControlSystem } from './controllers';
+import { REFERENCE_INITIAL_STATE, REFERENCE_PARAMETERS } from './presets';
+
+const settings: PIDSettings = { kp: 1, ki: 0.5, kd: 0, setpoint: 10, outputMin: 0, outputMax: 5, action: 'reverse' };
+
+describe('PIDController', () => {
+  it('integrates the error and acts in the configured direction', () => {
+    const controller = new PIDController(settings);
+    // PV below setpoint on a reverse-acting loop raises the output
+    expect(controller.update(9, 1)).toBeCloseTo(1 + 0.5);
+    expect(controller.update(9, 1)).toBeCloseTo(1 + 1);
+    controller.configure({ action: 'direct' });
+    controller.initialize(9, 2);
+    expect(controller.update(9, 1)).toBeLessThan(2);
+  });
+
+  it('stops integrating while saturated so it comes off the limit at once', () => {
+    const controller = new PIDController(settings);
+    for (let i = 0; i < 100; i++) controller.update(0, 1);
+    expect(controller.getOutput()).toBe(5);
+    expect(controller.isSaturated()).toBe(true);
+    // Once the error reverses the output leaves the limit on the next update
+    expect(controller.update(11, 1)).toBeLessThan(5);
+  });
+
+  it('switches between manual and auto without a bump', () => {
+    const controller = new PIDController(settings);
+    controller.setMode('manual');
+    expect(controller.update(8, 1, 3)).toBe(3);
+    controller.setMode('auto');
+    // Only the new integral action moves the output
+    expect(controller.update(8, 0.1)).toBeCloseTo(3 + 0.5 * 2 * 0.1);
+  });
+
+  it('starts from a given output without a bump', () => {
+    const controller = new PIDController(settings);
+    controller.initialize(12, 4);
+    expect(controller.update(12, 0)).toBeCloseTo(4);
+  });
+
+  it('picks up exactly where a checkpoint left it', () => {
+    const controller = new PIDController(settings);
+    controller.update(9, 1);
+    const checkpoint = controller.checkpoint();
+    const next = controller.update(8, 1);
+    controller.update(7, 1);
+    controller.restore(checkpoint);
+    expect(controller.update(8, 1)).toBe(next);
+  });
+});
+
+describe('ReactorControlSystem', () => {
+  it('switches a loop on at the output the plant already has', () => {
+    const simulator = new CSTRSimulator(REFERENCE_INITIAL_STATE, REFERENCE_PARAMETERS);
+    const control = new ReactorControlSystem(simulator, DEFAULT_CONTROL_CONFIG);
+    control.configure({ ...DEFAULT_CONTROL_CONFIG, temperature: { ...DEFAULT_CONTROL_CONFIG.temperature, enabled: true } });
+    control.applyControl(0);
+    expect(simulator.getParameters().jacketFlowRate).toBeCloseTo(REFERENCE_PARAMETERS.jacketFlowRate);
+  });
+
+  it('reports the loops that let go of the plant', () => {
+    const simulator = new CSTRSimulator(REFERENCE_INITIAL_STATE, REFERENCE_PARAMETERS);
+    const on = { ...DEFAULT_CONTROL_CONFIG, level: { ...DEFAULT_CONTROL_CONFIG.level, enabled: true } };
+    const control = new ReactorControlSystem(simulator, on);
+    expect(control.configure({ ...on, level: { ...on.level, kp: 0.3 } })).toEqual([]);
+    expect(control.configure(DEFAULT_CONTROL_CONFIG)).toEqual(['level']);
+  });
+});
@@ -0,0 +1,373 @@
+// PID control loops for the CSTR: reactor temperature (optionally cascaded
+// through the jacket temperature) and liquid level
+import { CSTRParameters, CSTRSimulator, CSTRState } from './cstrModel';
+
+export type ControllerMode = 'auto' | 'manual';
+// Direct acting: output rises when the PV rises above setpoint
+export type ControllerAction = 'direct' | 'reverse';
+
+export interface PIDSettings {
+  kp: number;               // output units per PV unit
+  ki: number;               // output units per (PV unit·s)
+  kd: number;               // output units·s per PV unit
+  setpoint: number;
+  outputMin: number;
+  outputMax: number;
+  action: ControllerAction;
+}
+
+// A controller's memory, as opposed to its settings
+export interface PIDCheckpoint {
+  mode: ControllerMode;
+  integral: number;
+  lastPv: number | null;
+  output: number;
+}
+
+export class PIDController {
+  private settings: PIDSettings;
+  private mode: ControllerMode = 'auto';
+  private integral = 0;
+  private lastPv: number | null = null;
+  private output: number;
+
+  constructor(settings: PIDSettings, initialOutput: number = settings.outputMin) {
+    this.settings = { ...settings };
+    this.output = this.clamp(initialOutput);
+  }
+
+  private clamp(value: number): number {
+    return Math.min(this.settings.outputMax, Math.max(this.settings.outputMin, value));
+  }
+
+  private error(pv: number): number {
+    const sign = this.settings.action === 'direct' ? 1 : -1;
+    return sign * (pv - this.settings.setpoint);
+  }
+
+  public configure(settings: Partial<PIDSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    this.output = this.clamp(this.output);
+  }
+
+  public getSettings(): PIDSettings {
+    return { ...this.settings };
+  }
+
+  public getMode(): ControllerMode {
+    return this.mode;
+  }
+
+  // Switching modes keeps the output where it is; the integral tracks the
+  // output in manual so returning to auto is bumpless too
+  public setMode(mode: ControllerMode): void {
+    this.mode = mode;
+  }
+
+  // Start from a known output without a bump, e.g. when a loop is switched on
+  public initialize(pv: number, output: number): void {
+    this.output = this.clamp(output);
+    this.integral = this.output - this.settings.kp * this.error(pv);
+    this.lastPv = pv;
+  }
+
+  public update(pv: number, dt: number, manualOutput?: number): number {
+    const { kp, ki, kd, outputMin, outputMax } = this.settings;
+    const error = this.error(pv);
+
+    if (this.mode === 'manual') {
+      this.initialize(pv, manualOutput ?? this.output);
+      return this.output;
+    }
+
+    // Derivative on measurement avoids a kick on setpoint changes
+    const sign = this.settings.action === 'direct' ? 1 : -1;
+    const derivative = this.lastPv === null || dt <= 0 ? 0 : sign * (pv - this.lastPv) / dt;
+    const candidateIntegral = this.integral + ki * error * dt;
+    const unclamped = kp * error + candidateIntegral + kd * derivative;
+    this.output = this.clamp(unclamped);
+
+    // Anti-windup: stop integrating while saturated in the direction of the error
+    const windingUp = (unclamped > outputMax && error > 0) || (unclamped < outputMin && error < 0);
+    if (!windingUp) this.integral = candidateIntegral;
+    this.lastPv = pv;
+
+    return this.output;
+  }
+
+  public getOutput(): number {
+    return this.output;
+  }
+
+  public isSaturated(): boolean {
+    return this.output <= this.settings.outputMin || this.output >= this.settings.outputMax;
+  }
+
+  public checkpoint(): PIDCheckpoint {
+    return { mode: this.mode, integral: this.integral, lastPv: this.lastPv, output: this.output };
+  }
+
+  public restore(checkpoint: PIDCheckpoint): void {
+    this.mode = checkpoint.mode;
+    this.integral = checkpoint.integral;
+    this.lastPv = checkpoint.lastPv;
+    this.output = checkpoint.output;
+  }
+}
+
+export type LoopId = 'temperature' | 'jacket' | 'level';
+
+export interface LoopConfig extends PIDSettings {
+  enabled: boolean;
+  mode: ControllerMode;
+  manualOutput: number;
+}
+
+export interface ControlConfig {
+  // Reactor T → jacket flow, or → jacket temperature setpoint when cascaded
+  temperature: LoopConfig;
+  // Cascade slave: jacket T → jacket flow
+  jacket: LoopConfig;
+  // Reactor volume → outlet valve constant
+  level: LoopConfig;
+  cascade: boolean;
+}
+
+export interface LoopStatus {
+  active: boolean;
+  mode: ControllerMode;
+  setpoint: number;
+  pv: number;
+  mv: number;
+  saturated: boolean;
+}
+
+export const TEMPERATURE_LOOP_DEFAULTS: LoopConfig = {
+  enabled: false,
+  mode: 'auto',
+  manualOutput: 0.1,
+  kp: 0.05,
+  ki: 0.005,
+  kd: 0,
+  setpoint: 349,
+  outputMin: 0,
+  outputMax: 1,
+  action: 'direct'
+};
+
+// Master tuning when the temperature loop drives the jacket temperature setpoint
+export const CASCADE_MASTER_DEFAULTS: LoopConfig = {
+  ...TEMPERATURE_LOOP_DEFAULTS,
+  manualOutput: 300,
+  kp: 2,
+  ki: 0.05,
+  outputMin: 250,
+  outputMax: 350,
+  action: 'reverse'
+};
+
+export const DEFAULT_CONTROL_CONFIG: ControlConfig = {
+  temperature: TEMPERATURE_LOOP_DEFAULTS,
+  jacket: {
+    enabled: true,
+    mode: 'auto',
+    manualOutput: 0.1,
+    kp: 0.02,
+    ki: 0.01,
+    kd: 0,
+    setpoint: 300,
+    outputMin: 0,
+    outputMax: 1,
+    action: 'direct'
+  },
+  level: {
+    enabled: false,
+    mode: 'auto',
+    manualOutput: 0.1,
+    kp: 0.2,
+    ki: 0.02,
+    kd: 0,
+    setpoint: 2.5,
+    outputMin: 0.01,
+    outputMax: 2,
+    action: 'direct'
+  },
+  cascade: false
+};
+
+const settingsOf = ({ kp, ki, kd, setpoint, outputMin, outputMax, action }: LoopConfig): PIDSettings =>
+  ({ kp, ki, kd, setpoint, outputMin, outputMax, action });
+
+// Wraps a CSTRSimulator and writes controller outputs into its parameters
+// before every integration step
+export class ReactorControlSystem {
+  private simulator: CSTRSimulator;
+  private config: ControlConfig;
+  private controllers: Record<LoopId, PIDController>;
+
+  constructor(simulator: CSTRSimulator, config: ControlConfig = DEFAULT_CONTROL_CONFIG) {
+    this.simulator = simulator;
+    this.config = config;
+    this.controllers = {
+      temperature: new PIDController(settingsOf(config.temperature)),
+      jacket: new PIDController(settingsOf(config.jacket)),
+      level: new PIDController(settingsOf(config.level))
+    };
+    (Object.keys(this.controllers) as LoopId[]).forEach(loop => {
+      this.controllers[loop].setMode(config[loop].mode);
+      this.initializeLoop(loop);
+    });
+  }
+
+  private isActive(loop: LoopId, config: ControlConfig = this.config): boolean {
+    if (loop === 'jacket') return config.temperature.enabled && config.cascade;
+    return config[loop].enabled;
+  }
+
+  private processValue(loop: LoopId, state: CSTRState = this.simulator.getState()): number {
+    return loop === 'temperature' ? state.temperature : loop === 'jacket' ? state.jacketTemp : state.volume;
+  }
+
+  // Value the loop's output currently has in the plant, used for bumpless start-up
+  private currentOutput(loop: LoopId): number {
+    const params = this.simulator.getParameters();
+    const state = this.simulator.getState();
+    if (loop === 'level') return params.valveConstant;
+    if (loop === 'temperature' && this.config.cascade) return state.jacketTemp;
+    return params.jacketFlowRate;
+  }
+
+  private initializeLoop(loop: LoopId): void {
+    if (loop === 'jacket') {
+      // The cascade slave follows the master's output, not its own setpoint
+      this.controllers.jacket.configure({ setpoint: this.controllers.temperature.getOutput() });
+    }
+    this.controllers[loop].initialize(this.processValue(loop), this.currentOutput(loop));
+  }
+
+  // Returns the loops that went off line or changed structure; their last
+  // outputs stay in the plant until the caller hands the parameters back
+  public configure(config: ControlConfig): LoopId[] {
+    const previous = this.config;
+    this.config = config;
+
+    (Object.keys(this.controllers) as LoopId[]).forEach(loop => {
+      const controller = this.controllers[loop];
+      controller.configure(settingsOf(config[loop]));
+      controller.setMode(config[loop].mode);
+    });
+
+    // Loops that just came on line (or changed structure) start from the
+    // plant's present values instead of stale controller state
+    const switchedOn = (loop: LoopId) => this.isActive(loop) &&
+      (!this.isActive(loop, previous) || previous.cascade !== config.cascade);
+    (Object.keys(this.controllers) as LoopId[]).forEach(loop => {
+      if (switchedOn(loop)) this.initializeLoop(loop);
+    });
+
+    return (Object.keys(this.controllers) as LoopId[]).filter(loop => this.isActive(loop, previous) &&
+      (!this.isActive(loop) || previous.cascade !== config.cascade));
+  }
+
+  public getConfig(): ControlConfig {
+    return this.config;
+  }
+
+  public getSimulator(): CSTRSimulator {
+    return this.simulator;
+  }
+
+  // Compute controller outputs from the current state and apply them for the
+  // next dt seconds, a whole step unless a scenario event splits it
+  public applyControl(dt: number = this.simulator.getTimeStep()): void {
+    const state = this.simulator.getState();
+    const updates: Partial<CSTRParameters> = {};
+    const { temperature, jacket, level, cascade } = this.config;
+
+    if (temperature.enabled) {
+      const masterOutput = this.controllers.temperature.update(state.temperature, dt, temperature.manualOutput);
+      if (cascade) {
+        this.controllers.jacket.configure({ setpoint: masterOutput });
+        updates.jacketFlowRate = this.controllers.jacket.update(state.jacketTemp, dt, jacket.manualOutput);
+      } else {
+        updates.jacketFlowRate = masterOutput;
+      }
+    }
+    if (level.enabled) {
+      updates.valveConstant = this.controllers.level.update(state.volume, dt, level.manualOutput);
+    }
+
+    this.simulator.updateParameters(updates);
+  }
+
+  public step(): CSTRState {
+    this.applyControl();
+    return this.simulator.step();
+  }
+
+  public checkpoint(): Record<LoopId, PIDCheckpoint> {
+    return {
+      temperature: this.controllers.temperature.checkpoint(),
+      jacket: this.controllers.jacket.checkpoint(),
+      level: this.controllers.level.checkpoint()
+    };
+  }
+
+  // Pick up where the loops were, e.g. when branching from an earlier point
+  // of a run; the settings come from the configuration as usual
+  public restore(checkpoint: Record<LoopId, PIDCheckpoint>): void {
+    (Object.keys(this.controllers) as LoopId[]).forEach(loop => this.controllers[loop].restore(checkpoint[loop]));
+  }
+
+  public getLoopStatus(loop: LoopId): LoopStatus {
+    const controller = this.controllers[loop];
+    const active = this.isActive(loop);
+    return {
+      active,
+      mode: controller.getMode(),
+      setpoint: controller.getSettings().setpoint,
+      pv: this.processValue(loop),
+      mv: active ? controller.getOutput() : this.currentOutput(loop),
+      saturated: active && controller.isSaturated()
+    };
+  }
+}
+
+export interface LoopTrend {
+  setpoint: number[];
+  pv: number[];
+  mv: number[];
+}
+
+export interface ControlTrends {
+  time: number[];
+  loops: Record<LoopId, LoopTrend>;
+}
+
+export const emptyControlTrends = (): ControlTrends => ({
+  time: [],
+  loops: {
+    temperature: { setpoint: [], pv: [], mv: [] },
+    jacket: { setpoint: [], pv: [], mv: [] },
+    level: { setpoint: [], pv: [], mv: [] }
+  }
+});
+
+// Append the current loop values, keeping the last maxPoints samples
+export function appendControlTrends(
+  trends: ControlTrends,
+  system: ReactorControlSystem,
+  maxPoints: number
+): ControlTrends {
+  const keep = (values: number[], value: number) => [...values.slice(-maxPoints + 1), value];
+  const loops = {} as Record<LoopId, LoopTrend>;
+  (Object.keys(trends.loops) as LoopId[]).forEach(loop => {
+    const status = system.getLoopStatus(loop);
+    loops[loop] = {
+      setpoint: keep(trends.loops[loop].setpoint, status.setpoint),
+      pv: keep(trends.loops[loop].pv, status.pv),
+      mv: keep(trends.loops[loop].mv, status.mv)
+    };
+  });
+  return { time: keep(trends.time, system.getSimulator().getState().time), loops };
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { simulateBatch } from './batchSimulation';
+import { CSTRSimulator } from './cstrModel';
+import { BUILT_IN_PRESETS, REFERENCE_INITIAL_STATE, REFERENCE_PARAMETERS } from './presets';
+import { findSteadyStates } from './steadyState';
+
+// Trapezoidal integral of samples on the output grid from index `from` on
+const integrate = (time: Float64Array, values: (i: number) => number, from = 0): number => {
+  let total = 0;
+  for (let i = from + 1; i < time.length; i++) {
+    total += 0.5 * (values(i - 1) + values(i)) * (time[i] - time[i - 1]);
+  }
+  return total;
+};
+
+describe('CSTRSimulator', () => {
+  it.each(BUILT_IN_PRESETS.map(preset => [preset.name, preset] as const))(
+    'has zero derivatives at every steady state of %s',
+    (_, preset) => {
+      const states = findSteadyStates(preset.parameters);
+      expect(states.length).toBeGreaterThan(0);
+      const simulator = new CSTRSimulator(preset.initialState, preset.parameters);
+      states.forEach(({ volume, concentration, temperature, jacketTemp }) => {
+        const [dV, dCA, dT, dTJ] = simulator.derivatives({ volume, concentration, temperature, jacketTemp, time: 0 });
+        expect(Math.abs(dV)).toBeLessThan(1e-9 * preset.parameters.inletFlowRate);
+        expect(Math.abs(dCA)).toBeLessThan(1e-9 * Math.max(1, preset.parameters.feedConcentration));
+        expect(Math.abs(dT)).toBeLessThan(1e-6);
+        expect(Math.abs(dTJ)).toBeLessThan(1e-6);
+      });
+    }
+  );
+
+  it('stays at a stable steady state', () => {
+    const stable = findSteadyStates(REFERENCE_PARAMETERS).find(state => state.stable);
+    expect(stable).toBeDefined();
+    const { volume, concentration, temperature, jacketTemp } = stable!;
+    const simulator = new CSTRSimulator({ volume, concentration, temperature, jacketTemp, time: 0 }, REFERENCE_PARAMETERS);
+    const state = simulator.advanceTo(100);
+    expect(state.volume).toBeCloseTo(volume, 6);
+    expect(state.concentration).toBeCloseTo(concentration, 6);
+    expect(state.temperature).toBeCloseTo(temperature, 4);
+    expect(state.jacketTemp).toBeCloseTo(jacketTemp, 4);
+  });
+});
+
+describe('simulateBatch', () => {
+  const trajectory = simulateBatch(REFERENCE_INITIAL_STATE, REFERENCE_PARAMETERS, {
+    tf: 200,
+    outputInterval: 0.05,
+    tolerances: { relativeTolerance: 1e-9, absoluteTolerance: 1e-12 }
+  });
+  const { time, volume, concentration, outletFlow, reactionRate } = trajectory;
+  const last = time.length - 1;
+  const p = REFERENCE_PARAMETERS;
+
+  it('closes the volume balance', () => {
+    const accumulated = volume[last] - volume[0];
+    const netInflow = integrate(time, i => p.inletFlowRate - outletFlow[i]);
+    expect(Math.abs(accumulated - netInflow)).toBeLessThan(1e-5 * p.inletFlowRate * time[last]);
+  });
+
+  // The concentration balance follows the MATLAB reference, which leaves out
+  // the dilution term CA·dV/dt, so moles of A only balance once the level
+  // has settled (valve time constant 1/KV = 10 s)
+  it('closes the mass balance on A once the level has settled', () => {
+    const from = time.findIndex(t => t >= 100);
+    const span = time[last] - time[from];
+    const accumulated = volume[last] * concentration[last] - volume[from] * concentration[from];
+    const fed = p.inletFlowRate * p.feedConcentration * span;
+    const leaving = integrate(time, i => outletFlow[i] * concentration[i], from);
+    const consumed = integrate(time, i => volume[i] * reactionRate[i], from);
+    expect(Math.abs(accumulated - (fed - leaving - consumed))).toBeLessThan(1e-4 * fed);
+  });
+
+  it('ends at the steady state it settles into', () => {
+    const steady = findSteadyStates(p).filter(state => state.stable);
+    const { finalState } = trajectory;
+    expect(steady.some(state =>
+      Math.abs(state.temperature - finalState.temperature) < 0.01 &&
+      Math.abs(state.volume - finalState.volume) < 1e-4 * state.volume
+    )).toBe(true);
+  });
+});
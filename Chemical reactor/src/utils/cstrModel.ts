@@ -1,4 +1,7 @@
 // CSTR Mathematical Model Implementation - Based on MATLAB Reference
+import { createIntegrator, Integrator, IntegratorMethod, IntegratorStats, RK4Integrator } from './integrators';
+import { RateLaw, reactionRate, reactionRateGradient } from './rateLaws';
+
 export interface CSTRState {
   volume: number;           // m³
   concentration: number;    // mol/m³
@@ -13,7 +16,10 @@ export interface CSTRParameters {
   feedTemperature: number;      // K (T0)
   jacketInletTemp: number;      // K (TJ0)
   valveConstant: number;        // m³/(s·m³) (KV)
-  minimumVolume: number;        // m³ (Vmin)
+  minimumVolume: number;        // m³ (Vmin), level of the outlet nozzle
+  vesselVolume: number;         // m³ (Vmax), volume up to the overflow weir crest
+  vesselArea: number;           // m² (Avessel), cross-section at the weir
+  weirLength: number;           // m (Lw), crest length of the overflow weir
   preExponentialFactor: number; // 1/s (alpha)
   activationEnergy: number;     // J/mol (E)
   gasConstant: number;          // J/(mol·K) (R)
@@ -27,137 +33,283 @@ export interface CSTRParameters {
   jacketHeatCapacity: number;   // J/(kg·K) (CJ)
   jacketVolume: number;         // m³ (VJ)
   jacketFlowRate: number;       // m³/s (FJ)
+  rateLaw?: RateLaw;            // kinetics form, power law when absent
+}
+
+// The numeric parameters, i.e. everything except the rate law
+export type CSTRParameterKey = Exclude<keyof CSTRParameters, 'rateLaw'>;
+
+// Every numeric CSTRParameters field, for code that validates or iterates parameters at runtime
+export const CSTR_PARAMETER_KEYS: CSTRParameterKey[] = [
+  'inletFlowRate', 'feedConcentration', 'feedTemperature', 'jacketInletTemp', 'valveConstant',
+  'minimumVolume', 'vesselVolume', 'vesselArea', 'weirLength', 'preExponentialFactor',
+  'activationEnergy', 'gasConstant', 'reactionOrder', 'density', 'heatCapacity', 'heatOfReaction', 'heatTransferCoeff', 'heatTransferArea',
+  'jacketDensity', 'jacketHeatCapacity', 'jacketVolume', 'jacketFlowRate'
+];
+
+// Same value for every parameter and the same rate law, optionally leaving
+// one parameter out of the comparison
+export function sameParameters(a: CSTRParameters, b: CSTRParameters, except?: CSTRParameterKey): boolean {
+  return a.rateLaw === b.rateLaw && CSTR_PARAMETER_KEYS.every(key => key === except || a[key] === b[key]);
+}
+
+// Units of each parameter as written in the comments above; the
+// pre-exponential factor is 1/s·(mol/m³)^(1−n) in general
+export const PARAMETER_UNITS: Record<CSTRParameterKey, string> = {
+  inletFlowRate: 'm³/s',
+  feedConcentration: 'mol/m³',
+  feedTemperature: 'K',
+  jacketInletTemp: 'K',
+  valveConstant: 'm³/(s·m³)',
+  minimumVolume: 'm³',
+  vesselVolume: 'm³',
+  vesselArea: 'm²',
+  weirLength: 'm',
+  preExponentialFactor: '1/s',
+  activationEnergy: 'J/mol',
+  gasConstant: 'J/(mol·K)',
+  reactionOrder: '-',
+  density: 'kg/m³',
+  heatCapacity: 'J/(kg·K)',
+  heatOfReaction: 'J/mol',
+  heatTransferCoeff: 'W/(m²·K)',
+  heatTransferArea: 'm²',
+  jacketDensity: 'kg/m³',
+  jacketHeatCapacity: 'J/(kg·K)',
+  jacketVolume: 'm³',
+  jacketFlowRate: 'm³/s'
+};
+
+export const STATE_UNITS: Record<keyof CSTRState, string> = {
+  volume: 'm³',
+  concentration: 'mol/m³',
+  temperature: 'K',
+  jacketTemp: 'K',
+  time: 's'
+};
+
+export interface SimulatorOptions {
+  integrator?: Integrator;
+  timeStep?: number;        // s, simulated time advanced per step() call
+}
+
+// Everything needed to put a simulator back where it was. The solver is
+// recreated by method, so its statistics and step-size control start afresh.
+export interface SimulatorCheckpoint {
+  state: CSTRState;
+  parameters: CSTRParameters;
+  timeStep: number;         // s
+  integrator: IntegratorMethod;
+}
+
+// Order of the state variables in the integrator's state vector
+export const stateToVector = (state: CSTRState): number[] =>
+  [state.volume, state.concentration, state.temperature, state.jacketTemp];
+
+export const vectorToState = (y: number[], time: number): CSTRState => ({
+  volume: y[0],
+  concentration: y[1],
+  temperature: y[2],
+  jacketTemp: y[3],
+  time
+});
+
+// Where the liquid leaves: only through the valve, also over the weir, or
+// not at all because the level is down at the outlet nozzle
+export type FlowRegime = 'dry' | 'normal' | 'overflow';
+
+export const FLOW_REGIME_LABELS: Record<FlowRegime, string> = {
+  dry: 'Outlet dry',
+  normal: 'Normal level',
+  overflow: 'Overflowing'
+};
+
+// The parameters the outlet flow depends on
+export type VesselGeometry = Pick<
+  CSTRParameters,
+  'valveConstant' | 'minimumVolume' | 'vesselVolume' | 'vesselArea' | 'weirLength'
+>;
+
+export interface OutletFlows {
+  valve: number;            // m³/s
+  overflow: number;         // m³/s
+  slope: number;            // 1/s, d(valve + overflow)/dV
+}
+
+// Francis formula for a sharp-crested weir, Q = 1.84·Lw·H^1.5 in SI units
+// with the head H over the crest in m; the coefficient is in m^0.5/s
+export const WEIR_COEFFICIENT = 1.84;
+
+// The outlet is taken as uncovered once the liquid above the nozzle is below
+// this share of the working volume Vmax − Vmin; with the linear valve law the
+// level only approaches Vmin asymptotically
+export const DRY_FRACTION = 0.01;
+
+// The valve passes KV·(V − Vmin) while the outlet nozzle at Vmin is covered
+// and nothing below it; above the weir crest at Vmax the excess also spills
+// over the weir
+export function outletFlows(geometry: VesselGeometry, volume: number): OutletFlows {
+  const aboveNozzle = volume - geometry.minimumVolume;
+  const head = (volume - geometry.vesselVolume) / geometry.vesselArea;
+  const valve = aboveNozzle > 0 ? geometry.valveConstant * aboveNozzle : 0;
+  const overflow = head > 0 ? WEIR_COEFFICIENT * geometry.weirLength * Math.pow(head, 1.5) : 0;
+  const slope = (aboveNozzle > 0 ? geometry.valveConstant : 0) +
+    (head > 0 ? 1.5 * WEIR_COEFFICIENT * geometry.weirLength * Math.sqrt(head) / geometry.vesselArea : 0);
+  return { valve, overflow, slope };
+}
+
+export function flowRegime(geometry: VesselGeometry, volume: number): FlowRegime {
+  if (volume > geometry.vesselVolume) return 'overflow';
+  const workingVolume = geometry.vesselVolume - geometry.minimumVolume;
+  return volume - geometry.minimumVolume <= DRY_FRACTION * workingVolume ? 'dry' : 'normal';
 }
 
 export class CSTRSimulator {
   private state: CSTRState;
   private params: CSTRParameters;
-  private dt: number = 0.1; // time step in seconds
+  private integrator: Integrator;
+  private dt: number; // time step in seconds
 
-  constructor(initialState: CSTRState, parameters: CSTRParameters) {
+  constructor(initialState: CSTRState, parameters: CSTRParameters, options: SimulatorOptions = {}) {
     this.state = { ...initialState };
     this.params = { ...parameters };
+    this.integrator = options.integrator ?? new RK4Integrator();
+    this.dt = options.timeStep ?? 0.1;
   }
 
-  // Calculate outlet flow rate based on valve equation
-  private getOutletFlowRate(): number {
-    return this.params.valveConstant * (this.state.volume - this.params.minimumVolume);
+  // Total outlet flow: valve plus weir overflow
+  private getOutletFlowRate(state: CSTRState = this.state): number {
+    const flows = outletFlows(this.params, state.volume);
+    return flows.valve + flows.overflow;
   }
 
-  // Arrhenius equation for temperature-dependent reaction rate constant
-  private calculateRateConstant(): number {
-    return this.params.preExponentialFactor * 
-           Math.exp(-this.params.activationEnergy / (this.params.gasConstant * this.state.temperature));
-  }
-
-  // Reaction rate with nth order kinetics
-  private getReactionRateValue(): number {
-    const k = this.calculateRateConstant();
-    return k * Math.pow(this.state.concentration, this.params.reactionOrder);
+  // Reaction rate under the configured rate law (nth order by default)
+  private getReactionRateValue(state: CSTRState = this.state): number {
+    return reactionRate(this.params, state);
   }
 
   // Volume balance: dV/dt = F0 - F
-  private volumeDerivative(): number {
-    const outletFlow = this.getOutletFlowRate();
+  private volumeDerivative(state: CSTRState): number {
+    const outletFlow = this.getOutletFlowRate(state);
     return this.params.inletFlowRate - outletFlow;
   }
 
   // Mass balance: dCA/dt = (F0*CA0 - F*CA - V*r) / V
-  private concentrationDerivative(): number {
-    const outletFlow = this.getOutletFlowRate();
-    const reactionRate = this.getReactionRateValue();
+  private concentrationDerivative(state: CSTRState): number {
+    const outletFlow = this.getOutletFlowRate(state);
+    const reactionRate = this.getReactionRateValue(state);
     
     return (this.params.inletFlowRate * this.params.feedConcentration - 
-            outletFlow * this.state.concentration - 
-            this.state.volume * reactionRate) / this.state.volume;
+            outletFlow * state.concentration - 
+            state.volume * reactionRate) / state.volume;
   }
 
   // Energy balance: dT/dt = (rho*Cp*(F0*T0 - F*T) - lambda*V*r - U*AH*(T - TJ)) / (rho*Cp*V)
-  private temperatureDerivative(): number {
-    const outletFlow = this.getOutletFlowRate();
-    const reactionRate = this.getReactionRateValue();
+  private temperatureDerivative(state: CSTRState): number {
+    const outletFlow = this.getOutletFlowRate(state);
+    const reactionRate = this.getReactionRateValue(state);
     const volumetricHeatCapacity = this.params.density * this.params.heatCapacity;
     
     const convectiveTerm = volumetricHeatCapacity * 
                           (this.params.inletFlowRate * this.params.feedTemperature - 
-                           outletFlow * this.state.temperature);
-    const reactionTerm = this.params.heatOfReaction * this.state.volume * reactionRate;
+                           outletFlow * state.temperature);
+    const reactionTerm = this.params.heatOfReaction * state.volume * reactionRate;
     const heatTransferTerm = this.params.heatTransferCoeff * this.params.heatTransferArea * 
-                           (this.state.temperature - this.state.jacketTemp);
+                           (state.temperature - state.jacketTemp);
     
     return (convectiveTerm - reactionTerm - heatTransferTerm) / 
-           (volumetricHeatCapacity * this.state.volume);
+           (volumetricHeatCapacity * state.volume);
   }
 
   // Jacket energy balance: dTJ/dt = (FJ*rhoJ*CJ*(TJ0 - TJ) + U*AH*(T - TJ)) / (rhoJ*VJ*CJ)
-  private jacketTempDerivative(): number {
+  private jacketTempDerivative(state: CSTRState): number {
     const jacketHeatCapacity = this.params.jacketDensity * this.params.jacketHeatCapacity;
     
     const convectiveTerm = this.params.jacketFlowRate * jacketHeatCapacity * 
-                          (this.params.jacketInletTemp - this.state.jacketTemp);
+                          (this.params.jacketInletTemp - state.jacketTemp);
     const heatTransferTerm = this.params.heatTransferCoeff * this.params.heatTransferArea * 
-                           (this.state.temperature - this.state.jacketTemp);
+                           (state.temperature - state.jacketTemp);
     
     return (convectiveTerm + heatTransferTerm) / 
            (jacketHeatCapacity * this.params.jacketVolume);
   }
 
-  // Runge-Kutta 4th order integration
+  // Right-hand side of the four balances in state-vector form
+  public derivatives(state: CSTRState): number[] {
+    return [
+      this.volumeDerivative(state),
+      this.concentrationDerivative(state),
+      this.temperatureDerivative(state),
+      this.jacketTempDerivative(state)
+    ];
+  }
+
+  // Analytic Jacobian of derivatives() with respect to [V, CA, T, TJ],
+  // using the outlet flow's slope dF/dV in the current regime and the rate
+  // law's gradient
+  public jacobian(state: CSTRState): number[][] {
+    const p = this.params;
+    const { volume: V, concentration: CA, temperature: T, jacketTemp: TJ } = state;
+    const flows = outletFlows(p, V);
+    const F = flows.valve + flows.overflow;
+    const dF = flows.slope;
+    const r = reactionRateGradient(p, state);
+    const rhoCp = p.density * p.heatCapacity;
+    const UA = p.heatTransferCoeff * p.heatTransferArea;
+    const jacketCapacity = p.jacketDensity * p.jacketHeatCapacity * p.jacketVolume;
+    const reactionHeat = p.heatOfReaction / rhoCp;
+
+    return [
+      [-dF, 0, 0, 0],
+      [
+        -(p.inletFlowRate * p.feedConcentration + (dF * V - F) * CA) / (V * V) - r.volume,
+        -F / V - r.concentration,
+        -r.temperature,
+        -r.jacketTemp
+      ],
+      [
+        -(p.inletFlowRate * p.feedTemperature + (dF * V - F) * T) / (V * V) -
+          reactionHeat * r.volume + UA * (T - TJ) / (rhoCp * V * V),
+        -reactionHeat * r.concentration,
+        -F / V - reactionHeat * r.temperature - UA / (rhoCp * V),
+        -reactionHeat * r.jacketTemp + UA / (rhoCp * V)
+      ],
+      [0, 0, UA / jacketCapacity, -(p.jacketFlowRate * p.jacketDensity * p.jacketHeatCapacity + UA) / jacketCapacity]
+    ];
+  }
+
+  // Advance the state by one time step with the configured integrator
   public step(): CSTRState {
-    const k1_v = this.dt * this.volumeDerivative();
-    const k1_c = this.dt * this.concentrationDerivative();
-    const k1_t = this.dt * this.temperatureDerivative();
-    const k1_tj = this.dt * this.jacketTempDerivative();
-
-    // Store original state
-    const originalState = { ...this.state };
-
-    // Calculate k2
-    this.state.volume += k1_v / 2;
-    this.state.concentration += k1_c / 2;
-    this.state.temperature += k1_t / 2;
-    this.state.jacketTemp += k1_tj / 2;
-
-    const k2_v = this.dt * this.volumeDerivative();
-    const k2_c = this.dt * this.concentrationDerivative();
-    const k2_t = this.dt * this.temperatureDerivative();
-    const k2_tj = this.dt * this.jacketTempDerivative();
-
-    // Calculate k3
-    this.state = { ...originalState };
-    this.state.volume += k2_v / 2;
-    this.state.concentration += k2_c / 2;
-    this.state.temperature += k2_t / 2;
-    this.state.jacketTemp += k2_tj / 2;
-
-    const k3_v = this.dt * this.volumeDerivative();
-    const k3_c = this.dt * this.concentrationDerivative();
-    const k3_t = this.dt * this.temperatureDerivative();
-    const k3_tj = this.dt * this.jacketTempDerivative();
-
-    // Calculate k4
-    this.state = { ...originalState };
-    this.state.volume += k3_v;
-    this.state.concentration += k3_c;
-    this.state.temperature += k3_t;
-    this.state.jacketTemp += k3_tj;
-
-    const k4_v = this.dt * this.volumeDerivative();
-    const k4_c = this.dt * this.concentrationDerivative();
-    const k4_t = this.dt * this.temperatureDerivative();
-    const k4_tj = this.dt * this.jacketTempDerivative();
-
-    // Final update
-    this.state = { ...originalState };
-    this.state.volume += (k1_v + 2*k2_v + 2*k3_v + k4_v) / 6;
-    this.state.concentration += (k1_c + 2*k2_c + 2*k3_c + k4_c) / 6;
-    this.state.temperature += (k1_t + 2*k2_t + 2*k3_t + k4_t) / 6;
-    this.state.jacketTemp += (k1_tj + 2*k2_tj + 2*k3_tj + k4_tj) / 6;
-    this.state.time += this.dt;
+    return this.advanceTo(this.state.time + this.dt);
+  }
 
+  // Integrate from the current time up to an arbitrary later time
+  public advanceTo(time: number): CSTRState {
+    if (time > this.state.time) {
+      const f = (t: number, y: number[]) => this.derivatives(vectorToState(y, t));
+      const y1 = this.integrator.integrate(f, this.state.time, stateToVector(this.state), time);
+      this.state = vectorToState(y1, time);
+    }
     return { ...this.state };
   }
 
+  public getIntegrator(): Integrator {
+    return this.integrator;
+  }
+
+  // Swap the solver mid-run; the new solver's statistics start from zero
+  public setIntegrator(integrator: Integrator): void {
+    this.integrator = integrator;
+  }
+
+  public getIntegratorStats(): IntegratorStats {
+    return this.integrator.getStats();
+  }
+
+  public getTimeStep(): number {
+    return this.dt;
+  }
+
   public updateParameters(newParams: Partial<CSTRParameters>): void {
     this.params = { ...this.params, ...newParams };
   }
@@ -166,6 +318,32 @@ export class CSTRSimulator {
     return { ...this.state };
   }
 
+  // Replace the state in place, e.g. after an instantaneous quench; the
+  // clock keeps running from the current time
+  public setState(state: Omit<CSTRState, 'time'>): void {
+    this.state = { ...state, time: this.state.time };
+  }
+
+  public getParameters(): CSTRParameters {
+    return { ...this.params };
+  }
+
+  public checkpoint(): SimulatorCheckpoint {
+    return {
+      state: { ...this.state },
+      parameters: { ...this.params },
+      timeStep: this.dt,
+      integrator: this.integrator.method
+    };
+  }
+
+  public restore(checkpoint: SimulatorCheckpoint): void {
+    this.state = { ...checkpoint.state };
+    this.params = { ...checkpoint.parameters };
+    this.dt = checkpoint.timeStep;
+    if (this.integrator.method !== checkpoint.integrator) this.integrator = createIntegrator(checkpoint.integrator);
+  }
+
   public getConversion(): number {
     if (this.params.feedConcentration === 0) return 0;
     return ((this.params.feedConcentration - this.state.concentration) / 
@@ -189,4 +367,13 @@ export class CSTRSimulator {
   public getOutletFlow(): number {
     return this.getOutletFlowRate();
   }
+
+  // Part of the outlet flow going over the weir, m³/s
+  public getOverflowRate(): number {
+    return outletFlows(this.params, this.state.volume).overflow;
+  }
+
+  public getFlowRegime(): FlowRegime {
+    return flowRegime(this.params, this.state.volume);
+  }
 }
\ No newline at end of file
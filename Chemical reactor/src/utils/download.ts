@@ -0,0 +1,14 @@
+// Save generated text (CSV, JSON) as a file through the browser
+
+// Keep file names portable across operating systems
+export const safeFileName = (name: string): string => name.replace(/[^\w-]+/g, '_');
+
+export function downloadFile(content: string, fileName: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { simulateBatch } from './batchSimulation';
+import { EstimationError, fitParameters } from './estimation';
+import { ExperimentalData } from './experimentalData';
+import { BUILT_IN_PRESETS } from './presets';
+
+const { parameters: truth, initialState } = BUILT_IN_PRESETS[1];
+const time = Array.from({ length: 21 }, (_, i) => i * 50);
+const run = simulateBatch(initialState, truth, { tf: 1000, outputTimes: time });
+// Noise-free measurements of the stable low-conversion case warming up from cold
+const data: ExperimentalData = {
+  time,
+  series: { concentration: Array.from(run.concentration), temperature: Array.from(run.temperature) }
+};
+
+describe('fitParameters', () => {
+  it('recovers the parameters that generated the data', () => {
+    const guess = { ...truth, activationEnergy: truth.activationEnergy * 1.01, heatTransferCoeff: truth.heatTransferCoeff * 0.8 };
+    const result = fitParameters(guess, data, initialState, { parameters: ['activationEnergy', 'heatTransferCoeff'] });
+    expect(result.converged).toBe(true);
+    expect(result.cost).toBeLessThan(result.initialCost * 1e-6);
+    expect(result.values[0]).toBeCloseTo(truth.activationEnergy, -1);
+    expect(result.values[1] / truth.heatTransferCoeff).toBeCloseTo(1, 3);
+    expect(result.degreesOfFreedom).toBe(2 * (time.length - 1) - 2);
+    result.intervals.forEach(([low, high], i) => {
+      expect(low).toBeLessThanOrEqual(result.values[i]);
+      expect(high).toBeGreaterThanOrEqual(result.values[i]);
+    });
+  });
+
+  it('refuses problems it cannot solve', () => {
+    expect(() => fitParameters(truth, data, initialState, { parameters: [] })).toThrow(EstimationError);
+    expect(() => fitParameters(truth, data, initialState, { parameters: ['activationEnergy', 'activationEnergy'] }))
+      .toThrow('only once');
+    expect(() => fitParameters(truth, { time: [0, 1], series: { temperature: [300, 301] } }, initialState, {
+      parameters: ['activationEnergy', 'heatTransferCoeff']
+    })).toThrow(EstimationError);
+  });
+});
@@ -0,0 +1,260 @@
+// Kinetic parameter estimation: fit selected model parameters to measured time
+// series by Levenberg–Marquardt least squares, then report the uncertainty of
+// the estimates from the linearized model at the optimum.
+import { CSTRParameterKey, CSTRParameters, CSTRState } from './cstrModel';
+import { buildOutputGrid, simulateBatch } from './batchSimulation';
+import { ExperimentalData, MEASURED_FIELDS, MeasuredField } from './experimentalData';
+import { luDecompose, luSolve, Matrix } from './linearAlgebra';
+import { PARAMETER_QUANTITIES } from './quantities';
+
+export interface EstimationOptions {
+  parameters: CSTRParameterKey[];
+  maxIterations?: number;
+}
+
+export interface EstimationResult {
+  parameters: CSTRParameterKey[];
+  initial: number[];                    // starting values, stored units
+  values: number[];                     // estimates, stored units
+  standardErrors: number[];             // NaN when the parameters cannot be told apart
+  intervals: [number, number][];        // 95% confidence intervals
+  correlation: Matrix;                  // between the estimates
+  fitted: Partial<Record<MeasuredField, number[]>>;             // model at the data times
+  residuals: Partial<Record<MeasuredField, (number | null)[]>>; // model − data, null where data is missing
+  curve: { time: number[]; series: Partial<Record<MeasuredField, number[]>> };  // model on a fine grid
+  cost: number;                         // sum of squared scaled residuals
+  initialCost: number;
+  iterations: number;
+  converged: boolean;
+  degreesOfFreedom: number;             // data points − parameters
+}
+
+export class EstimationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EstimationError';
+  }
+}
+
+const DEFAULT_MAX_ITERATIONS = 50;
+// Tight tolerances so finite-difference derivatives are not swamped by solver error
+const FIT_TOLERANCES = { relativeTolerance: 1e-9, absoluteTolerance: 1e-10 };
+const DIFFERENCE_STEP = 1e-5;   // relative, for the Jacobian
+const COST_TOLERANCE = 1e-10;   // relative change in cost counted as converged
+const STEP_TOLERANCE = 1e-8;    // relative step counted as converged
+
+// Two-sided 97.5% quantile of Student's t, from the normal quantile by the
+// Cornish–Fisher expansion; within 1% for three or more degrees of freedom
+function tQuantile(dof: number): number {
+  const z = 1.959964;
+  if (!Number.isFinite(dof)) return z;
+  return z + (z ** 3 + z) / (4 * dof) + (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * dof * dof);
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function invert(matrix: Matrix): Matrix | null {
+  try {
+    const factors = luDecompose(matrix);
+    // Solving for each unit vector gives the inverse column by column
+    const columns = matrix.map((_, j) => luSolve(factors, matrix.map((__, i) => (i === j ? 1 : 0))));
+    const inverse = matrix.map((_, i) => columns.map(column => column[i]));
+    return inverse.every(row => row.every(Number.isFinite)) ? inverse : null;
+  } catch {
+    return null;
+  }
+}
+
+export function fitParameters(
+  params: CSTRParameters,
+  data: ExperimentalData,
+  initialState: CSTRState,
+  options: EstimationOptions
+): EstimationResult {
+  const keys = options.parameters;
+  if (keys.length === 0) throw new EstimationError('Choose at least one parameter to fit');
+  if (new Set(keys).size !== keys.length) throw new EstimationError('Each parameter can be fitted only once');
+  keys.forEach(key => {
+    if (params[key] === 0) throw new EstimationError(`${PARAMETER_QUANTITIES[key].label} is zero; give it a starting guess first`);
+  });
+
+  const fields = MEASURED_FIELDS.filter(field => data.series[field] !== undefined);
+  const { time } = data;
+  const t0 = time[0];
+  const tf = time[time.length - 1];
+  if (time.length < 2 || !(tf > t0)) throw new EstimationError('The data must span more than one time point');
+
+  // Observations after the first row; the first row sets the initial state
+  const observations: { field: MeasuredField; index: number; value: number }[] = [];
+  fields.forEach(field => {
+    data.series[field]!.forEach((value, index) => {
+      if (index > 0 && value !== null) observations.push({ field, index, value });
+    });
+  });
+  const degreesOfFreedom = observations.length - keys.length;
+  if (degreesOfFreedom < 1) {
+    throw new EstimationError(`${observations.length} data points cannot fit ${keys.length} parameters; add data or fit fewer parameters`);
+  }
+
+  // Each field is weighted by its own spread so temperatures in the hundreds
+  // do not drown out concentrations near zero
+  const scales = Object.fromEntries(fields.map(field => {
+    const values = observations.filter(o => o.field === field).map(o => o.value);
+    const average = values.length > 0 ? mean(values) : 0;
+    const spread = values.length > 1 ? Math.sqrt(mean(values.map(v => (v - average) ** 2))) : 0;
+    return [field, spread > 0 ? spread : Math.max(Math.abs(average), 1) * 1e-3];
+  })) as Record<MeasuredField, number>;
+
+  const start: CSTRState = { ...initialState, time: t0 };
+  fields.forEach(field => {
+    const first = data.series[field]![0];
+    if (first !== null) start[field] = first;
+  });
+
+  // Parameters are searched as multiples of their starting values, which
+  // keeps the problem scaled whatever units the parameters have
+  const initial = keys.map(key => params[key]);
+  const toParams = (theta: number[]): CSTRParameters => ({
+    ...params,
+    ...Object.fromEntries(keys.map((key, i) => [key, initial[i] * theta[i]]))
+  });
+
+  const simulate = (theta: number[], outputTimes: number[]) =>
+    simulateBatch(start, toParams(theta), {
+      tf,
+      outputTimes,
+      integrator: 'rosenbrock',
+      tolerances: FIT_TOLERANCES
+    });
+
+  // Scaled residuals, or null when the model cannot be integrated
+  const residualsAt = (theta: number[]): number[] | null => {
+    try {
+      const trajectory = simulate(theta, time);
+      const r = observations.map(o => (trajectory[o.field][o.index] - o.value) / scales[o.field]);
+      return r.every(Number.isFinite) ? r : null;
+    } catch {
+      return null;
+    }
+  };
+  const sumOfSquares = (r: number[]) => r.reduce((sum, value) => sum + value * value, 0);
+
+  let theta = keys.map(() => 1);
+  const startResiduals = residualsAt(theta);
+  if (!startResiduals) throw new EstimationError('The model cannot be integrated with the starting parameter values');
+  let residuals = startResiduals;
+  let cost = sumOfSquares(residuals);
+  const initialCost = cost;
+
+  const jacobianAt = (theta: number[], r: number[]): Matrix | null => {
+    const columns: number[][] = [];
+    for (let j = 0; j < theta.length; j++) {
+      const step = DIFFERENCE_STEP * Math.max(Math.abs(theta[j]), 1e-3);
+      const perturbed = [...theta];
+      perturbed[j] += step;
+      const rPerturbed = residualsAt(perturbed);
+      if (!rPerturbed) return null;
+      columns.push(rPerturbed.map((value, i) => (value - r[i]) / step));
+    }
+    return r.map((_, i) => columns.map(column => column[i]));
+  };
+  const normalMatrix = (jacobian: Matrix): Matrix =>
+    keys.map((_, a) => keys.map((__, b) => jacobian.reduce((sum, row) => sum + row[a] * row[b], 0)));
+
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  let lambda = 1e-3;
+  let iterations = 0;
+  let converged = false;
+  const startJacobian = jacobianAt(theta, residuals);
+  if (!startJacobian) throw new EstimationError('The model cannot be integrated near the starting parameter values');
+  let jacobian = startJacobian;
+
+  while (iterations < maxIterations && !converged) {
+    iterations++;
+    const normal = normalMatrix(jacobian);
+    const gradient = keys.map((_, a) => jacobian.reduce((sum, row, i) => sum + row[a] * residuals[i], 0));
+
+    // Marquardt's damping scales with the diagonal, so a step is taken in
+    // the same units the curvature is measured in
+    let accepted = false;
+    while (!accepted && lambda < 1e12) {
+      const damped = normal.map((row, a) => row.map((value, b) => value + (a === b ? lambda * Math.max(value, 1e-12) : 0)));
+      let step: number[];
+      try {
+        step = luSolve(luDecompose(damped), gradient.map(g => -g));
+      } catch {
+        lambda *= 10;
+        continue;
+      }
+      const candidate = theta.map((value, i) => value + step[i]);
+      // A parameter that changes sign has left the region the model means
+      const trial = candidate.every(value => value > 0) ? residualsAt(candidate) : null;
+      const trialCost = trial ? sumOfSquares(trial) : Infinity;
+      if (trialCost < cost) {
+        const relativeStep = Math.max(...step.map((value, i) => Math.abs(value) / Math.max(Math.abs(theta[i]), 1e-12)));
+        converged = (cost - trialCost) <= COST_TOLERANCE * cost || relativeStep <= STEP_TOLERANCE;
+        theta = candidate;
+        residuals = trial as number[];
+        cost = trialCost;
+        lambda = Math.max(lambda * 0.3, 1e-12);
+        accepted = true;
+      } else {
+        lambda *= 10;
+      }
+    }
+    // No step lowers the cost any further: we are at the minimum to within
+    // the accuracy of the simulation
+    if (!accepted) {
+      converged = true;
+      break;
+    }
+    const next = jacobianAt(theta, residuals);
+    if (!next) break;
+    jacobian = next;
+  }
+
+  // Covariance of the scaled parameters from the linearized model,
+  // s²·(JᵀJ)⁻¹, then carried back to stored units
+  const values = theta.map((value, i) => value * initial[i]);
+  const variance = cost / degreesOfFreedom;
+  const inverse = invert(normalMatrix(jacobian));
+  const standardErrors = keys.map((_, i) =>
+    inverse && inverse[i][i] >= 0 ? Math.sqrt(variance * inverse[i][i]) * Math.abs(initial[i]) : NaN
+  );
+  const t = tQuantile(degreesOfFreedom);
+  const intervals = values.map((value, i): [number, number] => [value - t * standardErrors[i], value + t * standardErrors[i]]);
+  const correlation = keys.map((_, a) => keys.map((__, b) =>
+    inverse ? inverse[a][b] / Math.sqrt(inverse[a][a] * inverse[b][b]) : NaN
+  ));
+
+  const atData = simulate(theta, time);
+  const fitted: EstimationResult['fitted'] = {};
+  const fieldResiduals: EstimationResult['residuals'] = {};
+  fields.forEach(field => {
+    fitted[field] = Array.from(atData[field]);
+    fieldResiduals[field] = data.series[field]!.map((value, i) => (value === null ? null : atData[field][i] - value));
+  });
+  const curveTimes = buildOutputGrid(t0, tf, (tf - t0) / 200);
+  const atCurve = simulate(theta, curveTimes);
+  const curve: EstimationResult['curve'] = { time: curveTimes, series: {} };
+  fields.forEach(field => {
+    curve.series[field] = Array.from(atCurve[field]);
+  });
+
+  return {
+    parameters: keys,
+    initial,
+    values,
+    standardErrors,
+    intervals,
+    correlation,
+    fitted,
+    residuals: fieldResiduals,
+    curve,
+    cost,
+    initialCost,
+    iterations,
+    converged,
+    degreesOfFreedom
+  };
+}
@@ -0,0 +1,153 @@
+// Measured time series read from CSV: parsing, mapping columns onto the model
+// state and converting values given in other units to the state's units
+import { CSTRState, STATE_UNITS } from './cstrModel';
+import { STATE_SYMBOLS } from './rateLaws';
+import { convertUnit, UnitError } from './units';
+
+export type MeasuredField = Exclude<keyof CSTRState, 'time'>;
+
+export interface CSVTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// Column index for time and for each measured field; unmapped fields are absent
+export type ColumnMapping = Partial<Record<keyof CSTRState, number>>;
+
+export interface ExperimentalData {
+  time: number[];                                         // s, strictly increasing
+  series: Partial<Record<MeasuredField, (number | null)[]>>;  // null where a cell is blank
+}
+
+export class DataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataError';
+  }
+}
+
+export const MEASURED_FIELDS: MeasuredField[] = ['volume', 'concentration', 'temperature', 'jacketTemp'];
+
+// Header words recognized for each field besides the field name and its symbol
+const HEADER_ALIASES: Record<keyof CSTRState, string[]> = {
+  time: ['time', 'times', 'seconds'],
+  volume: ['volume', 'level'],
+  concentration: ['concentration', 'conc', 'c'],
+  temperature: ['temperature', 'temp', 'reactortemperature', 'reactortemp'],
+  jacketTemp: ['jackettemp', 'jackettemperature', 'coolanttemperature', 'coolanttemp']
+};
+
+// Split one CSV line, honouring double quotes and "" escapes
+function splitLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+// Comma, semicolon or tab separated, with the first non-comment line as the
+// header. Lines starting with '#' are skipped, so exported runs read back;
+// rows are numbered from the first data line.
+export function parseCSV(text: string): CSVTable {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '' && !line.trimStart().startsWith('#'));
+  if (lines.length < 2) throw new DataError('The file needs a header line and at least one data line');
+  const delimiter = ['\t', ';', ','].find(candidate => lines[0].includes(candidate)) ?? ',';
+  const headers = splitLine(lines[0], delimiter);
+  const rows = lines.slice(1).map((line, i) => {
+    const cells = splitLine(line, delimiter);
+    if (cells.length > headers.length) throw new DataError(`Row ${i + 1} has ${cells.length} cells for ${headers.length} columns`);
+    return cells;
+  });
+  return { headers, rows };
+}
+
+// Unit written after the name in brackets or parentheses, e.g. 'T [°C]'
+export function headerUnit(header: string): string | null {
+  const match = header.match(/[[(]([^\])]*)[\])]\s*$/);
+  return match ? match[1].trim() : null;
+}
+
+const headerName = (header: string) => header.replace(/[[(][^\])]*[\])]\s*$/, '').trim();
+
+// Best guess at which column holds which field, from the header names
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const fields = Object.keys(HEADER_ALIASES) as (keyof CSTRState)[];
+  headers.forEach((header, column) => {
+    const name = headerName(header);
+    const normalized = name.toLowerCase().replace(/[^a-z0-9]/g, '');
+    // Symbols are matched with their case since t is time and T temperature
+    const field = fields.find(f => STATE_SYMBOLS[f] === name) ??
+      fields.find(f => f.toLowerCase() === normalized || HEADER_ALIASES[f].includes(normalized));
+    if (field && mapping[field] === undefined) mapping[field] = column;
+  });
+  return mapping;
+}
+
+export function applyColumnMapping(table: CSVTable, mapping: ColumnMapping): ExperimentalData {
+  if (mapping.time === undefined) throw new DataError('Choose the column that holds time');
+  const fields = MEASURED_FIELDS.filter(field => mapping[field] !== undefined);
+  if (fields.length === 0) throw new DataError('Choose at least one measured column');
+
+  // Factor and offset from each column's unit to the state unit
+  const convert = (column: number, field: keyof CSTRState): ((value: number) => number) => {
+    const unit = headerUnit(table.headers[column]);
+    if (!unit || unit === STATE_UNITS[field]) return value => value;
+    try {
+      convertUnit(1, unit, STATE_UNITS[field]);
+    } catch (error) {
+      if (error instanceof UnitError) throw new DataError(`Column '${table.headers[column]}': ${error.message}`);
+      throw error;
+    }
+    return value => convertUnit(value, unit, STATE_UNITS[field]);
+  };
+
+  const cell = (row: string[], column: number, index: number, allowBlank: boolean): number | null => {
+    const text = row[column] ?? '';
+    if (text === '') {
+      if (allowBlank) return null;
+      throw new DataError(`Row ${index + 1}: '${table.headers[column]}' is blank`);
+    }
+    const value = Number(text);
+    if (!Number.isFinite(value)) throw new DataError(`Row ${index + 1}: '${text}' in '${table.headers[column]}' is not a number`);
+    return value;
+  };
+
+  const toTime = convert(mapping.time, 'time');
+  const time = table.rows.map((row, i) => toTime(cell(row, mapping.time!, i, false)!));
+  time.forEach((t, i) => {
+    if (i > 0 && t <= time[i - 1]) throw new DataError(`Row ${i + 1}: time must increase from one line to the next`);
+  });
+
+  const series: ExperimentalData['series'] = {};
+  fields.forEach(field => {
+    const column = mapping[field]!;
+    const toState = convert(column, field);
+    series[field] = table.rows.map((row, i) => {
+      const value = cell(row, column, i, true);
+      return value === null ? null : toState(value);
+    });
+  });
+  return { time, series };
+}
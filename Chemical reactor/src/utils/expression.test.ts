@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { differentiate, evaluateExpression, expressionVariables, ExpressionError, parseExpression } from './expression';
+
+const evaluate = (text: string, variables: Record<string, number> = {}) =>
+  evaluateExpression(parseExpression(text), variables);
+
+describe('parseExpression', () => {
+  it('follows the usual precedence', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('2^3^2')).toBe(512);
+    expect(evaluate('-2^2')).toBe(-4);
+    expect(evaluate('8 / 4 / 2')).toBe(1);
+    expect(evaluate('1.5e3 - .5')).toBe(1499.5);
+    expect(evaluate('max(2, 3) * exp(0)')).toBe(3);
+  });
+
+  it('lists the variables in order of first use', () => {
+    expect(expressionVariables(parseExpression('k*CA^n / (1 + K*CA)'))).toEqual(['k', 'CA', 'n', 'K']);
+  });
+
+  it('reports where it went wrong', () => {
+    const error = (text: string) => {
+      try {
+        parseExpression(text);
+      } catch (e) {
+        return e;
+      }
+      return null;
+    };
+    expect(error('2 $ 3')).toBeInstanceOf(ExpressionError);
+    expect((error('2 $ 3') as ExpressionError).position).toBe(2);
+    expect(error('(1 + 2')).toBeInstanceOf(ExpressionError);
+    expect(() => evaluate('x + 1')).toThrow("Unknown identifier 'x'");
+    expect(() => evaluate('constructor')).toThrow(ExpressionError);
+  });
+});
+
+describe('differentiate', () => {
+  const point = { x: 0.7, y: 1.3 };
+
+  it.each([
+    'x^3 - 2*x*y',
+    'exp(-y/x)',
+    'x^y',
+    'ln(x) / sqrt(y)',
+    'log10(x*y)',
+    'x*y / (1 + x)^2',
+    'abs(x - y) + max(x, y) - min(x^2, y)'
+  ])('matches a central difference for %s', text => {
+    const node = parseExpression(text);
+    const h = 1e-6;
+    const numeric = (evaluate(text, { ...point, x: point.x + h }) - evaluate(text, { ...point, x: point.x - h })) / (2 * h);
+    expect(evaluateExpression(differentiate(node, 'x'), point)).toBeCloseTo(numeric, 6);
+  });
+
+  it('folds away terms that do not depend on the variable', () => {
+    expect(differentiate(parseExpression('y^2 + 3'), 'x')).toEqual({ type: 'number', value: 0 });
+    expect(expressionVariables(differentiate(parseExpression('x*y'), 'x'))).toEqual(['y']);
+  });
+});
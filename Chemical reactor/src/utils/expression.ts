@@ -0,0 +1,401 @@
+// Arithmetic expressions typed by the user, parsed into a syntax tree and
+// evaluated by walking it; nothing is ever passed to eval or Function. The
+// tree can also be differentiated symbolically and checked for units.
+import { Dimension, DIMENSIONLESS, dimensionsEqual, divideDimensions, formatDimension, isDimensionless, multiplyDimensions, powerDimension } from './units';
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^';
+
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string; position: number }
+  | { type: 'negate'; operand: ExpressionNode; position: number }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { type: 'call'; name: string; args: ExpressionNode[]; position: number };
+
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+// Functions an expression may call, with their argument counts
+export const EXPRESSION_FUNCTIONS: Record<string, { arity: number; apply: (...args: number[]) => number }> = {
+  exp: { arity: 1, apply: Math.exp },
+  ln: { arity: 1, apply: Math.log },
+  log10: { arity: 1, apply: Math.log10 },
+  sqrt: { arity: 1, apply: Math.sqrt },
+  abs: { arity: 1, apply: Math.abs },
+  sign: { arity: 1, apply: Math.sign },
+  min: { arity: 2, apply: Math.min },
+  max: { arity: 2, apply: Math.max }
+};
+
+// Own properties only, so names like 'constructor' never reach the prototype
+const lookup = <T>(record: Record<string, T>, name: string): T | undefined =>
+  Object.prototype.hasOwnProperty.call(record, name) ? record[name] : undefined;
+
+const OPERATORS: Record<BinaryOperator, (left: number, right: number) => number> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  '^': Math.pow
+};
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'identifier'; name: string; position: number }
+  | { kind: 'symbol'; symbol: string; position: number }
+  | { kind: 'end'; position: number };
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const space = /^\s+/.exec(rest);
+    const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(rest);
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest);
+    if (space) {
+      i += space[0].length;
+    } else if (number) {
+      tokens.push({ kind: 'number', value: Number(number[0]), position: i });
+      i += number[0].length;
+    } else if (identifier) {
+      tokens.push({ kind: 'identifier', name: identifier[0], position: i });
+      i += identifier[0].length;
+    } else if ('+-*/^(),'.includes(text[i])) {
+      tokens.push({ kind: 'symbol', symbol: text[i], position: i });
+      i += 1;
+    } else {
+      throw new ExpressionError(`Unexpected character '${text[i]}' at position ${i + 1}`, i);
+    }
+  }
+  tokens.push({ kind: 'end', position: text.length });
+  return tokens;
+}
+
+// Recursive descent with the usual precedence: + - below * / below unary
+// minus below ^, which is right associative (2^3^2 = 2^9)
+export function parseExpression(text: string): ExpressionNode {
+  const tokens = tokenize(text);
+  let index = 0;
+  const peek = () => tokens[index];
+  const isSymbol = (symbol: string) => {
+    const token = peek();
+    return token.kind === 'symbol' && token.symbol === symbol;
+  };
+  const expect = (symbol: string) => {
+    if (!isSymbol(symbol)) {
+      throw new ExpressionError(`Expected '${symbol}' at position ${peek().position + 1}`, peek().position);
+    }
+    index++;
+  };
+
+  const parseSum = (): ExpressionNode => {
+    let node = parseProduct();
+    while (isSymbol('+') || isSymbol('-')) {
+      const { symbol, position } = tokens[index++] as { symbol: BinaryOperator; position: number };
+      node = { type: 'binary', operator: symbol, left: node, right: parseProduct(), position };
+    }
+    return node;
+  };
+
+  const parseProduct = (): ExpressionNode => {
+    let node = parseUnary();
+    while (isSymbol('*') || isSymbol('/')) {
+      const { symbol, position } = tokens[index++] as { symbol: BinaryOperator; position: number };
+      node = { type: 'binary', operator: symbol, left: node, right: parseUnary(), position };
+    }
+    return node;
+  };
+
+  // -x^2 is -(x^2), as in mathematics
+  const parseUnary = (): ExpressionNode => {
+    if (isSymbol('-')) {
+      const position = tokens[index++].position;
+      return { type: 'negate', operand: parseUnary(), position };
+    }
+    if (isSymbol('+')) {
+      index++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): ExpressionNode => {
+    const base = parsePrimary();
+    if (isSymbol('^')) {
+      const position = tokens[index++].position;
+      return { type: 'binary', operator: '^', left: base, right: parseUnary(), position };
+    }
+    return base;
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = peek();
+    if (token.kind === 'number') {
+      index++;
+      return { type: 'number', value: token.value };
+    }
+    if (token.kind === 'identifier') {
+      index++;
+      if (!isSymbol('(')) return { type: 'variable', name: token.name, position: token.position };
+      const fn = lookup(EXPRESSION_FUNCTIONS, token.name);
+      if (!fn) throw new ExpressionError(`Unknown function '${token.name}'`, token.position);
+      index++;
+      const args: ExpressionNode[] = [];
+      if (!isSymbol(')')) {
+        args.push(parseSum());
+        while (isSymbol(',')) {
+          index++;
+          args.push(parseSum());
+        }
+      }
+      expect(')');
+      if (args.length !== fn.arity) {
+        throw new ExpressionError(`${token.name}() takes ${fn.arity} argument${fn.arity === 1 ? '' : 's'}, got ${args.length}`, token.position);
+      }
+      return { type: 'call', name: token.name, args, position: token.position };
+    }
+    if (isSymbol('(')) {
+      index++;
+      const node = parseSum();
+      expect(')');
+      return node;
+    }
+    throw new ExpressionError(
+      token.kind === 'end' ? 'Expression ended unexpectedly' : `Unexpected '${token.kind === 'symbol' ? token.symbol : ''}' at position ${token.position + 1}`,
+      token.position
+    );
+  };
+
+  if (peek().kind === 'end') throw new ExpressionError('Expression is empty', 0);
+  const node = parseSum();
+  if (peek().kind !== 'end') {
+    throw new ExpressionError(`Unexpected input at position ${peek().position + 1}`, peek().position);
+  }
+  return node;
+}
+
+// Names of the variables an expression refers to, in order of first use
+export function expressionVariables(node: ExpressionNode): string[] {
+  const names = new Set<string>();
+  const visit = (n: ExpressionNode) => {
+    if (n.type === 'variable') names.add(n.name);
+    else if (n.type === 'negate') visit(n.operand);
+    else if (n.type === 'binary') { visit(n.left); visit(n.right); }
+    else if (n.type === 'call') n.args.forEach(visit);
+  };
+  visit(node);
+  return [...names];
+}
+
+export function evaluateExpression(node: ExpressionNode, variables: Record<string, number>): number {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'variable': {
+      const value = lookup(variables, node.name);
+      if (value === undefined) throw new ExpressionError(`Unknown identifier '${node.name}'`, node.position);
+      return value;
+    }
+    case 'negate':
+      return -evaluateExpression(node.operand, variables);
+    case 'binary':
+      return OPERATORS[node.operator](evaluateExpression(node.left, variables), evaluateExpression(node.right, variables));
+    case 'call':
+      return EXPRESSION_FUNCTIONS[node.name].apply(...node.args.map(arg => evaluateExpression(arg, variables)));
+  }
+}
+
+// Replace variables by other expressions, e.g. a shorthand by its definition
+export function substituteVariables(node: ExpressionNode, replacements: Record<string, ExpressionNode>): ExpressionNode {
+  switch (node.type) {
+    case 'number':
+      return node;
+    case 'variable':
+      return lookup(replacements, node.name) ?? node;
+    case 'negate':
+      return { ...node, operand: substituteVariables(node.operand, replacements) };
+    case 'binary':
+      return { ...node, left: substituteVariables(node.left, replacements), right: substituteVariables(node.right, replacements) };
+    case 'call':
+      return { ...node, args: node.args.map(arg => substituteVariables(arg, replacements)) };
+  }
+}
+
+// Constructors that fold numbers and drop 0 and 1 terms, so derivatives stay
+// readable and cheap to evaluate
+const num = (value: number): ExpressionNode => ({ type: 'number', value });
+const isNumber = (node: ExpressionNode, value?: number) =>
+  node.type === 'number' && (value === undefined || node.value === value);
+
+const negate = (a: ExpressionNode): ExpressionNode =>
+  a.type === 'number' ? num(-a.value) : a.type === 'negate' ? a.operand : { type: 'negate', operand: a, position: 0 };
+
+function binary(operator: BinaryOperator, a: ExpressionNode, b: ExpressionNode): ExpressionNode {
+  if (a.type === 'number' && b.type === 'number') return num(OPERATORS[operator](a.value, b.value));
+  switch (operator) {
+    case '+':
+      if (isNumber(a, 0)) return b;
+      if (isNumber(b, 0)) return a;
+      break;
+    case '-':
+      if (isNumber(b, 0)) return a;
+      if (isNumber(a, 0)) return negate(b);
+      break;
+    case '*':
+      if (isNumber(a, 0) || isNumber(b, 0)) return num(0);
+      if (isNumber(a, 1)) return b;
+      if (isNumber(b, 1)) return a;
+      break;
+    case '/':
+      if (isNumber(a, 0)) return num(0);
+      if (isNumber(b, 1)) return a;
+      break;
+    case '^':
+      if (isNumber(b, 0)) return num(1);
+      if (isNumber(b, 1)) return a;
+      break;
+  }
+  return { type: 'binary', operator, left: a, right: b, position: 0 };
+}
+
+const call = (name: string, ...args: ExpressionNode[]): ExpressionNode => ({ type: 'call', name, args, position: 0 });
+
+export function dependsOn(node: ExpressionNode, name: string): boolean {
+  return expressionVariables(node).includes(name);
+}
+
+// Symbolic partial derivative with respect to one variable. min, max and abs
+// are differentiated piecewise through sign().
+export function differentiate(node: ExpressionNode, name: string): ExpressionNode {
+  const d = (n: ExpressionNode) => differentiate(n, name);
+  switch (node.type) {
+    case 'number':
+      return num(0);
+    case 'variable':
+      return num(node.name === name ? 1 : 0);
+    case 'negate':
+      return negate(d(node.operand));
+    case 'binary': {
+      const { left: u, right: v } = node;
+      switch (node.operator) {
+        case '+':
+        case '-':
+          return binary(node.operator, d(u), d(v));
+        case '*':
+          return binary('+', binary('*', d(u), v), binary('*', u, d(v)));
+        case '/':
+          return binary('/', binary('-', binary('*', d(u), v), binary('*', u, d(v))), binary('^', v, num(2)));
+        case '^':
+          // Constant exponent: c·u^(c−1)·u'; otherwise u^v·(v'·ln u + v·u'/u)
+          if (!dependsOn(v, name)) return binary('*', binary('*', v, binary('^', u, binary('-', v, num(1)))), d(u));
+          return binary('*', node, binary('+', binary('*', d(v), call('ln', u)), binary('/', binary('*', v, d(u)), u)));
+      }
+      break;
+    }
+    case 'call': {
+      const [u, v] = node.args;
+      switch (node.name) {
+        case 'exp': return binary('*', node, d(u));
+        case 'ln': return binary('/', d(u), u);
+        case 'log10': return binary('/', d(u), binary('*', u, num(Math.LN10)));
+        case 'sqrt': return binary('/', d(u), binary('*', num(2), node));
+        case 'abs': return binary('*', call('sign', u), d(u));
+        case 'sign': return num(0);
+        case 'min':
+        case 'max': {
+          // (u' + v')/2 ± (u' − v')·sign(u − v)/2
+          const mean = binary('/', binary('+', d(u), d(v)), num(2));
+          const half = binary('/', binary('*', binary('-', d(u), d(v)), call('sign', binary('-', u, v))), num(2));
+          return binary(node.name === 'max' ? '+' : '-', mean, half);
+        }
+      }
+    }
+  }
+  throw new ExpressionError(`Cannot differentiate ${node.type === 'call' ? `${node.name}()` : 'this expression'}`, 0);
+}
+
+// Dimension of an expression given those of its variables. A variable with
+// unknown units (null) makes everything it touches unknown, so the check
+// only reports inconsistencies it can prove. Exponents are evaluated with
+// the given values so that CA^n gets the dimension of CA to the current n.
+export function expressionDimension(
+  node: ExpressionNode,
+  dimensions: Record<string, Dimension | null>,
+  values: Record<string, number>
+): Dimension | null {
+  const dimension = (n: ExpressionNode) => expressionDimension(n, dimensions, values);
+  const describe = (d: Dimension) => isDimensionless(d) ? 'dimensionless' : formatDimension(d);
+  const requireDimensionless = (n: ExpressionNode, what: string, position: number) => {
+    const d = dimension(n);
+    if (d && !isDimensionless(d)) {
+      throw new ExpressionError(`${what} must be dimensionless but has units ${formatDimension(d)}`, position);
+    }
+  };
+  const sameDimension = (a: ExpressionNode, b: ExpressionNode, what: string, position: number) => {
+    const da = dimension(a);
+    const db = dimension(b);
+    if (da && db && !dimensionsEqual(da, db)) {
+      throw new ExpressionError(`Cannot ${what} ${describe(da)} and ${describe(db)} at position ${position + 1}`, position);
+    }
+    return da ?? db;
+  };
+
+  switch (node.type) {
+    case 'number':
+      return DIMENSIONLESS;
+    case 'variable':
+      return lookup(dimensions, node.name) ?? null;
+    case 'negate':
+      return dimension(node.operand);
+    case 'binary': {
+      const { left, right, position } = node;
+      switch (node.operator) {
+        case '+':
+          return sameDimension(left, right, 'add', position);
+        case '-':
+          return sameDimension(left, right, 'subtract', position);
+        case '*':
+        case '/': {
+          const a = dimension(left);
+          const b = dimension(right);
+          if (!a || !b) return null;
+          return node.operator === '*' ? multiplyDimensions(a, b) : divideDimensions(a, b);
+        }
+        case '^': {
+          requireDimensionless(right, `Exponent at position ${position + 1}`, position);
+          const base = dimension(left);
+          if (!base || isDimensionless(base)) return base;
+          return powerDimension(base, evaluateExpression(right, values));
+        }
+      }
+      break;
+    }
+    case 'call': {
+      const [u, v] = node.args;
+      switch (node.name) {
+        case 'exp':
+        case 'ln':
+        case 'log10':
+          requireDimensionless(u, `Argument of ${node.name}()`, node.position);
+          return DIMENSIONLESS;
+        case 'sqrt': {
+          const d = dimension(u);
+          return d && powerDimension(d, 0.5);
+        }
+        case 'abs':
+          return dimension(u);
+        case 'sign':
+          return DIMENSIONLESS;
+        case 'min':
+        case 'max':
+          return sameDimension(u, v, `compare`, node.position);
+      }
+    }
+  }
+  return null;
+}
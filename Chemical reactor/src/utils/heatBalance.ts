@@ -0,0 +1,34 @@
+// Heat generation and removal curves (Van Heerden diagram) along the
+// steady-state mass and jacket balances
+import { CSTRParameters } from './cstrModel';
+import { reactionRate } from './rateLaws';
+import { reducedSteadyState } from './steadyState';
+
+export interface HeatBalancePoint {
+  temperature: number;      // K
+  generation: number;       // kW
+  removal: number;          // kW
+}
+
+// The energy balance subtracts λ·V·r, so heat is released when λ < 0 and
+// the generation term is −λ·V·r(T) with CA at its steady-state value for T.
+export function heatBalanceAt(params: CSTRParameters, temperature: number): HeatBalancePoint {
+  const [volume, concentration, , jacketTemp] = reducedSteadyState(params, temperature);
+  const rate = reactionRate(params, { volume, concentration, temperature, jacketTemp, time: 0 });
+
+  const generation = -params.heatOfReaction * volume * rate;
+  const convection = params.density * params.heatCapacity * params.inletFlowRate * (temperature - params.feedTemperature);
+  const jacket = params.heatTransferCoeff * params.heatTransferArea * (temperature - jacketTemp);
+
+  return { temperature, generation: generation / 1000, removal: (convection + jacket) / 1000 };
+}
+
+export function heatBalanceCurve(
+  params: CSTRParameters,
+  [tMin, tMax]: [number, number],
+  points: number = 200
+): HeatBalancePoint[] {
+  return Array.from({ length: points + 1 }, (_, i) =>
+    heatBalanceAt(params, tMin + ((tMax - tMin) * i) / points)
+  );
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DerivativeFunction,
+  DormandPrinceIntegrator,
+  IntegrationError,
+  RK4Integrator,
+  RosenbrockIntegrator
+} from './integrators';
+
+const decay: DerivativeFunction = (_, y) => [-y[0]];
+// Harmonic oscillator: y = [cos t, -sin t]
+const oscillator: DerivativeFunction = (_, y) => [y[1], -y[0]];
+// Stiff: y follows cos t with a time constant of 1 ms
+const stiff: DerivativeFunction = (t, y) => [-1000 * (y[0] - Math.cos(t))];
+
+describe('DormandPrinceIntegrator', () => {
+  it('meets its tolerance on exponential decay', () => {
+    const integrator = new DormandPrinceIntegrator({ relativeTolerance: 1e-8, absoluteTolerance: 1e-10 });
+    const [y] = integrator.integrate(decay, 0, [1], 5);
+    expect(y).toBeCloseTo(Math.exp(-5), 8);
+  });
+
+  it('keeps a harmonic oscillator on its orbit', () => {
+    const integrator = new DormandPrinceIntegrator({ relativeTolerance: 1e-9, absoluteTolerance: 1e-12 });
+    const [position, velocity] = integrator.integrate(oscillator, 0, [1, 0], 10);
+    expect(position).toBeCloseTo(Math.cos(10), 6);
+    expect(velocity).toBeCloseTo(-Math.sin(10), 6);
+  });
+
+  it('gives the same answer in one span or many', () => {
+    const whole = new DormandPrinceIntegrator().integrate(decay, 0, [1], 2)[0];
+    const split = new DormandPrinceIntegrator();
+    let y = [1];
+    for (let i = 0; i < 20; i++) y = split.integrate(decay, i * 0.1, y, (i + 1) * 0.1);
+    expect(y[0]).toBeCloseTo(whole, 6);
+  });
+
+  it('reports its own step size rather than the span for steps clipped to the span end', () => {
+    const integrator = new DormandPrinceIntegrator();
+    let y = [1];
+    for (let i = 0; i < 100; i++) y = integrator.integrate(decay, i * 0.1, y, (i + 1) * 0.1);
+    const stats = integrator.getStats();
+    expect(stats.acceptedSteps).toBeGreaterThanOrEqual(100);
+    expect(stats.lastStepSize).toBeGreaterThan(0.1);
+  });
+});
+
+describe('RosenbrockIntegrator', () => {
+  it('takes far fewer steps than an explicit method on a stiff problem', () => {
+    const tolerances = { relativeTolerance: 1e-3, absoluteTolerance: 1e-5 };
+    const rosenbrock = new RosenbrockIntegrator(tolerances);
+    const dormandPrince = new DormandPrinceIntegrator(tolerances);
+    const [y] = rosenbrock.integrate(stiff, 0, [0], 2);
+    dormandPrince.integrate(stiff, 0, [0], 2);
+    // Past the initial transient y ≈ cos t + sin t / 1000
+    expect(y).toBeCloseTo(Math.cos(2) + Math.sin(2) / 1000, 4);
+    expect(rosenbrock.getStats().acceptedSteps * 5).toBeLessThan(dormandPrince.getStats().acceptedSteps);
+    expect(rosenbrock.getStats().jacobianEvaluations).toBe(rosenbrock.getStats().acceptedSteps);
+  });
+
+  it('agrees with Dormand–Prince on a non-stiff problem', () => {
+    const tolerances = { relativeTolerance: 1e-8, absoluteTolerance: 1e-10 };
+    const rosenbrock = new RosenbrockIntegrator(tolerances).integrate(oscillator, 0, [1, 0], 3);
+    const dormandPrince = new DormandPrinceIntegrator(tolerances).integrate(oscillator, 0, [1, 0], 3);
+    expect(rosenbrock[0]).toBeCloseTo(dormandPrince[0], 5);
+    expect(rosenbrock[1]).toBeCloseTo(dormandPrince[1], 5);
+  });
+});
+
+describe('RK4Integrator', () => {
+  it('is fourth-order accurate', () => {
+    const error = (h: number) => Math.abs(new RK4Integrator(h).integrate(decay, 0, [1], 1)[0] - Math.exp(-1));
+    const ratio = error(0.1) / error(0.05);
+    expect(ratio).toBeGreaterThan(15);
+    expect(ratio).toBeLessThan(17.5);
+  });
+
+  it('stops with an IntegrationError when the solution diverges', () => {
+    const integrator = new RK4Integrator(0.1);
+    expect(() => integrator.integrate(stiff, 0, [0], 50)).toThrow(IntegrationError);
+  });
+});
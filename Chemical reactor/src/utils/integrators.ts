@@ -0,0 +1,341 @@
+// Pluggable ODE integrators for the CSTR model
+import { identityMatrix, luDecompose, luSolve, numericalJacobian } from './linearAlgebra';
+
+// dy/dt = f(t, y)
+export type DerivativeFunction = (t: number, y: number[]) => number[];
+
+export type IntegratorMethod = 'rk4' | 'rk45' | 'rosenbrock';
+
+export interface IntegratorTolerances {
+  relativeTolerance: number;
+  absoluteTolerance: number;
+}
+
+export interface IntegratorStats {
+  acceptedSteps: number;
+  rejectedSteps: number;
+  functionEvaluations: number;
+  jacobianEvaluations: number;
+  lastStepSize: number;    // s
+  minStepSize: number;     // s
+  maxStepSize: number;     // s
+}
+
+export interface Integrator {
+  readonly method: IntegratorMethod;
+  // Advance y from t0 to t1, taking as many internal steps as needed
+  integrate(f: DerivativeFunction, t0: number, y0: number[], t1: number): number[];
+  getStats(): IntegratorStats;
+  resetStats(): void;
+}
+
+export class IntegrationError extends Error {
+  constructor(message: string, public readonly time: number) {
+    super(message);
+    this.name = 'IntegrationError';
+  }
+}
+
+export const INTEGRATOR_LABELS: Record<IntegratorMethod, string> = {
+  rk4: 'RK4 (fixed step)',
+  rk45: 'Dormand–Prince RK45 (adaptive)',
+  rosenbrock: 'Rosenbrock 2(3) (stiff)'
+};
+
+export const DEFAULT_TOLERANCES: IntegratorTolerances = {
+  relativeTolerance: 1e-6,
+  absoluteTolerance: 1e-8
+};
+
+const emptyStats = (): IntegratorStats => ({
+  acceptedSteps: 0,
+  rejectedSteps: 0,
+  functionEvaluations: 0,
+  jacobianEvaluations: 0,
+  lastStepSize: 0,
+  minStepSize: Infinity,
+  maxStepSize: 0
+});
+
+abstract class BaseIntegrator implements Integrator {
+  abstract readonly method: IntegratorMethod;
+  protected stats: IntegratorStats = emptyStats();
+
+  abstract integrate(f: DerivativeFunction, t0: number, y0: number[], t1: number): number[];
+
+  public getStats(): IntegratorStats {
+    return { ...this.stats };
+  }
+
+  public resetStats(): void {
+    this.stats = emptyStats();
+  }
+
+  // A step clipped to land on the end of the span is counted, but reported
+  // with the step size the solver would have taken and kept out of the minimum
+  protected recordAcceptedStep(h: number, clipped: boolean = false): void {
+    this.stats.acceptedSteps++;
+    this.stats.lastStepSize = h;
+    if (!clipped) this.stats.minStepSize = Math.min(this.stats.minStepSize, h);
+    this.stats.maxStepSize = Math.max(this.stats.maxStepSize, h);
+  }
+
+  // Wrap f so every evaluation is counted
+  protected counted(f: DerivativeFunction): DerivativeFunction {
+    return (t, y) => {
+      this.stats.functionEvaluations++;
+      return f(t, y);
+    };
+  }
+}
+
+// Classic fixed-step Runge-Kutta 4th order. Spans longer than the step size are
+// covered with equal substeps no larger than stepSize.
+export class RK4Integrator extends BaseIntegrator {
+  readonly method = 'rk4' as const;
+  private stepSize: number;
+
+  constructor(stepSize: number = 0.1) {
+    super();
+    this.stepSize = stepSize;
+  }
+
+  public integrate(f: DerivativeFunction, t0: number, y0: number[], t1: number): number[] {
+    const g = this.counted(f);
+    const span = t1 - t0;
+    if (span <= 0) return [...y0];
+
+    const substeps = Math.max(1, Math.ceil(span / this.stepSize - 1e-9));
+    const h = span / substeps;
+    let y = [...y0];
+    for (let step = 0; step < substeps; step++) {
+      y = this.rk4Step(g, t0 + step * h, y, h);
+      // A fixed step has no error estimate to notice divergence, so stop at
+      // the first step that leaves the finite numbers
+      if (!y.every(Number.isFinite)) {
+        throw new IntegrationError(`${this.method}: solution diverged (h = ${h.toExponential(2)} s is too large)`, t0 + (step + 1) * h);
+      }
+      this.recordAcceptedStep(h);
+    }
+    return y;
+  }
+
+  private rk4Step(f: DerivativeFunction, t: number, y: number[], h: number): number[] {
+    const n = y.length;
+    const shift = (k: number[], scale: number) => y.map((value, i) => value + scale * k[i]);
+
+    const k1 = f(t, y);
+    const k2 = f(t + h / 2, shift(k1, h / 2));
+    const k3 = f(t + h / 2, shift(k2, h / 2));
+    const k4 = f(t + h, shift(k3, h));
+
+    const yNew = new Array(n);
+    for (let i = 0; i < n; i++) {
+      yNew[i] = y[i] + (h / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i]);
+    }
+    return yNew;
+  }
+}
+
+interface StepAttempt {
+  y: number[];
+  error: number[];
+}
+
+// Shared step-size control for embedded-pair methods
+abstract class AdaptiveIntegrator extends BaseIntegrator {
+  protected tolerances: IntegratorTolerances;
+  private maxSteps: number;
+  // Proposed step size carried over as the first guess of the next call
+  private stepSize = 0;
+
+  constructor(tolerances: Partial<IntegratorTolerances> = {}, maxSteps: number = 100000) {
+    super();
+    this.tolerances = { ...DEFAULT_TOLERANCES, ...tolerances };
+    this.maxSteps = maxSteps;
+  }
+
+  // Order of the lower-order solution, used in the step-size update exponent
+  protected abstract readonly errorOrder: number;
+
+  protected abstract attemptStep(f: DerivativeFunction, t: number, y: number[], h: number): StepAttempt;
+
+  // Called once per accepted step; lets subclasses drop cached data
+  protected onStepAccepted(): void {}
+
+  public getTolerances(): IntegratorTolerances {
+    return { ...this.tolerances };
+  }
+
+  public setTolerances(tolerances: Partial<IntegratorTolerances>): void {
+    this.tolerances = { ...this.tolerances, ...tolerances };
+  }
+
+  public integrate(f: DerivativeFunction, t0: number, y0: number[], t1: number): number[] {
+    const g = this.counted(f);
+    const span = t1 - t0;
+    if (span <= 0) return [...y0];
+
+    let t = t0;
+    let y = [...y0];
+    let h = this.stepSize > 0 ? this.stepSize : span / 10;
+    const minStep = 1e-12 * Math.max(Math.abs(t1), 1);
+
+    for (let steps = 0; t < t1; steps++) {
+      if (steps >= this.maxSteps) {
+        throw new IntegrationError(`${this.method}: exceeded ${this.maxSteps} steps`, t);
+      }
+      // Land exactly on t1 without leaving a sliver step
+      const remaining = t1 - t;
+      const lastStep = h >= remaining * (1 - 1e-9);
+      const hStep = lastStep ? remaining : h;
+
+      const attempt = this.attemptStep(g, t, y, hStep);
+      const errorNorm = this.errorNorm(y, attempt.y, attempt.error);
+
+      if (!Number.isFinite(errorNorm)) {
+        this.stats.rejectedSteps++;
+        h = hStep / 10;
+      } else if (errorNorm <= 1) {
+        t = lastStep ? t1 : t + hStep;
+        y = attempt.y;
+        this.onStepAccepted();
+        const factor = errorNorm === 0 ? 5 : 0.9 * Math.pow(errorNorm, -1 / (this.errorOrder + 1));
+        const proposed = hStep * Math.min(5, Math.max(0.2, factor));
+        // A step clipped to land on t1 says little about the natural step size
+        const clipped = lastStep && hStep < h;
+        h = lastStep ? Math.max(h, proposed) : proposed;
+        this.recordAcceptedStep(clipped ? h : hStep, clipped);
+      } else {
+        this.stats.rejectedSteps++;
+        const factor = 0.9 * Math.pow(errorNorm, -1 / (this.errorOrder + 1));
+        h = hStep * Math.max(0.1, factor);
+      }
+
+      if (h < minStep) {
+        throw new IntegrationError(`${this.method}: step size underflow (h = ${h.toExponential(2)} s)`, t);
+      }
+    }
+
+    this.stepSize = h;
+    return y;
+  }
+
+  // Weighted RMS norm of the local error estimate
+  private errorNorm(y: number[], yNew: number[], error: number[]): number {
+    const { relativeTolerance, absoluteTolerance } = this.tolerances;
+    let sum = 0;
+    for (let i = 0; i < y.length; i++) {
+      const scale = absoluteTolerance + relativeTolerance * Math.max(Math.abs(y[i]), Math.abs(yNew[i]));
+      sum += (error[i] / scale) ** 2;
+    }
+    return Math.sqrt(sum / y.length);
+  }
+}
+
+// Dormand–Prince 5(4) embedded pair
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const DP_A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84]
+];
+// Difference between the 5th- and 4th-order weights
+const DP_E = [71 / 57600, 0, -71 / 16695, 71 / 1920, -17253 / 339200, 22 / 525, -1 / 40];
+
+export class DormandPrinceIntegrator extends AdaptiveIntegrator {
+  readonly method = 'rk45' as const;
+  protected readonly errorOrder = 4;
+
+  protected attemptStep(f: DerivativeFunction, t: number, y: number[], h: number): StepAttempt {
+    const n = y.length;
+    const k: number[][] = [f(t, y)];
+    let yNew = y;
+
+    for (let s = 1; s < 7; s++) {
+      yNew = new Array(n);
+      for (let i = 0; i < n; i++) {
+        let acc = 0;
+        for (let j = 0; j < s; j++) acc += DP_A[s][j] * k[j][i];
+        yNew[i] = y[i] + h * acc;
+      }
+      // The last stage is evaluated at the 5th-order solution (FSAL)
+      k.push(f(t + DP_C[s] * h, yNew));
+    }
+
+    const error = new Array(n);
+    for (let i = 0; i < n; i++) {
+      let acc = 0;
+      for (let j = 0; j < 7; j++) acc += DP_E[j] * k[j][i];
+      error[i] = h * acc;
+    }
+    return { y: yNew, error };
+  }
+}
+
+// Linearly implicit Rosenbrock 2(3) method of Shampine (MATLAB ode23s).
+// L-stable, so it stays well-behaved when the Arrhenius term makes the system stiff.
+const ROS_D = 1 / (2 + Math.SQRT2);
+const ROS_E32 = 6 + Math.SQRT2;
+
+export class RosenbrockIntegrator extends AdaptiveIntegrator {
+  readonly method = 'rosenbrock' as const;
+  protected readonly errorOrder = 2;
+  // Jacobian at the start of the current step, reused across rejected attempts
+  private jacobian: number[][] | null = null;
+
+  protected onStepAccepted(): void {
+    this.jacobian = null;
+  }
+
+  protected attemptStep(f: DerivativeFunction, t: number, y: number[], h: number): StepAttempt {
+    const n = y.length;
+    const f0 = f(t, y);
+
+    if (!this.jacobian) {
+      this.jacobian = numericalJacobian(state => f(t, state), y, f0);
+      this.stats.jacobianEvaluations++;
+    }
+
+    // Time derivative of f for non-autonomous right-hand sides
+    const dt = Math.sqrt(Number.EPSILON) * Math.max(Math.abs(t), 1);
+    const fdt = f(t + dt, y);
+    const dfdt = f0.map((value, i) => (fdt[i] - value) / dt);
+
+    const identity = identityMatrix(n);
+    const w = luDecompose(identity.map((row, i) =>
+      row.map((value, j) => value - h * ROS_D * this.jacobian![i][j])
+    ));
+
+    const k1 = luSolve(w, f0.map((value, i) => value + h * ROS_D * dfdt[i]));
+    const f1 = f(t + h / 2, y.map((value, i) => value + (h / 2) * k1[i]));
+    const k2 = luSolve(w, f1.map((value, i) => value - k1[i])).map((value, i) => value + k1[i]);
+    const yNew = y.map((value, i) => value + h * k2[i]);
+    const f2 = f(t + h, yNew);
+    const k3 = luSolve(w, f2.map((value, i) =>
+      value - ROS_E32 * (k2[i] - f1[i]) - 2 * (k1[i] - f0[i]) + h * ROS_D * dfdt[i]
+    ));
+
+    const error = k1.map((value, i) => (h / 6) * (value - 2 * k2[i] + k3[i]));
+    return { y: yNew, error };
+  }
+}
+
+export function createIntegrator(
+  method: IntegratorMethod,
+  tolerances: Partial<IntegratorTolerances> = {},
+  fixedStepSize: number = 0.1
+): Integrator {
+  switch (method) {
+    case 'rk4':
+      return new RK4Integrator(fixedStepSize);
+    case 'rk45':
+      return new DormandPrinceIntegrator(tolerances);
+    case 'rosenbrock':
+      return new RosenbrockIntegrator(tolerances);
+  }
+}
@@ -0,0 +1,164 @@
+// Safety interlocks that trip on high temperature or a short predicted time
+// to maximum rate. A tripped interlock latches: it keeps overriding the
+// operator, controllers and scenarios until it is reset.
+import { CSTRParameters, CSTRSimulator } from './cstrModel';
+import { assessRunaway } from './runaway';
+
+export type InterlockId = 'emergencyCooling' | 'feedCutoff' | 'quench';
+
+// Trip conditions; an interlock with neither limit set never trips
+export interface InterlockTrigger {
+  enabled: boolean;
+  temperature?: number;     // K, trip above
+  timeToMaxRate?: number;   // s, trip when the adiabatic TMR drops below
+}
+
+export interface InterlockConfig {
+  emergencyCooling: InterlockTrigger & {
+    jacketFlowRate: number;     // m³/s
+    jacketInletTemp: number;    // K
+  };
+  feedCutoff: InterlockTrigger;
+  quench: InterlockTrigger & {
+    quenchVolume: number;       // m³ of reactant-free liquid dumped in
+    quenchTemperature: number;  // K
+  };
+}
+
+export interface InterlockTrip {
+  id: InterlockId;
+  time: number;             // s
+  cause: string;
+  action: string;
+}
+
+export const INTERLOCK_LABELS: Record<InterlockId, string> = {
+  emergencyCooling: 'Emergency cooling',
+  feedCutoff: 'Feed cutoff',
+  quench: 'Quench'
+};
+
+export const INTERLOCK_IDS = Object.keys(INTERLOCK_LABELS) as InterlockId[];
+
+// Off by default so the built-in cases behave as described; the trip points
+// sit above the HIHI temperature alarm
+export const DEFAULT_INTERLOCK_CONFIG: InterlockConfig = {
+  emergencyCooling: { enabled: false, temperature: 410, timeToMaxRate: 30, jacketFlowRate: 1, jacketInletTemp: 280 },
+  feedCutoff: { enabled: false, temperature: 420 },
+  quench: { enabled: false, temperature: 430, quenchVolume: 0.5, quenchTemperature: 290 }
+};
+
+export interface InterlockCheckpoint {
+  tripped: InterlockTrip[];   // interlocks holding their override
+  trips: InterlockTrip[];
+}
+
+export class InterlockSystem {
+  private simulator: CSTRSimulator;
+  private config: InterlockConfig;
+  private tripped = new Map<InterlockId, InterlockTrip>();
+  private trips: InterlockTrip[] = [];
+
+  constructor(simulator: CSTRSimulator, config: InterlockConfig = DEFAULT_INTERLOCK_CONFIG) {
+    this.simulator = simulator;
+    this.config = config;
+  }
+
+  // Takes effect from the next apply(); tripped interlocks stay tripped
+  public configure(config: InterlockConfig): void {
+    this.config = config;
+  }
+
+  public getConfig(): InterlockConfig {
+    return this.config;
+  }
+
+  private tripCause(trigger: InterlockTrigger, temperature: number, timeToMaxRate: number): string | null {
+    if (!trigger.enabled) return null;
+    if (trigger.temperature !== undefined && temperature > trigger.temperature) {
+      return `T = ${temperature.toFixed(1)} K above ${trigger.temperature} K`;
+    }
+    if (trigger.timeToMaxRate !== undefined && timeToMaxRate < trigger.timeToMaxRate) {
+      return `TMR = ${timeToMaxRate.toFixed(1)} s below ${trigger.timeToMaxRate} s`;
+    }
+    return null;
+  }
+
+  // Mix the quench liquid in at once: same density and heat capacity, no reactant
+  private quench(): string {
+    const { quenchVolume, quenchTemperature } = this.config.quench;
+    const state = this.simulator.getState();
+    const volume = state.volume + quenchVolume;
+    this.simulator.setState({
+      volume,
+      concentration: state.concentration * state.volume / volume,
+      temperature: (state.temperature * state.volume + quenchTemperature * quenchVolume) / volume,
+      jacketTemp: state.jacketTemp
+    });
+    return `added ${quenchVolume} m³ at ${quenchTemperature} K`;
+  }
+
+  // Check the trip conditions on the current state, then hold every tripped
+  // interlock's override. Call after the controllers and scenario have
+  // written their values and before the simulator steps. Returns new trips.
+  public apply(): InterlockTrip[] {
+    const params = this.simulator.getParameters();
+    const state = this.simulator.getState();
+    const { timeToMaxRate } = assessRunaway(params, state);
+    const newTrips: InterlockTrip[] = [];
+
+    INTERLOCK_IDS.forEach(id => {
+      if (this.tripped.has(id)) return;
+      const cause = this.tripCause(this.config[id], state.temperature, timeToMaxRate);
+      if (!cause) return;
+      let action: string;
+      switch (id) {
+        case 'emergencyCooling':
+          action = `jacket flow ${this.config.emergencyCooling.jacketFlowRate} m³/s at ${this.config.emergencyCooling.jacketInletTemp} K`;
+          break;
+        case 'feedCutoff':
+          action = 'inlet flow set to 0';
+          break;
+        case 'quench':
+          action = this.quench();
+          break;
+      }
+      const trip = { id, time: state.time, cause, action };
+      this.tripped.set(id, trip);
+      this.trips.push(trip);
+      newTrips.push(trip);
+    });
+
+    const overrides: Partial<CSTRParameters> = {};
+    if (this.tripped.has('emergencyCooling')) {
+      overrides.jacketFlowRate = this.config.emergencyCooling.jacketFlowRate;
+      overrides.jacketInletTemp = this.config.emergencyCooling.jacketInletTemp;
+    }
+    if (this.tripped.has('feedCutoff')) overrides.inletFlowRate = 0;
+    this.simulator.updateParameters(overrides);
+    return newTrips;
+  }
+
+  // Re-arm an interlock; the caller restores the parameters it was holding
+  public reset(id: InterlockId): void {
+    this.tripped.delete(id);
+  }
+
+  public getTrip(id: InterlockId): InterlockTrip | undefined {
+    return this.tripped.get(id);
+  }
+
+  // Every trip this run, including ones since reset
+  public getTrips(): readonly InterlockTrip[] {
+    return this.trips;
+  }
+
+  public checkpoint(): InterlockCheckpoint {
+    return { tripped: [...this.tripped.values()], trips: [...this.trips] };
+  }
+
+  public restore(checkpoint: InterlockCheckpoint): void {
+    this.tripped = new Map(checkpoint.tripped.map(trip => [trip.id, trip]));
+    this.trips = [...checkpoint.trips];
+  }
+}
@@ -0,0 +1,321 @@
+// Small dense linear algebra helpers used by the implicit solvers and the
+// steady-state / linearization tools. Matrices are row-major number[][].
+
+export type Matrix = number[][];
+
+export interface LUDecomposition {
+  lu: Matrix;
+  pivots: number[];
+}
+
+// LU factorization with partial pivoting (Doolittle, in place on a copy)
+export function luDecompose(matrix: Matrix): LUDecomposition {
+  const n = matrix.length;
+  const lu = matrix.map(row => [...row]);
+  const pivots = Array.from({ length: n }, (_, i) => i);
+
+  for (let k = 0; k < n; k++) {
+    // Find pivot row
+    let pivotRow = k;
+    let pivotValue = Math.abs(lu[k][k]);
+    for (let i = k + 1; i < n; i++) {
+      if (Math.abs(lu[i][k]) > pivotValue) {
+        pivotValue = Math.abs(lu[i][k]);
+        pivotRow = i;
+      }
+    }
+    if (pivotValue === 0) {
+      throw new Error('Singular matrix in LU decomposition');
+    }
+    if (pivotRow !== k) {
+      [lu[k], lu[pivotRow]] = [lu[pivotRow], lu[k]];
+      [pivots[k], pivots[pivotRow]] = [pivots[pivotRow], pivots[k]];
+    }
+
+    for (let i = k + 1; i < n; i++) {
+      lu[i][k] /= lu[k][k];
+      for (let j = k + 1; j < n; j++) {
+        lu[i][j] -= lu[i][k] * lu[k][j];
+      }
+    }
+  }
+
+  return { lu, pivots };
+}
+
+// Solve A·x = b given the LU factors of A
+export function luSolve({ lu, pivots }: LUDecomposition, b: number[]): number[] {
+  const n = lu.length;
+  const x = pivots.map(p => b[p]);
+
+  // Forward substitution (unit lower triangular)
+  for (let i = 1; i < n; i++) {
+    for (let j = 0; j < i; j++) {
+      x[i] -= lu[i][j] * x[j];
+    }
+  }
+
+  // Back substitution
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = i + 1; j < n; j++) {
+      x[i] -= lu[i][j] * x[j];
+    }
+    x[i] /= lu[i][i];
+  }
+
+  return x;
+}
+
+export function solveLinearSystem(matrix: Matrix, b: number[]): number[] {
+  return luSolve(luDecompose(matrix), b);
+}
+
+export function identityMatrix(n: number): Matrix {
+  return Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))
+  );
+}
+
+// Forward-difference Jacobian of f at y; fy = f(y) may be passed to save an evaluation
+export function numericalJacobian(
+  f: (y: number[]) => number[],
+  y: number[],
+  fy: number[] = f(y)
+): Matrix {
+  const n = y.length;
+  const m = fy.length;
+  const jacobian: Matrix = Array.from({ length: m }, () => new Array(n).fill(0));
+
+  for (let j = 0; j < n; j++) {
+    const delta = Math.sqrt(Number.EPSILON) * Math.max(Math.abs(y[j]), 1);
+    const perturbed = [...y];
+    perturbed[j] += delta;
+    const fPerturbed = f(perturbed);
+    for (let i = 0; i < m; i++) {
+      jacobian[i][j] = (fPerturbed[i] - fy[i]) / delta;
+    }
+  }
+
+  return jacobian;
+}
+
+export function multiplyMatrices(a: Matrix, b: Matrix): Matrix {
+  return a.map(row => b[0].map((_, j) => row.reduce((sum, value, k) => sum + value * b[k][j], 0)));
+}
+
+// Coefficients of det(sI − A), highest power first, by the Faddeev–LeVerrier
+// recursion; fine for the few states of the reactor models
+export function characteristicPolynomial(matrix: Matrix): number[] {
+  const n = matrix.length;
+  const coefficients = [1];
+  let m: Matrix = Array.from({ length: n }, () => new Array(n).fill(0));
+  for (let k = 1; k <= n; k++) {
+    const previous = coefficients[k - 1];
+    m = multiplyMatrices(matrix, m).map((row, i) => row.map((value, j) => (i === j ? value + previous : value)));
+    const am = multiplyMatrices(matrix, m);
+    coefficients.push(-am.reduce((trace, row, i) => trace + row[i], 0) / k);
+  }
+  return coefficients;
+}
+
+// e^A by scaling and squaring a truncated Taylor series
+export function matrixExponential(matrix: Matrix): Matrix {
+  const n = matrix.length;
+  const norm = Math.max(0, ...matrix.map(row => row.reduce((sum, value) => sum + Math.abs(value), 0)));
+  const squarings = Math.max(0, Math.ceil(Math.log2(norm)) + 1);
+  const scaled = matrix.map(row => row.map(value => value / Math.pow(2, squarings)));
+
+  let result = identityMatrix(n);
+  let term = identityMatrix(n);
+  for (let k = 1; k <= 18; k++) {
+    term = multiplyMatrices(term, scaled).map(row => row.map(value => value / k));
+    result = result.map((row, i) => row.map((value, j) => value + term[i][j]));
+  }
+  for (let i = 0; i < squarings; i++) result = multiplyMatrices(result, result);
+  return result;
+}
+
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+// Eigenvalues of a general real matrix: reduction to upper Hessenberg form by
+// stabilized elimination, then the shifted QR algorithm (Numerical Recipes elmhes/hqr).
+// Uses 1-based indexing internally to stay close to the reference algorithm.
+export function eigenvalues(matrix: Matrix): Complex[] {
+  const n = matrix.length;
+  const a: Matrix = Array.from({ length: n + 1 }, (_, i) =>
+    Array.from({ length: n + 1 }, (_, j) => (i > 0 && j > 0 ? matrix[i - 1][j - 1] : 0))
+  );
+
+  // Reduction to Hessenberg form
+  for (let m = 2; m < n; m++) {
+    let x = 0;
+    let i = m;
+    for (let j = m; j <= n; j++) {
+      if (Math.abs(a[j][m - 1]) > Math.abs(x)) {
+        x = a[j][m - 1];
+        i = j;
+      }
+    }
+    if (i !== m) {
+      for (let j = m - 1; j <= n; j++) [a[i][j], a[m][j]] = [a[m][j], a[i][j]];
+      for (let j = 1; j <= n; j++) [a[j][i], a[j][m]] = [a[j][m], a[j][i]];
+    }
+    if (x !== 0) {
+      for (i = m + 1; i <= n; i++) {
+        let y = a[i][m - 1];
+        if (y !== 0) {
+          y /= x;
+          a[i][m - 1] = y;
+          for (let j = m; j <= n; j++) a[i][j] -= y * a[m][j];
+          for (let j = 1; j <= n; j++) a[j][m] += y * a[j][i];
+        }
+      }
+    }
+  }
+  for (let i = 3; i <= n; i++) {
+    for (let j = 1; j < i - 1; j++) a[i][j] = 0;
+  }
+
+  // Shifted QR iteration on the Hessenberg matrix
+  const wr = new Array(n + 1).fill(0);
+  const wi = new Array(n + 1).fill(0);
+  const sign = (value: number, of: number) => (of >= 0 ? Math.abs(value) : -Math.abs(value));
+
+  let anorm = 0;
+  for (let i = 1; i <= n; i++) {
+    for (let j = Math.max(i - 1, 1); j <= n; j++) anorm += Math.abs(a[i][j]);
+  }
+
+  let nn = n;
+  let t = 0;
+  let p = 0, q = 0, r = 0, s = 0, w = 0, x = 0, y = 0, z = 0;
+  while (nn >= 1) {
+    let its = 0;
+    let l: number;
+    do {
+      // Look for a single small subdiagonal element
+      for (l = nn; l >= 2; l--) {
+        s = Math.abs(a[l - 1][l - 1]) + Math.abs(a[l][l]);
+        if (s === 0) s = anorm;
+        if (Math.abs(a[l][l - 1]) + s === s) {
+          a[l][l - 1] = 0;
+          break;
+        }
+      }
+      x = a[nn][nn];
+      if (l === nn) {
+        // One root found
+        wr[nn] = x + t;
+        wi[nn--] = 0;
+      } else {
+        y = a[nn - 1][nn - 1];
+        w = a[nn][nn - 1] * a[nn - 1][nn];
+        if (l === nn - 1) {
+          // Two roots found
+          p = 0.5 * (y - x);
+          q = p * p + w;
+          z = Math.sqrt(Math.abs(q));
+          x += t;
+          if (q >= 0) {
+            z = p + sign(z, p);
+            wr[nn - 1] = wr[nn] = x + z;
+            if (z !== 0) wr[nn] = x - w / z;
+            wi[nn - 1] = wi[nn] = 0;
+          } else {
+            wr[nn - 1] = wr[nn] = x + p;
+            wi[nn] = z;
+            wi[nn - 1] = -z;
+          }
+          nn -= 2;
+        } else {
+          if (its === 60) {
+            throw new Error('Eigenvalue iteration did not converge');
+          }
+          if (its === 10 || its === 20) {
+            // Exceptional shift
+            t += x;
+            for (let i = 1; i <= nn; i++) a[i][i] -= x;
+            s = Math.abs(a[nn][nn - 1]) + Math.abs(a[nn - 1][nn - 2]);
+            y = x = 0.75 * s;
+            w = -0.4375 * s * s;
+          }
+          ++its;
+          let m: number;
+          for (m = nn - 2; m >= l; m--) {
+            z = a[m][m];
+            r = x - z;
+            s = y - z;
+            p = (r * s - w) / a[m + 1][m] + a[m][m + 1];
+            q = a[m + 1][m + 1] - z - r - s;
+            r = a[m + 2][m + 1];
+            s = Math.abs(p) + Math.abs(q) + Math.abs(r);
+            p /= s;
+            q /= s;
+            r /= s;
+            if (m === l) break;
+            const u = Math.abs(a[m][m - 1]) * (Math.abs(q) + Math.abs(r));
+            const v = Math.abs(p) * (Math.abs(a[m - 1][m - 1]) + Math.abs(z) + Math.abs(a[m + 1][m + 1]));
+            if (u + v === v) break;
+          }
+          for (let i = m + 2; i <= nn; i++) {
+            a[i][i - 2] = 0;
+            if (i !== m + 2) a[i][i - 3] = 0;
+          }
+          // Double QR step on rows l..nn and columns m..nn
+          for (let k = m; k <= nn - 1; k++) {
+            if (k !== m) {
+              p = a[k][k - 1];
+              q = a[k + 1][k - 1];
+              r = 0;
+              if (k !== nn - 1) r = a[k + 2][k - 1];
+              x = Math.abs(p) + Math.abs(q) + Math.abs(r);
+              if (x !== 0) {
+                p /= x;
+                q /= x;
+                r /= x;
+              }
+            }
+            s = sign(Math.sqrt(p * p + q * q + r * r), p);
+            if (s !== 0) {
+              if (k === m) {
+                if (l !== m) a[k][k - 1] = -a[k][k - 1];
+              } else {
+                a[k][k - 1] = -s * x;
+              }
+              p += s;
+              x = p / s;
+              y = q / s;
+              z = r / s;
+              q /= p;
+              r /= p;
+              for (let j = k; j <= nn; j++) {
+                p = a[k][j] + q * a[k + 1][j];
+                if (k !== nn - 1) {
+                  p += r * a[k + 2][j];
+                  a[k + 2][j] -= p * z;
+                }
+                a[k + 1][j] -= p * y;
+                a[k][j] -= p * x;
+              }
+              const mmin = nn < k + 3 ? nn : k + 3;
+              for (let i = l; i <= mmin; i++) {
+                p = x * a[i][k] + y * a[i][k + 1];
+                if (k !== nn - 1) {
+                  p += z * a[i][k + 2];
+                  a[i][k + 2] -= p * r;
+                }
+                a[i][k + 1] -= p * q;
+                a[i][k] -= p;
+              }
+            }
+          }
+        }
+      }
+    } while (l < nn - 1);
+  }
+
+  return Array.from({ length: n }, (_, i) => ({ re: wr[i + 1], im: wi[i + 1] }));
+}
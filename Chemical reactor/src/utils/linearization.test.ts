@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { bodeFrequencies, frequencyResponse, linearize, LinearizationError, stepResponse } from './linearization';
+import { BUILT_IN_PRESETS, REFERENCE_INITIAL_STATE, REFERENCE_PARAMETERS } from './presets';
+import { findSteadyStates } from './steadyState';
+
+const params = BUILT_IN_PRESETS[1].parameters;
+const steady = findSteadyStates(params).find(state => state.stable)!;
+const { volume, concentration, temperature, jacketTemp } = steady;
+const model = linearize(params, { volume, concentration, temperature, jacketTemp, time: 0 }, ['feedTemperature'], ['temperature']);
+// Steady-state gain of the transfer function, G(0)
+const numerator = model.numerators[0][0];
+const dcGain = numerator[numerator.length - 1] / model.denominator[model.denominator.length - 1];
+
+describe('linearize', () => {
+  it('finds a stable steady operating point', () => {
+    expect(model.steady).toBe(true);
+    expect(model.stable).toBe(true);
+    expect(model.eigenvalues.every(l => l.re < 0)).toBe(true);
+  });
+
+  it('has the steady-state gain of the nonlinear model', () => {
+    const shifted = findSteadyStates({ ...params, feedTemperature: params.feedTemperature + 0.01 })
+      .find(state => state.stable)!;
+    expect(dcGain).toBeCloseTo((shifted.temperature - temperature) / 0.01, 3);
+  });
+
+  it('needs an input and an output', () => {
+    expect(() => linearize(REFERENCE_PARAMETERS, REFERENCE_INITIAL_STATE, [], ['temperature'])).toThrow(LinearizationError);
+  });
+});
+
+describe('stepResponse', () => {
+  it('settles at the steady-state gain', () => {
+    const { time, outputs } = stepResponse(model, 0, 2);
+    expect(time[0]).toBe(0);
+    expect(outputs[0][0]).toBe(0);
+    expect(outputs[0][outputs[0].length - 1]).toBeCloseTo(2 * dcGain, 1);
+  });
+});
+
+describe('frequencyResponse', () => {
+  it('starts at the steady-state gain and rolls off', () => {
+    const frequencies = bodeFrequencies(model, 50);
+    expect(frequencies).toHaveLength(50);
+    const points = frequencyResponse(model, 0, 0, frequencies);
+    expect(points[0].magnitude).toBeCloseTo(20 * Math.log10(Math.abs(dcGain)), 2);
+    expect(points[0].phase).toBeCloseTo(dcGain > 0 ? 0 : 180, 0);
+    expect(points[points.length - 1].magnitude).toBeLessThan(points[0].magnitude - 20);
+  });
+});
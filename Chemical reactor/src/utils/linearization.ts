@@ -0,0 +1,305 @@
+// Linear model of the jacketed CSTR around an operating point,
+//   dx/dt = A·x + B·u,  y = C·x + D·u
+// with x, u and y deviations of the four states, the chosen inputs and
+// outputs from their operating values; transfer functions, frequency and
+// step responses of that model, and export as a MATLAB/Octave script.
+import { CSTRParameterKey, CSTRParameters, CSTRSimulator, CSTRState, PARAMETER_UNITS, STATE_UNITS } from './cstrModel';
+import {
+  characteristicPolynomial,
+  Complex,
+  eigenvalues,
+  Matrix,
+  matrixExponential,
+  multiplyMatrices
+} from './linearAlgebra';
+import { classifySteadyState, SteadyStateType } from './steadyState';
+
+export type LinearInput = Extract<
+  CSTRParameterKey,
+  'jacketFlowRate' | 'inletFlowRate' | 'feedTemperature' | 'feedConcentration' | 'jacketInletTemp' | 'valveConstant'
+>;
+export type LinearOutput = 'volume' | 'concentration' | 'temperature' | 'jacketTemp' | 'conversion';
+
+export const LINEAR_STATES = ['volume', 'concentration', 'temperature', 'jacketTemp'] as const;
+
+export const STATE_SYMBOLS: Record<(typeof LINEAR_STATES)[number], string> = {
+  volume: 'V',
+  concentration: 'CA',
+  temperature: 'T',
+  jacketTemp: 'TJ'
+};
+
+export const LINEAR_INPUTS: Record<LinearInput, { symbol: string; label: string }> = {
+  jacketFlowRate: { symbol: 'FJ', label: 'Jacket flow rate' },
+  inletFlowRate: { symbol: 'F0', label: 'Inlet flow rate' },
+  feedTemperature: { symbol: 'T0', label: 'Feed temperature' },
+  feedConcentration: { symbol: 'CA0', label: 'Feed concentration' },
+  jacketInletTemp: { symbol: 'TJ0', label: 'Jacket inlet temperature' },
+  valveConstant: { symbol: 'KV', label: 'Valve constant' }
+};
+
+export const LINEAR_OUTPUTS: Record<LinearOutput, { symbol: string; label: string; unit: string }> = {
+  volume: { symbol: 'V', label: 'Volume', unit: STATE_UNITS.volume },
+  concentration: { symbol: 'CA', label: 'Concentration', unit: STATE_UNITS.concentration },
+  temperature: { symbol: 'T', label: 'Temperature', unit: STATE_UNITS.temperature },
+  jacketTemp: { symbol: 'TJ', label: 'Jacket temperature', unit: STATE_UNITS.jacketTemp },
+  conversion: { symbol: 'X', label: 'Conversion', unit: '%' }
+};
+
+export interface LinearModel {
+  state: CSTRState;             // operating point
+  parameters: CSTRParameters;
+  inputs: LinearInput[];
+  outputs: LinearOutput[];
+  inputValues: number[];        // u0
+  outputValues: number[];       // y0
+  a: Matrix;
+  b: Matrix;
+  c: Matrix;
+  d: Matrix;
+  // dx/dt at the operating point: zero at a steady state, otherwise the
+  // constant term the linear model leaves out
+  drift: number[];
+  steady: boolean;
+  eigenvalues: Complex[];
+  stable: boolean;
+  type: SteadyStateType;
+  denominator: number[];        // det(sI − A), highest power first
+  numerators: number[][][];     // [output][input], highest power first
+}
+
+export interface FrequencyPoint {
+  frequency: number;            // rad/s
+  magnitude: number;            // dB
+  phase: number;                // degrees, unwrapped
+}
+
+export interface StepResponse {
+  time: number[];               // s
+  outputs: number[][];          // [output][sample], deviation from y0
+}
+
+export class LinearizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LinearizationError';
+  }
+}
+
+const STEP_POINTS = 200;
+
+function outputValue(output: LinearOutput, state: CSTRState, params: CSTRParameters): number {
+  if (output !== 'conversion') return state[output];
+  if (params.feedConcentration === 0) return 0;
+  return ((params.feedConcentration - state.concentration) / params.feedConcentration) * 100;
+}
+
+// Central-difference derivative of f at x
+function derivative(f: (x: number) => number[], x: number): number[] {
+  const h = Math.cbrt(Number.EPSILON) * (Math.abs(x) || 1);
+  const up = f(x + h);
+  const down = f(x - h);
+  return up.map((value, i) => (value - down[i]) / (2 * h));
+}
+
+const transpose = (columns: number[][]): Matrix => columns[0].map((_, i) => columns.map(column => column[i]));
+
+// A from the model's analytic Jacobian; B, C and D by central differences
+export function linearize(
+  params: CSTRParameters,
+  state: CSTRState,
+  inputs: LinearInput[],
+  outputs: LinearOutput[]
+): LinearModel {
+  if (inputs.length === 0) throw new LinearizationError('Choose at least one input');
+  if (outputs.length === 0) throw new LinearizationError('Choose at least one output');
+
+  const simulator = new CSTRSimulator(state, params);
+  const a = simulator.jacobian(state);
+  if (!a.every(row => row.every(Number.isFinite))) {
+    throw new LinearizationError('The model cannot be linearized here, e.g. with the tank empty');
+  }
+  const drift = simulator.derivatives(state);
+  const steady = drift.every((value, i) => Math.abs(value) <= 1e-9 * (1 + Math.abs(state[LINEAR_STATES[i]])));
+
+  const balances = (p: CSTRParameters) => new CSTRSimulator(state, p).derivatives(state);
+  const outputsAt = (s: CSTRState, p: CSTRParameters) => outputs.map(output => outputValue(output, s, p));
+  const withInput = (input: LinearInput, value: number) => ({ ...params, [input]: value });
+
+  const b = transpose(inputs.map(input => derivative(value => balances(withInput(input, value)), params[input])));
+  const c = transpose(LINEAR_STATES.map(key =>
+    derivative(value => outputsAt({ ...state, [key]: value }, params), state[key])
+  ));
+  const d = transpose(inputs.map(input => derivative(value => outputsAt(state, withInput(input, value)), params[input])));
+
+  const lambdas = eigenvalues(a);
+  const { stable, type } = classifySteadyState(lambdas);
+  const denominator = characteristicPolynomial(a);
+  const numerators = outputs.map((_, i) => inputs.map((_, j) => {
+    // c·(sI − A)⁻¹·b = [det(sI − A + b·c) − det(sI − A)] / det(sI − A)
+    const closed = characteristicPolynomial(a.map((row, k) => row.map((value, l) => value - b[k][j] * c[i][l])));
+    return closed.map((value, k) => {
+      const coefficient = value - denominator[k] + d[i][j] * denominator[k];
+      // What is left of cancelled terms is rounding error
+      return Math.abs(coefficient) <= 1e-9 * (Math.abs(value) + Math.abs(denominator[k])) ? 0 : coefficient;
+    });
+  }));
+
+  return {
+    state: { ...state },
+    parameters: { ...params },
+    inputs: [...inputs],
+    outputs: [...outputs],
+    inputValues: inputs.map(input => params[input]),
+    outputValues: outputsAt(state, params),
+    a,
+    b,
+    c,
+    d,
+    drift,
+    steady,
+    eigenvalues: lambdas,
+    stable,
+    type,
+    denominator,
+    numerators
+  };
+}
+
+function evaluatePolynomial(coefficients: number[], s: Complex): Complex {
+  return coefficients.reduce(
+    (acc, coefficient) => ({ re: acc.re * s.re - acc.im * s.im + coefficient, im: acc.re * s.im + acc.im * s.re }),
+    { re: 0, im: 0 }
+  );
+}
+
+// Log-spaced frequencies two decades either side of the eigenvalues
+export function bodeFrequencies(model: LinearModel, points: number = 200): number[] {
+  const magnitudes = model.eigenvalues.map(l => Math.hypot(l.re, l.im)).filter(m => m > 0);
+  const low = Math.floor(Math.log10(Math.min(...magnitudes, 1))) - 2;
+  const high = Math.ceil(Math.log10(Math.max(...magnitudes, 1e-3))) + 2;
+  return Array.from({ length: points }, (_, i) => Math.pow(10, low + ((high - low) * i) / (points - 1)));
+}
+
+export function frequencyResponse(
+  model: LinearModel,
+  output: number,
+  input: number,
+  frequencies: number[]
+): FrequencyPoint[] {
+  const numerator = model.numerators[output][input];
+  let offset = 0;
+  let previous: number | null = null;
+  return frequencies.map(frequency => {
+    const s = { re: 0, im: frequency };
+    const n = evaluatePolynomial(numerator, s);
+    const d = evaluatePolynomial(model.denominator, s);
+    let phase = ((Math.atan2(n.im, n.re) - Math.atan2(d.im, d.re)) * 180) / Math.PI + offset;
+    // Keep the phase continuous across the ±180° branch cut
+    while (previous !== null && phase - previous > 180) { phase -= 360; offset -= 360; }
+    while (previous !== null && phase - previous < -180) { phase += 360; offset += 360; }
+    previous = phase;
+    return { frequency, magnitude: 20 * Math.log10(Math.hypot(n.re, n.im) / Math.hypot(d.re, d.im)), phase };
+  });
+}
+
+// Long enough for the slowest stable mode to settle, or for an unstable one
+// to grow about twentyfold
+function responseHorizon(model: LinearModel): number {
+  const rates = model.eigenvalues.map(l => l.re);
+  const growing = Math.max(...rates);
+  if (growing > 0) return 3 / growing;
+  const decaying = rates.filter(rate => rate < 0).map(rate => -rate);
+  return decaying.length > 0 ? 5 / Math.min(...decaying) : 100;
+}
+
+// Outputs after a step of `size` in one input at t = 0, from the operating
+// point. Exact for the linear model: each interval uses e^(A·h) of the
+// system augmented with the constant input.
+export function stepResponse(model: LinearModel, input: number, size: number, points: number = STEP_POINTS): StepResponse {
+  const n = model.a.length;
+  const h = responseHorizon(model) / points;
+  const augmented: Matrix = [
+    ...model.a.map((row, i) => [...row.map(value => value * h), model.b[i][input] * size * h]),
+    new Array(n + 1).fill(0)
+  ];
+  const transition = matrixExponential(augmented);
+
+  const time: number[] = [];
+  const outputs: number[][] = model.outputs.map(() => []);
+  // Deviation state with the input's 1 appended
+  let x: Matrix = Array.from({ length: n + 1 }, (_, i) => [i === n ? 1 : 0]);
+  for (let k = 0; k <= points; k++) {
+    time.push(k * h);
+    model.c.forEach((row, i) => {
+      const y = row.reduce((sum, value, j) => sum + value * x[j][0], 0);
+      // The input steps just after t = 0
+      outputs[i].push(k === 0 ? y : y + model.d[i][input] * size);
+    });
+    x = multiplyMatrices(transition, x);
+  }
+  return { time, outputs };
+}
+
+// e.g. "(-0.0123 s + 4.5e-5) / (s^2 + 0.3 s + 0.02)"
+export function formatPolynomial(coefficients: number[], variable: string = 's'): string {
+  const degree = coefficients.length - 1;
+  const terms = coefficients
+    .map((coefficient, i) => ({ coefficient, power: degree - i }))
+    .filter(term => term.coefficient !== 0)
+    .map(({ coefficient, power }) => {
+      const magnitude = Math.abs(coefficient);
+      const value = magnitude === 1 && power > 0 ? '' : `${Number(magnitude.toPrecision(4))}`;
+      const unknown = power === 0 ? '' : power === 1 ? variable : `${variable}^${power}`;
+      return { negative: coefficient < 0, text: [value, unknown].filter(Boolean).join(' ') };
+    });
+  if (terms.length === 0) return '0';
+  return terms
+    .map((term, i) => (i === 0 ? `${term.negative ? '-' : ''}${term.text}` : `${term.negative ? '-' : '+'} ${term.text}`))
+    .join(' ');
+}
+
+const matlabRow = (values: number[]) => values.map(value => String(value)).join(' ');
+const matlabMatrix = (matrix: Matrix) => `[${matrix.map(matlabRow).join('; ')}]`;
+const matlabColumn = (values: number[]) => `[${values.map(value => String(value)).join('; ')}]`;
+const matlabNames = (names: string[]) => `{${names.map(name => `'${name}'`).join(', ')}}`;
+
+// Script defining the model in MATLAB or Octave; the ss/tf lines at the end
+// are left commented as they need the Control System Toolbox or Octave's
+// control package
+export function linearModelToMatlab(model: LinearModel): string {
+  const stateNames = LINEAR_STATES.map(key => STATE_SYMBOLS[key]);
+  const inputNames = model.inputs.map(input => LINEAR_INPUTS[input].symbol);
+  const outputNames = model.outputs.map(output => LINEAR_OUTPUTS[output].symbol);
+  const lines = [
+    '% Linearized jacketed CSTR: dx/dt = A*x + B*u, y = C*x + D*u',
+    '% x, u and y are deviations from x0, u0 and y0',
+    `% States:  ${LINEAR_STATES.map(key => `${STATE_SYMBOLS[key]} [${STATE_UNITS[key]}]`).join(', ')}`,
+    `% Inputs:  ${model.inputs.map(input => `${LINEAR_INPUTS[input].symbol} [${PARAMETER_UNITS[input]}]`).join(', ')}`,
+    `% Outputs: ${model.outputs.map(output => `${LINEAR_OUTPUTS[output].symbol} [${LINEAR_OUTPUTS[output].unit}]`).join(', ')}`,
+    `% Operating point at t = ${model.state.time} s, ${model.steady ? 'a steady state' : 'not a steady state (see f0)'}`,
+    `% Eigenvalues of A: ${model.eigenvalues.map(l => (l.im === 0 ? `${l.re}` : `${l.re}${l.im < 0 ? '-' : '+'}${Math.abs(l.im)}i`)).join(', ')} (${model.type})`,
+    '',
+    `x0 = ${matlabColumn(LINEAR_STATES.map(key => model.state[key]))};`,
+    `u0 = ${matlabColumn(model.inputValues)};`,
+    `y0 = ${matlabColumn(model.outputValues)};`,
+    `f0 = ${matlabColumn(model.drift)};  % dx/dt at x0, u0; zero at a steady state`,
+    '',
+    `A = ${matlabMatrix(model.a)};`,
+    `B = ${matlabMatrix(model.b)};`,
+    `C = ${matlabMatrix(model.c)};`,
+    `D = ${matlabMatrix(model.d)};`,
+    '',
+    '% Transfer functions G{i,j}(s) = num{i,j}(s) / den(s), coefficients in descending powers of s',
+    `den = [${matlabRow(model.denominator)}];`,
+    `num = cell(${model.outputs.length}, ${model.inputs.length});`,
+    ...model.numerators.flatMap((row, i) => row.map((numerator, j) =>
+      `num{${i + 1},${j + 1}} = [${matlabRow(numerator)}];  % ${outputNames[i]} / ${inputNames[j]}`
+    )),
+    '',
+    '% With the Control System Toolbox, or in Octave after pkg load control:',
+    `% sys = ss(A, B, C, D, 'StateName', ${matlabNames(stateNames)}, 'InputName', ${matlabNames(inputNames)}, 'OutputName', ${matlabNames(outputNames)});`,
+    '% G = tf(sys); bode(sys); step(sys);'
+  ];
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,238 @@
+// Monte Carlo uncertainty propagation: draw uncertain parameters from their
+// distributions, simulate each draw over the same horizon and summarize the
+// spread of the trajectories and the chance of exceeding a temperature limit.
+// Studies run in chunks, so the simulation worker can run one beside the live run.
+import { CSTRParameterKey, CSTRParameters, CSTRState } from './cstrModel';
+import { buildOutputGrid, simulateBatch } from './batchSimulation';
+import { PARAMETER_QUANTITIES } from './quantities';
+
+export type DistributionType = 'normal' | 'lognormal' | 'uniform';
+
+export type ParameterDistribution =
+  | { parameter: CSTRParameterKey; type: 'normal'; mean: number; stdDev: number }
+  | { parameter: CSTRParameterKey; type: 'lognormal'; median: number; logStdDev: number }  // σ of ln(value)
+  | { parameter: CSTRParameterKey; type: 'uniform'; min: number; max: number };
+
+export const DISTRIBUTION_LABELS: Record<DistributionType, string> = {
+  normal: 'Normal',
+  lognormal: 'Lognormal',
+  uniform: 'Uniform'
+};
+
+export interface MonteCarloOptions {
+  samples: number;
+  horizon: number;            // s
+  outputInterval?: number;    // s, spacing of the stored trajectory points
+  temperatureLimit?: number;  // K; without one there are no exceedance figures
+  seed?: number;
+}
+
+// Everything a study needs, e.g. to hand it to the simulation worker
+export interface MonteCarloSetup {
+  parameters: CSTRParameters;
+  initialState: CSTRState;
+  distributions: ParameterDistribution[];
+  options: MonteCarloOptions;
+}
+
+export interface MonteCarloProgress {
+  drawn: number;
+  total: number;
+}
+
+export interface MonteCarloResult {
+  time: number[];                 // s
+  percentiles: number[];          // %, e.g. 50 for the median
+  temperature: number[][];        // K, one series per percentile
+  conversion: number[][];         // %, one series per percentile
+  peakTemperatures: number[];     // K, per completed sample
+  temperatureLimit: number | null;  // K, the limit the study was run against
+  exceedanceProbability: number | null;  // share of completed samples that went above the limit
+  exceedanceInterval: [number, number] | null;  // 95% Wilson score interval
+  completed: number;
+  failed: number;                 // samples whose integration failed
+}
+
+export class MonteCarloError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MonteCarloError';
+  }
+}
+
+export const MAX_SAMPLES = 5000;
+export const PERCENTILES = [5, 25, 50, 75, 95];
+
+// Normal draws of a parameter that must stay positive are redrawn this many
+// times before the study gives up on the distribution
+const MAX_REDRAWS = 100;
+
+export function validateDistribution(distribution: ParameterDistribution): void {
+  const label = PARAMETER_QUANTITIES[distribution.parameter].label;
+  const finite = (...values: number[]) => values.every(Number.isFinite);
+  switch (distribution.type) {
+    case 'normal':
+      if (!finite(distribution.mean, distribution.stdDev) || distribution.stdDev < 0) {
+        throw new MonteCarloError(`${label}: a normal distribution needs a mean and a non-negative standard deviation`);
+      }
+      break;
+    case 'lognormal':
+      if (!finite(distribution.median, distribution.logStdDev) || !(distribution.median > 0) || distribution.logStdDev < 0) {
+        throw new MonteCarloError(`${label}: a lognormal distribution needs a positive median and a non-negative log standard deviation`);
+      }
+      break;
+    case 'uniform':
+      if (!finite(distribution.min, distribution.max) || distribution.min > distribution.max) {
+        throw new MonteCarloError(`${label}: a uniform distribution needs a minimum no larger than its maximum`);
+      }
+      break;
+  }
+}
+
+// mulberry32, seeded so a study can be repeated exactly
+function createRandom(seed: number): () => number {
+  let h = seed | 0;
+  return () => {
+    h = (h + 0x6d2b79f5) | 0;
+    let t = Math.imul(h ^ (h >>> 15), h | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function standardNormal(uniform: () => number): number {
+  const u1 = Math.max(uniform(), 1e-12);
+  const u2 = uniform();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+function drawValue(distribution: ParameterDistribution, uniform: () => number): number {
+  switch (distribution.type) {
+    case 'normal': {
+      const positive = PARAMETER_QUANTITIES[distribution.parameter].positive;
+      for (let i = 0; i < MAX_REDRAWS; i++) {
+        const value = distribution.mean + distribution.stdDev * standardNormal(uniform);
+        if (!positive || value > 0) return value;
+      }
+      throw new MonteCarloError(`${PARAMETER_QUANTITIES[distribution.parameter].label} must be positive but its distribution is mostly below zero`);
+    }
+    case 'lognormal':
+      return distribution.median * Math.exp(distribution.logStdDev * standardNormal(uniform));
+    case 'uniform':
+      return distribution.min + (distribution.max - distribution.min) * uniform();
+  }
+}
+
+// Linear interpolation between order statistics
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const position = (p / 100) * (sorted.length - 1);
+  const below = Math.floor(position);
+  const above = Math.min(below + 1, sorted.length - 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+// 95% Wilson score interval for a proportion
+function wilsonInterval(successes: number, trials: number): [number, number] {
+  if (trials === 0) return [0, 1];
+  const z = 1.96;
+  const p = successes / trials;
+  const denominator = 1 + z * z / trials;
+  const centre = (p + z * z / (2 * trials)) / denominator;
+  const halfWidth = z * Math.sqrt(p * (1 - p) / trials + z * z / (4 * trials * trials)) / denominator;
+  return [Math.max(0, centre - halfWidth), Math.min(1, centre + halfWidth)];
+}
+
+export class MonteCarloStudy {
+  private params: CSTRParameters;
+  private initialState: CSTRState;
+  private distributions: ParameterDistribution[];
+  private options: MonteCarloOptions;
+  private uniform: () => number;
+  private outputTimes: number[];
+  private temperatures: number[][] = [];
+  private conversions: number[][] = [];
+  private peaks: number[] = [];
+  private drawn = 0;
+  private failed = 0;
+
+  constructor(params: CSTRParameters, initialState: CSTRState, distributions: ParameterDistribution[], options: MonteCarloOptions) {
+    if (distributions.length === 0) throw new MonteCarloError('Give at least one parameter a distribution');
+    distributions.forEach(validateDistribution);
+    if (new Set(distributions.map(d => d.parameter)).size !== distributions.length) {
+      throw new MonteCarloError('Each parameter can have only one distribution');
+    }
+    if (!Number.isInteger(options.samples) || options.samples < 1 || options.samples > MAX_SAMPLES) {
+      throw new MonteCarloError(`The number of samples must be a whole number from 1 to ${MAX_SAMPLES}`);
+    }
+    if (!(options.horizon > 0)) throw new MonteCarloError('The horizon must be positive');
+
+    this.params = params;
+    this.initialState = initialState;
+    this.distributions = distributions;
+    this.options = options;
+    this.uniform = createRandom(options.seed ?? 1);
+    this.outputTimes = buildOutputGrid(initialState.time, initialState.time + options.horizon,
+      options.outputInterval ?? options.horizon / 200);
+  }
+
+  // Draw and simulate up to `count` more samples
+  public runNext(count: number): void {
+    const end = Math.min(this.options.samples, this.drawn + count);
+    for (; this.drawn < end; this.drawn++) {
+      const sampled = { ...this.params };
+      this.distributions.forEach(distribution => {
+        sampled[distribution.parameter] = drawValue(distribution, this.uniform);
+      });
+      try {
+        const trajectory = simulateBatch(this.initialState, sampled, {
+          tf: this.initialState.time + this.options.horizon,
+          outputTimes: this.outputTimes,
+          integrator: 'rosenbrock'
+        });
+        const temperature = Array.from(trajectory.temperature);
+        this.temperatures.push(temperature);
+        this.conversions.push(Array.from(trajectory.conversion));
+        this.peaks.push(Math.max(...temperature));
+      } catch {
+        // A draw the solver cannot integrate is counted, not summarized
+        this.failed++;
+      }
+    }
+  }
+
+  public isDone(): boolean {
+    return this.drawn >= this.options.samples;
+  }
+
+  public getProgress(): MonteCarloProgress {
+    return { drawn: this.drawn, total: this.options.samples };
+  }
+
+  public getOptions(): MonteCarloOptions {
+    return this.options;
+  }
+
+  // Summary of the samples completed so far
+  public getResult(): MonteCarloResult {
+    const bands = (runs: number[][]) => {
+      const sortedByTime = this.outputTimes.map((_, i) => runs.map(run => run[i]).sort((a, b) => a - b));
+      return PERCENTILES.map(p => sortedByTime.map(values => percentile(values, p)));
+    };
+    const limit = this.options.temperatureLimit ?? null;
+    const exceeded = limit === null ? 0 : this.peaks.filter(peak => peak > limit).length;
+    const completed = this.peaks.length;
+    return {
+      time: this.outputTimes,
+      percentiles: PERCENTILES,
+      temperature: bands(this.temperatures),
+      conversion: bands(this.conversions),
+      peakTemperatures: [...this.peaks],
+      temperatureLimit: limit,
+      exceedanceProbability: limit === null ? null : completed > 0 ? exceeded / completed : 0,
+      exceedanceInterval: limit === null ? null : wilsonInterval(exceeded, completed),
+      completed,
+      failed: this.failed
+    };
+  }
+}
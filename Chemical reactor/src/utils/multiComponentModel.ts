@@ -0,0 +1,253 @@
+// Generalized CSTR with several species and reactions: a species vector,
+// a stoichiometry matrix and per-reaction Arrhenius kinetics and heats of
+// reaction. The single-reaction CSTRSimulator is the special case A → B.
+import { CSTRParameters, outletFlows } from './cstrModel';
+import { Integrator, RK4Integrator } from './integrators';
+
+export interface Species {
+  name: string;
+  feedConcentration: number;    // mol/m³
+}
+
+export interface Reaction {
+  name: string;
+  preExponentialFactor: number; // 1/s·(mol/m³)^(1-order)
+  activationEnergy: number;     // J/mol
+  heatOfReaction: number;       // J/mol, negative for exothermic
+  orders: number[];             // rate order in each species, r = k·Π Ci^order
+}
+
+export interface ReactionNetwork {
+  name: string;
+  species: Species[];
+  reactions: Reaction[];
+  // stoichiometry[j][i]: moles of species i produced per unit extent of reaction j
+  stoichiometry: number[][];
+}
+
+// Reactor, feed and jacket properties; the kinetics come from the network
+export type ReactorParameters = Omit<
+  CSTRParameters,
+  'feedConcentration' | 'preExponentialFactor' | 'activationEnergy' | 'reactionOrder' | 'heatOfReaction'
+>;
+
+export interface MultiComponentState {
+  volume: number;               // m³
+  concentrations: number[];     // mol/m³, one per species
+  temperature: number;          // K
+  jacketTemp: number;           // K
+  time: number;                 // s
+}
+
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+// Check that every matrix matches the species and reaction counts
+export function validateNetwork(network: ReactionNetwork): void {
+  const n = network.species.length;
+  if (n === 0) throw new NetworkError('A reaction network needs at least one species');
+  if (network.stoichiometry.length !== network.reactions.length) {
+    throw new NetworkError(`Stoichiometry has ${network.stoichiometry.length} rows for ${network.reactions.length} reactions`);
+  }
+  network.reactions.forEach((reaction, j) => {
+    if (network.stoichiometry[j].length !== n) {
+      throw new NetworkError(`Stoichiometry row for ${reaction.name} has ${network.stoichiometry[j].length} entries for ${n} species`);
+    }
+    if (reaction.orders.length !== n) {
+      throw new NetworkError(`${reaction.name} has ${reaction.orders.length} rate orders for ${n} species`);
+    }
+    const values = [reaction.preExponentialFactor, reaction.activationEnergy, reaction.heatOfReaction,
+      ...reaction.orders, ...network.stoichiometry[j]];
+    if (!values.every(Number.isFinite)) {
+      throw new NetworkError(`${reaction.name} has a value that is not a finite number`);
+    }
+  });
+}
+
+// The single nth-order reaction of CSTRParameters as a two-species network
+export function networkFromParameters(params: CSTRParameters): ReactionNetwork {
+  return {
+    name: 'Single reaction A → B',
+    species: [
+      { name: 'A', feedConcentration: params.feedConcentration },
+      { name: 'B', feedConcentration: 0 }
+    ],
+    reactions: [{
+      name: 'A → B',
+      preExponentialFactor: params.preExponentialFactor,
+      activationEnergy: params.activationEnergy,
+      heatOfReaction: params.heatOfReaction,
+      orders: [params.reactionOrder, 0]
+    }],
+    stoichiometry: [[-1, 1]]
+  };
+}
+
+// Built-in networks with kinetics on the scale of the reference case
+export const NETWORK_PRESETS: ReactionNetwork[] = [
+  {
+    name: 'Series A → B → C',
+    species: [
+      { name: 'A', feedConcentration: 0.5 },
+      { name: 'B', feedConcentration: 0 },
+      { name: 'C', feedConcentration: 0 }
+    ],
+    reactions: [
+      { name: 'A → B', preExponentialFactor: 10, activationEnergy: 10000, heatOfReaction: 1, orders: [1, 0, 0] },
+      { name: 'B → C', preExponentialFactor: 50, activationEnergy: 18000, heatOfReaction: 1, orders: [0, 1, 0] }
+    ],
+    stoichiometry: [
+      [-1, 1, 0],
+      [0, -1, 1]
+    ]
+  },
+  {
+    name: 'Parallel A → B, A → C',
+    species: [
+      { name: 'A', feedConcentration: 0.5 },
+      { name: 'B', feedConcentration: 0 },
+      { name: 'C', feedConcentration: 0 }
+    ],
+    reactions: [
+      { name: 'A → B', preExponentialFactor: 10, activationEnergy: 10000, heatOfReaction: 1, orders: [1, 0, 0] },
+      { name: 'A → C', preExponentialFactor: 200, activationEnergy: 20000, heatOfReaction: 1, orders: [2, 0, 0] }
+    ],
+    stoichiometry: [
+      [-1, 1, 0],
+      [-1, 0, 1]
+    ]
+  }
+];
+
+export interface MultiComponentSimulatorOptions {
+  integrator?: Integrator;
+  timeStep?: number;            // s, simulated time advanced per step() call
+}
+
+// State vector layout: [V, C1 … Cn, T, TJ]
+const toVector = (state: MultiComponentState): number[] =>
+  [state.volume, ...state.concentrations, state.temperature, state.jacketTemp];
+
+const fromVector = (y: number[], time: number): MultiComponentState => ({
+  volume: y[0],
+  concentrations: y.slice(1, -2),
+  temperature: y[y.length - 2],
+  jacketTemp: y[y.length - 1],
+  time
+});
+
+export class MultiComponentSimulator {
+  private state: MultiComponentState;
+  private params: ReactorParameters;
+  private network: ReactionNetwork;
+  private integrator: Integrator;
+  private dt: number;
+
+  constructor(
+    initialState: MultiComponentState,
+    parameters: ReactorParameters,
+    network: ReactionNetwork,
+    options: MultiComponentSimulatorOptions = {}
+  ) {
+    validateNetwork(network);
+    if (initialState.concentrations.length !== network.species.length) {
+      throw new NetworkError(`Initial state has ${initialState.concentrations.length} concentrations for ${network.species.length} species`);
+    }
+    this.state = { ...initialState, concentrations: [...initialState.concentrations] };
+    this.params = { ...parameters };
+    this.network = network;
+    this.integrator = options.integrator ?? new RK4Integrator();
+    this.dt = options.timeStep ?? 0.1;
+  }
+
+  private getOutletFlowRate(state: MultiComponentState = this.state): number {
+    const flows = outletFlows(this.params, state.volume);
+    return flows.valve + flows.overflow;
+  }
+
+  // Rate of every reaction in mol/(m³·s). Concentrations are floored at zero
+  // so fractional orders stay real when a species is used up.
+  public getReactionRates(state: MultiComponentState = this.state): number[] {
+    return this.network.reactions.map(reaction => {
+      const k = reaction.preExponentialFactor *
+        Math.exp(-reaction.activationEnergy / (this.params.gasConstant * state.temperature));
+      return reaction.orders.reduce(
+        (rate, order, i) => order === 0 ? rate : rate * Math.pow(Math.max(0, state.concentrations[i]), order),
+        k
+      );
+    });
+  }
+
+  // Same balances as the single-reaction model, with the reaction terms
+  // summed over the network
+  public derivatives(state: MultiComponentState): number[] {
+    const { params, network } = this;
+    const outletFlow = this.getOutletFlowRate(state);
+    const rates = this.getReactionRates(state);
+    const volumetricHeatCapacity = params.density * params.heatCapacity;
+    const jacketHeatCapacity = params.jacketDensity * params.jacketHeatCapacity;
+
+    const dV = params.inletFlowRate - outletFlow;
+    const dC = network.species.map((species, i) => {
+      const production = rates.reduce((sum, rate, j) => sum + network.stoichiometry[j][i] * rate, 0);
+      return (params.inletFlowRate * species.feedConcentration - outletFlow * state.concentrations[i] +
+              state.volume * production) / state.volume;
+    });
+
+    const reactionHeat = rates.reduce((sum, rate, j) => sum + network.reactions[j].heatOfReaction * rate, 0);
+    const heatTransfer = params.heatTransferCoeff * params.heatTransferArea * (state.temperature - state.jacketTemp);
+    const dT = (volumetricHeatCapacity * (params.inletFlowRate * params.feedTemperature - outletFlow * state.temperature) -
+                reactionHeat * state.volume - heatTransfer) / (volumetricHeatCapacity * state.volume);
+    const dTJ = (params.jacketFlowRate * jacketHeatCapacity * (params.jacketInletTemp - state.jacketTemp) + heatTransfer) /
+                (jacketHeatCapacity * params.jacketVolume);
+
+    return [dV, ...dC, dT, dTJ];
+  }
+
+  public step(): MultiComponentState {
+    return this.advanceTo(this.state.time + this.dt);
+  }
+
+  public advanceTo(time: number): MultiComponentState {
+    if (time > this.state.time) {
+      const f = (t: number, y: number[]) => this.derivatives(fromVector(y, t));
+      this.state = fromVector(this.integrator.integrate(f, this.state.time, toVector(this.state), time), time);
+    }
+    return this.getState();
+  }
+
+  public getState(): MultiComponentState {
+    return { ...this.state, concentrations: [...this.state.concentrations] };
+  }
+
+  public getNetwork(): ReactionNetwork {
+    return this.network;
+  }
+
+  public getIntegrator(): Integrator {
+    return this.integrator;
+  }
+
+  public updateParameters(newParams: Partial<ReactorParameters>): void {
+    this.params = { ...this.params, ...newParams };
+  }
+
+  public getOutletFlow(): number {
+    return this.getOutletFlowRate();
+  }
+
+  // Conversion of one species relative to its feed, in %
+  public getConversion(speciesIndex = 0): number {
+    const feed = this.network.species[speciesIndex].feedConcentration;
+    return feed === 0 ? 0 : (feed - this.state.concentrations[speciesIndex]) / feed * 100;
+  }
+
+  public getHeatRemovalRate(): number {
+    return (this.params.heatTransferCoeff * this.params.heatTransferArea *
+            (this.state.temperature - this.state.jacketTemp)) / 1000; // kW
+  }
+}
@@ -0,0 +1,82 @@
+// Concentration–temperature phase plane: direction field and trajectories
+import { CSTRParameters, CSTRSimulator, CSTRState, stateToVector, vectorToState } from './cstrModel';
+import { createIntegrator } from './integrators';
+import { Domain } from './chartScale';
+
+export interface DirectionArrow {
+  concentration: number;    // mol/m³
+  temperature: number;      // K
+  dConcentration: number;   // mol/(m³·s)
+  dTemperature: number;     // K/s
+}
+
+export interface PhaseTrajectoryOptions {
+  duration?: number;        // s
+  points?: number;
+  freezeVolume?: boolean;   // hold V at its starting value
+  freezeJacket?: boolean;   // hold TJ at its starting value
+}
+
+export interface PhaseTrajectory {
+  concentration: number[];
+  temperature: number[];
+}
+
+// Slice of the vector field through the given volume and jacket temperature
+export function directionField(
+  params: CSTRParameters,
+  fixed: Pick<CSTRState, 'volume' | 'jacketTemp'>,
+  concentrationDomain: Domain,
+  temperatureDomain: Domain,
+  columns: number = 16,
+  rows: number = 12
+): DirectionArrow[] {
+  const simulator = new CSTRSimulator({ ...fixed, concentration: 0, temperature: 0, time: 0 }, params);
+  const arrows: DirectionArrow[] = [];
+
+  for (let i = 0; i < columns; i++) {
+    for (let j = 0; j < rows; j++) {
+      const concentration = concentrationDomain[0] + (concentrationDomain[1] - concentrationDomain[0]) * (i + 0.5) / columns;
+      const temperature = temperatureDomain[0] + (temperatureDomain[1] - temperatureDomain[0]) * (j + 0.5) / rows;
+      const [, dConcentration, dTemperature] = simulator.derivatives({ ...fixed, concentration, temperature, time: 0 });
+      arrows.push({ concentration, temperature, dConcentration, dTemperature });
+    }
+  }
+
+  return arrows;
+}
+
+export function phaseTrajectory(
+  params: CSTRParameters,
+  start: CSTRState,
+  options: PhaseTrajectoryOptions = {}
+): PhaseTrajectory {
+  const duration = options.duration ?? 200;
+  const points = options.points ?? 200;
+  const simulator = new CSTRSimulator(start, params);
+  const integrator = createIntegrator('rk45');
+
+  const f = (t: number, y: number[]) => {
+    const dy = simulator.derivatives(vectorToState(y, t));
+    if (options.freezeVolume) dy[0] = 0;
+    if (options.freezeJacket) dy[3] = 0;
+    return dy;
+  };
+
+  const trajectory: PhaseTrajectory = { concentration: [start.concentration], temperature: [start.temperature] };
+  let y = stateToVector(start);
+  for (let i = 1; i <= points; i++) {
+    const t0 = start.time + (duration * (i - 1)) / points;
+    const t1 = start.time + (duration * i) / points;
+    try {
+      y = integrator.integrate(f, t0, y, t1);
+    } catch {
+      // Keep the part computed before the solver gave up
+      break;
+    }
+    trajectory.concentration.push(y[1]);
+    trajectory.temperature.push(y[2]);
+  }
+
+  return trajectory;
+}
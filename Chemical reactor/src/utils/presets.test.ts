@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_PRESETS, PresetError, presetFromQuery, presetToQuery, REFERENCE_PARAMETERS } from './presets';
+import { RateLaw } from './rateLaws';
+
+describe('presetToQuery', () => {
+  it.each(BUILT_IN_PRESETS.map(preset => [preset.name, preset] as const))('round-trips %s', (_, preset) => {
+    // Links leave the description out
+    expect(presetFromQuery(presetToQuery(preset))).toEqual({ ...preset, description: undefined });
+  });
+
+  it('round-trips a rate law other than the power law', () => {
+    const rateLaw: RateLaw = { type: 'michaelis-menten', constants: { michaelisConstant: 0.2 } };
+    const preset = { ...BUILT_IN_PRESETS[0], parameters: { ...REFERENCE_PARAMETERS, rateLaw } };
+    expect(presetFromQuery(presetToQuery(preset))?.parameters.rateLaw).toEqual(rateLaw);
+  });
+});
+
+describe('presetFromQuery', () => {
+  it('opens a built-in preset by name', () => {
+    expect(presetFromQuery('?preset=Runaway')).toBe(BUILT_IN_PRESETS[2]);
+    expect(presetFromQuery('?preset=Unknown')).toBeNull();
+    expect(presetFromQuery('')).toBeNull();
+  });
+
+  it('fills a hand-written link from the reference case', () => {
+    const preset = presetFromQuery('?feedTemperature=360&initial.volume=2')!;
+    expect(preset.name).toBe('Shared link');
+    expect(preset.parameters).toEqual({ ...REFERENCE_PARAMETERS, feedTemperature: 360 });
+    expect(preset.initialState.volume).toBe(2);
+  });
+
+  it('rejects values that are not numbers', () => {
+    expect(() => presetFromQuery('?preset=Bad&feedTemperature=hot')).toThrow(PresetError);
+  });
+});
@@ -0,0 +1,231 @@
+// Named parameter presets: built-in teaching cases, user presets kept in
+// localStorage, and shareable links that encode a complete case in the URL
+import { CSTR_PARAMETER_KEYS, CSTRParameters, CSTRState } from './cstrModel';
+import { INTEGRATOR_LABELS, IntegratorMethod } from './integrators';
+import { parseRateLaw } from './rateLaws';
+
+export interface Preset {
+  name: string;
+  description?: string;
+  parameters: CSTRParameters;
+  initialState: CSTRState;
+  integrator?: IntegratorMethod;  // solver the case needs, e.g. a stiff one; else the current one is kept
+}
+
+export class PresetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetError';
+  }
+}
+
+// MATLAB reference case the simulator has always started from
+export const REFERENCE_PARAMETERS: CSTRParameters = {
+  inletFlowRate: 1.0,           // m³/s (F0)
+  feedConcentration: 0.5,       // mol/m³ (CA0)
+  feedTemperature: 350,         // K (T0)
+  jacketInletTemp: 300,         // K (TJ0)
+  valveConstant: 0.1,           // m³/(s·m³) (KV)
+  minimumVolume: 0.1,           // m³ (Vmin)
+  vesselVolume: 15,             // m³ (Vmax)
+  vesselArea: 5,                // m² (Avessel)
+  weirLength: 1,                // m (Lw)
+  preExponentialFactor: 1,      // 1/s (alpha)
+  activationEnergy: 10000,      // J/mol (E)
+  gasConstant: 8.314,           // J/(mol·K) (R)
+  reactionOrder: 2,             // dimensionless (n)
+  density: 1000,                // kg/m³ (rho)
+  heatCapacity: 4.18,           // J/(kg·K) (Cp)
+  heatOfReaction: 1,            // J/mol (lambda)
+  heatTransferCoeff: 100,       // W/(m²·K) (U)
+  heatTransferArea: 1,          // m² (AH)
+  jacketDensity: 1000,          // kg/m³ (rhoJ)
+  jacketHeatCapacity: 4.18,     // J/(kg·K) (CJ)
+  jacketVolume: 0.1,            // m³ (VJ)
+  jacketFlowRate: 0.1           // m³/s (FJ)
+};
+
+export const REFERENCE_INITIAL_STATE: CSTRState = {
+  volume: 1.0,        // m³ (V0)
+  concentration: 0.5, // mol/m³ (CA0)
+  temperature: 350,   // K (T0)
+  jacketTemp: 300,    // K (TJ0)
+  time: 0             // s
+};
+
+// First-order exothermic reaction with water-like properties; the other
+// built-in cases vary the heat release and cooling from here
+const EXOTHERMIC_BASE: CSTRParameters = {
+  inletFlowRate: 0.1,
+  feedConcentration: 1000,
+  feedTemperature: 350,
+  jacketInletTemp: 300,
+  valveConstant: 0.1,
+  minimumVolume: 0.1,
+  vesselVolume: 1.5,
+  vesselArea: 1,
+  weirLength: 0.5,
+  preExponentialFactor: 1.2e9,
+  activationEnergy: 72750,
+  gasConstant: 8.314,
+  reactionOrder: 1,
+  density: 1000,
+  heatCapacity: 4180,
+  heatOfReaction: -5e4,
+  heatTransferCoeff: 500,
+  heatTransferArea: 2,
+  jacketDensity: 1000,
+  jacketHeatCapacity: 4180,
+  jacketVolume: 0.1,
+  jacketFlowRate: 0.01
+};
+
+// Cold start with the reactor at its steady-state level and no reactant yet
+const COLD_START: CSTRState = { volume: 1.1, concentration: 0, temperature: 300, jacketTemp: 300, time: 0 };
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    name: 'MATLAB reference',
+    description: 'The original reference case: second order, negligible heat of reaction',
+    parameters: REFERENCE_PARAMETERS,
+    initialState: REFERENCE_INITIAL_STATE
+  },
+  {
+    name: 'Stable low conversion',
+    description: 'Mild exotherm; settles at a single stable steady state near 352 K with about 17% conversion',
+    parameters: EXOTHERMIC_BASE,
+    initialState: COLD_START
+  },
+  {
+    name: 'Runaway',
+    description: 'Strong exotherm and weak cooling; the reactor ignites and runs away to about 443 K',
+    parameters: { ...EXOTHERMIC_BASE, feedConcentration: 2000, heatOfReaction: -2e5 },
+    initialState: COLD_START
+  },
+  {
+    name: 'Oscillatory',
+    description: 'Strong exotherm against a large cold jacket; the only steady state is unstable and the reactor settles into relaxation oscillations between about 308 and 390 K',
+    parameters: {
+      ...EXOTHERMIC_BASE,
+      feedConcentration: 4000,
+      feedTemperature: 300,
+      preExponentialFactor: 1e11,
+      heatOfReaction: -2e5,
+      heatTransferCoeff: 41800,
+      heatTransferArea: 50,
+      jacketFlowRate: 5
+    },
+    initialState: COLD_START,
+    // Too stiff for fixed-step RK4, which diverges within seconds
+    integrator: 'rosenbrock'
+  }
+];
+
+const STORAGE_KEY = 'cstr-simulator.presets';
+const STATE_KEYS: (keyof Omit<CSTRState, 'time'>)[] = ['volume', 'concentration', 'temperature', 'jacketTemp'];
+
+const isIntegratorMethod = (value: unknown): value is IntegratorMethod =>
+  typeof value === 'string' && Object.keys(INTEGRATOR_LABELS).includes(value);
+
+// Read a record of numbers, filling anything missing from the fallback
+function readNumbers<T extends object>(raw: Record<string, unknown>, keys: (keyof T)[], fallback: T, what: string): T {
+  const result = { ...fallback };
+  keys.forEach(key => {
+    const value = raw[key as string];
+    if (value === undefined) return;
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isFinite(number)) {
+      throw new PresetError(`${what} ${String(key)} must be a finite number`);
+    }
+    (result[key] as number) = number;
+  });
+  return result;
+}
+
+function validatePreset(raw: unknown): Preset {
+  if (typeof raw !== 'object' || raw === null) throw new PresetError('Preset must be an object');
+  const preset = raw as Record<string, unknown>;
+  if (typeof preset.name !== 'string' || preset.name.trim() === '') throw new PresetError('Preset needs a name');
+  const parameters = (preset.parameters ?? {}) as Record<string, unknown>;
+  const initialState = (preset.initialState ?? {}) as Record<string, unknown>;
+  const numbers = readNumbers(parameters, CSTR_PARAMETER_KEYS, REFERENCE_PARAMETERS, 'Parameter');
+  return {
+    name: preset.name,
+    description: typeof preset.description === 'string' ? preset.description : undefined,
+    parameters: parameters.rateLaw === undefined ? numbers : { ...numbers, rateLaw: parseRateLaw(parameters.rateLaw) },
+    initialState: { ...readNumbers(initialState, STATE_KEYS, REFERENCE_INITIAL_STATE, 'Initial'), time: 0 },
+    integrator: isIntegratorMethod(preset.integrator) ? preset.integrator : undefined
+  };
+}
+
+// User presets that fail validation are dropped rather than breaking the app
+export function loadUserPresets(storage: Storage = localStorage): Preset[] {
+  try {
+    const raw = JSON.parse(storage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap(item => {
+      try {
+        return [validatePreset(item)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+// Saving under an existing name replaces that preset
+export function saveUserPreset(preset: Preset, storage: Storage = localStorage): Preset[] {
+  if (BUILT_IN_PRESETS.some(p => p.name === preset.name)) {
+    throw new PresetError(`"${preset.name}" is a built-in preset; choose another name`);
+  }
+  const presets = [...loadUserPresets(storage).filter(p => p.name !== preset.name), validatePreset(preset)];
+  storage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+}
+
+export function deleteUserPreset(name: string, storage: Storage = localStorage): Preset[] {
+  const presets = loadUserPresets(storage).filter(p => p.name !== name);
+  storage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+}
+
+// Query string with every parameter by name and the initial state as
+// initial.<field>, readable and editable by hand. A rate law other than the
+// power law goes in as JSON.
+export function presetToQuery(preset: Omit<Preset, 'description'>): string {
+  const query = new URLSearchParams();
+  query.set('preset', preset.name);
+  CSTR_PARAMETER_KEYS.forEach(key => query.set(key, String(preset.parameters[key])));
+  if (preset.parameters.rateLaw) query.set('rateLaw', JSON.stringify(preset.parameters.rateLaw));
+  STATE_KEYS.forEach(key => query.set(`initial.${key}`, String(preset.initialState[key])));
+  if (preset.integrator) query.set('integrator', preset.integrator);
+  return query.toString();
+}
+
+export function presetToURL(preset: Omit<Preset, 'description'>, base: string = window.location.href): string {
+  const url = new URL(base);
+  url.search = presetToQuery(preset);
+  url.hash = '';
+  return url.toString();
+}
+
+// Preset encoded in a query string, or null if it carries none. Fields left
+// out of a hand-written link fall back to the reference case, and a bare
+// ?preset=<name> opens that built-in preset.
+export function presetFromQuery(search: string): Preset | null {
+  const query = new URLSearchParams(search);
+  const name = query.get('preset');
+  const parameters: Record<string, unknown> = {};
+  const initialState: Record<string, unknown> = {};
+  query.forEach((value, key) => {
+    if (key.startsWith('initial.')) initialState[key.slice('initial.'.length)] = value;
+    else if ((CSTR_PARAMETER_KEYS as string[]).includes(key)) parameters[key] = value;
+    else if (key === 'rateLaw') parameters.rateLaw = JSON.parse(value);
+  });
+  if (Object.keys(parameters).length === 0 && Object.keys(initialState).length === 0) {
+    return BUILT_IN_PRESETS.find(p => p.name === name) ?? null;
+  }
+  return validatePreset({ name: name || 'Shared link', parameters, initialState, integrator: query.get('integrator') });
+}
@@ -0,0 +1,194 @@
+// Typed quantities for the model parameters: the unit each field is stored
+// in, the other units it can be entered or shown in, the range of values
+// that make physical sense, and checks for slips such as kJ entered as J
+import { CSTR_PARAMETER_KEYS, CSTRParameterKey, CSTRParameters, PARAMETER_UNITS } from './cstrModel';
+import { checkRateLawUnits } from './rateLaws';
+import {
+  convertUnit,
+  Dimension,
+  dimensionsEqual,
+  divideDimensions,
+  formatDimension,
+  fromSI,
+  multiplyDimensions,
+  parseUnit
+} from './units';
+
+// A value together with the unit it is expressed in
+export interface Quantity {
+  value: number;
+  unit: string;
+}
+
+export interface ParameterQuantity {
+  label: string;
+  units: string[];                  // units it can be entered in; the first is the stored (SI) unit
+  plausible?: [number, number];     // usual range in the stored unit
+  positive?: boolean;               // zero or negative values break the model
+}
+
+// Display or entry unit chosen for each parameter; the stored unit when absent
+export type UnitPreferences = Partial<Record<CSTRParameterKey, string>>;
+
+export interface ParameterIssue {
+  key: CSTRParameterKey | 'rateLaw';
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+const FLOW_UNITS = ['m³/s', 'L/s', 'L/min', 'm³/h'];
+const TEMPERATURE_UNITS = ['K', '°C', '°F'];
+const VOLUME_UNITS = ['m³', 'L'];
+const MOLAR_ENERGY_UNITS = ['J/mol', 'kJ/mol', 'cal/mol', 'kcal/mol'];
+const DENSITY_UNITS = ['kg/m³', 'g/cm³'];
+const HEAT_CAPACITY_UNITS = ['J/(kg·K)', 'kJ/(kg·K)', 'cal/(g·K)', 'kcal/(kg·K)'];
+
+export const PARAMETER_QUANTITIES: Record<CSTRParameterKey, ParameterQuantity> = {
+  inletFlowRate: { label: 'Inlet Flow Rate (F0)', units: FLOW_UNITS, plausible: [1e-7, 10] },
+  feedConcentration: { label: 'Feed Concentration (CA0)', units: ['mol/m³', 'mol/L', 'kmol/m³'], plausible: [1e-3, 6e4] },
+  feedTemperature: { label: 'Feed Temperature (T0)', units: TEMPERATURE_UNITS, plausible: [200, 1000], positive: true },
+  jacketInletTemp: { label: 'Jacket Inlet Temp (TJ0)', units: TEMPERATURE_UNITS, plausible: [200, 1000], positive: true },
+  valveConstant: { label: 'Valve Constant (KV)', units: ['1/s', '1/min', '1/h'], plausible: [1e-5, 10], positive: true },
+  minimumVolume: { label: 'Minimum Volume (Vmin)', units: VOLUME_UNITS, plausible: [0, 100] },
+  vesselVolume: { label: 'Vessel Volume (Vmax)', units: VOLUME_UNITS, plausible: [1e-3, 500], positive: true },
+  vesselArea: { label: 'Vessel Cross-section (Avessel)', units: ['m²', 'cm²'], plausible: [1e-3, 100], positive: true },
+  weirLength: { label: 'Weir Length (Lw)', units: ['m', 'cm'], plausible: [0, 20] },
+  // Units depend on the reaction order, so there is no general range
+  preExponentialFactor: { label: 'Pre-exponential Factor (α)', units: ['1/s', '1/min', '1/h'] },
+  activationEnergy: { label: 'Activation Energy (E)', units: MOLAR_ENERGY_UNITS, plausible: [0, 4e5] },
+  gasConstant: { label: 'Gas Constant (R)', units: ['J/(mol·K)', 'cal/(mol·K)'], plausible: [8.3, 8.33], positive: true },
+  reactionOrder: { label: 'Reaction Order (n)', units: ['-'], plausible: [0, 3] },
+  density: { label: 'Density (ρ)', units: DENSITY_UNITS, plausible: [500, 3000], positive: true },
+  heatCapacity: { label: 'Heat Capacity (Cp)', units: HEAT_CAPACITY_UNITS, plausible: [500, 1e4], positive: true },
+  heatOfReaction: { label: 'Heat of Reaction (λ)', units: MOLAR_ENERGY_UNITS, plausible: [-5e5, 5e5] },
+  heatTransferCoeff: { label: 'Heat Transfer Coeff (U)', units: ['W/(m²·K)', 'kW/(m²·K)'], plausible: [5, 5e4] },
+  heatTransferArea: { label: 'Heat Transfer Area (AH)', units: ['m²', 'cm²'], plausible: [1e-3, 500] },
+  jacketDensity: { label: 'Jacket Density (ρJ)', units: DENSITY_UNITS, plausible: [500, 3000], positive: true },
+  jacketHeatCapacity: { label: 'Jacket Heat Capacity (CJ)', units: HEAT_CAPACITY_UNITS, plausible: [500, 1e4], positive: true },
+  jacketVolume: { label: 'Jacket Volume (VJ)', units: VOLUME_UNITS, plausible: [1e-4, 100], positive: true },
+  jacketFlowRate: { label: 'Jacket Flow Rate (FJ)', units: FLOW_UNITS, plausible: [0, 10] }
+};
+
+// Unit a parameter is shown in under the given preferences
+export const displayUnit = (key: CSTRParameterKey, preferences: UnitPreferences = {}): string =>
+  preferences[key] ?? PARAMETER_UNITS[key];
+
+export function parameterQuantity(params: CSTRParameters, key: CSTRParameterKey, unit: string = PARAMETER_UNITS[key]): Quantity {
+  return { value: fromSI(params[key], unit), unit };
+}
+
+// Stored value of a quantity entered in any unit of the right dimension
+export function parameterValue(key: CSTRParameterKey, quantity: Quantity): number {
+  return convertUnit(quantity.value, quantity.unit, PARAMETER_UNITS[key]);
+}
+
+export function formatQuantity(quantity: Quantity, digits = 4): string {
+  const value = Number(quantity.value.toPrecision(digits));
+  return quantity.unit === '-' ? String(value) : `${value} ${quantity.unit}`;
+}
+
+const PREFERENCES_KEY = 'cstr-simulator.units';
+
+// Preferences naming a unit that no longer fits the parameter are dropped
+export function loadUnitPreferences(storage: Storage = localStorage): UnitPreferences {
+  try {
+    const raw = JSON.parse(storage.getItem(PREFERENCES_KEY) ?? '{}');
+    const preferences: UnitPreferences = {};
+    CSTR_PARAMETER_KEYS.forEach(key => {
+      if (typeof raw?.[key] === 'string' && PARAMETER_QUANTITIES[key].units.includes(raw[key])) preferences[key] = raw[key];
+    });
+    return preferences;
+  } catch {
+    return {};
+  }
+}
+
+export function saveUnitPreferences(preferences: UnitPreferences, storage: Storage = localStorage): void {
+  storage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+}
+
+// Each term of a balance must have the units of the balance itself; checked
+// from PARAMETER_UNITS so a mislabelled unit shows up here
+function checkBalanceDimensions(): ParameterIssue[] {
+  const d = (key: CSTRParameterKey) => parseUnit(PARAMETER_UNITS[key]).dimension;
+  const product = (...factors: Dimension[]) => factors.reduce(multiplyDimensions);
+  const volume = parseUnit('m³').dimension;
+  const temperature = parseUnit('K').dimension;
+  const rate = parseUnit('mol/(m³·s)').dimension;
+  const power = parseUnit('W').dimension;
+  const heatFlow = product(d('density'), d('heatCapacity'), d('inletFlowRate'), temperature);
+
+  const terms: { key: CSTRParameterKey; what: string; dimension: Dimension; expected: Dimension }[] = [
+    { key: 'inletFlowRate', what: 'F0 − KV·(V − Vmin)', dimension: d('inletFlowRate'), expected: product(d('valveConstant'), volume) },
+    { key: 'feedConcentration', what: 'F0·CA0 against V·r', dimension: product(d('inletFlowRate'), d('feedConcentration')), expected: product(volume, rate) },
+    { key: 'heatOfReaction', what: 'λ·V·r against ρ·Cp·F0·T0', dimension: product(d('heatOfReaction'), volume, rate), expected: heatFlow },
+    { key: 'heatTransferCoeff', what: 'U·AH·(T − TJ) against ρ·Cp·F0·T0', dimension: product(d('heatTransferCoeff'), d('heatTransferArea'), temperature), expected: heatFlow },
+    { key: 'jacketHeatCapacity', what: 'FJ·ρJ·CJ·TJ0 in W', dimension: product(d('jacketFlowRate'), d('jacketDensity'), d('jacketHeatCapacity'), temperature), expected: power },
+    { key: 'activationEnergy', what: 'E/(R·T)', dimension: divideDimensions(d('activationEnergy'), product(d('gasConstant'), temperature)), expected: parseUnit('-').dimension }
+  ];
+  return terms
+    .filter(term => !dimensionsEqual(term.dimension, term.expected))
+    .map(term => ({
+      key: term.key,
+      severity: 'error',
+      message: `${term.what} has units ${formatDimension(term.dimension)}, expected ${formatDimension(term.expected)}`
+    }));
+}
+
+// Another unit in which the value would have been plausible, e.g. 4.18 read as kJ/(kg·K)
+function likelySlip(key: CSTRParameterKey, value: number): string | null {
+  const { units, plausible } = PARAMETER_QUANTITIES[key];
+  if (!plausible) return null;
+  const stored = PARAMETER_UNITS[key];
+  for (const unit of units.slice(1)) {
+    const reading = convertUnit(value, unit, stored);
+    if (reading >= plausible[0] && reading <= plausible[1]) {
+      return `looks like it is in ${unit}; did you mean ${formatQuantity({ value: reading, unit: stored })}?`;
+    }
+  }
+  return null;
+}
+
+// Dimensional consistency of the model and rate law, values the model cannot
+// run with, and values outside the usual physical range
+export function checkParameters(params: CSTRParameters): ParameterIssue[] {
+  const issues = checkBalanceDimensions();
+
+  if (params.rateLaw) {
+    try {
+      const note = checkRateLawUnits(params.rateLaw, params);
+      if (note) issues.push({ key: 'rateLaw', severity: 'warning', message: note });
+    } catch (error) {
+      issues.push({ key: 'rateLaw', severity: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  CSTR_PARAMETER_KEYS.forEach(key => {
+    const { label, plausible, positive } = PARAMETER_QUANTITIES[key];
+    const value = params[key];
+    const shown = formatQuantity({ value, unit: PARAMETER_UNITS[key] });
+    if (!Number.isFinite(value)) {
+      issues.push({ key, severity: 'error', message: `${label} is not a number` });
+    } else if (positive && value <= 0) {
+      issues.push({ key, severity: 'error', message: `${label} must be positive (${shown})` });
+    } else if (plausible && (value < plausible[0] || value > plausible[1])) {
+      const slip = likelySlip(key, value);
+      issues.push({
+        key,
+        severity: 'warning',
+        message: slip
+          ? `${label} = ${shown} ${slip}`
+          : `${label} = ${shown} is outside the usual range ${formatQuantity({ value: plausible[0], unit: PARAMETER_UNITS[key] })} to ${formatQuantity({ value: plausible[1], unit: PARAMETER_UNITS[key] })}`
+      });
+    }
+  });
+
+  if (params.minimumVolume >= params.vesselVolume) {
+    issues.push({ key: 'minimumVolume', severity: 'error', message: 'The outlet nozzle (Vmin) must sit below the overflow weir (Vmax)' });
+  }
+  if (params.weirLength === 0) {
+    issues.push({ key: 'weirLength', severity: 'warning', message: 'Without an overflow weir nothing limits the volume above Vmax' });
+  }
+
+  return issues;
+}
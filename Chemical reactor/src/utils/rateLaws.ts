@@ -0,0 +1,436 @@
+// Pluggable reaction rate laws. Every law scales with the Arrhenius rate
+// constant k(T) = α·exp(−E/RT) of CSTRParameters; the law decides how the
+// rate depends on concentration and, for reversible reactions, equilibrium.
+import { CSTRParameterKey, CSTRParameters, CSTRState, PARAMETER_UNITS, STATE_UNITS } from './cstrModel';
+import {
+  differentiate,
+  evaluateExpression,
+  expressionDimension,
+  ExpressionError,
+  ExpressionNode,
+  expressionVariables,
+  parseExpression,
+  substituteVariables
+} from './expression';
+import { Dimension, dimensionsEqual, divideDimensions, formatDimension, parseUnit, powerDimension, UnitError } from './units';
+
+export type RateLawType = 'power-law' | 'reversible' | 'langmuir-hinshelwood' | 'michaelis-menten' | 'expression';
+
+export interface RateLaw {
+  type: RateLawType;
+  constants: Record<string, number>; // law-specific values keyed by RateLawConstant.key
+  expression?: string;               // rate in mol/(m³·s), only for 'expression'
+  units?: Record<string, string>;    // units of expression constants, e.g. { K: 'm³/mol' }
+}
+
+export interface RateLawConstant {
+  key: string;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+}
+
+export interface RateLawDefinition {
+  label: string;
+  formula: string;
+  usesOrder: boolean;           // whether the reaction order n appears
+  constants: RateLawConstant[];
+}
+
+export class RateLawError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateLawError';
+  }
+}
+
+export const RATE_LAWS: Record<RateLawType, RateLawDefinition> = {
+  'power-law': {
+    label: 'Power law',
+    formula: 'r = k(T)·CA^n',
+    usesOrder: true,
+    constants: []
+  },
+  reversible: {
+    label: 'Reversible A ⇌ B',
+    formula: 'r = k(T)·(CA^n − CB/K(T)),  K(T) = K_ref·exp(−λ/R·(1/T − 1/T_ref)),  CB = CA0 − CA',
+    usesOrder: true,
+    constants: [
+      { key: 'equilibriumConstant', label: 'Equilibrium Constant (K_ref)', unit: '(mol/m³)^(n−1)', min: 0.1, max: 100, step: 0.1, defaultValue: 10 },
+      { key: 'referenceTemperature', label: 'Reference Temperature (T_ref)', unit: 'K', min: 280, max: 450, step: 5, defaultValue: 350 }
+    ]
+  },
+  'langmuir-hinshelwood': {
+    label: 'Langmuir-Hinshelwood',
+    formula: 'r = k(T)·CA^n / (1 + K_A·CA)^m',
+    usesOrder: true,
+    constants: [
+      { key: 'adsorptionConstant', label: 'Adsorption Constant (K_A)', unit: 'm³/mol', min: 0, max: 10, step: 0.1, defaultValue: 1 },
+      { key: 'inhibitionOrder', label: 'Inhibition Order (m)', unit: '', min: 1, max: 3, step: 1, defaultValue: 2 }
+    ]
+  },
+  'michaelis-menten': {
+    label: 'Michaelis-Menten',
+    formula: 'r = k(T)·CA / (K_M + CA),  k(T) is the maximum rate',
+    usesOrder: false,
+    constants: [
+      { key: 'michaelisConstant', label: 'Michaelis Constant (K_M)', unit: 'mol/m³', min: 0.01, max: 2, step: 0.01, defaultValue: 0.1 }
+    ]
+  },
+  expression: {
+    label: 'Custom expression',
+    formula: 'r = your expression in mol/(m³·s)',
+    usesOrder: false,
+    constants: []
+  }
+};
+
+export const DEFAULT_RATE_LAW: RateLaw = { type: 'power-law', constants: {} };
+
+export const DEFAULT_RATE_EXPRESSION = 'k*CA^n';
+
+// A law of the given type with its constants at their defaults
+export function createRateLaw(type: RateLawType): RateLaw {
+  const constants = Object.fromEntries(RATE_LAWS[type].constants.map(c => [c.key, c.defaultValue]));
+  return type === 'expression' ? { type, constants, expression: DEFAULT_RATE_EXPRESSION } : { type, constants };
+}
+
+// Names expressions use for the state and parameters, following the MATLAB reference
+export const STATE_SYMBOLS: Record<keyof CSTRState, string> = {
+  volume: 'V',
+  concentration: 'CA',
+  temperature: 'T',
+  jacketTemp: 'TJ',
+  time: 't'
+};
+
+export const PARAMETER_SYMBOLS: Record<CSTRParameterKey, string> = {
+  inletFlowRate: 'F0',
+  feedConcentration: 'CA0',
+  feedTemperature: 'T0',
+  jacketInletTemp: 'TJ0',
+  valveConstant: 'KV',
+  minimumVolume: 'Vmin',
+  vesselVolume: 'Vmax',
+  vesselArea: 'Avessel',
+  weirLength: 'Lw',
+  preExponentialFactor: 'alpha',
+  activationEnergy: 'E',
+  gasConstant: 'R',
+  reactionOrder: 'n',
+  density: 'rho',
+  heatCapacity: 'Cp',
+  heatOfReaction: 'lambda',
+  heatTransferCoeff: 'U',
+  heatTransferArea: 'AH',
+  jacketDensity: 'rhoJ',
+  jacketHeatCapacity: 'CJ',
+  jacketVolume: 'VJ',
+  jacketFlowRate: 'FJ'
+};
+
+// Shorthands: k = α·exp(−E/(R·T)) and k0 = α. Expressions are rewritten
+// in terms of the symbols above, so derivatives see k's dependence on T.
+const SHORTHANDS: Record<string, ExpressionNode> = {
+  k: parseExpression('alpha*exp(-E/(R*T))'),
+  k0: parseExpression('alpha')
+};
+
+// Full field names work as well as the symbols, e.g. concentration for CA
+const FIELD_ALIASES: Record<string, string> = {
+  ...STATE_SYMBOLS,
+  ...PARAMETER_SYMBOLS
+};
+
+export const rateConstant = (params: CSTRParameters, temperature: number): number =>
+  params.preExponentialFactor * Math.exp(-params.activationEnergy / (params.gasConstant * temperature));
+
+// Van 't Hoff: d ln K/dT = λ/(RT²), so an exothermic reaction (λ < 0)
+// shifts back towards A as the temperature rises
+export function equilibriumConstant(params: CSTRParameters, law: RateLaw, temperature: number): number {
+  const { equilibriumConstant: kRef, referenceTemperature } = law.constants;
+  return kRef * Math.exp(-params.heatOfReaction / params.gasConstant * (1 / temperature - 1 / referenceTemperature));
+}
+
+// Values of the symbols and constants a compiled expression may use
+export function expressionVariableValues(params: CSTRParameters, state: CSTRState, constants: Record<string, number> = {}): Record<string, number> {
+  const values: Record<string, number> = { ...constants };
+  (Object.keys(STATE_SYMBOLS) as (keyof CSTRState)[]).forEach(key => { values[STATE_SYMBOLS[key]] = state[key]; });
+  (Object.keys(PARAMETER_SYMBOLS) as CSTRParameterKey[]).forEach(key => { values[PARAMETER_SYMBOLS[key]] = params[key]; });
+  return values;
+}
+
+const SYMBOLS = [...Object.values(STATE_SYMBOLS), ...Object.values(PARAMETER_SYMBOLS)];
+const RESERVED_NAMES = new Set([...SYMBOLS, ...Object.keys(SHORTHANDS), ...Object.keys(FIELD_ALIASES)]);
+
+// Known names that look like a mistyped one: same letters in another case,
+// or one edit away
+function suggestNames(name: string, candidates: string[]): string[] {
+  const distance = (a: string, b: string) => {
+    const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      let diagonal = row[0];
+      row[0] = i;
+      for (let j = 1; j <= b.length; j++) {
+        const above = row[j];
+        row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+        diagonal = above;
+      }
+    }
+    return row[b.length];
+  };
+  return candidates.filter(c => c.toLowerCase() === name.toLowerCase() || (name.length > 1 && distance(c, name) === 1));
+}
+
+function findVariable(node: ExpressionNode, name: string): number {
+  switch (node.type) {
+    case 'variable': return node.name === name ? node.position : -1;
+    case 'negate': return findVariable(node.operand, name);
+    case 'binary': {
+      const left = findVariable(node.left, name);
+      return left >= 0 ? left : findVariable(node.right, name);
+    }
+    case 'call':
+      return node.args.reduce((found, arg) => found >= 0 ? found : findVariable(arg, name), -1);
+    default:
+      return -1;
+  }
+}
+
+// Parsing and checking happen once per expression and set of constant names;
+// the simulator evaluates the rate several times per step
+const compiledExpressions = new Map<string, ExpressionNode>();
+
+// Parse an expression, check that every name in it is known and rewrite it
+// in terms of the state and parameter symbols and the constants
+export function compileRateExpression(expression: string, constants: Record<string, number> = {}): ExpressionNode {
+  const names = Object.keys(constants);
+  const cacheKey = [expression, ...names].join('\u0000');
+  const cached = compiledExpressions.get(cacheKey);
+  if (cached) return cached;
+
+  names.forEach(name => {
+    if (RESERVED_NAMES.has(name)) throw new ExpressionError(`Constant '${name}' would hide the built-in symbol of that name`, 0);
+  });
+  const parsed = parseExpression(expression);
+  const known = [...RESERVED_NAMES, ...names];
+  const unknown = expressionVariables(parsed).find(name => !known.includes(name));
+  if (unknown) {
+    const position = findVariable(parsed, unknown);
+    const suggestions = suggestNames(unknown, known);
+    throw new ExpressionError(
+      `Unknown identifier '${unknown}' at position ${position + 1}` +
+      (suggestions.length > 0 ? `; did you mean ${suggestions.map(n => `'${n}'`).join(' or ')}?` : '; define it under Constants'),
+      position
+    );
+  }
+
+  const aliases = Object.fromEntries(Object.entries(FIELD_ALIASES).map(([field, symbol]) => [field, parseExpression(symbol)]));
+  const node = substituteVariables(parsed, { ...aliases, ...SHORTHANDS });
+  compiledExpressions.set(cacheKey, node);
+  return node;
+}
+
+// Units of every symbol, with α and k taking the units that make k·CA^n a
+// rate at the current n. Constants without a declared unit are unknown.
+function symbolDimensions(params: CSTRParameters, law: RateLaw): Record<string, Dimension | null> {
+  const dimensions: Record<string, Dimension | null> = {};
+  (Object.keys(STATE_SYMBOLS) as (keyof CSTRState)[]).forEach(key => {
+    dimensions[STATE_SYMBOLS[key]] = parseUnit(STATE_UNITS[key]).dimension;
+  });
+  (Object.keys(PARAMETER_SYMBOLS) as CSTRParameterKey[]).forEach(key => {
+    dimensions[PARAMETER_SYMBOLS[key]] = parseUnit(PARAMETER_UNITS[key]).dimension;
+  });
+  dimensions[PARAMETER_SYMBOLS.preExponentialFactor] = divideDimensions(
+    powerDimension(parseUnit('mol/m³').dimension, 1 - params.reactionOrder),
+    parseUnit('s').dimension
+  );
+  Object.keys(law.constants).forEach(name => {
+    const unit = law.units?.[name];
+    dimensions[name] = unit === undefined ? null : parseUnit(unit).dimension;
+  });
+  return dimensions;
+}
+
+const RATE_DIMENSION = () => parseUnit('mol/(m³·s)').dimension;
+
+// Check that an expression law gives a rate in mol/(m³·s). Throws an
+// ExpressionError when the units are provably wrong; returns a note when
+// constants without units leave part of the expression unverified.
+export function checkRateLawUnits(law: RateLaw, params: CSTRParameters): string | null {
+  if (law.type !== 'expression') return null;
+  const node = compileRateExpression(law.expression ?? DEFAULT_RATE_EXPRESSION, law.constants);
+  const values = expressionVariableValues(params, { volume: 1, concentration: 1, temperature: 1, jacketTemp: 1, time: 0 }, law.constants);
+  let dimension: Dimension | null;
+  try {
+    dimension = expressionDimension(node, symbolDimensions(params, law), values);
+  } catch (error) {
+    if (error instanceof UnitError) throw new ExpressionError(error.message, 0);
+    throw error;
+  }
+  if (dimension && !dimensionsEqual(dimension, RATE_DIMENSION())) {
+    throw new ExpressionError(
+      `The expression has units ${formatDimension(dimension)} but a rate must be in mol/(m³·s)` +
+      ` (α is in ${formatDimension(symbolDimensions(params, law).alpha!)} for n = ${params.reactionOrder})`,
+      0
+    );
+  }
+  const used = expressionVariables(node);
+  const unitless = Object.keys(law.constants).filter(name => used.includes(name) && law.units?.[name] === undefined);
+  if (!dimension || unitless.length > 0) {
+    return `Units not fully checked: give ${unitless.map(n => `'${n}'`).join(', ')} a unit, e.g. K = 2 [m³/mol]`;
+  }
+  return null;
+}
+
+// Reaction rate in mol/(m³·s) under the law in params.rateLaw, the power
+// law when none is set. The four-state model has no product balance, so the
+// reversible law takes CB as the converted feed, CA0 − CA.
+export function reactionRate(params: CSTRParameters, state: CSTRState): number {
+  const law = params.rateLaw ?? DEFAULT_RATE_LAW;
+  const k = rateConstant(params, state.temperature);
+  const ca = state.concentration;
+  switch (law.type) {
+    case 'power-law':
+      return k * Math.pow(ca, params.reactionOrder);
+    case 'reversible': {
+      const cb = Math.max(0, params.feedConcentration - ca);
+      return k * (Math.pow(ca, params.reactionOrder) - cb / equilibriumConstant(params, law, state.temperature));
+    }
+    case 'langmuir-hinshelwood':
+      return k * Math.pow(ca, params.reactionOrder) /
+        Math.pow(1 + law.constants.adsorptionConstant * ca, law.constants.inhibitionOrder);
+    case 'michaelis-menten':
+      return k * ca / (law.constants.michaelisConstant + ca);
+    case 'expression':
+      return evaluateExpression(
+        compileRateExpression(law.expression ?? DEFAULT_RATE_EXPRESSION, law.constants),
+        expressionVariableValues(params, state, law.constants)
+      );
+  }
+}
+
+// Partial derivatives of the rate with respect to the state variables
+export type RateGradient = Record<Exclude<keyof CSTRState, 'time'>, number>;
+
+const derivativeCache = new WeakMap<ExpressionNode, Record<string, ExpressionNode>>();
+
+function expressionDerivative(node: ExpressionNode, symbol: string): ExpressionNode {
+  let derivatives = derivativeCache.get(node);
+  if (!derivatives) {
+    derivatives = {};
+    derivativeCache.set(node, derivatives);
+  }
+  return derivatives[symbol] ??= differentiate(node, symbol);
+}
+
+// Analytic ∂r/∂(V, CA, T, TJ) for the model Jacobian. Only expressions can
+// depend on V or TJ; every built-in law has ∂r/∂T = r·E/(RT²) from k(T)
+// plus, for the reversible law, the van 't Hoff shift of K.
+export function reactionRateGradient(params: CSTRParameters, state: CSTRState): RateGradient {
+  const law = params.rateLaw ?? DEFAULT_RATE_LAW;
+  const { temperature: T, concentration: ca } = state;
+  const n = params.reactionOrder;
+  const k = rateConstant(params, T);
+  const r = reactionRate(params, state);
+  const arrhenius = params.activationEnergy / (params.gasConstant * T * T);
+
+  switch (law.type) {
+    case 'power-law':
+      return { volume: 0, concentration: k * n * Math.pow(ca, n - 1), temperature: r * arrhenius, jacketTemp: 0 };
+    case 'reversible': {
+      const cb = Math.max(0, params.feedConcentration - ca);
+      const K = equilibriumConstant(params, law, T);
+      const vantHoff = params.heatOfReaction / (params.gasConstant * T * T);
+      return {
+        volume: 0,
+        concentration: k * (n * Math.pow(ca, n - 1) + (cb > 0 ? 1 / K : 0)),
+        temperature: r * arrhenius + k * cb / K * vantHoff,
+        jacketTemp: 0
+      };
+    }
+    case 'langmuir-hinshelwood': {
+      const { adsorptionConstant: KA, inhibitionOrder: m } = law.constants;
+      const inhibition = 1 + KA * ca;
+      return {
+        volume: 0,
+        concentration: k * (n * Math.pow(ca, n - 1) / Math.pow(inhibition, m) - m * KA * Math.pow(ca, n) / Math.pow(inhibition, m + 1)),
+        temperature: r * arrhenius,
+        jacketTemp: 0
+      };
+    }
+    case 'michaelis-menten': {
+      const KM = law.constants.michaelisConstant;
+      return { volume: 0, concentration: k * KM / Math.pow(KM + ca, 2), temperature: r * arrhenius, jacketTemp: 0 };
+    }
+    case 'expression': {
+      const node = compileRateExpression(law.expression ?? DEFAULT_RATE_EXPRESSION, law.constants);
+      const values = expressionVariableValues(params, state, law.constants);
+      const partial = (key: keyof RateGradient) => evaluateExpression(expressionDerivative(node, STATE_SYMBOLS[key]), values);
+      return {
+        volume: partial('volume'),
+        concentration: partial('concentration'),
+        temperature: partial('temperature'),
+        jacketTemp: partial('jacketTemp')
+      };
+    }
+  }
+}
+
+const KINETIC_PARAMETER_KEYS: CSTRParameterKey[] = ['preExponentialFactor', 'activationEnergy', 'reactionOrder'];
+
+// Kinetic parameters of CSTRParameters that a law reads, in slider order
+export function rateLawParameterKeys(law: RateLaw): CSTRParameterKey[] {
+  if (law.type === 'expression') {
+    const names = expressionVariables(compileRateExpression(law.expression ?? DEFAULT_RATE_EXPRESSION, law.constants));
+    return KINETIC_PARAMETER_KEYS.filter(key => names.includes(PARAMETER_SYMBOLS[key]));
+  }
+  return RATE_LAWS[law.type].usesOrder
+    ? KINETIC_PARAMETER_KEYS
+    : KINETIC_PARAMETER_KEYS.filter(key => key !== 'reactionOrder');
+}
+
+// One line for logs and exports, e.g. "Michaelis-Menten (michaelisConstant = 0.1)"
+export function describeRateLaw(law: RateLaw): string {
+  const details = [
+    ...(law.type === 'expression' ? [`r = ${law.expression ?? DEFAULT_RATE_EXPRESSION}`] : []),
+    ...Object.entries(law.constants).map(([key, value]) => law.units?.[key] !== undefined ? `${key} = ${value} ${law.units[key]}` : `${key} = ${value}`)
+  ];
+  return details.length > 0 ? `${RATE_LAWS[law.type].label} (${details.join(', ')})` : RATE_LAWS[law.type].label;
+}
+
+// Check a rate law read from a file or link
+export function parseRateLaw(raw: unknown): RateLaw {
+  if (typeof raw !== 'object' || raw === null) throw new RateLawError('Rate law must be an object');
+  const law = raw as Record<string, unknown>;
+  if (typeof law.type !== 'string' || !Object.prototype.hasOwnProperty.call(RATE_LAWS, law.type)) {
+    throw new RateLawError(`Unknown rate law type: ${String(law.type)}`);
+  }
+  const type = law.type as RateLawType;
+  const rawConstants = (law.constants ?? {}) as Record<string, unknown>;
+  const constants: Record<string, number> = {};
+  Object.entries(rawConstants).forEach(([key, value]) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new RateLawError(`Rate law constant ${key} must be a finite number`);
+    }
+    constants[key] = value;
+  });
+  RATE_LAWS[type].constants.forEach(c => {
+    if (constants[c.key] === undefined) constants[c.key] = c.defaultValue;
+  });
+  if (type !== 'expression') return { type, constants };
+  if (typeof law.expression !== 'string') throw new RateLawError('An expression rate law needs an expression');
+  compileRateExpression(law.expression, constants);
+  const units: Record<string, string> = {};
+  Object.entries((law.units ?? {}) as Record<string, unknown>).forEach(([key, unit]) => {
+    if (typeof unit !== 'string') throw new RateLawError(`Unit of constant ${key} must be a string`);
+    parseUnit(unit);
+    units[key] = unit;
+  });
+  return Object.keys(units).length > 0
+    ? { type, constants, expression: law.expression, units }
+    : { type, constants, expression: law.expression };
+}
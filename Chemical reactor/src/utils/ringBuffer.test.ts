@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { RingBuffer } from './ringBuffer';
+
+describe('RingBuffer', () => {
+  it('keeps the newest values, oldest first', () => {
+    const buffer = new RingBuffer(3);
+    expect(buffer.toArray()).toEqual([]);
+    expect(buffer.last()).toBeUndefined();
+    [1, 2].forEach(value => buffer.push(value));
+    expect(buffer.toArray()).toEqual([1, 2]);
+    [3, 4, 5].forEach(value => buffer.push(value));
+    expect(buffer.toArray()).toEqual([3, 4, 5]);
+    expect(buffer.length).toBe(3);
+    expect(buffer.last()).toBe(5);
+  });
+
+  it('starts over when cleared', () => {
+    const buffer = new RingBuffer(2);
+    [1, 2, 3].forEach(value => buffer.push(value));
+    buffer.clear();
+    buffer.push(4);
+    expect(buffer.toArray()).toEqual([4]);
+  });
+
+  it('needs a positive whole capacity', () => {
+    expect(() => new RingBuffer(0)).toThrow();
+    expect(() => new RingBuffer(1.5)).toThrow();
+  });
+});
@@ -0,0 +1,51 @@
+// Fixed-capacity buffer of the most recent values. Pushing onto a full
+// buffer overwrites the oldest value, so live trends cost the same however
+// long a run goes and nothing is copied per sample.
+export class RingBuffer {
+  private values: Float64Array;
+  private start = 0;
+  private count = 0;
+
+  constructor(capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error(`Ring buffer capacity must be a positive integer, got ${capacity}`);
+    }
+    this.values = new Float64Array(capacity);
+  }
+
+  public push(value: number): void {
+    const capacity = this.values.length;
+    if (this.count < capacity) {
+      this.values[(this.start + this.count) % capacity] = value;
+      this.count++;
+    } else {
+      this.values[this.start] = value;
+      this.start = (this.start + 1) % capacity;
+    }
+  }
+
+  public get length(): number {
+    return this.count;
+  }
+
+  public getCapacity(): number {
+    return this.values.length;
+  }
+
+  public clear(): void {
+    this.start = 0;
+    this.count = 0;
+  }
+
+  // Newest value, or undefined when empty
+  public last(): number | undefined {
+    return this.count > 0 ? this.values[(this.start + this.count - 1) % this.values.length] : undefined;
+  }
+
+  // Values oldest first
+  public toArray(): number[] {
+    const result = new Array<number>(this.count);
+    for (let i = 0; i < this.count; i++) result[i] = this.values[(this.start + i) % this.values.length];
+    return result;
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { CSTRParameters, CSTRSimulator } from './cstrModel';
+import { REFERENCE_PARAMETERS } from './presets';
+import { MAX_SAMPLES, RunRecorder } from './runRecorder';
+
+// Just enough of a simulator for the recorder, with the jacket flow moving
+// every step as a control loop would move it
+function fakeSimulator() {
+  let time = 0;
+  let params: CSTRParameters = { ...REFERENCE_PARAMETERS };
+  const simulator = {
+    getState: () => ({ volume: 1, concentration: 0.5, temperature: 350 + time, jacketTemp: 300, time }),
+    getParameters: () => params,
+    getConversion: () => 0,
+    getReactionRate: () => 0,
+    getOutletFlow: () => 0,
+    getOverflowRate: () => 0,
+    getResidenceTime: () => 0,
+    getHeatRemovalRate: () => 0
+  } as unknown as CSTRSimulator;
+  const step = () => {
+    time = Math.round((time + 0.1) * 10) / 10;
+    params = { ...params, jacketFlowRate: Math.round(time * 10) };
+  };
+  return { simulator, step };
+}
+
+describe('RunRecorder', () => {
+  it('stores parameter changes and gives back the full set for any sample', () => {
+    const { simulator, step } = fakeSimulator();
+    const recorder = new RunRecorder();
+    for (let i = 0; i <= 200; i++) {
+      recorder.record(simulator);
+      step();
+    }
+    expect(recorder.getLength()).toBe(201);
+    [0, 63, 64, 65, 130, 200].forEach(i => {
+      expect(recorder.parametersAt(i)).toEqual({ ...REFERENCE_PARAMETERS, ...(i > 0 ? { jacketFlowRate: i } : {}) });
+    });
+  });
+
+  it('thins to every other sample past the limit and keeps the whole span', () => {
+    const { simulator, step } = fakeSimulator();
+    const recorder = new RunRecorder();
+    for (let i = 0; i <= MAX_SAMPLES + 10; i++) {
+      recorder.record(simulator);
+      step();
+    }
+    const time = recorder.getColumn('time');
+    expect(recorder.getLength()).toBeLessThanOrEqual(MAX_SAMPLES / 2 + 10);
+    expect(time[0]).toBe(0);
+    expect(recorder.getInterval()).toBeCloseTo(0.2, 3);
+    const index = recorder.indexNear(1234.5);
+    expect(recorder.parametersAt(index).jacketFlowRate).toBe(Math.round(time[index] * 10));
+  });
+
+  it('truncates at a time for a branched run', () => {
+    const { simulator, step } = fakeSimulator();
+    const recorder = new RunRecorder();
+    for (let i = 0; i <= 100; i++) {
+      recorder.record(simulator);
+      step();
+    }
+    const branch = recorder.truncatedAt(5);
+    expect(branch.getLength()).toBe(51);
+    expect(branch.getColumn('time')[50]).toBe(5);
+    expect(branch.parametersAt(50).jacketFlowRate).toBe(50);
+    // The original is untouched
+    expect(recorder.getLength()).toBe(101);
+  });
+
+  it('skips samples closer than the spacing unless forced', () => {
+    const { simulator } = fakeSimulator();
+    const recorder = new RunRecorder();
+    expect(recorder.record(simulator)).toBe(true);
+    expect(recorder.record(simulator)).toBe(false);
+    expect(recorder.record(simulator, true)).toBe(false);
+  });
+});
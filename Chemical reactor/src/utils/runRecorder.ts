@@ -0,0 +1,325 @@
+// Full-run recording for export: the simulated states, their derived metrics
+// and the parameter values in effect, kept for the whole run. Every step is
+// kept until MAX_SAMPLES; after that the recording is thinned to every other
+// sample and goes on at the wider spacing, so a long run at high speed keeps
+// its whole span in bounded memory.
+import {
+  CSTR_PARAMETER_KEYS,
+  CSTRParameterKey,
+  CSTRParameters,
+  CSTRSimulator,
+  PARAMETER_UNITS,
+  sameParameters
+} from './cstrModel';
+import { describeRateLaw, RateLaw } from './rateLaws';
+
+export type RunColumn =
+  | 'time'
+  | 'volume'
+  | 'concentration'
+  | 'temperature'
+  | 'jacketTemp'
+  | 'conversion'
+  | 'reactionRate'
+  | 'outletFlow'
+  | 'overflowFlow'
+  | 'residenceTime'
+  | 'heatDuty';
+
+export const RUN_COLUMN_UNITS: Record<RunColumn, string> = {
+  time: 's',
+  volume: 'm³',
+  concentration: 'mol/m³',
+  temperature: 'K',
+  jacketTemp: 'K',
+  conversion: '%',
+  reactionRate: 'mol/(m³·s)',
+  outletFlow: 'm³/s',
+  overflowFlow: 'm³/s',
+  residenceTime: 's',
+  heatDuty: 'kW'
+};
+
+
+const RUN_COLUMNS = Object.keys(RUN_COLUMN_UNITS) as RunColumn[];
+
+export const MAX_SAMPLES = 100_000;
+// Every so many parameter entries is a full set; the ones between hold only
+// what changed, e.g. the one output a PID loop writes every step
+const KEYFRAME_INTERVAL = 64;
+
+// Index of the first sample at or after t in an increasing time column
+function firstIndexAtOrAfter(time: readonly number[], t: number): number {
+  let low = 0;
+  let high = time.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (time[mid] < t) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+// Frozen copy of a run, e.g. to overlay it on later runs
+export interface RunSnapshot {
+  columns: Record<RunColumn, number[]>;
+  initialParameters: CSTRParameters;
+}
+
+// One recorded sample with the parameters in effect for the step that led to it
+export interface RunSample {
+  index: number;
+  values: Record<RunColumn, number>;
+  parameters: CSTRParameters;
+}
+
+function parameterChanges(from: CSTRParameters, to: CSTRParameters): Partial<CSTRParameters> {
+  const changes: Partial<CSTRParameters> = {};
+  CSTR_PARAMETER_KEYS.forEach(key => {
+    if (from[key] !== to[key]) changes[key] = to[key];
+  });
+  if (from.rateLaw !== to.rateLaw) changes.rateLaw = to.rateLaw;
+  return changes;
+}
+
+export class RunRecorder {
+  private columns: Record<RunColumn, number[]>;
+  // Each sample points into a list of parameter entries, a new one only when
+  // something changed
+  private parameterEntries: Partial<CSTRParameters>[] = [];
+  private parameterIndex: number[] = [];
+  private lastParameters: CSTRParameters | null = null;
+  // Simulated time between kept samples; zero keeps every step
+  private interval = 0;
+  private startedAt = new Date();
+
+  constructor() {
+    this.columns = {} as Record<RunColumn, number[]>;
+    RUN_COLUMNS.forEach(column => { this.columns[column] = []; });
+  }
+
+  // Append the simulator's present state, unless it is closer to the last
+  // sample than the spacing allows or `force` is set; the parameters stored
+  // with it are the ones the simulator holds now, i.e. those used for the step
+  // just taken. Returns whether the sample was kept.
+  public record(simulator: CSTRSimulator, force = false): boolean {
+    const state = simulator.getState();
+    const time = this.columns.time;
+    const last = time[time.length - 1];
+    if (last !== undefined && (state.time <= last || (!force && state.time - last < this.interval - 1e-9))) return false;
+    const params = simulator.getParameters();
+    const values: Record<RunColumn, number> = {
+      time: state.time,
+      volume: state.volume,
+      concentration: state.concentration,
+      temperature: state.temperature,
+      jacketTemp: state.jacketTemp,
+      conversion: simulator.getConversion(),
+      reactionRate: simulator.getReactionRate(),
+      outletFlow: simulator.getOutletFlow(),
+      overflowFlow: simulator.getOverflowRate(),
+      residenceTime: simulator.getResidenceTime(),
+      heatDuty: simulator.getHeatRemovalRate()
+    };
+    RUN_COLUMNS.forEach(column => this.columns[column].push(values[column]));
+    this.pushParameters(params);
+    if (this.getLength() > MAX_SAMPLES) this.thin();
+    return true;
+  }
+
+  private pushParameters(params: CSTRParameters): void {
+    const last = this.lastParameters;
+    if (!last || !sameParameters(last, params)) {
+      const entries = this.parameterEntries;
+      entries.push(!last || entries.length % KEYFRAME_INTERVAL === 0 ? { ...params } : parameterChanges(last, params));
+      this.lastParameters = { ...params };
+    }
+    this.parameterIndex.push(this.parameterEntries.length - 1);
+  }
+
+  // Keep every other sample and the latest, and space later ones to match
+  private thin(): void {
+    const length = this.getLength();
+    const kept: number[] = [];
+    for (let i = 0; i < length - 1; i += 2) kept.push(i);
+    kept.push(length - 1);
+
+    const parameters = kept.map(i => this.parametersAt(i));
+    RUN_COLUMNS.forEach(column => {
+      const values = this.columns[column];
+      this.columns[column] = kept.map(i => values[i]);
+    });
+    this.parameterEntries = [];
+    this.parameterIndex = [];
+    this.lastParameters = null;
+    parameters.forEach(params => this.pushParameters(params));
+
+    const time = this.columns.time;
+    this.interval = (time[time.length - 1] - time[0]) / (time.length - 1);
+  }
+
+  // Simulated time between kept samples; grows each time the run is thinned
+  public getInterval(): number {
+    return this.interval;
+  }
+
+  public getLength(): number {
+    return this.columns.time.length;
+  }
+
+  public getColumn(column: RunColumn): readonly number[] {
+    return this.columns[column];
+  }
+
+  // The nearest full set before the sample's entry with the changes since applied
+  public parametersAt(index: number): CSTRParameters {
+    const entry = this.parameterIndex[index];
+    const keyframe = entry - (entry % KEYFRAME_INTERVAL);
+    const params = { ...this.parameterEntries[keyframe] } as CSTRParameters;
+    for (let i = keyframe + 1; i <= entry; i++) Object.assign(params, this.parameterEntries[i]);
+    return params;
+  }
+
+  public getInitialParameters(): CSTRParameters | undefined {
+    return this.getLength() > 0 ? this.parametersAt(0) : undefined;
+  }
+
+  // Index of the sample nearest t; -1 while nothing is recorded
+  public indexNear(t: number): number {
+    const time = this.columns.time;
+    const after = firstIndexAtOrAfter(time, t);
+    if (after === 0) return time.length > 0 ? 0 : -1;
+    if (after === time.length) return after - 1;
+    return time[after] - t < t - time[after - 1] ? after : after - 1;
+  }
+
+  public sample(index: number): RunSample {
+    const values = {} as Record<RunColumn, number>;
+    RUN_COLUMNS.forEach(column => { values[column] = this.columns[column][index]; });
+    return { index, values, parameters: this.parametersAt(index) };
+  }
+
+  // A recorder holding the samples up to time t, for a run branched off this
+  // one to carry on from
+  public truncatedAt(t: number): RunRecorder {
+    const length = firstIndexAtOrAfter(this.columns.time, t + 1e-9);
+    const copy = new RunRecorder();
+    RUN_COLUMNS.forEach(column => { copy.columns[column] = this.columns[column].slice(0, length); });
+    copy.parameterIndex = this.parameterIndex.slice(0, length);
+    copy.parameterEntries = this.parameterEntries.slice(0, (copy.parameterIndex[length - 1] ?? -1) + 1);
+    copy.lastParameters = length > 0 ? copy.parametersAt(length - 1) : null;
+    copy.interval = this.interval;
+    copy.startedAt = this.startedAt;
+    return copy;
+  }
+
+  // Every column thinned to about maxPoints samples, always keeping the
+  // latest, for drawing the run while it is still going. With a time range,
+  // only the samples in it plus one either side, so lines reach the edges.
+  public preview(maxPoints: number, from = -Infinity, to = Infinity): Record<RunColumn, number[]> {
+    const time = this.columns.time;
+    const first = Math.max(0, firstIndexAtOrAfter(time, from) - 1);
+    const end = Math.min(time.length, firstIndexAtOrAfter(time, to) + 1);
+    const stride = Math.max(1, Math.ceil((end - first) / maxPoints));
+    const indices: number[] = [];
+    for (let i = first; i < end; i += stride) indices.push(i);
+    if (end > first && indices[indices.length - 1] !== end - 1) indices.push(end - 1);
+    const columns = {} as Record<RunColumn, number[]>;
+    RUN_COLUMNS.forEach(column => { columns[column] = indices.map(i => this.columns[column][i]); });
+    return columns;
+  }
+
+  public snapshot(): RunSnapshot {
+    const columns = {} as Record<RunColumn, number[]>;
+    RUN_COLUMNS.forEach(column => { columns[column] = [...this.columns[column]]; });
+    return { columns, initialParameters: this.parametersAt(0) };
+  }
+
+  // The distinct rate laws of the run, null for the power law, and for every
+  // sample the index of the one in effect
+  private rateLawTable(): { laws: (RateLaw | null)[]; index: number[] } {
+    const keys: string[] = [];
+    const laws: (RateLaw | null)[] = [];
+    const index: number[] = [];
+    let previous: RateLaw | undefined | null = null;
+    for (let i = 0; i < this.getLength(); i++) {
+      const law = this.parametersAt(i).rateLaw;
+      if (i > 0 && law === previous) {
+        index.push(index[i - 1]);
+        continue;
+      }
+      previous = law;
+      const key = JSON.stringify(law ?? null);
+      if (!keys.includes(key)) {
+        keys.push(key);
+        laws.push(law ?? null);
+      }
+      index.push(keys.indexOf(key));
+    }
+    return { laws, index };
+  }
+
+  // One row per sample with every parameter as a column; the parameters at the
+  // start of the run and any notes, such as the alarm log, are repeated as
+  // '#' comment lines above the table. The rateLaw column indexes the rate
+  // laws listed as JSON in the comments.
+  public toCSV(metadata: Record<string, string> = {}, notes: string[] = []): string {
+    const lines = [
+      '# CSTR simulation run',
+      `# started: ${this.startedAt.toISOString()}`,
+      ...Object.entries(metadata).map(([key, value]) => `# ${key}: ${value}`),
+      `# samples: ${this.getLength()}`
+    ];
+    const initial = this.getInitialParameters();
+    if (initial) {
+      lines.push('# initial parameters:');
+      CSTR_PARAMETER_KEYS.forEach(key => lines.push(`#   ${key} = ${initial[key]} ${PARAMETER_UNITS[key]}`));
+      if (initial.rateLaw) lines.push(`#   rateLaw = ${describeRateLaw(initial.rateLaw)}`);
+    }
+    const rateLaws = this.rateLawTable();
+    lines.push('# rate laws by rateLaw column value, as JSON (null is the power law):');
+    rateLaws.laws.forEach((law, i) => lines.push(`#   ${i} = ${JSON.stringify(law)}`));
+    notes.forEach(note => lines.push(`# ${note}`));
+
+    lines.push([
+      ...RUN_COLUMNS.map(column => `${column} [${RUN_COLUMN_UNITS[column]}]`),
+      ...CSTR_PARAMETER_KEYS.map(key => `${key} [${PARAMETER_UNITS[key]}]`),
+      'rateLaw'
+    ].join(','));
+
+    for (let i = 0; i < this.getLength(); i++) {
+      const params = this.parametersAt(i);
+      lines.push([
+        ...RUN_COLUMNS.map(column => String(this.columns[column][i])),
+        ...CSTR_PARAMETER_KEYS.map(key => String(params[key])),
+        String(rateLaws.index[i])
+      ].join(','));
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  // Column-oriented so MATLAB's jsondecode and pandas read it as arrays;
+  // attachments such as the alarm log go in as further top-level fields.
+  // The rateLaw parameter column indexes rateLaws, as in the CSV.
+  public toJSON(metadata: Record<string, string> = {}, attachments: Record<string, unknown> = {}): string {
+    const rateLaws = this.rateLawTable();
+    const parameters = {} as Record<CSTRParameterKey | 'rateLaw', number[]>;
+    parameters.rateLaw = rateLaws.index;
+    CSTR_PARAMETER_KEYS.forEach(key => { parameters[key] = []; });
+    for (let i = 0; i < this.getLength(); i++) {
+      const params = this.parametersAt(i);
+      CSTR_PARAMETER_KEYS.forEach(key => parameters[key].push(params[key]));
+    }
+    return JSON.stringify({
+      description: 'CSTR simulation run',
+      startedAt: this.startedAt.toISOString(),
+      ...metadata,
+      samples: this.getLength(),
+      initialParameters: this.getInitialParameters() ?? null,
+      rateLaws: rateLaws.laws,
+      units: { ...RUN_COLUMN_UNITS, parameters: PARAMETER_UNITS },
+      data: { ...this.columns, parameters },
+      ...attachments
+    });
+  }
+}
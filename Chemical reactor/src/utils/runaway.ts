@@ -0,0 +1,66 @@
+// Thermal runaway indicators for the current operating point: adiabatic
+// temperature rise, adiabatic time to maximum rate and the Semenov / van
+// Heerden slope criterion comparing heat generation with heat removal
+import { CSTRParameters, CSTRState, outletFlows } from './cstrModel';
+import { reactionRate, reactionRateGradient } from './rateLaws';
+
+export type RunawayRisk = 'low' | 'elevated' | 'runaway';
+
+export interface RunawayAssessment {
+  adiabaticRise: number;            // K, full conversion of the feed
+  remainingAdiabaticRise: number;   // K, reacting what is in the reactor now
+  maxAttainableTemperature: number; // K, T plus the remaining rise if cooling fails
+  heatGeneration: number;           // W
+  timeToMaxRate: number;            // s, adiabatic; Infinity without heat release
+  heatGenerationSlope: number;      // W/K
+  heatRemovalSlope: number;         // W/K
+  semenovNumber: number;            // generation slope / removal slope; above 1 heat generation outruns removal
+  risk: RunawayRisk;
+}
+
+// Semenov's critical value for a reaction without reactant consumption; above
+// it the heat generation curve no longer crosses the removal line safely
+export const SEMENOV_CRITICAL = 1 / Math.E;
+
+// ρ·Cp of the reactor contents, J/(m³·K)
+const volumetricHeatCapacity = (params: CSTRParameters) => params.density * params.heatCapacity;
+
+export const adiabaticTemperatureRise = (params: CSTRParameters, concentration: number = params.feedConcentration): number =>
+  -params.heatOfReaction * concentration / volumetricHeatCapacity(params);
+
+export function assessRunaway(params: CSTRParameters, state: CSTRState): RunawayAssessment {
+  const rate = reactionRate(params, state);
+  const gradient = reactionRateGradient(params, state);
+  const rateSlope = gradient.temperature;
+  const heatRelease = -params.heatOfReaction;   // J/mol, positive when exothermic
+  const flows = outletFlows(params, state.volume);
+  const outletFlow = flows.valve + flows.overflow;
+
+  const remainingAdiabaticRise = Math.max(0, adiabaticTemperatureRise(params, state.concentration));
+  // Zero-order adiabatic estimate TMR = ρCp·R·T²/(λ·r·E), written with ∂r/∂T
+  // in place of r·E/(R·T²) so it holds for any rate law
+  const selfHeatingSlope = heatRelease * rateSlope / volumetricHeatCapacity(params);   // 1/s
+  const timeToMaxRate = selfHeatingSlope > 0 ? 1 / selfHeatingSlope : Infinity;
+
+  // With flow through the reactor a hotter reactor also holds less reactant:
+  // along the mass balance dCA/dT = −r_T/(F/V + r_CA), which scales the
+  // generation slope by (F/V)/(F/V + r_CA). Without flow this is Semenov's
+  // criterion with no reactant consumption, the conservative batch case.
+  const dilutionRate = outletFlow / state.volume;
+  const consumption = dilutionRate > 0 ? dilutionRate / (dilutionRate + Math.max(0, gradient.concentration)) : 1;
+  const heatGenerationSlope = heatRelease * state.volume * rateSlope * consumption;
+  const heatRemovalSlope = params.heatTransferCoeff * params.heatTransferArea + volumetricHeatCapacity(params) * outletFlow;
+  const semenovNumber = heatRemovalSlope > 0 ? heatGenerationSlope / heatRemovalSlope : heatGenerationSlope > 0 ? Infinity : 0;
+
+  return {
+    adiabaticRise: adiabaticTemperatureRise(params),
+    remainingAdiabaticRise,
+    maxAttainableTemperature: state.temperature + remainingAdiabaticRise,
+    heatGeneration: heatRelease * state.volume * rate,
+    timeToMaxRate,
+    heatGenerationSlope,
+    heatRemovalSlope,
+    semenovNumber,
+    risk: semenovNumber >= 1 ? 'runaway' : semenovNumber >= SEMENOV_CRITICAL ? 'elevated' : 'low'
+  };
+}
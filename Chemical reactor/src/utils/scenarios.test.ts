@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { CSTRSimulator } from './cstrModel';
+import { REFERENCE_INITIAL_STATE, REFERENCE_PARAMETERS } from './presets';
+import {
+  evaluateScenario,
+  EXAMPLE_SCENARIOS,
+  nextScenarioBreakpoint,
+  parseScenario,
+  Scenario,
+  ScenarioError,
+  ScenarioRunner,
+  serializeScenario
+} from './scenarios';
+
+const base = REFERENCE_PARAMETERS;
+const scenario = (events: Scenario['events']): Scenario => ({ name: 'Test', seed: 1, events });
+
+describe('evaluateScenario', () => {
+  it('steps, then pulses on top of the stepped level', () => {
+    const s = scenario([
+      { type: 'step', parameter: 'feedTemperature', start: 10, value: 370 },
+      { type: 'pulse', parameter: 'feedTemperature', start: 20, duration: 5, value: 390 }
+    ]);
+    expect(evaluateScenario(s, base, 5).feedTemperature).toBe(350);
+    expect(evaluateScenario(s, base, 10).feedTemperature).toBe(370);
+    expect(evaluateScenario(s, base, 22).feedTemperature).toBe(390);
+    expect(evaluateScenario(s, base, 25).feedTemperature).toBe(370);
+  });
+
+  it('ramps in held samples from the level at its start', () => {
+    const s = scenario([{ type: 'ramp', parameter: 'jacketInletTemp', start: 0, end: 10, value: 320 }]);
+    expect(evaluateScenario(s, base, 5).jacketInletTemp).toBeCloseTo(310);
+    expect(evaluateScenario(s, base, 5.05).jacketInletTemp).toBeCloseTo(310);
+    expect(evaluateScenario(s, base, 12).jacketInletTemp).toBe(320);
+  });
+
+  it('adds a sinusoid around the level', () => {
+    const s = scenario([{ type: 'sine', parameter: 'feedTemperature', start: 0, amplitude: 5, period: 40, end: 100 }]);
+    expect(evaluateScenario(s, base, 10).feedTemperature).toBeCloseTo(355);
+    expect(evaluateScenario(s, base, 30).feedTemperature).toBeCloseTo(345);
+    expect(evaluateScenario(s, base, 100).feedTemperature).toBe(350);
+  });
+
+  it('replays the same noise for the same seed, held over each interval', () => {
+    const s = scenario([{ type: 'noise', parameter: 'feedConcentration', start: 0, stdDev: 0.1, interval: 1 }]);
+    const a = evaluateScenario(s, base, 3.2).feedConcentration;
+    expect(evaluateScenario(s, base, 3.7).feedConcentration).toBe(a);
+    expect(evaluateScenario(s, base, 4.2).feedConcentration).not.toBe(a);
+    expect(evaluateScenario({ ...s, seed: 2 }, base, 3.2).feedConcentration).not.toBe(a);
+  });
+});
+
+describe('nextScenarioBreakpoint', () => {
+  it('finds event boundaries and sample times within ramps', () => {
+    const s = scenario([
+      { type: 'step', parameter: 'feedTemperature', start: 10, value: 370 },
+      { type: 'ramp', parameter: 'jacketInletTemp', start: 20, end: 30, value: 320 }
+    ]);
+    expect(nextScenarioBreakpoint(s, 0)).toBe(10);
+    expect(nextScenarioBreakpoint(s, 10)).toBe(20);
+    expect(nextScenarioBreakpoint(s, 20)).toBeCloseTo(20.1);
+    expect(nextScenarioBreakpoint(s, 30)).toBe(Infinity);
+  });
+});
+
+describe('ScenarioRunner', () => {
+  it('lands every change on its scheduled time', () => {
+    const simulator = new CSTRSimulator(REFERENCE_INITIAL_STATE, REFERENCE_PARAMETERS, { timeStep: 0.3 });
+    const runner = new ScenarioRunner(simulator, scenario([{ type: 'step', parameter: 'inletFlowRate', start: 1, value: 2 }]));
+    const segments: number[] = [];
+    runner.step(duration => segments.push(duration));
+    runner.step(duration => segments.push(duration));
+    runner.step(duration => segments.push(duration));
+    runner.step(duration => segments.push(duration));
+    expect(segments.map(d => +d.toFixed(9))).toEqual([0.3, 0.3, 0.3, 0.1, 0.2]);
+    expect(simulator.getParameters().inletFlowRate).toBe(2);
+  });
+});
+
+describe('parseScenario', () => {
+  it('reads back every example it wrote', () => {
+    EXAMPLE_SCENARIOS.forEach(example => expect(parseScenario(serializeScenario(example))).toEqual(example));
+  });
+
+  it('reports the first problem', () => {
+    expect(() => parseScenario('{')).toThrow(ScenarioError);
+    expect(() => parseScenario('{"events": []}')).toThrow('Scenario needs a name');
+    expect(() => parseScenario(JSON.stringify(scenario([
+      { type: 'step', parameter: 'bogus' as 'feedTemperature', start: 0, value: 1 }
+    ])))).toThrow('Event 1: unknown parameter "bogus"');
+    expect(() => parseScenario(JSON.stringify(scenario([
+      { type: 'ramp', parameter: 'feedTemperature', start: 5, end: 5, value: 1 }
+    ])))).toThrow('Event 1 end must be after start');
+  });
+});
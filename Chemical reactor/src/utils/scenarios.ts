@@ -0,0 +1,368 @@
+// Scheduled disturbance and setpoint scenarios: timed changes to CSTR
+// parameters applied at exact simulated times, stored as JSON
+import { CSTR_PARAMETER_KEYS, CSTRParameterKey, CSTRParameters, CSTRSimulator, CSTRState } from './cstrModel';
+
+export type ScenarioEventType = 'step' | 'ramp' | 'pulse' | 'sine' | 'noise';
+
+interface BaseEvent {
+  parameter: CSTRParameterKey;
+  start: number;            // s, simulated time the event begins
+}
+
+// Jump to a new value and stay there
+export interface StepEvent extends BaseEvent {
+  type: 'step';
+  value: number;
+}
+
+// Move linearly from the value at `start` to `value` at `end`
+export interface RampEvent extends BaseEvent {
+  type: 'ramp';
+  end: number;              // s
+  value: number;
+}
+
+// Hold `value` for `duration`, then return to the previous value
+export interface PulseEvent extends BaseEvent {
+  type: 'pulse';
+  duration: number;         // s
+  value: number;
+}
+
+// Add a sinusoid around the current value until `end` (or forever)
+export interface SineEvent extends BaseEvent {
+  type: 'sine';
+  end?: number;             // s
+  amplitude: number;
+  period: number;           // s
+}
+
+// Add Gaussian noise, redrawn every `interval` seconds, until `end` (or forever)
+export interface NoiseEvent extends BaseEvent {
+  type: 'noise';
+  end?: number;             // s
+  stdDev: number;
+  interval: number;         // s
+}
+
+export type ScenarioEvent = StepEvent | RampEvent | PulseEvent | SineEvent | NoiseEvent;
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  seed: number;             // noise seed; the same seed replays the same noise
+  sampleInterval?: number;  // s, update interval for ramps and sinusoids (default 0.1)
+  events: ScenarioEvent[];
+}
+
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioError';
+  }
+}
+
+export const SCENARIO_EVENT_LABELS: Record<ScenarioEventType, string> = {
+  step: 'Step',
+  ramp: 'Ramp',
+  pulse: 'Pulse',
+  sine: 'Sinusoid',
+  noise: 'Random noise'
+};
+
+const DEFAULT_SAMPLE_INTERVAL = 0.1;
+// Times closer than this are treated as equal when finding breakpoints
+const TIME_EPSILON = 1e-9;
+
+export const EXAMPLE_SCENARIOS: Scenario[] = [
+  {
+    name: 'Feed temperature step',
+    description: 'Feed temperature steps up 20 K at t = 10 s and back down at t = 60 s',
+    seed: 1,
+    events: [
+      { type: 'step', parameter: 'feedTemperature', start: 10, value: 370 },
+      { type: 'step', parameter: 'feedTemperature', start: 60, value: 350 }
+    ]
+  },
+  {
+    name: 'Coolant ramp and flow pulse',
+    description: 'Coolant inlet temperature ramps up while a feed flow pulse hits the reactor',
+    seed: 1,
+    events: [
+      { type: 'ramp', parameter: 'jacketInletTemp', start: 5, end: 35, value: 330 },
+      { type: 'pulse', parameter: 'inletFlowRate', start: 20, duration: 5, value: 2 }
+    ]
+  },
+  {
+    name: 'Noisy feed',
+    description: 'Random feed concentration noise with a slow feed temperature oscillation',
+    seed: 42,
+    events: [
+      { type: 'noise', parameter: 'feedConcentration', start: 0, stdDev: 0.05, interval: 1 },
+      { type: 'sine', parameter: 'feedTemperature', start: 0, amplitude: 5, period: 30 }
+    ]
+  }
+];
+
+// Accumulated step times drift by rounding, so times within TIME_EPSILON
+// of an event boundary count as having reached it
+const reached = (time: number, boundary: number) => time >= boundary - TIME_EPSILON;
+
+const eventEnd = (event: ScenarioEvent): number =>
+  event.type === 'step' ? event.start :
+  event.type === 'pulse' ? event.start + event.duration :
+  event.end ?? Infinity;
+
+// Deterministic standard normal sample for (seed, event, draw), so noise does
+// not depend on how the run was split into integration steps
+function gaussian(seed: number, eventIndex: number, draw: number): number {
+  let h = Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b) ^ Math.imul(eventIndex + 1, 0xc2b2ae35) ^ Math.imul(draw + 1, 0x27d4eb2f);
+  const uniform = () => {
+    // mulberry32
+    h = (h + 0x6d2b79f5) | 0;
+    let t = Math.imul(h ^ (h >>> 15), h | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const u1 = Math.max(uniform(), 1e-12);
+  const u2 = uniform();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+// Values of every scheduled parameter at time t. Events on the same parameter
+// are applied in order of start time: steps, ramps and pulses set the level,
+// sinusoids and noise add an offset to it.
+export function evaluateScenario(
+  scenario: Scenario,
+  baseline: CSTRParameters,
+  time: number
+): Partial<CSTRParameters> {
+  const sampleInterval = scenario.sampleInterval ?? DEFAULT_SAMPLE_INTERVAL;
+  const level: Partial<CSTRParameters> = {};
+  const offset: Partial<CSTRParameters> = {};
+  const ordered = scenario.events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.start - b.event.start);
+
+  ordered.forEach(({ event, index }) => {
+    const key = event.parameter;
+    const current = level[key] ?? baseline[key];
+    level[key] = current;
+    offset[key] = offset[key] ?? 0;
+    if (!reached(time, event.start)) return;
+
+    // Continuous changes are held over each sample interval
+    const sampled = event.start + Math.floor((time - event.start) / sampleInterval + TIME_EPSILON) * sampleInterval;
+    switch (event.type) {
+      case 'step':
+        level[key] = event.value;
+        break;
+      case 'ramp':
+        level[key] = reached(time, event.end)
+          ? event.value
+          : current + (event.value - current) * (sampled - event.start) / (event.end - event.start);
+        break;
+      case 'pulse':
+        if (!reached(time, eventEnd(event))) level[key] = event.value;
+        break;
+      case 'sine':
+        if (!reached(time, eventEnd(event))) {
+          offset[key]! += event.amplitude * Math.sin(2 * Math.PI * (sampled - event.start) / event.period);
+        }
+        break;
+      case 'noise':
+        if (!reached(time, eventEnd(event))) {
+          const draw = Math.floor((time - event.start) / event.interval + TIME_EPSILON);
+          offset[key]! += event.stdDev * gaussian(scenario.seed, index, draw);
+        }
+        break;
+    }
+  });
+
+  const values: Partial<CSTRParameters> = {};
+  (Object.keys(level) as (CSTRParameterKey)[]).forEach(key => {
+    values[key] = level[key]! + offset[key]!;
+  });
+  return values;
+}
+
+// First time after t at which any scheduled parameter changes value
+export function nextScenarioBreakpoint(scenario: Scenario, time: number): number {
+  const sampleInterval = scenario.sampleInterval ?? DEFAULT_SAMPLE_INTERVAL;
+  const after = time + TIME_EPSILON;
+  // Next multiple of `interval` past `after` on a grid starting at `origin`
+  const nextOnGrid = (origin: number, interval: number) =>
+    origin + (Math.floor((after - origin) / interval) + 1) * interval;
+
+  let next = Infinity;
+  scenario.events.forEach(event => {
+    const end = eventEnd(event);
+    const candidates = [event.start, end];
+    if (after >= event.start && after < end) {
+      if (event.type === 'ramp' || event.type === 'sine') candidates.push(nextOnGrid(event.start, sampleInterval));
+      if (event.type === 'noise') candidates.push(nextOnGrid(event.start, event.interval));
+    }
+    candidates.forEach(t => {
+      if (t > after && t < next) next = t;
+    });
+  });
+  return next;
+}
+
+// Drives a simulator through a scenario, splitting integration at every
+// breakpoint so changes land on their exact scheduled times
+export class ScenarioRunner {
+  private simulator: CSTRSimulator;
+  private scenario: Scenario;
+  private baseline: CSTRParameters;
+
+  constructor(simulator: CSTRSimulator, scenario: Scenario, baseline: CSTRParameters = simulator.getParameters()) {
+    this.simulator = simulator;
+    this.scenario = scenario;
+    this.baseline = { ...baseline };
+  }
+
+  public getScenario(): Scenario {
+    return this.scenario;
+  }
+
+  // The parameters the scheduled changes are made to
+  public getBaseline(): CSTRParameters {
+    return { ...this.baseline };
+  }
+
+  // Write the scheduled parameter values for time t into the simulator
+  public apply(time: number = this.simulator.getState().time): void {
+    this.simulator.updateParameters(evaluateScenario(this.scenario, this.baseline, time));
+  }
+
+  // beforeSegment runs after the scenario values are applied and before each
+  // integration segment, with the segment's length, e.g. to let controllers
+  // override their outputs for that long
+  public advanceTo(time: number, beforeSegment?: (duration: number) => void): CSTRState {
+    let state = this.simulator.getState();
+    while (time - state.time > TIME_EPSILON) {
+      const segmentEnd = Math.min(time, nextScenarioBreakpoint(this.scenario, state.time));
+      this.apply(state.time);
+      beforeSegment?.(segmentEnd - state.time);
+      state = this.simulator.advanceTo(segmentEnd);
+    }
+    return state;
+  }
+
+  public step(beforeSegment?: (duration: number) => void): CSTRState {
+    return this.advanceTo(this.simulator.getState().time + this.simulator.getTimeStep(), beforeSegment);
+  }
+}
+
+export function describeScenarioEvent(event: ScenarioEvent): string {
+  switch (event.type) {
+    case 'step':
+      return `t = ${event.start} s: ${event.parameter} → ${event.value}`;
+    case 'ramp':
+      return `t = ${event.start}–${event.end} s: ramp ${event.parameter} to ${event.value}`;
+    case 'pulse':
+      return `t = ${event.start} s: ${event.parameter} = ${event.value} for ${event.duration} s`;
+    case 'sine':
+      return `t ≥ ${event.start} s${event.end !== undefined ? ` until ${event.end} s` : ''}: ${event.parameter} ± ${event.amplitude}, period ${event.period} s`;
+    case 'noise':
+      return `t ≥ ${event.start} s${event.end !== undefined ? ` until ${event.end} s` : ''}: ${event.parameter} noise σ = ${event.stdDev} every ${event.interval} s`;
+  }
+}
+
+export function scenarioEventStatus(event: ScenarioEvent, time: number): 'pending' | 'active' | 'done' {
+  if (!reached(time, event.start)) return 'pending';
+  return reached(time, eventEnd(event)) ? 'done' : 'active';
+}
+
+export function serializeScenario(scenario: Scenario): string {
+  return JSON.stringify(scenario, null, 2);
+}
+
+// Parse and validate scenario JSON, reporting the first problem found
+export function parseScenario(text: string): Scenario {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new ScenarioError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new ScenarioError('Scenario must be a JSON object');
+  }
+  const raw = data as Record<string, unknown>;
+
+  const finite = (value: unknown, field: string): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new ScenarioError(`${field} must be a finite number`);
+    }
+    return value;
+  };
+  const positive = (value: unknown, field: string): number => {
+    const number = finite(value, field);
+    if (number <= 0) throw new ScenarioError(`${field} must be positive`);
+    return number;
+  };
+
+  if (typeof raw.name !== 'string' || raw.name.trim() === '') {
+    throw new ScenarioError('Scenario needs a name');
+  }
+  if (!Array.isArray(raw.events)) {
+    throw new ScenarioError('Scenario needs an events array');
+  }
+
+  const events = raw.events.map((item: unknown, i): ScenarioEvent => {
+    const where = `Event ${i + 1}`;
+    if (typeof item !== 'object' || item === null) throw new ScenarioError(`${where} must be an object`);
+    const e = item as Record<string, unknown>;
+    if (!CSTR_PARAMETER_KEYS.includes(e.parameter as CSTRParameterKey)) {
+      throw new ScenarioError(`${where}: unknown parameter "${String(e.parameter)}"`);
+    }
+    const parameter = e.parameter as CSTRParameterKey;
+    const start = finite(e.start, `${where} start`);
+    if (start < 0) throw new ScenarioError(`${where} start must not be negative`);
+    const optionalEnd = () => {
+      if (e.end === undefined) return undefined;
+      const end = finite(e.end, `${where} end`);
+      if (end <= start) throw new ScenarioError(`${where} end must be after start`);
+      return end;
+    };
+
+    switch (e.type) {
+      case 'step':
+        return { type: 'step', parameter, start, value: finite(e.value, `${where} value`) };
+      case 'ramp': {
+        const end = optionalEnd();
+        if (end === undefined) throw new ScenarioError(`${where}: a ramp needs an end time`);
+        return { type: 'ramp', parameter, start, end, value: finite(e.value, `${where} value`) };
+      }
+      case 'pulse':
+        return {
+          type: 'pulse', parameter, start,
+          duration: positive(e.duration, `${where} duration`),
+          value: finite(e.value, `${where} value`)
+        };
+      case 'sine':
+        return {
+          type: 'sine', parameter, start, end: optionalEnd(),
+          amplitude: finite(e.amplitude, `${where} amplitude`),
+          period: positive(e.period, `${where} period`)
+        };
+      case 'noise': {
+        const stdDev = finite(e.stdDev, `${where} stdDev`);
+        if (stdDev < 0) throw new ScenarioError(`${where} stdDev must not be negative`);
+        return { type: 'noise', parameter, start, end: optionalEnd(), stdDev, interval: positive(e.interval, `${where} interval`) };
+      }
+      default:
+        throw new ScenarioError(`${where}: unknown type "${String(e.type)}"`);
+    }
+  });
+
+  return {
+    name: raw.name,
+    description: typeof raw.description === 'string' ? raw.description : undefined,
+    seed: raw.seed === undefined ? 0 : Math.trunc(finite(raw.seed, 'seed')),
+    sampleInterval: raw.sampleInterval === undefined ? undefined : positive(raw.sampleInterval, 'sampleInterval'),
+    events
+  };
+}
@@ -0,0 +1,126 @@
+// UI side of the simulation worker: sends commands, hands snapshots to the
+// caller and turns request/reply pairs into promises
+import { CSTRParameters } from './cstrModel';
+import { MonteCarloProgress, MonteCarloResult, MonteCarloSetup } from './monteCarlo';
+import { RunSnapshot } from './runRecorder';
+import { ExportKind, SimulationCommand, SimulationMessage } from './simulationProtocol';
+
+type SnapshotMessage = Extract<SimulationMessage, { type: 'snapshot' }>;
+
+export type StudyProgressHandler = (result: MonteCarloResult, progress: MonteCarloProgress) => void;
+
+export interface SimulationClientHandlers {
+  onSnapshot: (message: SnapshotMessage) => void;
+  onSolverError: (message: string) => void;
+}
+
+export class SimulationClient {
+  private worker: Worker;
+  private handlers: SimulationClientHandlers;
+  private nextRequestId = 1;
+  private pending = new Map<number, { resolve: (message: SimulationMessage) => void; reject: (error: Error) => void }>();
+  // Progress callbacks of running studies, by request id
+  private studies = new Map<number, StudyProgressHandler>();
+
+  constructor(handlers: SimulationClientHandlers) {
+    this.handlers = handlers;
+    this.worker = new Worker(new URL('../workers/simulation.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<SimulationMessage>) => this.receive(event.data);
+    // Anything the worker did not catch: treat the run as stopped and give up
+    // on replies that may never come
+    this.worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      const message = event.message || 'The simulation worker failed';
+      this.handlers.onSolverError(message);
+      this.rejectPending(new Error(message));
+    };
+  }
+
+  private receive(message: SimulationMessage): void {
+    switch (message.type) {
+      case 'snapshot':
+        this.handlers.onSnapshot(message);
+        break;
+      case 'solverError':
+        this.handlers.onSolverError(message.message);
+        break;
+      case 'studyProgress':
+        this.studies.get(message.requestId)?.(message.result, message.progress);
+        break;
+      case 'studyDone':
+        this.studies.delete(message.requestId);
+        this.resolve(message);
+        break;
+      case 'exported':
+      case 'pinned':
+      case 'branched':
+        this.resolve(message);
+        break;
+    }
+  }
+
+  private resolve(message: Extract<SimulationMessage, { requestId: number }>): void {
+    const request = this.pending.get(message.requestId);
+    this.pending.delete(message.requestId);
+    request?.resolve(message);
+  }
+
+  private request(command: (requestId: number) => SimulationCommand): Promise<SimulationMessage> {
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject });
+      this.send(command(requestId));
+    });
+  }
+
+  private rejectPending(error: Error): void {
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+    this.studies.clear();
+  }
+
+  public send(command: SimulationCommand): void {
+    this.worker.postMessage(command);
+  }
+
+  // The whole run or the alarm log as text, ready to download
+  public async exportText(kind: ExportKind): Promise<string> {
+    const reply = await this.request(requestId => ({ type: 'export', requestId, kind }));
+    if (reply.type !== 'exported') throw new Error('The simulation worker did not return the export');
+    return reply.text;
+  }
+
+  public async pinRun(): Promise<RunSnapshot> {
+    const reply = await this.request(requestId => ({ type: 'pinRun', requestId }));
+    if (reply.type !== 'pinned') throw new Error('The simulation worker did not return the run');
+    return reply.run;
+  }
+
+  // Carry on from the recorded sample nearest `time`; resolves to the
+  // operator's parameters there
+  public async branch(time: number): Promise<CSTRParameters> {
+    const reply = await this.request(requestId => ({ type: 'branch', requestId, time }));
+    if (reply.type !== 'branched') throw new Error('The simulation worker did not branch the run');
+    return reply.parameters;
+  }
+
+  // Run a Monte Carlo study in the worker, reporting each batch of samples;
+  // resolves when it finishes or is cancelled and rejects if it cannot run
+  public async runStudy(setup: MonteCarloSetup, onProgress: StudyProgressHandler): Promise<void> {
+    const reply = await this.request(requestId => {
+      this.studies.set(requestId, onProgress);
+      return { type: 'startStudy', requestId, setup };
+    });
+    if (reply.type !== 'studyDone') throw new Error('The simulation worker did not run the study');
+    if (reply.error !== null) throw new Error(reply.error);
+  }
+
+  public cancelStudy(): void {
+    this.send({ type: 'cancelStudy' });
+  }
+
+  public terminate(): void {
+    this.worker.terminate();
+    this.rejectPending(new Error('The simulation worker was stopped'));
+  }
+}
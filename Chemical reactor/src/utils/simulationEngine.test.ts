@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ALARM_CONFIG } from './alarms';
+import { ControlConfig, DEFAULT_CONTROL_CONFIG } from './controllers';
+import { DEFAULT_INTERLOCK_CONFIG } from './interlocks';
+import { REFERENCE_INITIAL_STATE, REFERENCE_PARAMETERS } from './presets';
+import { SimulationEngine } from './simulationEngine';
+
+const engine = () => new SimulationEngine({
+  initialState: REFERENCE_INITIAL_STATE,
+  parameters: REFERENCE_PARAMETERS,
+  integrator: 'rk4',
+  controlConfig: DEFAULT_CONTROL_CONFIG,
+  interlockConfig: DEFAULT_INTERLOCK_CONFIG,
+  alarmConfig: DEFAULT_ALARM_CONFIG,
+  scenario: null
+});
+
+// A temperature loop far below the reactor temperature drives the jacket flow to its maximum
+const cooling: ControlConfig = {
+  ...DEFAULT_CONTROL_CONFIG,
+  temperature: { ...DEFAULT_CONTROL_CONFIG.temperature, enabled: true, setpoint: 250, kp: 1 }
+};
+
+describe('SimulationEngine.configureControl', () => {
+  it('hands the jacket flow back to the operator when the loop is switched off', () => {
+    const run = engine();
+    run.configureControl(cooling);
+    for (let i = 0; i < 20; i++) run.step();
+    expect(run.snapshot().parameters.jacketFlowRate).toBeCloseTo(cooling.temperature.outputMax);
+
+    run.configureControl(DEFAULT_CONTROL_CONFIG);
+    expect(run.snapshot().parameters.jacketFlowRate).toBe(REFERENCE_PARAMETERS.jacketFlowRate);
+    run.step();
+    expect(run.snapshot().parameters.jacketFlowRate).toBe(REFERENCE_PARAMETERS.jacketFlowRate);
+  });
+
+  it('keeps the loop in charge when only its tuning changes', () => {
+    const run = engine();
+    run.configureControl(cooling);
+    for (let i = 0; i < 20; i++) run.step();
+    run.configureControl({ ...cooling, temperature: { ...cooling.temperature, ki: 0.01 } });
+    expect(run.snapshot().parameters.jacketFlowRate).toBeCloseTo(cooling.temperature.outputMax);
+  });
+});
@@ -0,0 +1,489 @@
+// One live simulation run together with everything that steps along with
+// it: controllers, interlocks, a running scenario, the run recording, alarms
+// and the trends shown while it runs. Free of React and the DOM so it can run
+// in a worker; the UI sees it only through snapshot().
+import { CSTRParameters, CSTRSimulator, CSTRState, FlowRegime, SimulatorCheckpoint } from './cstrModel';
+import { createIntegrator, INTEGRATOR_LABELS, IntegratorMethod, IntegratorStats } from './integrators';
+import {
+  appendControlTrends,
+  ControlConfig,
+  ControlTrends,
+  emptyControlTrends,
+  LoopId,
+  LoopStatus,
+  PIDCheckpoint,
+  ReactorControlSystem
+} from './controllers';
+import { Scenario, ScenarioRunner } from './scenarios';
+import { RunColumn, RunRecorder, RunSample, RunSnapshot } from './runRecorder';
+import {
+  ALARM_VARIABLES,
+  Alarm,
+  AlarmConfig,
+  AlarmEvent,
+  alarmSample,
+  AlarmSeverity,
+  AlarmSystem,
+  AlarmVariable
+} from './alarms';
+import {
+  InterlockCheckpoint,
+  InterlockConfig,
+  InterlockId,
+  InterlockSystem,
+  InterlockTrip,
+  INTERLOCK_IDS,
+  INTERLOCK_LABELS
+} from './interlocks';
+import { RingBuffer } from './ringBuffer';
+
+export interface EngineSetup {
+  initialState: CSTRState;
+  parameters: CSTRParameters;
+  integrator: IntegratorMethod;
+  controlConfig: ControlConfig;
+  interlockConfig: InterlockConfig;
+  alarmConfig: AlarmConfig;
+  scenario: Scenario | null;
+}
+
+export interface ParameterHistory {
+  volume: number[];
+  concentration: number[];
+  temperature: number[];
+  jacketTemp: number[];
+  time: number[];
+  conversion: number[];
+  reactionRate: number[];
+  outletFlow: number[];
+}
+
+export interface ProcessMetrics {
+  conversion: number;       // %
+  reactionRate: number;     // mol/(m³·s)
+  outletFlow: number;       // m³/s
+  overflowFlow: number;     // m³/s, the part going over the weir
+  residenceTime: number;    // s
+  heatDuty: number;         // kW
+}
+
+export interface AlarmView {
+  alarms: Alarm[];
+  statuses: Record<AlarmVariable, AlarmSeverity | 'normal'>;
+  recentLog: AlarmEvent[];  // the newest events, oldest first
+  logLength: number;        // events logged so far, including those dropped from the log
+}
+
+export type AlarmAction =
+  | { kind: 'acknowledge'; id: string }
+  | { kind: 'acknowledgeAll' }
+  | { kind: 'shelve'; id: string; duration: number }
+  | { kind: 'unshelve'; id: string };
+
+// Stretch of the run the trend charts show: the newest span seconds (the
+// whole run when null) following the run as it goes, or a fixed range the
+// operator has zoomed or panned to
+export type TrendWindow =
+  | { kind: 'latest'; span: number | null }
+  | { kind: 'range'; start: number; end: number };
+
+// What a run needs to carry on from a recorded sample: the simulator and the
+// memory of everything stepping along with it. Alarms are not kept; a branch
+// starts a fresh alarm system with the limits in force.
+interface EngineCheckpoint {
+  time: number;             // s, the simulated time it was taken at
+  periodic: boolean;        // rather than after a change from outside, which replay cannot do without
+  simulator: SimulatorCheckpoint;
+  operatorParameters: CSTRParameters;
+  controlConfig: ControlConfig;
+  controllers: Record<LoopId, PIDCheckpoint>;
+  interlockConfig: InterlockConfig;
+  interlocks: InterlockCheckpoint;
+  alarmConfig: AlarmConfig;
+  scenario: { scenario: Scenario; baseline: CSTRParameters } | null;
+}
+
+// Everything the UI shows of a run, as plain data that can be posted between threads
+export interface EngineSnapshot {
+  state: CSTRState;
+  parameters: CSTRParameters;   // as the simulator holds them, with controller and interlock outputs
+  metrics: ProcessMetrics;
+  flowRegime: FlowRegime;
+  integratorStats: IntegratorStats;
+  history: ParameterHistory;
+  controlTrends: ControlTrends;
+  loopStatuses: Record<LoopId, LoopStatus>;
+  alarms: AlarmView;
+  trips: InterlockTrip[];       // every trip this run, including ones since reset
+  tripped: Partial<Record<InterlockId, InterlockTrip>>;   // interlocks holding their override now
+  recordedSamples: number;
+  currentRun: Record<RunColumn, number[]>;  // the whole run so far, thinned for plotting
+  trend: Record<RunColumn, number[]>;       // the trend window at full detail where it allows
+  scrub: RunSample | null;                  // the recorded sample at the timeline position
+  branchedAt: number | null;                // s, where this run left the one it was branched from
+}
+
+export const HISTORY_LENGTH = 50;
+const TREND_LENGTH = 50;
+const RECENT_LOG_LENGTH = 50;
+const RUN_PREVIEW_POINTS = 400;
+const TREND_POINTS = 600;
+// Recorded samples between periodic checkpoints, so branching replays at
+// most this many samples' worth of steps
+const CHECKPOINT_INTERVAL = 100;
+
+const HISTORY_COLUMNS: (keyof ParameterHistory)[] = [
+  'volume', 'concentration', 'temperature', 'jacketTemp', 'time', 'conversion', 'reactionRate', 'outletFlow'
+];
+
+export class SimulationEngine {
+  private simulator: CSTRSimulator;
+  private control: ReactorControlSystem;
+  private interlocks: InterlockSystem;
+  private scenario: ScenarioRunner | null;
+  private recorder = new RunRecorder();
+  private alarms: AlarmSystem;
+  private flowRegime: FlowRegime = 'normal';
+  private history: Record<keyof ParameterHistory, RingBuffer>;
+  private controlTrends = emptyControlTrends();
+  // Simulated time between history samples; more than one step at high speed
+  private historyInterval: number;
+  private lastHistoryTime = -Infinity;
+  private trendWindow: TrendWindow = { kind: 'latest', span: null };
+  private scrubTime: number | null = null;
+  // Taken periodically and after every change from outside, so the steps
+  // between two checkpoints can be replayed exactly
+  private checkpoints: EngineCheckpoint[] = [];
+  private samplesSinceCheckpoint = 0;
+  // The operator's values from the sliders, before a scenario, the
+  // controllers and interlocks write over them
+  private operatorParameters: CSTRParameters;
+  private branchedAt: number | null = null;
+
+  constructor(setup: EngineSetup, historyInterval = 0) {
+    this.simulator = new CSTRSimulator(setup.initialState, setup.parameters, {
+      integrator: createIntegrator(setup.integrator)
+    });
+    this.control = new ReactorControlSystem(this.simulator, setup.controlConfig);
+    this.interlocks = new InterlockSystem(this.simulator, setup.interlockConfig);
+    this.scenario = setup.scenario ? new ScenarioRunner(this.simulator, setup.scenario) : null;
+    this.alarms = new AlarmSystem(setup.alarmConfig);
+    this.history = Object.fromEntries(
+      HISTORY_COLUMNS.map(column => [column, new RingBuffer(HISTORY_LENGTH)])
+    ) as Record<keyof ParameterHistory, RingBuffer>;
+    this.historyInterval = historyInterval;
+    this.operatorParameters = { ...setup.parameters };
+
+    this.recorder.record(this.simulator);
+    this.alarms.evaluate(setup.initialState.time, alarmSample(this.simulator));
+    this.logFlowRegime();
+    this.sampleTrends();
+    this.takeCheckpoint();
+  }
+
+  private takeCheckpoint(periodic = false): void {
+    const time = this.simulator.getState().time;
+    const checkpoint: EngineCheckpoint = {
+      time,
+      periodic,
+      simulator: this.simulator.checkpoint(),
+      operatorParameters: this.operatorParameters,
+      controlConfig: this.control.getConfig(),
+      controllers: this.control.checkpoint(),
+      interlockConfig: this.interlocks.getConfig(),
+      interlocks: this.interlocks.checkpoint(),
+      alarmConfig: this.alarms.getConfig(),
+      scenario: this.scenario ? { scenario: this.scenario.getScenario(), baseline: this.scenario.getBaseline() } : null
+    };
+    // Several changes between two steps need only the last
+    if (this.checkpoints[this.checkpoints.length - 1]?.time === time) this.checkpoints.pop();
+    this.checkpoints.push(checkpoint);
+    this.samplesSinceCheckpoint = 0;
+  }
+
+  // Record the step just taken; when that thins the recording, thin the
+  // periodic checkpoints to match so they stay about as many samples apart
+  private recordStep(): void {
+    const interval = this.recorder.getInterval();
+    if (!this.recorder.record(this.simulator)) return;
+    if (this.recorder.getInterval() !== interval) {
+      let periodic = 0;
+      this.checkpoints = this.checkpoints.filter(checkpoint => !checkpoint.periodic || periodic++ % 2 === 0);
+    }
+    if (++this.samplesSinceCheckpoint >= CHECKPOINT_INTERVAL) this.takeCheckpoint(true);
+  }
+
+  // Overflow and running dry go into the alarm log when the level crosses
+  // the weir crest or the outlet nozzle
+  private logFlowRegime(): void {
+    const regime = this.simulator.getFlowRegime();
+    const previous = this.flowRegime;
+    if (regime === previous) return;
+    this.flowRegime = regime;
+    const { time, volume } = this.simulator.getState();
+    const at = `at V = ${volume.toFixed(3)} m³`;
+    const message = regime === 'overflow' ? `Tank overflowing over the weir ${at}`
+      : regime === 'dry' ? `Tank ran dry: level down to the outlet nozzle ${at}`
+      : previous === 'overflow' ? `Overflow stopped ${at}` : `Outlet covered again ${at}`;
+    this.alarms.logEvent(time, 'vessel', message);
+  }
+
+  // Interlock trips go into the alarm log so they are exported with the run
+  private logInterlockTrips(trips: InterlockTrip[]): void {
+    trips.forEach(trip => this.alarms.logEvent(
+      trip.time,
+      'interlock',
+      `${INTERLOCK_LABELS[trip.id]} tripped: ${trip.cause}; ${trip.action}`
+    ));
+  }
+
+  private sampleTrends(): void {
+    const state = this.simulator.getState();
+    const values: Record<keyof ParameterHistory, number> = {
+      volume: state.volume,
+      concentration: state.concentration,
+      temperature: state.temperature,
+      jacketTemp: state.jacketTemp,
+      time: state.time,
+      conversion: this.simulator.getConversion(),
+      reactionRate: this.simulator.getReactionRate(),
+      outletFlow: this.simulator.getOutletFlow()
+    };
+    HISTORY_COLUMNS.forEach(column => this.history[column].push(values[column]));
+    this.controlTrends = appendControlTrends(this.controlTrends, this.control, TREND_LENGTH);
+    this.lastHistoryTime = state.time;
+  }
+
+  // One time step. Throws IntegrationError when the solver fails, leaving
+  // the run at the last good state.
+  public step(): CSTRState {
+    // Scheduled changes go in first so controllers can override them, and
+    // tripped interlocks override both
+    const applyOverrides = (duration?: number) => {
+      this.control.applyControl(duration);
+      this.logInterlockTrips(this.interlocks.apply());
+    };
+    let state: CSTRState;
+    if (this.scenario) {
+      state = this.scenario.step(applyOverrides);
+    } else {
+      applyOverrides();
+      state = this.simulator.step();
+    }
+    this.recordStep();
+    this.alarms.evaluate(state.time, alarmSample(this.simulator));
+    this.logFlowRegime();
+    if (state.time - this.lastHistoryTime >= this.historyInterval - 1e-9) this.sampleTrends();
+    return state;
+  }
+
+  public getState(): CSTRState {
+    return this.simulator.getState();
+  }
+
+  public getTimeStep(): number {
+    return this.simulator.getTimeStep();
+  }
+
+  public getOperatorParameters(): CSTRParameters {
+    return { ...this.operatorParameters };
+  }
+
+  public setHistoryInterval(seconds: number): void {
+    this.historyInterval = seconds;
+  }
+
+  public setTrendWindow(window: TrendWindow): void {
+    this.trendWindow = window;
+  }
+
+  // Position on the run's timeline to inspect, or null for none
+  public setScrubTime(time: number | null): void {
+    this.scrubTime = time;
+  }
+
+  // A new run that follows this one up to the recorded sample nearest
+  // `time` and carries on from there. The latest checkpoint before it is
+  // restored and the steps in between replayed, so controllers, interlocks
+  // and a running scenario pick up exactly where they were. This run is left
+  // as it is.
+  public branch(time: number): SimulationEngine {
+    const target = this.recorder.sample(this.recorder.indexNear(time)).values.time;
+    const checkpoints = this.checkpoints.filter(checkpoint => checkpoint.time <= target);
+    const checkpoint = checkpoints[checkpoints.length - 1];
+    const engine = new SimulationEngine({
+      initialState: checkpoint.simulator.state,
+      parameters: checkpoint.simulator.parameters,
+      integrator: checkpoint.simulator.integrator,
+      controlConfig: checkpoint.controlConfig,
+      interlockConfig: checkpoint.interlockConfig,
+      alarmConfig: checkpoint.alarmConfig,
+      scenario: null
+    }, this.historyInterval);
+    engine.simulator.restore(checkpoint.simulator);
+    engine.operatorParameters = checkpoint.operatorParameters;
+    engine.control.restore(checkpoint.controllers);
+    engine.interlocks.restore(checkpoint.interlocks);
+    if (checkpoint.scenario) {
+      engine.scenario = new ScenarioRunner(engine.simulator, checkpoint.scenario.scenario, checkpoint.scenario.baseline);
+    }
+    engine.recorder = this.recorder.truncatedAt(checkpoint.time);
+    engine.checkpoints = checkpoints;
+    const halfStep = engine.simulator.getTimeStep() / 2;
+    while (engine.simulator.getState().time < target - halfStep) engine.step();
+    // The sample branched from, even where the spacing now skips it
+    engine.recorder.record(engine.simulator, true);
+    engine.branchedAt = engine.simulator.getState().time;
+    return engine;
+  }
+
+  // Operator values from the sliders; a running scenario, the controllers and
+  // tripped interlocks write over them again on the next step
+  public updateParameters(parameters: CSTRParameters): void {
+    this.operatorParameters = { ...parameters };
+    this.simulator.updateParameters(parameters);
+    this.takeCheckpoint();
+  }
+
+  public setIntegrator(method: IntegratorMethod): void {
+    if (this.simulator.getIntegrator().method !== method) {
+      this.simulator.setIntegrator(createIntegrator(method));
+    }
+    this.takeCheckpoint();
+  }
+
+  // Retune or switch control loops without restarting the run. Loops that
+  // let go leave the plant to the sliders and any running scenario; the
+  // loops still active write their outputs again on the next step.
+  public configureControl(config: ControlConfig): void {
+    if (this.control.configure(config).length > 0) {
+      this.simulator.updateParameters(this.operatorParameters);
+      this.scenario?.apply();
+    }
+    this.takeCheckpoint();
+  }
+
+  public configureInterlocks(config: InterlockConfig): void {
+    this.interlocks.configure(config);
+    this.takeCheckpoint();
+  }
+
+  // Hand the held parameters back to the sliders and any running scenario
+  public resetInterlock(id: InterlockId, parameters: CSTRParameters): void {
+    this.interlocks.reset(id);
+    this.operatorParameters = { ...parameters };
+    this.simulator.updateParameters(parameters);
+    this.scenario?.apply();
+    this.alarms.logEvent(this.simulator.getState().time, 'interlock', `${INTERLOCK_LABELS[id]} reset`);
+    this.takeCheckpoint();
+  }
+
+  // Throws AlarmConfigError and keeps the old limits when the new ones are invalid
+  public configureAlarms(config: AlarmConfig): void {
+    this.alarms.configure(config, this.simulator.getState().time);
+    this.takeCheckpoint();
+  }
+
+  public alarmAction(action: AlarmAction): void {
+    const time = this.simulator.getState().time;
+    switch (action.kind) {
+      case 'acknowledge':
+        this.alarms.acknowledge(action.id, time);
+        break;
+      case 'acknowledgeAll':
+        this.alarms.acknowledgeAll(time);
+        break;
+      case 'shelve':
+        this.alarms.shelve(action.id, time, action.duration);
+        break;
+      case 'unshelve':
+        this.alarms.unshelve(action.id, time);
+        break;
+    }
+  }
+
+  // Keep the run going with the sliders back in charge
+  public stopScenario(parameters: CSTRParameters): void {
+    this.scenario = null;
+    this.operatorParameters = { ...parameters };
+    this.simulator.updateParameters(parameters);
+    this.takeCheckpoint();
+  }
+
+  public snapshot(): EngineSnapshot {
+    const simulator = this.simulator;
+    const history = {} as ParameterHistory;
+    HISTORY_COLUMNS.forEach(column => { history[column] = this.history[column].toArray(); });
+    const log = this.alarms.getLog();
+    const tripped: Partial<Record<InterlockId, InterlockTrip>> = {};
+    INTERLOCK_IDS.forEach(id => {
+      const trip = this.interlocks.getTrip(id);
+      if (trip) tripped[id] = trip;
+    });
+
+    return {
+      state: simulator.getState(),
+      parameters: simulator.getParameters(),
+      metrics: {
+        conversion: simulator.getConversion(),
+        reactionRate: simulator.getReactionRate(),
+        outletFlow: simulator.getOutletFlow(),
+        overflowFlow: simulator.getOverflowRate(),
+        residenceTime: simulator.getResidenceTime(),
+        heatDuty: simulator.getHeatRemovalRate()
+      },
+      flowRegime: simulator.getFlowRegime(),
+      integratorStats: { ...simulator.getIntegratorStats() },
+      history,
+      controlTrends: this.controlTrends,
+      loopStatuses: {
+        temperature: this.control.getLoopStatus('temperature'),
+        jacket: this.control.getLoopStatus('jacket'),
+        level: this.control.getLoopStatus('level')
+      },
+      alarms: {
+        alarms: this.alarms.getAlarms(),
+        statuses: Object.fromEntries(
+          (Object.keys(ALARM_VARIABLES) as AlarmVariable[]).map(variable => [variable, this.alarms.getStatus(variable)])
+        ) as AlarmView['statuses'],
+        recentLog: log.slice(-RECENT_LOG_LENGTH),
+        logLength: this.alarms.getEventCount()
+      },
+      trips: [...this.interlocks.getTrips()],
+      tripped,
+      recordedSamples: this.recorder.getLength(),
+      currentRun: this.recorder.preview(RUN_PREVIEW_POINTS),
+      trend: this.trendPreview(),
+      scrub: this.scrubTime === null ? null : this.recorder.sample(this.recorder.indexNear(this.scrubTime)),
+      branchedAt: this.branchedAt
+    };
+  }
+
+  private trendPreview(): Record<RunColumn, number[]> {
+    const window = this.trendWindow;
+    if (window.kind === 'range') return this.recorder.preview(TREND_POINTS, window.start, window.end);
+    if (window.span === null) return this.recorder.preview(TREND_POINTS);
+    return this.recorder.preview(TREND_POINTS, this.simulator.getState().time - window.span);
+  }
+
+  // Frozen copy of the whole run, e.g. to pin it for comparison
+  public runSnapshot(): RunSnapshot {
+    return this.recorder.snapshot();
+  }
+
+  // The whole run with the alarm log, as CSV or column-oriented JSON
+  public exportRun(format: 'csv' | 'json'): string {
+    const metadata: Record<string, string> = { integrator: INTEGRATOR_LABELS[this.simulator.getIntegrator().method] };
+    if (this.scenario) metadata.scenario = this.scenario.getScenario().name;
+    if (this.branchedAt !== null) metadata.branchedAt = `${this.branchedAt.toFixed(1)} s`;
+    if (format === 'csv') return this.recorder.toCSV(metadata, this.alarms.logNotes());
+    return this.recorder.toJSON(metadata, {
+      alarmLog: this.alarms.getLog(),
+      alarmLogDropped: this.alarms.getDroppedCount()
+    });
+  }
+
+  public alarmLogToCSV(): string {
+    return this.alarms.logToCSV();
+  }
+}
@@ -0,0 +1,51 @@
+// Messages between the UI and the simulation worker. Commands go to the
+// worker; the worker answers with snapshots at display rate, a notice when
+// the solver stops the run, and replies to requests that return data.
+import { CSTRParameters } from './cstrModel';
+import { IntegratorMethod } from './integrators';
+import { ControlConfig } from './controllers';
+import { InterlockConfig, InterlockId } from './interlocks';
+import { AlarmConfig } from './alarms';
+import { MonteCarloProgress, MonteCarloResult, MonteCarloSetup } from './monteCarlo';
+import { RunSnapshot } from './runRecorder';
+import { AlarmAction, EngineSetup, EngineSnapshot, TrendWindow } from './simulationEngine';
+
+export type ExportKind = 'csv' | 'json' | 'alarmLog';
+
+export type SimulationCommand =
+  | { type: 'reset'; setup: EngineSetup }   // also pauses
+  | { type: 'run' }
+  | { type: 'pause' }
+  | { type: 'setSpeed'; realTimeFactor: number }
+  | { type: 'updateParameters'; parameters: CSTRParameters }
+  | { type: 'setIntegrator'; method: IntegratorMethod }
+  | { type: 'configureControl'; config: ControlConfig }
+  | { type: 'configureInterlocks'; config: InterlockConfig }
+  | { type: 'resetInterlock'; id: InterlockId; parameters: CSTRParameters }
+  | { type: 'configureAlarms'; config: AlarmConfig }
+  | { type: 'alarmAction'; action: AlarmAction }
+  | { type: 'stopScenario'; parameters: CSTRParameters }
+  | { type: 'setTrendWindow'; window: TrendWindow }
+  | { type: 'setScrubTime'; time: number | null }
+  | { type: 'branch'; requestId: number; time: number }   // also pauses
+  | { type: 'export'; requestId: number; kind: ExportKind }
+  | { type: 'pinRun'; requestId: number }
+  // Runs beside the live simulation; starting another one cancels it
+  | { type: 'startStudy'; requestId: number; setup: MonteCarloSetup }
+  | { type: 'cancelStudy' };
+
+export type SimulationMessage =
+  | {
+      type: 'snapshot';
+      snapshot: EngineSnapshot;
+      running: boolean;
+      achievedFactor: number | null;  // simulated over wall-clock time lately; null while paused
+    }
+  | { type: 'solverError'; message: string }
+  | { type: 'exported'; requestId: number; text: string }
+  | { type: 'pinned'; requestId: number; run: RunSnapshot }
+  // The operator's parameters at the branch point, for the sliders
+  | { type: 'branched'; requestId: number; parameters: CSTRParameters }
+  | { type: 'studyProgress'; requestId: number; result: MonteCarloResult; progress: MonteCarloProgress }
+  // The study finished, was cancelled or could not run
+  | { type: 'studyDone'; requestId: number; error: string | null };
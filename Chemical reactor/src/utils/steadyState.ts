@@ -0,0 +1,291 @@
+// Steady-state solver and multiplicity finder for the jacketed CSTR
+import { CSTRParameters, CSTRSimulator, CSTRState, outletFlows, stateToVector, vectorToState } from './cstrModel';
+import { Complex, eigenvalues, Matrix, solveLinearSystem } from './linearAlgebra';
+import { reactionRate } from './rateLaws';
+import { adiabaticTemperatureRise } from './runaway';
+
+export type SteadyStateType =
+  | 'stable node'
+  | 'stable focus'
+  | 'saddle'
+  | 'unstable node'
+  | 'unstable focus'
+  | 'non-hyperbolic';
+
+export interface SteadyState {
+  volume: number;           // m³
+  concentration: number;    // mol/m³
+  temperature: number;      // K
+  jacketTemp: number;       // K
+  conversion: number;       // %
+  jacobian: Matrix;
+  eigenvalues: Complex[];
+  stable: boolean;
+  type: SteadyStateType;
+}
+
+export interface NewtonOptions {
+  tolerance?: number;       // relative step tolerance
+  maxIterations?: number;
+}
+
+export interface SteadyStateSearchOptions extends NewtonOptions {
+  temperatureRange?: [number, number];  // K, range scanned for steady states
+  scanPoints?: number;
+}
+
+export class SteadyStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SteadyStateError';
+  }
+}
+
+// Time derivatives of the four balances at y = [V, CA, T, TJ]
+export function steadyStateResidual(params: CSTRParameters, y: number[]): number[] {
+  const simulator = new CSTRSimulator(vectorToState(y, 0), params);
+  return simulator.derivatives(vectorToState(y, 0));
+}
+
+export function modelJacobian(params: CSTRParameters, y: number[]): Matrix {
+  const simulator = new CSTRSimulator(vectorToState(y, 0), params);
+  return simulator.jacobian(vectorToState(y, 0));
+}
+
+// Stability from the Jacobian eigenvalues
+export function classifySteadyState(lambdas: Complex[]): { stable: boolean; type: SteadyStateType } {
+  const scale = Math.max(1e-12, ...lambdas.map(l => Math.hypot(l.re, l.im)));
+  const marginal = lambdas.some(l => Math.abs(l.re) <= 1e-9 * scale);
+  const positive = lambdas.filter(l => l.re > 0).length;
+  const oscillatory = lambdas.some(l => Math.abs(l.im) > 1e-12 * scale);
+
+  if (marginal) return { stable: false, type: 'non-hyperbolic' };
+  if (positive === 0) return { stable: true, type: oscillatory ? 'stable focus' : 'stable node' };
+  if (positive < lambdas.length) return { stable: false, type: 'saddle' };
+  return { stable: false, type: oscillatory ? 'unstable focus' : 'unstable node' };
+}
+
+export function describeSteadyState(params: CSTRParameters, y: number[]): SteadyState {
+  const jacobian = modelJacobian(params, y);
+  const lambdas = eigenvalues(jacobian);
+  const { stable, type } = classifySteadyState(lambdas);
+  const conversion = params.feedConcentration === 0 ? 0 :
+    ((params.feedConcentration - y[1]) / params.feedConcentration) * 100;
+
+  return {
+    volume: y[0],
+    concentration: y[1],
+    temperature: y[2],
+    jacketTemp: y[3],
+    conversion,
+    jacobian,
+    eigenvalues: lambdas,
+    stable,
+    type
+  };
+}
+
+// Damped Newton iteration on the four balances; returns null when it fails to converge
+function newton(params: CSTRParameters, guess: number[], options: NewtonOptions = {}): number[] | null {
+  const tolerance = options.tolerance ?? 1e-10;
+  const maxIterations = options.maxIterations ?? 50;
+  const norm = (v: number[]) => Math.sqrt(v.reduce((sum, value) => sum + value * value, 0));
+  const physical = (v: number[]) => v[0] > 0 && v[1] >= 0 && v[2] > 0 && v[3] > 0;
+
+  let y = [...guess];
+  let residual = steadyStateResidual(params, y);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let delta: number[];
+    try {
+      delta = solveLinearSystem(modelJacobian(params, y), residual.map(value => -value));
+    } catch {
+      return null;
+    }
+
+    if (delta.every((value, i) => Math.abs(value) <= tolerance * (1 + Math.abs(y[i])))) {
+      const solution = y.map((value, i) => value + delta[i]);
+      return solution.every(Number.isFinite) ? solution : null;
+    }
+
+    // Backtrack until the residual decreases and the state stays physical
+    let accepted: number[] | null = null;
+    for (let lambda = 1; lambda >= 1e-4 && !accepted; lambda /= 2) {
+      const candidate = y.map((value, i) => value + lambda * delta[i]);
+      if (!physical(candidate)) continue;
+      const candidateResidual = steadyStateResidual(params, candidate);
+      if (norm(candidateResidual) < norm(residual)) {
+        accepted = candidate;
+        residual = candidateResidual;
+      }
+    }
+    if (!accepted) return null;
+    y = accepted;
+  }
+
+  return null;
+}
+
+// Continuation fallback: ramp the heat of reaction from zero, where the energy
+// balance is nearly linear and Newton converges easily, up to its actual value.
+function continuationSolve(params: CSTRParameters, temperature: number, options: NewtonOptions): number[] | null {
+  const start = { ...params, heatOfReaction: 0 };
+  let y = newton(start, reducedSteadyState(start, temperature), options);
+  if (!y) return null;
+
+  let s = 0;
+  let ds = 0.1;
+  while (s < 1) {
+    const next = Math.min(1, s + ds);
+    const solution = newton({ ...params, heatOfReaction: params.heatOfReaction * next }, y, options);
+    if (solution) {
+      y = solution;
+      s = next;
+      ds = Math.min(0.25, ds * 1.5);
+    } else {
+      ds /= 2;
+      if (ds < 1e-5) return null;
+    }
+  }
+  return y;
+}
+
+// Find the steady state nearest to an initial guess
+export function solveSteadyState(
+  params: CSTRParameters,
+  guess: CSTRState,
+  options: NewtonOptions = {}
+): SteadyState {
+  // Fall back to a guess on the steady-state manifold through the guessed
+  // temperature, which removes the stiff coupling with an off-balance volume
+  const solution = newton(params, stateToVector(guess), options) ??
+    newton(params, reducedSteadyState(params, guess.temperature), options) ??
+    continuationSolve(params, guess.temperature, options);
+  if (!solution) {
+    throw new SteadyStateError('Newton iteration and continuation both failed to converge');
+  }
+  return describeSteadyState(params, solution);
+}
+
+// Volume at which the outflow matches the feed: closed form while the valve
+// alone carries it, bisection once the weir spills as well. Without feed the
+// level settles at the outlet nozzle.
+export function steadyStateVolume(params: CSTRParameters): number {
+  if (!(params.inletFlowRate > 0)) return params.minimumVolume;
+  const valveOnly = params.minimumVolume + params.inletFlowRate / params.valveConstant;
+  if (valveOnly <= params.vesselVolume) return valveOnly;
+
+  const surplus = (volume: number) => {
+    const flows = outletFlows(params, volume);
+    return flows.valve + flows.overflow - params.inletFlowRate;
+  };
+  // Bracket by doubling the head over the crest, starting from 1 cm
+  let low = params.vesselVolume;
+  let head = 0.01;
+  for (let i = 0; i < 60 && surplus(params.vesselVolume + head * params.vesselArea) < 0; i++) head *= 2;
+  let high = params.vesselVolume + head * params.vesselArea;
+  for (let i = 0; i < 100 && high - low > 1e-14 * high; i++) {
+    const mid = (low + high) / 2;
+    if (surplus(mid) < 0) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+// Volume, concentration and jacket temperature consistent with a reactor
+// temperature at steady state. Volume and jacket follow from their own
+// balances; the mass balance is monotone in CA and is solved by bisection.
+export function reducedSteadyState(params: CSTRParameters, temperature: number): number[] {
+  const volume = steadyStateVolume(params);
+  const uA = params.heatTransferCoeff * params.heatTransferArea;
+  const jacketCapacityFlow = params.jacketFlowRate * params.jacketDensity * params.jacketHeatCapacity;
+  const jacketTemp = (jacketCapacityFlow * params.jacketInletTemp + uA * temperature) / (jacketCapacityFlow + uA);
+
+  const massBalance = (ca: number) => params.inletFlowRate * (params.feedConcentration - ca) -
+    volume * reactionRate(params, { volume, concentration: ca, temperature, jacketTemp, time: 0 });
+  let low = 0;
+  let high = params.feedConcentration;
+  for (let i = 0; i < 100 && high - low > 1e-14 * Math.max(1, high); i++) {
+    const mid = (low + high) / 2;
+    if (massBalance(mid) > 0) low = mid;
+    else high = mid;
+  }
+
+  return [volume, (low + high) / 2, temperature, jacketTemp];
+}
+
+// Temperatures that can bound a steady state: between the feed/coolant
+// temperatures and the feed temperature plus the adiabatic rise
+export function steadyStateTemperatureBounds(params: CSTRParameters): [number, number] {
+  const adiabaticRise = adiabaticTemperatureRise(params);
+  const candidates = [params.feedTemperature, params.jacketInletTemp, params.feedTemperature + adiabaticRise];
+  return [Math.max(1, Math.min(...candidates) - 1), Math.max(...candidates) + 1];
+}
+
+// Find all steady states: scan the energy balance along the reduced
+// one-dimensional manifold for sign changes, then polish each root with
+// Newton on the full four-state system.
+export function findSteadyStates(
+  params: CSTRParameters,
+  options: SteadyStateSearchOptions = {}
+): SteadyState[] {
+  if (!(params.valveConstant > 0) && !(params.weirLength > 0)) {
+    throw new SteadyStateError('A steady state requires a positive valve constant or an overflow weir');
+  }
+
+  const [tLow, tHigh] = options.temperatureRange ?? steadyStateTemperatureBounds(params);
+  const points = options.scanPoints ?? 2000;
+  const energyResidual = (temperature: number) =>
+    steadyStateResidual(params, reducedSteadyState(params, temperature))[2];
+
+  const roots: number[][] = [];
+  let previousT = tLow;
+  let previousG = energyResidual(tLow);
+  for (let i = 1; i <= points; i++) {
+    const temperature = tLow + ((tHigh - tLow) * i) / points;
+    const g = energyResidual(temperature);
+    if (previousG === 0 || previousG * g < 0) {
+      // Bisect the bracket before handing over to Newton
+      let low = previousT;
+      let high = temperature;
+      let gLow = previousG;
+      for (let j = 0; j < 60 && gLow !== 0; j++) {
+        const mid = (low + high) / 2;
+        const gMid = energyResidual(mid);
+        if (gLow * gMid <= 0) {
+          high = mid;
+        } else {
+          low = mid;
+          gLow = gMid;
+        }
+      }
+      const reduced = reducedSteadyState(params, gLow === 0 ? low : (low + high) / 2);
+      roots.push(newton(params, reduced, options) ?? reduced);
+    }
+    previousT = temperature;
+    previousG = g;
+  }
+
+  // Drop duplicates found from adjacent brackets
+  const unique = roots.filter((root, i) =>
+    roots.findIndex(other => Math.abs(other[2] - root[2]) < 1e-6 * Math.max(1, root[2])) === i
+  );
+
+  return unique
+    .sort((a, b) => a[2] - b[2])
+    .map(root => describeSteadyState(params, root));
+}
+
+// Steady states for display, or why they could not be found
+export interface SteadyStateAnalysis {
+  states: SteadyState[];
+  error: string | null;
+}
+
+export function analyzeSteadyStates(params: CSTRParameters): SteadyStateAnalysis {
+  try {
+    return { states: findSteadyStates(params), error: null };
+  } catch (error) {
+    return { states: [], error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,237 @@
+// Parametric sweeps over one or two parameters and local sensitivity
+// coefficients. Every point is simulated from the same initial state, either
+// until it settles or for a fixed horizon, so a sweep follows the operating
+// point the reactor actually reaches rather than every steady state.
+import { CSTRParameterKey, CSTRParameters, CSTRSimulator, CSTRState, stateToVector } from './cstrModel';
+import { createIntegrator, IntegratorMethod } from './integrators';
+import { solveSteadyState } from './steadyState';
+
+export type SweepOutput =
+  | 'temperature'
+  | 'concentration'
+  | 'conversion'
+  | 'volume'
+  | 'jacketTemp'
+  | 'reactionRate'
+  | 'heatDuty';
+
+export const SWEEP_OUTPUTS: Record<SweepOutput, { label: string; unit: string }> = {
+  temperature: { label: 'Reactor Temperature', unit: 'K' },
+  concentration: { label: 'Concentration', unit: 'mol/m³' },
+  conversion: { label: 'Conversion', unit: '%' },
+  volume: { label: 'Volume', unit: 'm³' },
+  jacketTemp: { label: 'Jacket Temperature', unit: 'K' },
+  reactionRate: { label: 'Reaction Rate', unit: 'mol/(m³·s)' },
+  heatDuty: { label: 'Heat Duty', unit: 'kW' }
+};
+
+export type SweepMode = 'steadyState' | 'horizon';
+
+export interface SweepAxis {
+  parameter: CSTRParameterKey;
+  range: [number, number];
+  points: number;
+  logarithmic?: boolean;
+}
+
+export interface SweepOptions {
+  mode: SweepMode;
+  horizon?: number;         // s; the run length in horizon mode, the time limit when settling
+  tolerance?: number;       // 1/s, largest relative rate of change counted as steady
+  integrator?: IntegratorMethod;
+}
+
+export interface SweepEvaluation {
+  outputs: Record<SweepOutput, number>;
+  settled: boolean;         // the state had stopped changing when the run ended
+  time: number;             // s of simulated time used
+}
+
+export interface SweepPoint {
+  values: number[];         // parameter value on each axis
+  evaluation: SweepEvaluation | null;
+  error: string | null;
+}
+
+export interface SweepResult {
+  axes: SweepAxis[];
+  values: number[][];       // grid values on each axis
+  points: SweepPoint[];     // row-major, the last axis varying fastest
+}
+
+export interface ParameterSensitivity {
+  parameter: CSTRParameterKey;
+  low: Record<SweepOutput, number>;         // outputs with the parameter lowered by the step
+  high: Record<SweepOutput, number>;        // outputs with the parameter raised by the step
+  derivative: Record<SweepOutput, number>;  // ∂output/∂parameter, central difference
+  normalized: Record<SweepOutput, number>;  // (parameter/output)·∂output/∂parameter
+  settled: boolean;                         // both perturbed runs settled
+}
+
+export interface SensitivityResult {
+  base: SweepEvaluation;
+  relativeStep: number;
+  coefficients: ParameterSensitivity[];
+  skipped: CSTRParameterKey[];              // zero-valued, so a relative step is meaningless
+}
+
+export class SweepError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SweepError';
+  }
+}
+
+export const MAX_SWEEP_POINTS = 400;
+
+const DEFAULT_HORIZON = 2000;     // s
+const DEFAULT_TOLERANCE = 1e-6;   // 1/s
+// Simulated time between checks for a settled state
+const CHECK_INTERVAL = 1;         // s
+
+const SWEEP_OUTPUT_KEYS = Object.keys(SWEEP_OUTPUTS) as SweepOutput[];
+
+export function axisValues(axis: SweepAxis): number[] {
+  const [from, to] = axis.range;
+  if (axis.points === 1) return [from];
+  return Array.from({ length: axis.points }, (_, i) => {
+    const fraction = i / (axis.points - 1);
+    return axis.logarithmic ? from * Math.pow(to / from, fraction) : from + (to - from) * fraction;
+  });
+}
+
+function validateAxis(axis: SweepAxis): void {
+  const [from, to] = axis.range;
+  if (!Number.isFinite(from) || !Number.isFinite(to)) throw new SweepError(`Range of ${axis.parameter} must be two numbers`);
+  if (!Number.isInteger(axis.points) || axis.points < 1) throw new SweepError(`Point count of ${axis.parameter} must be a positive integer`);
+  if (axis.logarithmic && !(from > 0 && to > 0)) throw new SweepError(`A logarithmic range of ${axis.parameter} must be positive`);
+}
+
+// Largest rate of change relative to each state's size
+function relativeRate(simulator: CSTRSimulator, state: CSTRState): number {
+  const y = stateToVector(state);
+  return Math.max(...simulator.derivatives(state).map((rate, i) => Math.abs(rate) / Math.max(Math.abs(y[i]), 1e-6)));
+}
+
+function outputsOf(simulator: CSTRSimulator): Record<SweepOutput, number> {
+  const state = simulator.getState();
+  return {
+    temperature: state.temperature,
+    concentration: state.concentration,
+    conversion: simulator.getConversion(),
+    volume: state.volume,
+    jacketTemp: state.jacketTemp,
+    reactionRate: simulator.getReactionRate(),
+    heatDuty: simulator.getHeatRemovalRate()
+  };
+}
+
+// Run one parameter set from the initial state. A settled run is polished
+// with Newton so sensitivities are not limited by the settling tolerance;
+// the polished point is kept only if it is the one the run was approaching.
+export function evaluatePoint(params: CSTRParameters, initialState: CSTRState, options: SweepOptions): SweepEvaluation {
+  const horizon = options.horizon ?? DEFAULT_HORIZON;
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const start = initialState.time;
+  const simulator = new CSTRSimulator(initialState, params, {
+    integrator: createIntegrator(options.integrator ?? 'rosenbrock')
+  });
+
+  let state = simulator.getState();
+  let settled = relativeRate(simulator, state) < tolerance;
+  if (options.mode === 'horizon') {
+    state = simulator.advanceTo(start + horizon);
+    settled = relativeRate(simulator, state) < tolerance;
+  } else {
+    while (!settled && state.time < start + horizon) {
+      state = simulator.advanceTo(Math.min(state.time + CHECK_INTERVAL, start + horizon));
+      settled = relativeRate(simulator, state) < tolerance;
+    }
+  }
+
+  if (settled && options.mode === 'steadyState') {
+    try {
+      const polished = solveSteadyState(params, state);
+      const y = stateToVector(state);
+      const close = [polished.volume, polished.concentration, polished.temperature, polished.jacketTemp]
+        .every((value, i) => Math.abs(value - y[i]) <= 1e-3 * Math.max(Math.abs(y[i]), 1));
+      if (close) {
+        simulator.setState({
+          volume: polished.volume,
+          concentration: polished.concentration,
+          temperature: polished.temperature,
+          jacketTemp: polished.jacketTemp
+        });
+      }
+    } catch {
+      // Keep the simulated state
+    }
+  }
+
+  return { outputs: outputsOf(simulator), settled, time: state.time - start };
+}
+
+export function runSweep(
+  params: CSTRParameters,
+  initialState: CSTRState,
+  axes: SweepAxis[],
+  options: SweepOptions
+): SweepResult {
+  if (axes.length < 1 || axes.length > 2) throw new SweepError('A sweep takes one or two parameters');
+  if (axes.length === 2 && axes[0].parameter === axes[1].parameter) throw new SweepError('The two sweep parameters must differ');
+  axes.forEach(validateAxis);
+  const total = axes.reduce((count, axis) => count * axis.points, 1);
+  if (total > MAX_SWEEP_POINTS) throw new SweepError(`${total} grid points is more than the limit of ${MAX_SWEEP_POINTS}`);
+
+  const values = axes.map(axisValues);
+  const grid: number[][] = values.length === 1
+    ? values[0].map(value => [value])
+    : values[0].flatMap(first => values[1].map(second => [first, second]));
+
+  const points = grid.map((pointValues): SweepPoint => {
+    const changes = Object.fromEntries(axes.map((axis, i) => [axis.parameter, pointValues[i]]));
+    try {
+      return { values: pointValues, evaluation: evaluatePoint({ ...params, ...changes }, initialState, options), error: null };
+    } catch (error) {
+      return { values: pointValues, evaluation: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  return { axes, values, points };
+}
+
+// Local sensitivities by central differences, raising and lowering each
+// parameter by a share of its value. The same runs give the output swings
+// drawn in a tornado chart.
+export function sensitivities(
+  params: CSTRParameters,
+  initialState: CSTRState,
+  parameters: CSTRParameterKey[],
+  options: SweepOptions & { relativeStep?: number }
+): SensitivityResult {
+  const relativeStep = options.relativeStep ?? 0.01;
+  if (!(relativeStep > 0 && relativeStep < 1)) throw new SweepError('The relative step must be between 0 and 1');
+
+  const base = evaluatePoint(params, initialState, options);
+  if (options.mode === 'steadyState' && !base.settled) {
+    throw new SweepError(`The base case has not settled after ${base.time.toFixed(0)} s, e.g. because it oscillates; use a fixed horizon instead`);
+  }
+  const skipped = parameters.filter(key => params[key] === 0);
+  const coefficients = parameters.filter(key => params[key] !== 0).map((parameter): ParameterSensitivity => {
+    const value = params[parameter];
+    const step = value * relativeStep;
+    const lowered = evaluatePoint({ ...params, [parameter]: value - step }, initialState, options);
+    const raised = evaluatePoint({ ...params, [parameter]: value + step }, initialState, options);
+    const low = lowered.outputs;
+    const high = raised.outputs;
+    const derivative = {} as Record<SweepOutput, number>;
+    const normalized = {} as Record<SweepOutput, number>;
+    SWEEP_OUTPUT_KEYS.forEach(output => {
+      derivative[output] = (high[output] - low[output]) / (2 * step);
+      normalized[output] = base.outputs[output] === 0 ? NaN : derivative[output] * value / base.outputs[output];
+    });
+    return { parameter, low, high, derivative, normalized, settled: lowered.settled && raised.settled };
+  });
+
+  return { base, relativeStep, coefficients, skipped };
+}
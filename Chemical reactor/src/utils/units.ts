@@ -0,0 +1,211 @@
+// Physical dimensions and unit strings such as 'J/(mol·K)' or 'm³/s', used
+// to check that user-entered formulas are dimensionally consistent
+
+// Exponents of the SI base units the model uses
+export interface Dimension {
+  m: number;
+  kg: number;
+  s: number;
+  mol: number;
+  K: number;
+}
+
+export interface Unit {
+  factor: number;           // value in SI base units of one of this unit
+  dimension: Dimension;
+}
+
+export class UnitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnitError';
+  }
+}
+
+const BASE_KEYS: (keyof Dimension)[] = ['m', 'kg', 's', 'mol', 'K'];
+
+export const DIMENSIONLESS: Dimension = { m: 0, kg: 0, s: 0, mol: 0, K: 0 };
+
+const dim = (partial: Partial<Dimension>): Dimension => ({ ...DIMENSIONLESS, ...partial });
+
+const ENERGY = dim({ kg: 1, m: 2, s: -2 });
+const POWER = dim({ kg: 1, m: 2, s: -3 });
+
+// Unit symbols a unit string may contain
+export const UNIT_SYMBOLS: Record<string, Unit> = {
+  m: { factor: 1, dimension: dim({ m: 1 }) },
+  cm: { factor: 0.01, dimension: dim({ m: 1 }) },
+  L: { factor: 1e-3, dimension: dim({ m: 3 }) },
+  kg: { factor: 1, dimension: dim({ kg: 1 }) },
+  g: { factor: 1e-3, dimension: dim({ kg: 1 }) },
+  s: { factor: 1, dimension: dim({ s: 1 }) },
+  min: { factor: 60, dimension: dim({ s: 1 }) },
+  h: { factor: 3600, dimension: dim({ s: 1 }) },
+  mol: { factor: 1, dimension: dim({ mol: 1 }) },
+  kmol: { factor: 1000, dimension: dim({ mol: 1 }) },
+  K: { factor: 1, dimension: dim({ K: 1 }) },
+  J: { factor: 1, dimension: ENERGY },
+  kJ: { factor: 1000, dimension: ENERGY },
+  cal: { factor: 4.184, dimension: ENERGY },
+  kcal: { factor: 4184, dimension: ENERGY },
+  W: { factor: 1, dimension: POWER },
+  kW: { factor: 1000, dimension: POWER },
+  N: { factor: 1, dimension: dim({ kg: 1, m: 1, s: -2 }) },
+  Pa: { factor: 1, dimension: dim({ kg: 1, m: -1, s: -2 }) }
+};
+
+export const multiplyDimensions = (a: Dimension, b: Dimension): Dimension =>
+  Object.fromEntries(BASE_KEYS.map(key => [key, a[key] + b[key]])) as unknown as Dimension;
+
+export const powerDimension = (a: Dimension, exponent: number): Dimension =>
+  Object.fromEntries(BASE_KEYS.map(key => [key, a[key] * exponent])) as unknown as Dimension;
+
+export const divideDimensions = (a: Dimension, b: Dimension): Dimension =>
+  multiplyDimensions(a, powerDimension(b, -1));
+
+// Exponents can be fractional (CA^1.5), so compare with a tolerance
+export const dimensionsEqual = (a: Dimension, b: Dimension): boolean =>
+  BASE_KEYS.every(key => Math.abs(a[key] - b[key]) < 1e-9);
+
+export const isDimensionless = (a: Dimension): boolean => dimensionsEqual(a, DIMENSIONLESS);
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9', '⁻': '-'
+};
+
+const TO_SUPERSCRIPT: Record<string, string> = Object.fromEntries(
+  Object.entries(SUPERSCRIPTS).map(([sup, plain]) => [plain, sup])
+);
+
+const formatExponent = (exponent: number) => {
+  const rounded = Math.round(exponent * 1000) / 1000;
+  if (rounded === 1) return '';
+  return Number.isInteger(rounded)
+    ? String(rounded).split('').map(c => TO_SUPERSCRIPT[c]).join('')
+    : `^${rounded}`;
+};
+
+// Readable form, e.g. 'mol/(m³·s)' or 'kg·m²/s²'; '-' for dimensionless
+export function formatDimension(d: Dimension): string {
+  const order: (keyof Dimension)[] = ['kg', 'm', 'mol', 'K', 's'];
+  const part = (keys: (keyof Dimension)[], sign: number) =>
+    keys.map(key => `${key}${formatExponent(sign * d[key])}`).join('·');
+  const numerator = order.filter(key => d[key] > 1e-9);
+  const denominator = order.filter(key => d[key] < -1e-9);
+  if (numerator.length === 0 && denominator.length === 0) return '-';
+  const top = numerator.length > 0 ? part(numerator, 1) : '1';
+  if (denominator.length === 0) return top;
+  const bottom = part(denominator, -1);
+  return `${top}/${denominator.length > 1 ? `(${bottom})` : bottom}`;
+}
+
+// Parse a unit string: symbols from UNIT_SYMBOLS joined by '·', '*', or '/',
+// with exponents written as ³ or ^3 (^-1, ^(−1)) and parentheses for grouping.
+// '-' and '' are dimensionless.
+export function parseUnit(text: string): Unit {
+  const source = text.trim().replace(/−/g, '-');
+  if (source === '' || source === '-' || source === '1') return { factor: 1, dimension: DIMENSIONLESS };
+  let i = 0;
+
+  const skipSpaces = () => { while (source[i] === ' ') i++; };
+
+  const parseExponent = (): number => {
+    skipSpaces();
+    if (source[i] in SUPERSCRIPTS) {
+      let digits = '';
+      while (source[i] in SUPERSCRIPTS) digits += SUPERSCRIPTS[source[i++]];
+      return Number(digits);
+    }
+    if (source[i] === '^') {
+      i++;
+      const match = /^\(?\s*(-?\d+(\.\d+)?)\s*\)?/.exec(source.slice(i));
+      if (!match) throw new UnitError(`Expected an exponent after '^' in "${text}"`);
+      i += match[0].length;
+      return Number(match[1]);
+    }
+    return 1;
+  };
+
+  const parseFactor = (): Unit => {
+    skipSpaces();
+    let unit: Unit;
+    if (source[i] === '(') {
+      i++;
+      unit = parseProduct();
+      skipSpaces();
+      if (source[i] !== ')') throw new UnitError(`Missing ')' in "${text}"`);
+      i++;
+    } else if (source[i] === '1') {
+      i++;
+      unit = { factor: 1, dimension: DIMENSIONLESS };
+    } else {
+      const match = /^[A-Za-z]+/.exec(source.slice(i));
+      const symbol = match?.[0];
+      if (!symbol || !Object.prototype.hasOwnProperty.call(UNIT_SYMBOLS, symbol)) {
+        throw new UnitError(`Unknown unit '${symbol ?? source[i]}' in "${text}"`);
+      }
+      i += symbol.length;
+      unit = UNIT_SYMBOLS[symbol];
+    }
+    const exponent = parseExponent();
+    return { factor: Math.pow(unit.factor, exponent), dimension: powerDimension(unit.dimension, exponent) };
+  };
+
+  const parseProduct = (): Unit => {
+    let unit = parseFactor();
+    for (;;) {
+      skipSpaces();
+      const operator = source[i];
+      if (operator !== '·' && operator !== '*' && operator !== '/') return unit;
+      i++;
+      const next = parseFactor();
+      unit = operator === '/'
+        ? { factor: unit.factor / next.factor, dimension: divideDimensions(unit.dimension, next.dimension) }
+        : { factor: unit.factor * next.factor, dimension: multiplyDimensions(unit.dimension, next.dimension) };
+    }
+  };
+
+  const unit = parseProduct();
+  skipSpaces();
+  if (i < source.length) throw new UnitError(`Unexpected '${source[i]}' in unit "${text}"`);
+  return unit;
+}
+
+// Temperature scales with an offset, which unit strings cannot combine with
+// other symbols: value in K = (value + offset) * factor
+const TEMPERATURE_SCALES: Record<string, { factor: number; offset: number }> = {
+  '°C': { factor: 1, offset: 273.15 },
+  '°F': { factor: 5 / 9, offset: 459.67 }
+};
+
+const TEMPERATURE = dim({ K: 1 });
+
+const temperatureScale = (unit: string) =>
+  Object.prototype.hasOwnProperty.call(TEMPERATURE_SCALES, unit.trim()) ? TEMPERATURE_SCALES[unit.trim()] : undefined;
+
+// Dimension of a unit string, temperature scales included
+export function unitDimension(unit: string): Dimension {
+  return temperatureScale(unit) ? TEMPERATURE : parseUnit(unit).dimension;
+}
+
+// Value in the given unit converted to SI base units
+export function toSI(value: number, unit: string): number {
+  const scale = temperatureScale(unit);
+  return scale ? (value + scale.offset) * scale.factor : value * parseUnit(unit).factor;
+}
+
+// SI value expressed in the given unit
+export function fromSI(value: number, unit: string): number {
+  const scale = temperatureScale(unit);
+  return scale ? value / scale.factor - scale.offset : value / parseUnit(unit).factor;
+}
+
+// Convert between two units of the same dimension
+export function convertUnit(value: number, from: string, to: string): number {
+  const fromDimension = unitDimension(from);
+  const toDimension = unitDimension(to);
+  if (!dimensionsEqual(fromDimension, toDimension)) {
+    throw new UnitError(`Cannot convert ${from} (${formatDimension(fromDimension)}) to ${to} (${formatDimension(toDimension)})`);
+  }
+  return fromSI(toSI(value, from), to);
+}
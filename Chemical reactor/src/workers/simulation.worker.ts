@@ -0,0 +1,264 @@
+// Runs the live simulation off the UI thread. Simulated time is paced
+// against the wall clock by the real-time factor, and the UI gets a snapshot
+// at display rate however many steps were taken in between. A Monte Carlo
+// study runs beside it, a few samples at a time between the run's ticks.
+import { IntegrationError } from '../utils/integrators';
+import { MonteCarloStudy } from '../utils/monteCarlo';
+import { SimulationEngine, TrendWindow } from '../utils/simulationEngine';
+import { SimulationCommand, SimulationMessage } from '../utils/simulationProtocol';
+
+const TICK_INTERVAL = 5;        // ms between pacing checks
+const STEP_BUDGET = 12;         // ms of stepping per tick, so commands are not held up
+const SNAPSHOT_INTERVAL = 50;   // ms, about the rate the UI can redraw
+const SPEED_WINDOW = 1000;      // ms over which the achieved speed is measured
+// Falling further behind than this is written off rather than caught up in a
+// burst, e.g. when the tab was in the background
+const MAX_LAG = 250;            // ms of wall-clock time
+// History samples per wall-clock second at speeds above 10x, so live trends
+// cover about the same stretch of wall-clock time at any speed
+const HISTORY_RATE = 100;
+const STUDY_BUDGET = 12;        // ms of study samples per tick, at least one sample
+const PROGRESS_INTERVAL = 200;  // ms between study progress reports
+
+const context = self as unknown as {
+  postMessage(message: SimulationMessage): void;
+  onmessage: ((event: MessageEvent<SimulationCommand>) => void) | null;
+};
+
+let engine: SimulationEngine | null = null;
+let running = false;
+let realTimeFactor = 1;
+// Kept across resets like the speed, as both belong to the display
+let trendWindow: TrendWindow = { kind: 'latest', span: null };
+let timer: ReturnType<typeof setTimeout> | null = null;
+// Wall-clock and simulated time that pacing counts from
+let anchor = { wall: 0, simulated: 0 };
+let lastSnapshot = { wall: 0, simulated: 0 };
+// Start of the window the achieved speed is measured over
+let speedWindow = { wall: 0, simulated: 0 };
+let achievedFactor: number | null = null;
+let study: { requestId: number; study: MonteCarloStudy; lastProgress: number } | null = null;
+let studyTimer: ReturnType<typeof setTimeout> | null = null;
+
+const historyInterval = (timeStep: number) => Math.max(timeStep, realTimeFactor / HISTORY_RATE);
+
+function postSnapshot(): void {
+  if (!engine) return;
+  const wall = performance.now();
+  const simulated = engine.getState().time;
+  if (!running) {
+    achievedFactor = null;
+  } else if (wall - speedWindow.wall >= SPEED_WINDOW) {
+    achievedFactor = (simulated - speedWindow.simulated) / ((wall - speedWindow.wall) / 1000);
+    speedWindow = { wall, simulated };
+  }
+  lastSnapshot = { wall, simulated };
+  context.postMessage({ type: 'snapshot', snapshot: engine.snapshot(), running, achievedFactor });
+}
+
+// Count pacing and the achieved speed from now, e.g. after a pause or a change of speed
+function reanchor(): void {
+  const wall = performance.now();
+  const simulated = engine?.getState().time ?? 0;
+  anchor = { wall, simulated };
+  speedWindow = { wall, simulated };
+  achievedFactor = null;
+}
+
+function stop(): void {
+  running = false;
+  if (timer !== null) clearTimeout(timer);
+  timer = null;
+}
+
+// Stop the run and tell the UI why, whatever went wrong, e.g. a singular
+// Newton matrix in the stiff solver as well as an IntegrationError
+function fail(error: unknown): void {
+  stop();
+  const time = error instanceof IntegrationError ? error.time : engine?.getState().time ?? 0;
+  const message = error instanceof Error ? error.message : String(error);
+  context.postMessage({ type: 'solverError', message: `${message} at t = ${time.toFixed(1)} s` });
+  postSnapshot();
+}
+
+function tick(): void {
+  timer = null;
+  if (!running || !engine) return;
+  const start = performance.now();
+  const target = anchor.simulated + realTimeFactor * (start - anchor.wall) / 1000;
+  const halfStep = engine.getTimeStep() / 2;
+
+  try {
+    while (engine.getState().time < target - halfStep && performance.now() - start < STEP_BUDGET) {
+      engine.step();
+    }
+  } catch (error) {
+    // Stop rather than keep stepping a diverged solution
+    fail(error);
+    return;
+  }
+
+  const now = performance.now();
+  if (target - engine.getState().time > realTimeFactor * MAX_LAG / 1000) {
+    anchor = { wall: now, simulated: engine.getState().time };
+  }
+  // Nothing new to show at low speed until the next step is due
+  if (now - lastSnapshot.wall >= SNAPSHOT_INTERVAL && engine.getState().time !== lastSnapshot.simulated) postSnapshot();
+  timer = setTimeout(tick, TICK_INTERVAL);
+}
+
+// End the study, finished or not, and tell the UI; an error is one that
+// stopped the study as a whole, e.g. a distribution that cannot be drawn from
+function finishStudy(error: unknown = null): void {
+  if (studyTimer !== null) clearTimeout(studyTimer);
+  studyTimer = null;
+  if (!study) return;
+  const { requestId } = study;
+  study = null;
+  const message = error === null ? null : error instanceof Error ? error.message : String(error);
+  context.postMessage({ type: 'studyDone', requestId, error: message });
+}
+
+function studyTick(): void {
+  studyTimer = null;
+  if (!study) return;
+  const current = study;
+  const start = performance.now();
+  try {
+    current.study.runNext(1);
+    while (!current.study.isDone() && performance.now() - start < STUDY_BUDGET) current.study.runNext(1);
+  } catch (error) {
+    finishStudy(error);
+    return;
+  }
+  const now = performance.now();
+  if (current.study.isDone() || now - current.lastProgress >= PROGRESS_INTERVAL) {
+    current.lastProgress = now;
+    context.postMessage({
+      type: 'studyProgress',
+      requestId: current.requestId,
+      result: current.study.getResult(),
+      progress: current.study.getProgress()
+    });
+  }
+  if (current.study.isDone()) finishStudy();
+  else studyTimer = setTimeout(studyTick, TICK_INTERVAL);
+}
+
+// Take over a new run, paused, e.g. after a reset or a branch
+function replaceEngine(next: SimulationEngine): void {
+  stop();
+  engine = next;
+  engine.setHistoryInterval(historyInterval(engine.getTimeStep()));
+  engine.setTrendWindow(trendWindow);
+  reanchor();
+  postSnapshot();
+}
+
+function handle(command: SimulationCommand): void {
+  if (command.type === 'reset') {
+    replaceEngine(new SimulationEngine(command.setup));
+    return;
+  }
+  // Studies do not need the live run
+  if (command.type === 'startStudy') {
+    finishStudy();
+    const { parameters, initialState, distributions, options } = command.setup;
+    try {
+      study = {
+        requestId: command.requestId,
+        study: new MonteCarloStudy(parameters, initialState, distributions, options),
+        lastProgress: performance.now()
+      };
+    } catch (error) {
+      context.postMessage({ type: 'studyDone', requestId: command.requestId, error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    context.postMessage({
+      type: 'studyProgress',
+      requestId: command.requestId,
+      result: study.study.getResult(),
+      progress: study.study.getProgress()
+    });
+    studyTimer = setTimeout(studyTick, 0);
+    return;
+  }
+  if (command.type === 'cancelStudy') {
+    finishStudy();
+    return;
+  }
+  if (!engine) return;
+
+  switch (command.type) {
+    case 'run':
+      if (running) return;
+      running = true;
+      reanchor();
+      timer = setTimeout(tick, 0);
+      return;
+    case 'pause':
+      stop();
+      break;
+    case 'setSpeed':
+      realTimeFactor = command.realTimeFactor;
+      engine.setHistoryInterval(historyInterval(engine.getTimeStep()));
+      reanchor();
+      return;
+    case 'updateParameters':
+      engine.updateParameters(command.parameters);
+      break;
+    case 'setIntegrator':
+      engine.setIntegrator(command.method);
+      break;
+    case 'configureControl':
+      engine.configureControl(command.config);
+      break;
+    case 'configureInterlocks':
+      engine.configureInterlocks(command.config);
+      break;
+    case 'resetInterlock':
+      engine.resetInterlock(command.id, command.parameters);
+      break;
+    case 'configureAlarms':
+      engine.configureAlarms(command.config);
+      break;
+    case 'alarmAction':
+      engine.alarmAction(command.action);
+      break;
+    case 'stopScenario':
+      engine.stopScenario(command.parameters);
+      break;
+    case 'setTrendWindow':
+      trendWindow = command.window;
+      engine.setTrendWindow(trendWindow);
+      break;
+    case 'branch': {
+      const next = engine.branch(command.time);
+      replaceEngine(next);
+      context.postMessage({ type: 'branched', requestId: command.requestId, parameters: next.getOperatorParameters() });
+      return;
+    }
+    case 'setScrubTime':
+      engine.setScrubTime(command.time);
+      break;
+    case 'export': {
+      const text = command.kind === 'alarmLog' ? engine.alarmLogToCSV() : engine.exportRun(command.kind);
+      context.postMessage({ type: 'exported', requestId: command.requestId, text });
+      return;
+    }
+    case 'pinRun':
+      context.postMessage({ type: 'pinned', requestId: command.requestId, run: engine.runSnapshot() });
+      return;
+  }
+  // Show the effect of the command at once, even while paused
+  postSnapshot();
+}
+
+context.onmessage = (event) => {
+  try {
+    handle(event.data);
+  } catch (error) {
+    // e.g. replaying to a branch point
+    fail(error);
+  }
+};